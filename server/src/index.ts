@@ -7,16 +7,42 @@ import jwt, { JwtPayload } from "jsonwebtoken";
 import nodemailer from "nodemailer";
 import rateLimit from "express-rate-limit";
 import crypto from "crypto";
-import { User } from "./models/User";
+import PDFDocument from "pdfkit";
+import * as XLSX from "xlsx";
+import { User, IUser } from "./models/User";
 import { RevokedToken } from "./models/RevokedToken";
 import { PasswordResetToken } from "./models/PasswordResetToken";
 import { EmailVerificationToken } from "./models/EmailVerificationToken";
 import { SystemSettings } from "./models/SystemSettings";
-import { Product } from "./models/Product";
-import { Order } from "./models/Order";
+import { Product, IProduct, GST_RATES, getQuantityRules } from "./models/Product";
+import { Order, IOrder, IOrderDiscount, IOrderLineChange, OrderStatus, OrderActorRole } from "./models/Order";
 import { PendingSettingsChange } from "./models/PendingSettingsChange";
 import { CustomerPricing } from "./models/CustomerPricing";
+import { CustomerGroup } from "./models/CustomerGroup";
+import { CustomerGroupPricing } from "./models/CustomerGroupPricing";
 import { AdminProductPricing } from "./models/AdminProductPricing";
+import { IPriceTier, IPriceVersion, getPricingAt, getUnitPrice } from "./models/PriceVersion";
+import { Payment, PaymentMethod } from "./models/Payment";
+import { Invoice, IInvoice, IInvoiceParty } from "./models/Invoice";
+import { StockMovement, IStockMovement, StockMovementType } from "./models/StockMovement";
+import { DistributorStock } from "./models/DistributorStock";
+import { PurchaseOrder, IPurchaseOrder, IPurchaseOrderLine, PurchaseOrderStatus } from "./models/PurchaseOrder";
+import { ReturnRequest, ReturnReason, RETURN_REASONS, IReturnRequest } from "./models/ReturnRequest";
+import { CreditNote, ICreditNote } from "./models/CreditNote";
+import { OrderTemplate } from "./models/OrderTemplate";
+import { Cart } from "./models/Cart";
+import { DeliveryCalendar, IDeliveryCalendar } from "./models/DeliveryCalendar";
+import { DispatchPlan } from "./models/DispatchPlan";
+import { StandingOrder, IStandingOrder, StandingOrderFrequency } from "./models/StandingOrder";
+import { Promotion, IPromotion, PromotionType, PROMOTION_TYPES } from "./models/Promotion";
+import { Migration } from "./models/Migration";
+import { computeLineTax, roundMoney } from "./lib/gst";
+import { addDays, startOfUtcDay, toDayKey } from "./lib/dates";
+import { StandingOrderSchedule, getStandingOrderDates } from "./lib/standingOrders";
+import { computePromotionDiscounts } from "./lib/promotions";
+import { PriceImportChange, PriceMatrix, PriceMatrixRow, diffPriceImport, productColumn } from "./lib/priceImport";
+import { createInSequence, isDuplicateKeyError } from "./lib/sequence";
+import { RECEIVABLE_BUCKETS, ReceivableBucket, getReceivableBucket } from "./lib/receivables";
 
 // Simple in-memory cache for ETags (key: userId + endpoint + params, value: etag)
 const etagCache = new Map<string, string>();
@@ -84,6 +110,10 @@ const mailTransporter = nodemailer.createTransport({
   },
 });
 
+// Escape user-supplied text (notes, reasons) before it goes into an email's HTML
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
 app.use(cors());
 app.use(express.json({ limit: "2mb" }));
 
@@ -330,6 +360,52 @@ app.get("/api/admin/users/stats", authenticate, requireAdminOrSuper, async (req,
   }
 });
 
+// Revenue of an order: what it has been settled with - cash received plus goods returned against
+// it - up to its total. Credit notes then count as negative revenue when they are issued, so a
+// 1000 order with a 200 credit note and 800 paid nets 800, and a credit note on an unpaid order
+// nets to nothing rather than going negative.
+const ORDER_REVENUE = {
+  $min: [{ $add: [{ $ifNull: ["$amountPaid", 0] }, { $ifNull: ["$creditedAmount", 0] }] }, "$totalAmount"],
+};
+
+type RevenueParty = "adminId" | "distributorId" | "customerId";
+type RevenueRow = { [key in RevenueParty]?: mongoose.Types.ObjectId } & { name: string; email: string; revenue: number; orders: number };
+
+// Sum the credit notes matching the filter, per value of groupBy (or under "total" without one)
+async function getCreditNoteTotals(match: mongoose.FilterQuery<ICreditNote>, groupBy?: RevenueParty): Promise<Map<string, number>> {
+  const rows = await CreditNote.aggregate<{ _id: mongoose.Types.ObjectId | null; total: number }>([
+    { $match: match },
+    { $group: { _id: groupBy ? `$${groupBy}` : null, total: { $sum: "$totalAmount" } } },
+  ]);
+  return new Map(rows.map((row) => [row._id ? row._id.toString() : "total", row.total]));
+}
+
+// Take each party's credit notes off their breakdown row. A party with credit notes but no orders
+// in the period gets a row of its own, with negative revenue.
+async function netCreditNotes(
+  rows: RevenueRow[],
+  match: mongoose.FilterQuery<ICreditNote>,
+  key: RevenueParty
+): Promise<RevenueRow[]> {
+  const credits = await getCreditNoteTotals(match, key);
+  const netted = rows.map((row) => ({ ...row, revenue: roundMoney(row.revenue - (credits.get(String(row[key])) || 0)) }));
+  const listed = new Set(rows.map((row) => String(row[key])));
+  const unlisted = [...credits.keys()].filter((id) => !listed.has(id));
+  if (unlisted.length > 0) {
+    const parties = await User.find({ _id: { $in: unlisted } }).select("name email").lean().exec();
+    for (const party of parties) {
+      netted.push({
+        [key]: party._id,
+        name: party.name,
+        email: party.email,
+        revenue: -roundMoney(credits.get(party._id.toString()) || 0),
+        orders: 0,
+      });
+    }
+  }
+  return netted;
+}
+
 // Get revenue and orders statistics with hierarchical breakdown
 app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, async (req, res) => {
   try {
@@ -364,7 +440,8 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
       return res.status(401).json({ message: "User not found." });
     }
 
-    let filter: any = {};
+    // Cancelled orders are kept for history but never count towards revenue or order totals
+    let filter: any = { status: { $ne: "cancelled" } };
 
     // Apply date filters
     if (dateFilter && dateFilter !== 'all') {
@@ -421,6 +498,14 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
     }
     // Super admin can see everyone
 
+    // Credit notes count in the period they were issued in, whatever the date of their order
+    const creditFilter = { ...filter };
+    delete creditFilter.status;
+    if (creditFilter.createdAt) {
+      creditFilter.issuedAt = creditFilter.createdAt;
+      delete creditFilter.createdAt;
+    }
+
     // Get total revenue and orders in a single optimized aggregation
     const totalStatsResult = await Order.aggregate([
       { $match: filter },
@@ -428,19 +513,14 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
         $group: {
           _id: null,
           totalRevenue: {
-            $sum: {
-              $cond: [
-                { $and: [{ $ne: ["$amountPaid", null] }, { $gt: ["$amountPaid", 0] }] },
-                "$amountPaid",
-                0
-              ]
-            }
+            $sum: ORDER_REVENUE
           },
           totalOrders: { $sum: 1 }
         }
       }
     ]);
-    const totalRevenue = totalStatsResult[0]?.totalRevenue || 0;
+    const totalCredits = (await getCreditNoteTotals(creditFilter)).get("total") || 0;
+    const totalRevenue = roundMoney((totalStatsResult[0]?.totalRevenue || 0) - totalCredits);
     const totalOrders = totalStatsResult[0]?.totalOrders || 0;
 
     // If level is specified, get breakdown
@@ -456,13 +536,7 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
             $group: {
               _id: "$adminId",
               revenue: {
-                $sum: {
-                  $cond: [
-                    { $and: [{ $ne: ["$amountPaid", null] }, { $gt: ["$amountPaid", 0] }] },
-                    "$amountPaid",
-                    0
-                  ]
-                }
+                $sum: ORDER_REVENUE
               },
               orders: { $sum: 1 },
             },
@@ -478,7 +552,7 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
           { $unwind: "$admin" },
           { $project: { adminId: "$_id", name: "$admin.name", email: "$admin.email", revenue: 1, orders: 1 } },
         ]);
-        breakdown = adminBreakdown;
+        breakdown = await netCreditNotes(adminBreakdown, { ...creditFilter, adminId: { $exists: true, $ne: null } }, "adminId");
       } else if (currentUser.role === "admin") {
         // For regular admin: show their distributors directly
         const distributorIds = await User.find({ parentId: currentUser._id, role: "distributor" })
@@ -493,13 +567,7 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
               $group: {
                 _id: "$distributorId",
                 revenue: {
-                  $sum: {
-                    $cond: [
-                      { $and: [{ $ne: ["$amountPaid", null] }, { $gt: ["$amountPaid", 0] }] },
-                      "$amountPaid",
-                      0
-                    ]
-                  }
+                  $sum: ORDER_REVENUE
                 },
                 orders: { $sum: 1 },
               },
@@ -515,7 +583,11 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
             { $unwind: "$distributor" },
             { $project: { distributorId: "$_id", name: "$distributor.name", email: "$distributor.email", revenue: 1, orders: 1 } },
           ]);
-          breakdown = distributorBreakdown;
+          breakdown = await netCreditNotes(
+            distributorBreakdown,
+            { ...creditFilter, distributorId: { $in: distributorObjectIds } },
+            "distributorId"
+          );
         }
       }
     } else if (level === "distributor" && parentId) {
@@ -526,13 +598,7 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
           $group: {
             _id: "$distributorId",
             revenue: {
-              $sum: {
-                $cond: [
-                  { $and: [{ $ne: ["$amountPaid", null] }, { $gt: ["$amountPaid", 0] }] },
-                  "$amountPaid",
-                  0
-                ]
-              }
+              $sum: ORDER_REVENUE
             },
             orders: { $sum: 1 },
           },
@@ -548,7 +614,11 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
         { $unwind: "$distributor" },
         { $project: { distributorId: "$_id", name: "$distributor.name", email: "$distributor.email", revenue: 1, orders: 1 } },
       ]);
-      breakdown = distributorBreakdown;
+      breakdown = await netCreditNotes(
+        distributorBreakdown,
+        { ...creditFilter, adminId: new mongoose.Types.ObjectId(parentId) },
+        "distributorId"
+      );
     } else if (level === "customer" && parentId) {
       // Get revenue and orders per customer under a specific distributor
       const customerBreakdown = await Order.aggregate([
@@ -557,13 +627,7 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
           $group: {
             _id: "$customerId",
             revenue: {
-              $sum: {
-                $cond: [
-                  { $and: [{ $ne: ["$amountPaid", null] }, { $gt: ["$amountPaid", 0] }] },
-                  "$amountPaid",
-                  0
-                ]
-              }
+              $sum: ORDER_REVENUE
             },
             orders: { $sum: 1 },
           },
@@ -579,7 +643,11 @@ app.get("/api/admin/stats/revenue-orders", authenticate, requireAdminOrSuper, as
         { $unwind: "$customer" },
         { $project: { customerId: "$_id", name: "$customer.name", email: "$customer.email", revenue: 1, orders: 1 } },
       ]);
-      breakdown = customerBreakdown;
+      breakdown = await netCreditNotes(
+        customerBreakdown,
+        { ...creditFilter, distributorId: new mongoose.Types.ObjectId(parentId) },
+        "customerId"
+      );
     }
 
     const data = {
@@ -684,7 +752,7 @@ app.get("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
     }
 
     const users = await User.find(filter)
-      .select("name email role isActive lastLoginAt createdAt uid mobileNo businessName address registrationNo registrationCopyUrl createdBy parentId")
+      .select("name email role isActive lastLoginAt createdAt uid mobileNo businessName address registrationNo registrationCopyUrl creditLimit minimumOrderValue createdBy parentId")
       .populate("createdBy", "name email role")
       .populate("parentId", "name email role")
       .sort({ createdAt: -1 })
@@ -756,6 +824,8 @@ app.post("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
       address,
       registrationNo,
       registrationCopyUrl,
+      creditLimit,
+      minimumOrderValue,
     } = req.body as {
       name?: string;
       email?: string;
@@ -776,6 +846,8 @@ app.post("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
       };
       registrationNo?: string;
       registrationCopyUrl?: string;
+      creditLimit?: number | null;
+      minimumOrderValue?: number | null;
     };
 
     if (!name || !email || !password || !role) {
@@ -860,6 +932,26 @@ app.post("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
     }
     // Admin has no parent (only super-admin can create admin)
 
+    // Only a distributor can give their new customer a credit limit
+    if (creditLimit !== undefined && creditLimit !== null) {
+      if (role !== "customer" || creator.role !== "distributor") {
+        return res.status(403).json({ message: "Only the customer's distributor can set a credit limit." });
+      }
+      if (typeof creditLimit !== "number" || isNaN(creditLimit) || creditLimit < 0) {
+        return res.status(400).json({ message: "Credit limit must be a non-negative number." });
+      }
+    }
+
+    // Only an admin can give their new distributor a minimum order value
+    if (minimumOrderValue !== undefined && minimumOrderValue !== null) {
+      if (role !== "distributor" || creator.role !== "admin") {
+        return res.status(403).json({ message: "Only the distributor's admin can set a minimum order value." });
+      }
+      if (typeof minimumOrderValue !== "number" || isNaN(minimumOrderValue) || minimumOrderValue < 0) {
+        return res.status(400).json({ message: "Minimum order value must be a non-negative number." });
+      }
+    }
+
     const newUser = await User.create({
       name,
       email: email.toLowerCase(),
@@ -872,6 +964,8 @@ app.post("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
       address: address || undefined,
       registrationNo,
       registrationCopyUrl,
+      creditLimit: creditLimit ?? undefined,
+      minimumOrderValue: minimumOrderValue ?? undefined,
       createdBy: creator._id,
       parentId: parentId,
       emailVerified: false, // Email not verified yet
@@ -924,6 +1018,8 @@ app.post("/api/admin/users", authenticate, requireAdminOrSuper, async (req, res)
       address: newUser.address,
       registrationNo: newUser.registrationNo,
       registrationCopyUrl: newUser.registrationCopyUrl,
+      creditLimit: newUser.creditLimit,
+      minimumOrderValue: newUser.minimumOrderValue,
       createdBy: populatedUser?.createdBy,
       parentId: populatedUser?.parentId,
       createdAt: (newUser as any).createdAt,
@@ -959,6 +1055,8 @@ app.put("/api/admin/users/:id", authenticate, requireAdminOrSuper, async (req, r
       address,
       registrationNo,
       registrationCopyUrl,
+      creditLimit,
+      minimumOrderValue,
     } = req.body as {
       name?: string;
       email?: string;
@@ -979,6 +1077,8 @@ app.put("/api/admin/users/:id", authenticate, requireAdminOrSuper, async (req, r
       };
       registrationNo?: string;
       registrationCopyUrl?: string;
+      creditLimit?: number | null; // null removes the limit
+      minimumOrderValue?: number | null; // null removes the minimum
     };
 
     const user = await User.findById(id);
@@ -1024,6 +1124,34 @@ app.put("/api/admin/users/:id", authenticate, requireAdminOrSuper, async (req, r
     if (address !== undefined) user.address = address;
     if (registrationNo !== undefined) user.registrationNo = registrationNo;
     if (registrationCopyUrl !== undefined) user.registrationCopyUrl = registrationCopyUrl;
+    if (creditLimit !== undefined) {
+      // Credit limits are set by the customer's own distributor
+      const auth = getAuthUser(req);
+      if (user.role !== "customer" || user.parentId?.toString() !== auth.id) {
+        return res.status(403).json({ message: "Only the customer's distributor can set a credit limit." });
+      }
+      if (creditLimit === null) {
+        user.creditLimit = undefined;
+      } else if (typeof creditLimit !== "number" || isNaN(creditLimit) || creditLimit < 0) {
+        return res.status(400).json({ message: "Credit limit must be a non-negative number." });
+      } else {
+        user.creditLimit = creditLimit;
+      }
+    }
+    if (minimumOrderValue !== undefined) {
+      // Minimum order values are set by the distributor's own admin
+      const auth = getAuthUser(req);
+      if (user.role !== "distributor" || user.parentId?.toString() !== auth.id) {
+        return res.status(403).json({ message: "Only the distributor's admin can set a minimum order value." });
+      }
+      if (minimumOrderValue === null) {
+        user.minimumOrderValue = undefined;
+      } else if (typeof minimumOrderValue !== "number" || isNaN(minimumOrderValue) || minimumOrderValue < 0) {
+        return res.status(400).json({ message: "Minimum order value must be a non-negative number." });
+      } else {
+        user.minimumOrderValue = minimumOrderValue;
+      }
+    }
 
     await user.save();
 
@@ -1039,6 +1167,8 @@ app.put("/api/admin/users/:id", authenticate, requireAdminOrSuper, async (req, r
       address: user.address,
       registrationNo: user.registrationNo,
       registrationCopyUrl: user.registrationCopyUrl,
+      creditLimit: user.creditLimit,
+      minimumOrderValue: user.minimumOrderValue,
       lastLoginAt: user.lastLoginAt,
       createdAt: (user as any).createdAt,
     });
@@ -1183,6 +1313,16 @@ app.post("/api/admin/users/:id/force-reset", authenticate, requireAdminOrSuper,
   }
 });
 
+// The caller, as authenticate attaches it to the request
+interface AuthUser {
+  id: string;
+  role: string;
+  isSuperAdmin?: boolean;
+  token: string;
+}
+
+const getAuthUser = (req: express.Request): AuthUser => (req as express.Request & { user: AuthUser }).user;
+
 // Middleware to authenticate and check blacklist
 async function authenticate(
   req: express.Request,
@@ -1209,7 +1349,7 @@ async function authenticate(
       isSuperAdmin?: boolean;
     };
 
-    (req as any).user = {
+    (req as express.Request & { user: AuthUser }).user = {
       id: payload.sub,
       role: payload.role,
       isSuperAdmin: payload.isSuperAdmin,
@@ -2279,6 +2419,158 @@ app.get("/api/products/pending", authenticate, requireSuperAdmin, async (req, re
   }
 });
 
+type QuantityRuleFields = Pick<IProduct, "packSize" | "minOrderQuantity" | "quantityStep">;
+
+// Returns an error message if a product's pack size, MOQ or quantity step is not a whole number
+// of at least 1, otherwise null. null clears a rule.
+function validateQuantityRuleFields(fields: { [K in keyof QuantityRuleFields]?: number | null }): string | null {
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+      return `${field} must be a whole number of at least 1.`;
+    }
+  }
+  return null;
+}
+
+interface PriceChange {
+  price: number;
+  tiers: IPriceTier[];
+  validFrom: Date;
+  validTo?: Date;
+  standing: boolean; // Undated: applies from now on and replaces the entry's standing price
+}
+
+// Read volume tiers from a request, sorted by minimum quantity. Returns an error message if invalid.
+function parsePriceTiers(tiers: unknown): IPriceTier[] | string {
+  if (tiers === undefined || tiers === null) {
+    return [];
+  }
+  if (!Array.isArray(tiers)) {
+    return "Price tiers must be a list.";
+  }
+  const parsed: IPriceTier[] = [];
+  for (const tier of tiers) {
+    const { minQuantity, price } = (tier || {}) as { minQuantity?: unknown; price?: unknown };
+    if (typeof minQuantity !== "number" || !Number.isInteger(minQuantity) || minQuantity < 2) {
+      return "Each price tier needs a whole minimum quantity of at least 2.";
+    }
+    if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+      return "Each price tier needs a price of 0 or more.";
+    }
+    if (parsed.some((t) => t.minQuantity === minQuantity)) {
+      return `There is more than one price tier from ${minQuantity} units.`;
+    }
+    parsed.push({ minQuantity, price });
+  }
+  return parsed.sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+const samePriceTiers = (a: IPriceTier[], b: IPriceTier[]) =>
+  a.length === b.length && a.every((tier, i) => tier.minQuantity === b[i].minQuantity && tier.price === b[i].price);
+
+// Read a price change from a request. Without dates the price applies from now on; validFrom
+// schedules it (a start that has already passed means now) and validTo makes it temporary.
+// Volume tiers go with the price. Returns an error message if the price, tiers or dates are invalid.
+function parsePriceChange(
+  price: unknown,
+  tiers: unknown,
+  validFrom: unknown,
+  validTo: unknown,
+  now = new Date()
+): PriceChange | string {
+  if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+    return "Price must be a number of 0 or more.";
+  }
+  const parsedTiers = parsePriceTiers(tiers);
+  if (typeof parsedTiers === "string") {
+    return parsedTiers;
+  }
+  const from = validFrom ? new Date(String(validFrom)) : now;
+  const to = validTo ? new Date(String(validTo)) : undefined;
+  if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+    return "validFrom and validTo must be valid dates.";
+  }
+  const start = from < now ? now : from;
+  if (to && to <= start) {
+    return "validTo must be after validFrom and in the future.";
+  }
+  return { price, tiers: parsedTiers, validFrom: start, validTo: to, standing: !validFrom && !validTo };
+}
+
+const toPriceVersion = (change: PriceChange, user: IUser): IPriceVersion => ({
+  price: change.price,
+  tiers: change.tiers,
+  validFrom: change.validFrom,
+  validTo: change.validTo,
+  setBy: user._id as mongoose.Types.ObjectId,
+  setByName: user.name,
+});
+
+// Drop a price change that hasn't started yet from an entry's versions. Returns an error message
+// if there is no such version or it has already applied to orders.
+function cancelScheduledPrice(versions: IPriceVersion[], versionId: string, now = new Date()): string | null {
+  const index = versions.findIndex((version) => version._id?.toString() === versionId);
+  if (index === -1) {
+    return "Price change not found.";
+  }
+  if (versions[index].validFrom <= now) {
+    return "Only price changes that haven't started yet can be cancelled.";
+  }
+  versions.splice(index, 1);
+  return null;
+}
+
+// A populated product with its base price and tiers resolved for now, without the version history
+function withCurrentBasePrice<T extends { price: number; priceTiers?: IPriceTier[]; priceVersions?: IPriceVersion[] }>(
+  product: T
+) {
+  const { priceVersions, ...rest } = product;
+  const { price, tiers } = getPricingAt(priceVersions, product.price, product.priceTiers);
+  return { ...rest, price, priceTiers: tiers };
+}
+
+type LevelPricing = { price: number | undefined; tiers: IPriceTier[] };
+
+// Price hierarchy: customer-specific price > customer group price > admin-set distributor price >
+// base product price. A level's volume tiers go with its price, so a lower level's tiers never
+// apply once a higher level is priced.
+function pickPricing(
+  customer: LevelPricing | undefined,
+  group: LevelPricing | undefined,
+  admin: LevelPricing | undefined,
+  base: { price: number; tiers: IPriceTier[] }
+): { price: number; tiers: IPriceTier[] } {
+  if (customer?.price) return { price: customer.price, tiers: customer.tiers };
+  if (group?.price) return { price: group.price, tiers: group.tiers };
+  if (admin?.price) return { price: admin.price, tiers: admin.tiers };
+  return base;
+}
+
+type PriceEntry = { productId: mongoose.Types.ObjectId; customPrice?: number; priceTiers: IPriceTier[]; priceVersions: IPriceVersion[] };
+
+const toLevelMap = (entries: PriceEntry[], at: Date) =>
+  new Map<string, LevelPricing>(
+    entries.map((p) => [p.productId.toString(), getPricingAt(p.priceVersions, p.customPrice, p.priceTiers, at)])
+  );
+
+// A customer's own prices and their group's price list from their distributor, keyed by product
+// id, as they apply at a moment. Pass productIds to load only those products' prices.
+async function getCustomerPriceLevels(
+  customer: IUser,
+  distributorId: mongoose.Types.ObjectId,
+  at: Date = new Date(),
+  productIds?: Array<string | mongoose.Types.ObjectId>
+): Promise<{ customer: Map<string, LevelPricing>; group: Map<string, LevelPricing> }> {
+  const productFilter = productIds ? { productId: { $in: productIds } } : {};
+  const [customerPricing, groupPricing] = await Promise.all([
+    CustomerPricing.find({ customerId: customer._id, distributorId, ...productFilter }).lean().exec(),
+    customer.customerGroupId
+      ? CustomerGroupPricing.find({ groupId: customer.customerGroupId, distributorId, ...productFilter }).lean().exec()
+      : [],
+  ]);
+  return { customer: toLevelMap(customerPricing, at), group: toLevelMap(groupPricing, at) };
+}
+
 // Create product (admin creates as pending, super admin creates as approved)
 app.post("/api/products", authenticate, requireAdminOrSuper, async (req, res) => {
   try {
@@ -2289,19 +2581,47 @@ app.post("/api/products", authenticate, requireAdminOrSuper, async (req, res) =>
       imageUrl,
       stock,
       category,
+      hsnCode,
+      gstRate,
+      unit,
+      packSize,
+      minOrderQuantity,
+      quantityStep,
+      priceTiers,
     } = req.body as {
       name?: string;
       description?: string;
       price?: number;
+      priceTiers?: IPriceTier[];
       imageUrl?: string;
       stock?: number;
       category?: string;
+      hsnCode?: string;
+      gstRate?: number;
+      unit?: string;
+      packSize?: number | null;
+      minOrderQuantity?: number | null;
+      quantityStep?: number | null;
     };
 
     if (!name || !price) {
       return res.status(400).json({ message: "Name and price are required." });
     }
 
+    const tiers = parsePriceTiers(priceTiers);
+    if (typeof tiers === "string") {
+      return res.status(400).json({ message: tiers });
+    }
+
+    if (gstRate !== undefined && !GST_RATES.includes(gstRate)) {
+      return res.status(400).json({ message: `GST rate must be one of ${GST_RATES.join(", ")}.` });
+    }
+
+    const rulesError = validateQuantityRuleFields({ packSize, minOrderQuantity, quantityStep });
+    if (rulesError) {
+      return res.status(400).json({ message: rulesError });
+    }
+
     const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
     const creator = await User.findById(auth.id);
     if (!creator) {
@@ -2311,18 +2631,41 @@ app.post("/api/products", authenticate, requireAdminOrSuper, async (req, res) =>
     // Super admin creates as approved, admin creates as pending
     const status = auth.isSuperAdmin ? "approved" : "pending";
 
+    if (stock !== undefined && stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+      return res.status(400).json({ message: "Stock must be a whole number of 0 or more." });
+    }
+
+    // Opening stock goes through the ledger like any other receipt
+    const trackInventory = stock !== undefined && stock !== null;
     const product = await Product.create({
       name,
       description,
       price,
       imageUrl: imageUrl && imageUrl.trim() !== '' ? imageUrl.trim() : undefined,
-      stock: stock !== undefined && stock !== null ? stock : undefined,
+      trackInventory,
+      stock: 0,
       category,
+      hsnCode: hsnCode?.trim() || undefined,
+      gstRate: gstRate ?? 0,
+      unit: unit?.trim() || undefined,
+      packSize: packSize ?? undefined,
+      minOrderQuantity: minOrderQuantity ?? undefined,
+      quantityStep: quantityStep ?? undefined,
+      priceTiers: tiers,
+      priceVersions: [{ price, tiers, validFrom: new Date(), setBy: creator._id, setByName: creator.name }],
       isActive: true,
       status,
       createdBy: creator._id,
     });
 
+    if (trackInventory && stock > 0) {
+      await moveStock(
+        product._id as mongoose.Types.ObjectId,
+        { type: "receipt", stockChange: stock, note: "Opening stock" },
+        { id: creator._id, name: creator.name, role: "admin" }
+      );
+    }
+
     const populatedProduct = await Product.findById(product._id)
       .populate("createdBy", "name email")
       .lean()
@@ -2346,40 +2689,117 @@ app.put("/api/products/:id", authenticate, requireAdminOrSuper, async (req, res)
       imageUrl,
       stock,
       category,
+      hsnCode,
+      gstRate,
+      unit,
+      packSize,
+      minOrderQuantity,
+      quantityStep,
       isActive,
+      priceTiers,
+      priceValidFrom,
+      priceValidTo,
     } = req.body as {
       name?: string;
       description?: string;
       price?: number;
+      priceTiers?: IPriceTier[]; // Volume prices that go with price; left out to keep the current ones
+      priceValidFrom?: string; // Schedule the new price instead of applying it now
+      priceValidTo?: string;
       imageUrl?: string;
       stock?: number;
       category?: string;
+      hsnCode?: string;
+      gstRate?: number;
+      unit?: string;
+      packSize?: number | null;
+      minOrderQuantity?: number | null;
+      quantityStep?: number | null;
       isActive?: boolean;
     };
 
+    if (gstRate !== undefined && !GST_RATES.includes(gstRate)) {
+      return res.status(400).json({ message: `GST rate must be one of ${GST_RATES.join(", ")}.` });
+    }
+
+    const rulesError = validateQuantityRuleFields({ packSize, minOrderQuantity, quantityStep });
+    if (rulesError) {
+      return res.status(400).json({ message: rulesError });
+    }
+
     const product = await Product.findById(id);
     if (!product) {
       return res.status(404).json({ message: "Product not found." });
     }
 
     const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
+    const editor = await User.findById(auth.id);
+    if (!editor) {
+      return res.status(401).json({ message: "User not found." });
+    }
+
+    // Every base price change is kept as a version; a dated one is scheduled next to the current price.
+    // The form sends the current price and tiers back unchanged, which isn't a change.
+    let priceChange: PriceChange | null = null;
+    if (price !== undefined) {
+      const current = getPricingAt(product.priceVersions, product.price, product.priceTiers);
+      const change = parsePriceChange(price, priceTiers ?? current.tiers, priceValidFrom, priceValidTo);
+      if (typeof change === "string") {
+        return res.status(400).json({ message: change });
+      }
+      if (priceValidFrom || priceValidTo || change.price !== current.price || !samePriceTiers(change.tiers, current.tiers)) {
+        priceChange = change;
+      }
+    }
 
     // Update fields
     if (name !== undefined) product.name = name;
     if (description !== undefined) product.description = description;
-    if (price !== undefined) product.price = price;
+    if (priceChange) {
+      product.priceVersions.push(toPriceVersion(priceChange, editor));
+      if (priceChange.standing) {
+        product.price = priceChange.price;
+        product.priceTiers = priceChange.tiers;
+      }
+    }
     if (imageUrl !== undefined) {
       product.imageUrl = imageUrl && imageUrl.trim() !== '' ? imageUrl.trim() : undefined;
     }
+    // Stock is never written directly: null turns tracking off, and a new quantity is recorded
+    // in the ledger as the difference from the current stock once the product is saved
+    let stockChange = 0;
+    const wasTracked = product.trackInventory;
     if (stock !== undefined) {
-      // If stock is explicitly null, remove stock tracking
+      const reserved = product.reservedStock || 0;
       if (stock === null) {
-        product.stock = undefined;
+        if (reserved > 0) {
+          return res.status(400).json({
+            message: `${reserved} units are reserved for open orders. Stock tracking can't be turned off until they are delivered or cancelled.`,
+          });
+        }
+        product.trackInventory = false;
       } else {
-        product.stock = stock;
+        if (!Number.isInteger(stock) || stock < 0) {
+          return res.status(400).json({ message: "Stock must be a whole number of 0 or more." });
+        }
+        if (stock < reserved) {
+          return res.status(400).json({ message: `${reserved} units are reserved for open orders. Stock can't be set below that.` });
+        }
+        if (!wasTracked) {
+          product.trackInventory = true;
+          product.stock = 0;
+          product.reservedStock = 0;
+        }
+        stockChange = stock - (product.stock || 0);
       }
     }
     if (category !== undefined) product.category = category;
+    if (hsnCode !== undefined) product.hsnCode = hsnCode.trim() || undefined;
+    if (gstRate !== undefined) product.gstRate = gstRate;
+    if (unit !== undefined) product.unit = unit.trim() || undefined;
+    if (packSize !== undefined) product.packSize = packSize ?? undefined;
+    if (minOrderQuantity !== undefined) product.minOrderQuantity = minOrderQuantity ?? undefined;
+    if (quantityStep !== undefined) product.quantityStep = quantityStep ?? undefined;
     if (isActive !== undefined && auth.isSuperAdmin) product.isActive = isActive;
 
     // If admin updates, set status to pending for review
@@ -2392,6 +2812,18 @@ app.put("/api/products/:id", authenticate, requireAdminOrSuper, async (req, res)
 
     await product.save();
 
+    if (stockChange !== 0) {
+      await moveStock(
+        product._id as mongoose.Types.ObjectId,
+        {
+          type: wasTracked ? "adjustment" : "receipt",
+          stockChange,
+          note: wasTracked ? "Updated from product details" : "Opening stock",
+        },
+        { id: editor._id as mongoose.Types.ObjectId, name: editor.name, role: "admin" }
+      );
+    }
+
     const populatedProduct = await Product.findById(product._id)
       .populate("createdBy", "name email")
       .populate("reviewedBy", "name email")
@@ -2405,6 +2837,33 @@ app.put("/api/products/:id", authenticate, requireAdminOrSuper, async (req, res)
   }
 });
 
+// Cancel a scheduled base price change
+app.delete("/api/products/:id/price-versions/:versionId", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const product = await Product.findById(req.params.id);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
+
+    // Base prices belong to the product's owner; distributors price through their own lists
+    const auth = getAuthUser(req);
+    if (!auth.isSuperAdmin && product.createdBy?.toString() !== auth.id) {
+      return res.status(403).json({ message: "Access denied. Only the product's owner can cancel its price changes." });
+    }
+
+    const cancelError = cancelScheduledPrice(product.priceVersions, req.params.versionId);
+    if (cancelError) {
+      return res.status(400).json({ message: cancelError });
+    }
+    await product.save();
+
+    return res.status(200).json(product);
+  } catch (error) {
+    console.error("Cancel product price change error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 // Delete product (super admin only)
 app.delete("/api/products/:id", authenticate, requireSuperAdmin, async (req, res) => {
   try {
@@ -2422,6 +2881,91 @@ app.delete("/api/products/:id", authenticate, requireSuperAdmin, async (req, res
   }
 });
 
+// Get a product's stock movement history (admin and super admin)
+app.get("/api/products/:id/stock-movements", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const admin = await User.findById(auth.id);
+    if (!admin || (admin.role !== "admin" && !auth.isSuperAdmin)) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
+    }
+
+    const product = await Product.findById(req.params.id)
+      .select("name trackInventory stock reservedStock")
+      .lean()
+      .exec();
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
+
+    const movements = await StockMovement.find({ productId: product._id, distributorId: null })
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean()
+      .exec();
+
+    return res.status(200).json({
+      product: { ...product, available: getAvailableStock(product) },
+      movements,
+    });
+  } catch (error) {
+    console.error("Get stock movements error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Record a receipt, return or manual adjustment against a tracked product (admin and super admin)
+app.post("/api/products/:id/stock-movements", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { type, quantity, note } = req.body as { type?: string; quantity?: number; note?: string };
+
+    const admin = await User.findById(auth.id);
+    if (!admin || (admin.role !== "admin" && !auth.isSuperAdmin)) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
+    }
+
+    if (type !== "receipt" && type !== "return" && type !== "adjustment") {
+      return res.status(400).json({ message: "type must be receipt, return or adjustment." });
+    }
+    if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity === 0) {
+      return res.status(400).json({ message: "quantity must be a non-zero whole number." });
+    }
+    if (type !== "adjustment" && quantity < 0) {
+      return res.status(400).json({ message: "Receipts and returns must add stock. Use an adjustment to remove it." });
+    }
+    if (type === "adjustment" && !note?.trim()) {
+      return res.status(400).json({ message: "A note is required for stock adjustments." });
+    }
+
+    const product = await Product.findById(req.params.id).select("trackInventory stock reservedStock").lean().exec();
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
+    if (!product.trackInventory) {
+      return res.status(400).json({ message: "Stock tracking is not enabled for this product." });
+    }
+
+    // Stock on hand can't drop below what is already reserved for open orders
+    const movement = await moveStock(
+      product._id as mongoose.Types.ObjectId,
+      { type, stockChange: quantity, note },
+      { id: admin._id, name: admin.name, role: "admin" },
+      { $expr: { $gte: [{ $add: ["$stock", quantity] }, { $ifNull: ["$reservedStock", 0] }] } }
+    );
+    if (!movement) {
+      return res.status(400).json({
+        message: `Only ${getAvailableStock(product) ?? 0} units are not reserved for open orders. Stock can't be reduced by more than that.`,
+      });
+    }
+
+    return res.status(201).json(movement);
+  } catch (error) {
+    console.error("Record stock movement error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 // Approve product (super admin only)
 app.post("/api/products/:id/approve", authenticate, requireSuperAdmin, async (req, res) => {
   try {
@@ -2506,12 +3050,23 @@ app.get("/api/distributor/customer-pricing", authenticate, async (req, res) => {
       return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const pricing = await CustomerPricing.find({ distributorId: distributor._id })
+    const entries = await CustomerPricing.find({ distributorId: distributor._id })
       .populate("customerId", "name email")
-      .populate("productId", "name price imageUrl")
+      .populate("productId", "name price priceTiers priceVersions imageUrl")
       .lean()
       .exec();
 
+    // Each entry comes with the price and tiers that apply now (null price before a scheduled first price starts)
+    const pricing = entries.map((entry) => {
+      const current = getPricingAt(entry.priceVersions, entry.customPrice, entry.priceTiers);
+      return {
+        ...entry,
+        productId: entry.productId && withCurrentBasePrice(entry.productId as unknown as IProduct),
+        currentPrice: current.price ?? null,
+        currentTiers: current.tiers,
+      };
+    });
+
     setCacheHeaders(res, cacheKey, pricing);
     return res.status(200).json(pricing);
   } catch (error) {
@@ -2529,16 +3084,24 @@ app.post("/api/distributor/customer-pricing", authenticate, async (req, res) =>
       return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const { customerId, productId, customPrice } = req.body as {
+    const { customerId, productId, customPrice, priceTiers, validFrom, validTo } = req.body as {
       customerId: string;
       productId: string;
       customPrice: number;
+      priceTiers?: IPriceTier[];
+      validFrom?: string; // Schedule the price instead of applying it now
+      validTo?: string;
     };
 
     if (!customerId || !productId || customPrice === undefined) {
       return res.status(400).json({ message: "customerId, productId, and customPrice are required." });
     }
 
+    const change = parsePriceChange(customPrice, priceTiers, validFrom, validTo);
+    if (typeof change === "string") {
+      return res.status(400).json({ message: change });
+    }
+
     // Verify customer belongs to this distributor
     const customer = await User.findById(customerId);
     if (!customer || customer.role !== "customer" || customer.parentId?.toString() !== distributor._id.toString()) {
@@ -2551,17 +3114,23 @@ app.post("/api/distributor/customer-pricing", authenticate, async (req, res) =>
       return res.status(404).json({ message: "Product not found." });
     }
 
-    const pricing = await CustomerPricing.findOneAndUpdate(
-      { distributorId: distributor._id, customerId, productId },
-      { customPrice },
-      { upsert: true, new: true }
-    )
+    const pricing =
+      (await CustomerPricing.findOne({ distributorId: distributor._id, customerId, productId })) ||
+      new CustomerPricing({ distributorId: distributor._id, customerId, productId });
+    pricing.priceVersions.push(toPriceVersion(change, distributor));
+    if (change.standing) {
+      pricing.customPrice = change.price;
+      pricing.priceTiers = change.tiers;
+    }
+    await pricing.save();
+
+    const populated = await CustomerPricing.findById(pricing._id)
       .populate("customerId", "name email")
       .populate("productId", "name price imageUrl")
       .lean()
       .exec();
 
-    return res.status(200).json(pricing);
+    return res.status(200).json(populated);
   } catch (error) {
     console.error("Set customer pricing error:", error);
     return res.status(500).json({ message: "Internal server error." });
@@ -2590,399 +3159,5074 @@ app.delete("/api/distributor/customer-pricing/:id", authenticate, async (req, re
   }
 });
 
-// ==================== CUSTOMER PRODUCT APIs ====================
-// Get distributor's customers
-app.get("/api/distributor/customers", authenticate, async (req, res) => {
+// Cancel a scheduled customer price change
+app.delete("/api/distributor/customer-pricing/:id/versions/:versionId", authenticate, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-
-    // Check cache first
-    const cacheKey = `distributor-customers-${auth.id}`;
-    if (addCaching(req, res, cacheKey)) return;
-
+    const auth = getAuthUser(req);
     const distributor = await User.findById(auth.id);
     if (!distributor || distributor.role !== "distributor") {
       return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const customers = await User.find({
-      parentId: distributor._id,
-      role: "customer",
-      isActive: true,
-    })
-      .select("name email _id")
-      .sort({ name: 1 })
-      .lean()
-      .exec();
+    const pricing = await CustomerPricing.findById(req.params.id);
+    if (!pricing || pricing.distributorId.toString() !== distributor._id.toString()) {
+      return res.status(404).json({ message: "Pricing not found." });
+    }
 
-    setCacheHeaders(res, cacheKey, customers);
-    return res.status(200).json(customers);
+    const cancelError = cancelScheduledPrice(pricing.priceVersions, req.params.versionId);
+    if (cancelError) {
+      return res.status(400).json({ message: cancelError });
+    }
+
+    // An entry that was only ever scheduled has nothing left to price with
+    if (pricing.priceVersions.length === 0 && pricing.customPrice === undefined) {
+      await pricing.deleteOne();
+      return res.status(200).json({ message: "Pricing deleted successfully." });
+    }
+
+    await pricing.save();
+    return res.status(200).json(pricing);
   } catch (error) {
-    console.error("Get distributor customers error:", error);
+    console.error("Cancel customer price change error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Get products available to distributor (products that admin has used for this distributor)
-app.get("/api/distributor/products", authenticate, async (req, res) => {
-  try {
-    const auth = (req as any).user as { id: string };
+// ==================== CUSTOMER GROUP APIs ====================
+// Customer groups let a distributor price many customers at once: each group has a price list, and
+// a customer in a group pays the group's price for any product they have no price of their own for.
 
-    // Check cache first
-    const cacheKey = `distributor-products-${auth.id}`;
-    if (addCaching(req, res, cacheKey)) return;
+// The group with this id, if it belongs to the distributor
+async function findOwnCustomerGroup(distributor: IUser, groupId: string) {
+  if (!mongoose.Types.ObjectId.isValid(groupId)) {
+    return null;
+  }
+  const group = await CustomerGroup.findById(groupId);
+  return group && group.distributorId.toString() === distributor._id.toString() ? group : null;
+}
+
+// Read a group's name and description from a request. Returns the fields or an error message.
+function parseCustomerGroup(body: Record<string, unknown>): { name: string; description?: string } | string {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return "A group name is required.";
+  }
+  const description = typeof body.description === "string" ? body.description.trim() || undefined : undefined;
+  return { name, description };
+}
 
+// List the distributor's customer groups with their members and the size of their price list
+app.get("/api/distributor/customer-groups", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
     const distributor = await User.findById(auth.id);
     if (!distributor || distributor.role !== "distributor") {
       return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    // Get distributor's admin
-    const adminId = distributor.parentId || distributor.createdBy;
-    if (!adminId) {
-      return res.status(400).json({ message: "No admin associated with distributor." });
-    }
-
-    // Get products that the admin has "used" (has pricing set for this distributor)
-    const adminPricing = await AdminProductPricing.find({
-      adminId,
-      distributorId: distributor._id,
-      isActive: true,
-    })
-      .populate("productId")
-      .lean()
-      .exec();
+    const [groups, members, priceCounts] = await Promise.all([
+      CustomerGroup.find({ distributorId: distributor._id }).sort({ name: 1 }).lean().exec(),
+      User.find({ parentId: distributor._id, role: "customer", customerGroupId: { $exists: true } })
+        .select("customerGroupId")
+        .lean()
+        .exec(),
+      CustomerGroupPricing.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+        { $match: { distributorId: distributor._id } },
+        { $group: { _id: "$groupId", count: { $sum: 1 } } },
+      ]),
+    ]);
+    const priceCountMap = new Map(priceCounts.map((entry) => [entry._id.toString(), entry.count]));
 
-    // Filter and transform products
-    const products = adminPricing
-      .filter((p) => p.productId && (p.productId as any).status === "approved" && (p.productId as any).isActive)
-      .map((p) => {
-        const product = p.productId as any;
-        return {
-          _id: product._id,
-          name: product.name,
-          price: p.customPrice || product.price,
-          imageUrl: product.imageUrl,
-          description: product.description,
-          category: product.category,
-        };
-      });
+    const result = groups.map((group) => ({
+      ...group,
+      customerIds: members
+        .filter((member) => member.customerGroupId?.toString() === group._id.toString())
+        .map((member) => member._id),
+      priceCount: priceCountMap.get(group._id.toString()) || 0,
+    }));
 
-    setCacheHeaders(res, cacheKey, products);
-    return res.status(200).json(products);
+    return res.status(200).json(result);
   } catch (error) {
-    console.error("Get distributor products error:", error);
+    console.error("Get customer groups error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Get products available to customer (with custom pricing if set)
-app.get("/api/customer/products", authenticate, async (req, res) => {
+// Create a customer group
+app.post("/api/distributor/customer-groups", authenticate, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-
-    // Check cache first
-    const cacheKey = `customer-products-${auth.id}`;
-    if (addCaching(req, res, cacheKey)) return;
-
-    const customer = await User.findById(auth.id);
-    if (!customer || customer.role !== "customer") {
-      return res.status(403).json({ message: "Access denied. Customer only." });
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    // Get customer's distributor
-    if (!customer.parentId) {
-      return res.status(400).json({ message: "Customer has no associated distributor." });
+    const fields = parseCustomerGroup(req.body);
+    if (typeof fields === "string") {
+      return res.status(400).json({ message: fields });
+    }
+    if (await CustomerGroup.exists({ distributorId: distributor._id, name: fields.name })) {
+      return res.status(400).json({ message: `You already have a group called ${fields.name}.` });
     }
 
-    const distributor = await User.findById(customer.parentId);
+    const group = await CustomerGroup.create({ ...fields, distributorId: distributor._id });
+    return res.status(201).json(group);
+  } catch (error) {
+    console.error("Create customer group error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Rename a customer group or change its description
+app.put("/api/distributor/customer-groups/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
     if (!distributor || distributor.role !== "distributor") {
-      return res.status(400).json({ message: "Distributor not found." });
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    // Get distributor's admin
-    const adminId = distributor.parentId || distributor.createdBy;
-    if (!adminId) {
-      return res.status(400).json({ message: "No admin associated with distributor." });
+    const group = await findOwnCustomerGroup(distributor, req.params.id);
+    if (!group) {
+      return res.status(404).json({ message: "Customer group not found." });
     }
 
-    // Get products that the admin has "used" (has pricing set for this distributor)
-    const adminPricing = await AdminProductPricing.find({
-      adminId,
-      distributorId: distributor._id,
-      isActive: true,
-    })
-      .populate("productId")
-      .lean()
-      .exec();
-
-    // Get custom pricing for this customer (distributor-customer pricing)
-    const customerPricing = await CustomerPricing.find({
-      customerId: customer._id,
-      distributorId: distributor._id,
-    }).lean().exec();
-
-    const customerPricingMap = new Map(customerPricing.map((p) => [p.productId.toString(), p.customPrice]));
-
-    // Build products list from admin pricing
-    const productsWithPricing = adminPricing
-      .filter((p) => p.productId && (p.productId as any).status === "approved" && (p.productId as any).isActive)
-      .map((p) => {
-        const product = p.productId as any;
-        const customerPrice = customerPricingMap.get(product._id.toString());
-        return {
-          ...product,
-          price: customerPrice || p.customPrice || product.price,
-          hasCustomPrice: customerPricingMap.has(product._id.toString()) || p.customPrice !== product.price,
-        };
-      });
+    const fields = parseCustomerGroup(req.body);
+    if (typeof fields === "string") {
+      return res.status(400).json({ message: fields });
+    }
+    if (await CustomerGroup.exists({ distributorId: distributor._id, name: fields.name, _id: { $ne: group._id } })) {
+      return res.status(400).json({ message: `You already have a group called ${fields.name}.` });
+    }
 
-    setCacheHeaders(res, cacheKey, productsWithPricing);
-    return res.status(200).json(productsWithPricing);
+    group.name = fields.name;
+    group.description = fields.description;
+    await group.save();
+    return res.status(200).json(group);
   } catch (error) {
-    console.error("Get customer products error:", error);
+    console.error("Update customer group error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// ==================== ORDER APIs ====================
-// Create order (customer only)
-app.post("/api/customer/orders", authenticate, async (req, res) => {
+// Set a group's members. Customers listed join the group (leaving any other group they were in);
+// members not listed leave it.
+app.put("/api/distributor/customer-groups/:id/members", authenticate, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-    const customer = await User.findById(auth.id);
-    if (!customer || customer.role !== "customer") {
-      return res.status(403).json({ message: "Access denied. Customer only." });
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const { items, desiredDeliveryDate } = req.body as {
-      items: Array<{ productId: string; quantity: number }>;
-      desiredDeliveryDate: string;
-    };
+    const group = await findOwnCustomerGroup(distributor, req.params.id);
+    if (!group) {
+      return res.status(404).json({ message: "Customer group not found." });
+    }
 
-    if (!items || items.length === 0 || !desiredDeliveryDate) {
-      return res.status(400).json({ message: "items and desiredDeliveryDate are required." });
+    const { customerIds } = req.body as { customerIds?: string[] };
+    if (!Array.isArray(customerIds) || customerIds.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ message: "customerIds must be a list of customer ids." });
+    }
+    const ids = [...new Set(customerIds.map(String))];
+    const ownCustomers = await User.countDocuments({ _id: { $in: ids }, parentId: distributor._id, role: "customer" });
+    if (ownCustomers !== ids.length) {
+      return res.status(403).json({ message: "Some customers were not found or don't belong to you." });
     }
 
-    // Get customer's distributor and admin
-    if (!customer.parentId) {
-      return res.status(400).json({ message: "Customer has no associated distributor." });
+    await User.updateMany(
+      { parentId: distributor._id, role: "customer", customerGroupId: group._id, _id: { $nin: ids } },
+      { $unset: { customerGroupId: 1 } }
+    );
+    await User.updateMany({ _id: { $in: ids } }, { $set: { customerGroupId: group._id } });
+
+    return res.status(200).json({ ...group.toObject(), customerIds: ids });
+  } catch (error) {
+    console.error("Set customer group members error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Delete a customer group with its price list. Its members go back to the distributor's prices.
+app.delete("/api/distributor/customer-groups/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const distributor = await User.findById(customer.parentId);
-    if (!distributor) {
-      return res.status(400).json({ message: "Distributor not found." });
+    const group = await findOwnCustomerGroup(distributor, req.params.id);
+    if (!group) {
+      return res.status(404).json({ message: "Customer group not found." });
     }
 
-    const adminId = distributor.parentId || distributor.createdBy;
-    if (!adminId) {
-      return res.status(400).json({ message: "No admin associated with distributor." });
+    await User.updateMany({ customerGroupId: group._id }, { $unset: { customerGroupId: 1 } });
+    await CustomerGroupPricing.deleteMany({ groupId: group._id });
+    await group.deleteOne();
+    return res.status(200).json({ message: "Customer group deleted successfully." });
+  } catch (error) {
+    console.error("Delete customer group error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get the price lists of all the distributor's groups
+app.get("/api/distributor/group-pricing", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    // Get admin pricing for this distributor (products admin has used)
-    const adminPricing = await AdminProductPricing.find({
-      adminId,
-      distributorId: distributor._id,
-      isActive: true,
-    }).lean().exec();
+    const entries = await CustomerGroupPricing.find({ distributorId: distributor._id })
+      .populate("groupId", "name")
+      .populate("productId", "name price priceTiers priceVersions imageUrl")
+      .lean()
+      .exec();
 
-    const adminPricingMap = new Map(adminPricing.map((p) => [p.productId.toString(), p.customPrice]));
+    // Each entry comes with the price and tiers that apply now (null price before a scheduled first price starts)
+    const pricing = entries.map((entry) => {
+      const current = getPricingAt(entry.priceVersions, entry.customPrice, entry.priceTiers);
+      return {
+        ...entry,
+        productId: entry.productId && withCurrentBasePrice(entry.productId as unknown as IProduct),
+        currentPrice: current.price ?? null,
+        currentTiers: current.tiers,
+      };
+    });
 
-    // Get custom pricing for this customer (distributor-customer pricing)
-    const customPricing = await CustomerPricing.find({
-      customerId: customer._id,
-      distributorId: distributor._id,
-    }).lean().exec();
+    return res.status(200).json(pricing);
+  } catch (error) {
+    console.error("Get group pricing error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
 
-    const customerPricingMap = new Map(customPricing.map((p) => [p.productId.toString(), p.customPrice]));
+// Set a product's price on a group's price list, now or scheduled
+app.post("/api/distributor/group-pricing", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
 
-    // Calculate total and build order items
-    let totalAmount = 0;
-    const orderItems = [];
+    const { groupId, productId, customPrice, priceTiers, validFrom, validTo } = req.body as {
+      groupId: string;
+      productId: string;
+      customPrice: number;
+      priceTiers?: IPriceTier[];
+      validFrom?: string; // Schedule the price instead of applying it now
+      validTo?: string;
+    };
 
-    for (const item of items) {
-      const product = await Product.findById(item.productId);
-      if (!product || product.status !== "approved" || !product.isActive) {
-        return res.status(400).json({ message: `Product ${item.productId} not found or not available.` });
-      }
+    if (!groupId || !productId || customPrice === undefined) {
+      return res.status(400).json({ message: "groupId, productId, and customPrice are required." });
+    }
 
-      // Price hierarchy: customer-specific price > admin-set distributor price > base product price
-      const price = customerPricingMap.get(item.productId) || adminPricingMap.get(item.productId) || product.price;
-      const itemTotal = price * item.quantity;
-      totalAmount += itemTotal;
+    const change = parsePriceChange(customPrice, priceTiers, validFrom, validTo);
+    if (typeof change === "string") {
+      return res.status(400).json({ message: change });
+    }
 
-      orderItems.push({
-        productId: product._id,
-        quantity: item.quantity,
-        price,
-      });
+    const group = await findOwnCustomerGroup(distributor, groupId);
+    if (!group) {
+      return res.status(404).json({ message: "Customer group not found." });
     }
 
-    // Generate order number
-    const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+    const product = await Product.findById(productId);
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
 
-    // Create order
-    const deliveryDate = new Date(desiredDeliveryDate);
-    const order = await Order.create({
-      orderNumber,
-      customerId: customer._id,
-      distributorId: distributor._id,
-      adminId,
-      items: orderItems,
-      totalAmount,
-      status: "pending",
-      desiredDeliveryDate: deliveryDate,
-      currentDeliveryDate: deliveryDate,
-    });
+    const pricing =
+      (await CustomerGroupPricing.findOne({ groupId: group._id, productId })) ||
+      new CustomerGroupPricing({ distributorId: distributor._id, groupId: group._id, productId });
+    pricing.priceVersions.push(toPriceVersion(change, distributor));
+    if (change.standing) {
+      pricing.customPrice = change.price;
+      pricing.priceTiers = change.tiers;
+    }
+    await pricing.save();
 
-    const populatedOrder = await Order.findById(order._id)
-      .populate("customerId", "name email")
-      .populate("distributorId", "name email")
-      .populate("items.productId", "name imageUrl")
+    const populated = await CustomerGroupPricing.findById(pricing._id)
+      .populate("groupId", "name")
+      .populate("productId", "name price imageUrl")
       .lean()
       .exec();
 
-    return res.status(201).json(populatedOrder);
+    return res.status(200).json(populated);
   } catch (error) {
-    console.error("Create order error:", error);
+    console.error("Set group pricing error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Get customer orders
-app.get("/api/customer/orders", authenticate, async (req, res) => {
+// Remove a product from a group's price list
+app.delete("/api/distributor/group-pricing/:id", authenticate, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-
-    // Check cache first
-    const cacheKey = `customer-orders-${auth.id}`;
-    if (addCaching(req, res, cacheKey)) return;
-
-    const customer = await User.findById(auth.id);
-    if (!customer || customer.role !== "customer") {
-      return res.status(403).json({ message: "Access denied. Customer only." });
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const orders = await Order.find({ customerId: customer._id })
-      .populate("items.productId", "name imageUrl")
-      .sort({ createdAt: -1 })
-      .lean()
-      .exec();
+    const pricing = await CustomerGroupPricing.findById(req.params.id);
+    if (!pricing || pricing.distributorId.toString() !== distributor._id.toString()) {
+      return res.status(404).json({ message: "Pricing not found." });
+    }
 
-    setCacheHeaders(res, cacheKey, orders);
-    return res.status(200).json(orders);
+    await pricing.deleteOne();
+    return res.status(200).json({ message: "Pricing deleted successfully." });
   } catch (error) {
-    console.error("Get customer orders error:", error);
+    console.error("Delete group pricing error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Mark order as received (customer)
-app.post("/api/customer/orders/:id/receive", authenticate, async (req, res) => {
+// Cancel a scheduled group price change
+app.delete("/api/distributor/group-pricing/:id/versions/:versionId", authenticate, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-    const customer = await User.findById(auth.id);
-    if (!customer || customer.role !== "customer") {
-      return res.status(403).json({ message: "Access denied. Customer only." });
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
     }
 
-    const order = await Order.findById(req.params.id);
-    if (!order || order.customerId.toString() !== customer._id.toString()) {
-      return res.status(404).json({ message: "Order not found or doesn't belong to you." });
+    const pricing = await CustomerGroupPricing.findById(req.params.id);
+    if (!pricing || pricing.distributorId.toString() !== distributor._id.toString()) {
+      return res.status(404).json({ message: "Pricing not found." });
     }
 
-    if (order.receivedAt) {
-      return res.status(400).json({ message: "Order already marked as received." });
+    const cancelError = cancelScheduledPrice(pricing.priceVersions, req.params.versionId);
+    if (cancelError) {
+      return res.status(400).json({ message: cancelError });
     }
 
-    order.receivedAt = new Date();
-    order.status = "delivered";
-    await order.save();
+    // An entry that was only ever scheduled has nothing left to price with
+    if (pricing.priceVersions.length === 0 && pricing.customPrice === undefined) {
+      await pricing.deleteOne();
+      return res.status(200).json({ message: "Pricing deleted successfully." });
+    }
 
-    const populatedOrder = await Order.findById(order._id)
-      .populate("items.productId", "name imageUrl")
+    await pricing.save();
+    return res.status(200).json(pricing);
+  } catch (error) {
+    console.error("Cancel group price change error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== PRICING IMPORT/EXPORT APIs ====================
+// Price matrices in CSV or XLSX: customers × products for a distributor (the price each customer
+// pays now, from whichever level it comes) and distributors × products for an admin. An imported
+// matrix is compared with the current prices first; only cells that differ become price changes,
+// which apply from now on and keep the volume tiers of the entry they update that are still cheaper
+// than the new price (tiers are set one price at a time).
+
+const PRICE_FILE_FORMATS = ["csv", "xlsx"] as const;
+
+// The customers × products matrix of a distributor, priced as their orders would be now
+async function buildDistributorPriceMatrix(distributor: IUser): Promise<PriceMatrix | string> {
+  const adminId = distributor.parentId || distributor.createdBy;
+  if (!adminId) {
+    return "No admin associated with distributor.";
+  }
+
+  const adminPricing = await AdminProductPricing.find({ adminId, distributorId: distributor._id, isActive: true }).lean().exec();
+  const [products, customers, groups, customerPricing, groupPricing] = await Promise.all([
+    Product.find({ _id: { $in: adminPricing.map((p) => p.productId) }, status: "approved", isActive: true })
+      .sort({ name: 1 })
       .lean()
-      .exec();
+      .exec(),
+    User.find({ parentId: distributor._id, role: "customer", isActive: true }).sort({ name: 1 }).lean().exec(),
+    CustomerGroup.find({ distributorId: distributor._id }).lean().exec(),
+    CustomerPricing.find({ distributorId: distributor._id }).lean().exec(),
+    CustomerGroupPricing.find({ distributorId: distributor._id }).lean().exec(),
+  ]);
+
+  const now = new Date();
+  const adminLevels = toLevelMap(adminPricing, now);
+  const groupNames = new Map(groups.map((group) => [group._id.toString(), group.name]));
+  const customerEntries = new Map(
+    customerPricing.map((p) => [`${p.customerId}:${p.productId}`, getPricingAt(p.priceVersions, p.customPrice, p.priceTiers, now)])
+  );
+  const groupEntries = new Map(
+    groupPricing.map((p) => [`${p.groupId}:${p.productId}`, getPricingAt(p.priceVersions, p.customPrice, p.priceTiers, now)])
+  );
+
+  const rows = customers.map((customer) => {
+    const prices: PriceMatrixRow["prices"] = new Map();
+    for (const product of products) {
+      const productId = product._id.toString();
+      const customerLevel = customerEntries.get(`${customer._id}:${productId}`);
+      const groupLevel = customer.customerGroupId ? groupEntries.get(`${customer.customerGroupId}:${productId}`) : undefined;
+      const { price, tiers } = pickPricing(
+        customerLevel,
+        groupLevel,
+        adminLevels.get(productId),
+        getPricingAt(product.priceVersions, product.price, product.priceTiers, now)
+      );
+      prices.set(productId, { price, tiers, hasEntry: customerLevel !== undefined });
+    }
+    const group = customer.customerGroupId ? groupNames.get(customer.customerGroupId.toString()) : undefined;
+    return { id: customer._id.toString(), email: customer.email, labels: [customer.name, customer.email, group || ""], prices };
+  });
+
+  return {
+    rowLabel: "Customer",
+    labelColumns: ["Name", "Email", "Group"],
+    products: products.map((product) => ({ id: product._id.toString(), name: product.name })),
+    rows,
+  };
+}
 
-    return res.status(200).json(populatedOrder);
+// The distributors × products matrix of an admin. Products an admin hasn't priced for a
+// distributor are blank, as the distributor doesn't offer them.
+async function buildAdminPriceMatrix(admin: IUser): Promise<PriceMatrix> {
+  const [products, distributors] = await Promise.all([
+    Product.find({ status: "approved", isActive: true }).sort({ name: 1 }).lean().exec(),
+    User.find({ parentId: admin._id, role: "distributor", isActive: true }).sort({ name: 1 }).lean().exec(),
+  ]);
+  const adminPricing = await AdminProductPricing.find({
+    adminId: admin._id,
+    distributorId: { $in: distributors.map((d) => d._id) },
+    isActive: true,
+  })
+    .lean()
+    .exec();
+
+  const now = new Date();
+  const entries = new Map(
+    adminPricing.map((p) => [`${p.distributorId}:${p.productId}`, getPricingAt(p.priceVersions, p.customPrice, p.priceTiers, now)])
+  );
+
+  const rows = distributors.map((distributor) => {
+    const prices: PriceMatrixRow["prices"] = new Map();
+    for (const product of products) {
+      const entry = entries.get(`${distributor._id}:${product._id}`);
+      if (entry) {
+        prices.set(product._id.toString(), { price: entry.price, tiers: entry.tiers, hasEntry: true });
+      }
+    }
+    return { id: distributor._id.toString(), email: distributor.email, labels: [distributor.name, distributor.email], prices };
+  });
+
+  return {
+    rowLabel: "Distributor",
+    labelColumns: ["Name", "Email"],
+    products: products.map((product) => ({ id: product._id.toString(), name: product.name })),
+    rows,
+  };
+}
+
+// Distributors price their customers; admins (and the super admin) price their distributors
+async function buildPriceMatrix(user: IUser): Promise<PriceMatrix | string> {
+  return user.role === "distributor" ? buildDistributorPriceMatrix(user) : buildAdminPriceMatrix(user);
+}
+
+// Apply an import's price changes in one batch, each from now on with the tiers it keeps
+async function applyPriceImport(user: IUser, changes: PriceImportChange[]): Promise<void> {
+  if (changes.length === 0) return;
+  const version = (change: PriceImportChange) =>
+    toPriceVersion({ price: change.newPrice, tiers: change.tiers, validFrom: new Date(), standing: true }, user);
+  const toId = (id: string) => new mongoose.Types.ObjectId(id);
+
+  if (user.role === "distributor") {
+    await CustomerPricing.bulkWrite(
+      changes.map((change) => ({
+        updateOne: {
+          filter: { distributorId: user._id, customerId: toId(change.targetId), productId: toId(change.productId) },
+          update: {
+            $set: { customPrice: change.newPrice, priceTiers: change.tiers },
+            $push: { priceVersions: version(change) },
+          },
+          upsert: true,
+        },
+      }))
+    );
+    return;
+  }
+
+  // Pricing a product for a distributor also makes it available to them, as using it does
+  await AdminProductPricing.bulkWrite(
+    changes.map((change) => ({
+      updateOne: {
+        filter: { adminId: user._id, distributorId: toId(change.targetId), productId: toId(change.productId) },
+        update: {
+          $set: { customPrice: change.newPrice, priceTiers: change.tiers, isActive: true },
+          $push: { priceVersions: version(change) },
+        },
+        upsert: true,
+      },
+    }))
+  );
+}
+
+// Download the current price matrix (?format=csv or xlsx)
+app.get("/api/pricing/export", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const user = await User.findById(auth.id);
+    if (!user) {
+      return res.status(401).json({ message: "User not found." });
+    }
+
+    const format = String(req.query.format || "csv") as (typeof PRICE_FILE_FORMATS)[number];
+    if (!PRICE_FILE_FORMATS.includes(format)) {
+      return res.status(400).json({ message: `format must be one of: ${PRICE_FILE_FORMATS.join(", ")}.` });
+    }
+
+    const matrix = await buildPriceMatrix(user);
+    if (typeof matrix === "string") {
+      return res.status(400).json({ message: matrix });
+    }
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["ID", ...matrix.labelColumns, ...matrix.products.map(productColumn)],
+      ...matrix.rows.map((row) => [
+        row.id,
+        ...row.labels,
+        ...matrix.products.map((product) => row.prices.get(product.id)?.price ?? ""),
+      ]),
+    ]);
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, "Prices");
+    const file: Buffer = XLSX.write(book, { type: "buffer", bookType: format });
+
+    const fileName = `prices-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader(
+      "Content-Type",
+      format === "csv" ? "text/csv" : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Access-Control-Expose-Headers", "Content-Disposition");
+    return res.status(200).send(file);
   } catch (error) {
-    console.error("Mark order as received error:", error);
+    console.error("Export pricing error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Delete order (customer can delete their own orders, admin/super admin can delete any)
-app.delete("/api/orders/:id", authenticate, async (req, res) => {
+// Import a price matrix. With dryRun the changes are only listed; without, the valid ones are
+// applied together and invalid rows and cells are skipped.
+app.post("/api/pricing/import", authenticate, requireAdminOrSuper, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
+    const auth = getAuthUser(req);
     const user = await User.findById(auth.id);
     if (!user) {
       return res.status(401).json({ message: "User not found." });
     }
 
-    const order = await Order.findById(req.params.id);
-    if (!order) {
-      return res.status(404).json({ message: "Order not found." });
+    const { content, dryRun } = req.body as { content?: string; dryRun?: boolean };
+    if (!content || typeof content !== "string") {
+      return res.status(400).json({ message: "content (the file, base64-encoded) is required." });
     }
 
-    // Check permissions: customer can only delete their own orders, admin/super admin can delete any
-    if (user.role === "customer") {
-      if (order.customerId.toString() !== user._id.toString()) {
-        return res.status(403).json({ message: "Access denied. You can only delete your own orders." });
-      }
-    } else if (user.role !== "admin" && !auth.isSuperAdmin) {
-      return res.status(403).json({ message: "Access denied. Only customers, admins, and super admins can delete orders." });
+    let rows: unknown[][];
+    try {
+      // raw keeps CSV cells as typed, so ids and prices aren't reformatted
+      const book = XLSX.read(Buffer.from(content, "base64"), { type: "buffer", raw: true });
+      const sheet = book.Sheets[book.SheetNames[0]];
+      rows = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", raw: true }) : [];
+    } catch {
+      return res.status(400).json({ message: "The file couldn't be read. Upload a CSV or XLSX file." });
     }
 
-    await Order.findByIdAndDelete(req.params.id);
-    return res.status(200).json({ message: "Order deleted successfully." });
+    const matrix = await buildPriceMatrix(user);
+    if (typeof matrix === "string") {
+      return res.status(400).json({ message: matrix });
+    }
+    const result = diffPriceImport(matrix, rows);
+    if (typeof result === "string") {
+      return res.status(400).json({ message: result });
+    }
+
+    if (dryRun !== false) {
+      return res.status(200).json({ ...result, applied: false });
+    }
+    await applyPriceImport(user, [...result.creates, ...result.updates]);
+    return res.status(200).json({ ...result, applied: true });
   } catch (error) {
-    console.error("Delete order error:", error);
+    console.error("Import pricing error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
 
-// Update payment amount (customer)
-app.put("/api/customer/orders/:id/payment", authenticate, async (req, res) => {
+// ==================== CUSTOMER PRODUCT APIs ====================
+// Get distributor's customers
+app.get("/api/distributor/customers", authenticate, async (req, res) => {
   try {
     const auth = (req as any).user as { id: string };
-    const customer = await User.findById(auth.id);
-    if (!customer || customer.role !== "customer") {
-      return res.status(403).json({ message: "Access denied. Customer only." });
+
+    // Check cache first
+    const cacheKey = `distributor-customers-${auth.id}`;
+    if (addCaching(req, res, cacheKey)) return;
+
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const customers = await User.find({
+      parentId: distributor._id,
+      role: "customer",
+      isActive: true,
+    })
+      .select("name email _id customerGroupId")
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    setCacheHeaders(res, cacheKey, customers);
+    return res.status(200).json(customers);
+  } catch (error) {
+    console.error("Get distributor customers error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get products available to distributor (products that admin has used for this distributor)
+app.get("/api/distributor/products", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+
+    // Check cache first
+    const cacheKey = `distributor-products-${auth.id}`;
+    if (addCaching(req, res, cacheKey)) return;
+
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    // Get distributor's admin
+    const adminId = distributor.parentId || distributor.createdBy;
+    if (!adminId) {
+      return res.status(400).json({ message: "No admin associated with distributor." });
+    }
+
+    // Get products that the admin has "used" (has pricing set for this distributor)
+    const adminPricing = await AdminProductPricing.find({
+      adminId,
+      distributorId: distributor._id,
+      isActive: true,
+    })
+      .populate("productId")
+      .lean()
+      .exec();
+
+    // Filter and transform products
+    const products = adminPricing
+      .filter((p) => p.productId && (p.productId as any).status === "approved" && (p.productId as any).isActive)
+      .map((p) => {
+        const product = p.productId as any;
+        const { price, tiers } = pickPricing(
+          undefined,
+          undefined,
+          getPricingAt(p.priceVersions, p.customPrice, p.priceTiers),
+          getPricingAt(product.priceVersions, product.price, product.priceTiers)
+        );
+        return {
+          _id: product._id,
+          name: product.name,
+          price,
+          priceTiers: tiers,
+          imageUrl: product.imageUrl,
+          description: product.description,
+          category: product.category,
+        };
+      });
+
+    setCacheHeaders(res, cacheKey, products);
+    return res.status(200).json(products);
+  } catch (error) {
+    console.error("Get distributor products error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get products available to customer (with custom pricing if set)
+app.get("/api/customer/products", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+
+    // Check cache first
+    const cacheKey = `customer-products-${auth.id}`;
+    if (addCaching(req, res, cacheKey)) return;
+
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    // Get customer's distributor
+    if (!customer.parentId) {
+      return res.status(400).json({ message: "Customer has no associated distributor." });
+    }
+
+    const distributor = await User.findById(customer.parentId);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(400).json({ message: "Distributor not found." });
+    }
+
+    // Get distributor's admin
+    const adminId = distributor.parentId || distributor.createdBy;
+    if (!adminId) {
+      return res.status(400).json({ message: "No admin associated with distributor." });
+    }
+
+    // Get products that the admin has "used" (has pricing set for this distributor)
+    const adminPricing = await AdminProductPricing.find({
+      adminId,
+      distributorId: distributor._id,
+      isActive: true,
+    })
+      .populate("productId")
+      .lean()
+      .exec();
+
+    // The customer's own prices and their group's price list; prices and volume tiers are the ones that apply right now
+    const levels = await getCustomerPriceLevels(customer, distributor._id);
+
+    // Build products list from admin pricing
+    const productsWithPricing = adminPricing
+      .filter((p) => p.productId && (p.productId as any).status === "approved" && (p.productId as any).isActive)
+      .map((p) => {
+        const product = withCurrentBasePrice(p.productId as unknown as IProduct);
+        const customerLevel = levels.customer.get(product._id.toString());
+        const groupLevel = levels.group.get(product._id.toString());
+        const adminLevel = getPricingAt(p.priceVersions, p.customPrice, p.priceTiers);
+        const { price, tiers } = pickPricing(customerLevel, groupLevel, adminLevel, {
+          price: product.price,
+          tiers: product.priceTiers,
+        });
+        return {
+          ...product,
+          price,
+          priceTiers: tiers,
+          hasCustomPrice:
+            customerLevel?.price !== undefined || groupLevel?.price !== undefined || adminLevel.price !== product.price,
+          available: getAvailableStock(product), // null when stock isn't tracked
+        };
+      });
+
+    setCacheHeaders(res, cacheKey, productsWithPricing);
+    return res.status(200).json(productsWithPricing);
+  } catch (error) {
+    console.error("Get customer products error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== ORDER STATUS MACHINE ====================
+// Every status change goes through ORDER_TRANSITIONS so that the legal moves, the roles
+// allowed to make them and their side effects live in one place. Each applied transition
+// is appended to order.statusHistory, which the order pages render as a timeline.
+type OrderAction =
+  | "mark-for-today"
+  | "send-to-admin"
+  | "admin-acknowledge"
+  | "admin-decline"
+  | "reschedule"
+  | "edit"
+  | "mark-stocked"
+  | "receive"
+  | "approve-credit"
+  | "cancel";
+
+type OrderParty = "customer" | "distributor" | "admin";
+
+interface OrderActor {
+  id?: mongoose.Types.ObjectId;
+  name?: string;
+  role: OrderActorRole;
+}
+
+interface OrderTransition {
+  from: OrderStatus[];
+  to?: OrderStatus; // Omitted for actions that only update flags and keep the current status
+  actors: OrderActorRole[];
+  label: string;
+  notify?: OrderParty[]; // Parties emailed after the transition (the acting party is skipped)
+  noteRequiredFor?: OrderActorRole[]; // Roles that must give a note (e.g. a cancellation reason)
+  guard?: (order: IOrder, actorRole: OrderActorRole) => string | null;
+  apply?: (order: IOrder, now: Date, actor: OrderActor, note?: string) => void;
+}
+
+const ORDER_TRANSITIONS: Record<OrderAction, OrderTransition> = {
+  // Distributor puts the order on today's delivery run
+  "mark-for-today": {
+    from: ["pending", "processing"],
+    to: "processing",
+    actors: ["distributor"],
+    label: "Added to today's delivery run",
+    guard: (order) => (order.creditHold ? "Order is on credit hold. Approve the credit first." : null),
+    apply: (order, now) => {
+      order.markedForToday = true;
+      order.currentDeliveryDate = now;
+    },
+  },
+  // Distributor requests the goods from their admin
+  "send-to-admin": {
+    from: ["pending", "processing"],
+    to: "processing",
+    actors: ["distributor"],
+    label: "Requested from admin",
+    guard: (order) => (order.creditHold ? "Order is on credit hold. Approve the credit first." : null),
+    apply: (order, now) => {
+      order.sentToAdmin = true;
+      order.sentToAdminAt = now;
+    },
+  },
+  // Admin has seen the request and is preparing the goods
+  "admin-acknowledge": {
+    from: ["processing"],
+    actors: ["admin"],
+    label: "Acknowledged by admin",
+    apply: (order, now) => {
+      order.adminReceivedAt = now;
+    },
+  },
+  // Admin rejected the purchase order; the order goes back to the distributor to source elsewhere.
+  // The distributor hears about it from the purchase order email.
+  "admin-decline": {
+    from: ["processing"],
+    actors: ["admin"],
+    label: "Request declined by admin",
+    guard: (order) => (order.sentToAdmin ? null : "Order was not requested from admin."),
+    apply: (order) => {
+      order.sentToAdmin = false;
+      order.sentToAdminAt = undefined;
+      order.adminReceivedAt = undefined;
+      order.purchaseOrderId = undefined;
+    },
+  },
+  "reschedule": {
+    from: ["pending", "processing", "shipped"],
+    actors: ["distributor"],
+    label: "Delivery date changed",
+  },
+  // Lines changed and re-priced through the order edit endpoint. Once the goods have been requested
+  // from admin the order is fixed; it can still be cancelled.
+  "edit": {
+    from: ["pending", "processing"],
+    actors: ["customer", "distributor", "admin"],
+    label: "Order edited",
+    notify: ["customer", "distributor"],
+    guard: (order) =>
+      order.sentToAdmin ? "This order has already been requested from admin and can no longer be edited." : null,
+  },
+  // Goods reached the distributor and are out for delivery to the customer
+  "mark-stocked": {
+    from: ["processing"],
+    to: "shipped",
+    actors: ["distributor", "admin"],
+    label: "Out for delivery",
+    notify: ["customer"],
+    // A purchase order's goods arrive through its fulfilments; an order still short of them waits
+    guard: (order) =>
+      order.purchaseOrderId && !order.receivedIntoStockAt
+        ? `Order #${order.orderNumber} is still waiting on goods from its purchase order.`
+        : null,
+    apply: (order, now) => {
+      order.stockedAt = now;
+      if (!order.adminReceivedAt) {
+        order.adminReceivedAt = now;
+      }
+    },
+  },
+  "receive": {
+    from: ["processing", "shipped"],
+    to: "delivered",
+    actors: ["customer"],
+    label: "Delivered",
+    apply: (order, now) => {
+      order.receivedAt = now;
+    },
+  },
+  // Distributor accepts an order that was placed over the customer's credit limit
+  "approve-credit": {
+    from: ["pending", "processing"],
+    actors: ["distributor", "admin"],
+    label: "Credit approved",
+    notify: ["customer"],
+    guard: (order) => (order.creditHold ? null : "Order is not on credit hold."),
+    apply: (order, now, actor) => {
+      order.creditHold = false;
+      order.creditApprovedBy = actor.id;
+      order.creditApprovedAt = now;
+    },
+  },
+  // Customers may cancel until the distributor has requested the goods from admin and distributors
+  // must give a reason. Nobody cancels once the goods are out for delivery: cancelling only releases
+  // reservations, so stock already moved and the invoice would be left behind.
+  "cancel": {
+    from: ["pending", "processing"],
+    to: "cancelled",
+    actors: ["customer", "distributor", "admin", "system"],
+    label: "Cancelled",
+    notify: ["customer", "distributor", "admin"],
+    noteRequiredFor: ["distributor"],
+    guard: (order, actorRole) =>
+      actorRole === "customer" && order.sentToAdmin
+        ? "This order has already been sent for fulfilment. Please contact your distributor to cancel it."
+        : null,
+    apply: (order, now, actor, note) => {
+      order.cancelledAt = now;
+      order.cancelledBy = actor.id;
+      order.cancelledByRole = actor.role;
+      order.cancelReason = note?.trim() || undefined;
+    },
+  },
+};
+
+const isOrderAction = (action: string): action is OrderAction =>
+  Object.prototype.hasOwnProperty.call(ORDER_TRANSITIONS, action);
+
+// Actions that belong to a purchase order and only run through the purchase order endpoints
+const PURCHASE_ORDER_ACTIONS: OrderAction[] = ["send-to-admin", "admin-acknowledge", "admin-decline"];
+
+// Resolve the role a user acts under for a given order, or null if they have no access to it
+async function resolveOrderActor(
+  auth: { id: string; isSuperAdmin?: boolean },
+  order: IOrder
+): Promise<OrderActor | null> {
+  const user = await User.findById(auth.id).select("name role").lean().exec();
+  if (!user) {
+    return null;
+  }
+
+  const actor = { id: user._id as mongoose.Types.ObjectId, name: user.name };
+  if (user.role === "customer" && order.customerId.toString() === user._id.toString()) {
+    return { ...actor, role: "customer" };
+  }
+  if (user.role === "distributor" && order.distributorId?.toString() === user._id.toString()) {
+    return { ...actor, role: "distributor" };
+  }
+  if (auth.isSuperAdmin) {
+    return { ...actor, role: "admin" };
+  }
+  if (user.role === "admin") {
+    if (order.adminId?.toString() === user._id.toString()) {
+      return { ...actor, role: "admin" };
+    }
+    const ownsDistributor = order.distributorId
+      ? await User.exists({ _id: order.distributorId, parentId: user._id, role: "distributor" })
+      : null;
+    if (ownsDistributor) {
+      return { ...actor, role: "admin" };
+    }
+  }
+  return null;
+}
+
+// Returns why the role may not perform the action on the order in its current state, or null
+function getOrderTransitionBlocker(order: IOrder, action: OrderAction, actorRole: OrderActorRole): string | null {
+  const transition = ORDER_TRANSITIONS[action];
+  if (!transition.actors.includes(actorRole)) {
+    return `A ${actorRole} cannot perform "${action}" on an order.`;
+  }
+  if (!transition.from.includes(order.status)) {
+    return `Cannot perform "${action}" on an order that is ${order.status}.`;
+  }
+  return transition.guard?.(order, actorRole) ?? null;
+}
+
+// Returns an error message if the transition is not allowed, otherwise null
+function checkOrderTransition(
+  order: IOrder,
+  action: OrderAction,
+  actorRole: OrderActorRole,
+  note?: string
+): string | null {
+  const blocker = getOrderTransitionBlocker(order, action, actorRole);
+  if (blocker) {
+    return blocker;
+  }
+  if (ORDER_TRANSITIONS[action].noteRequiredFor?.includes(actorRole) && !note?.trim()) {
+    return action === "cancel" ? "A reason is required to cancel an order." : `A note is required for "${action}".`;
+  }
+  return null;
+}
+
+// Apply a transition in memory (status, side-effect fields and history). The caller saves the order.
+function applyOrderTransition(order: IOrder, action: OrderAction, actor: OrderActor, note?: string): void {
+  const transition = ORDER_TRANSITIONS[action];
+  const now = new Date();
+  const from = order.status;
+  const to = transition.to || from;
+
+  transition.apply?.(order, now, actor, note);
+  order.status = to;
+  order.statusHistory.push({
+    action,
+    from,
+    to,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+    note: note?.trim() || undefined,
+    at: now,
+  });
+}
+
+// Before the order lifecycle, a distributor marking an order received set receivedAt, which now
+// means the customer confirmed delivery. Move it to stockedAt on orders the customer has not
+// received, which puts them out for delivery as mark-stocked would.
+async function migrateDistributorReceivedAt(): Promise<void> {
+  await Order.updateMany(
+    {
+      receivedAt: { $ne: null },
+      stockedAt: { $exists: false },
+      status: { $in: ["pending", "processing", "shipped"] },
+    },
+    [{ $set: { stockedAt: "$receivedAt", status: "shipped" } }, { $unset: "receivedAt" }]
+  ).exec();
+}
+
+// Email the parties listed on the transition about a status change. The acting party is not
+// emailed, and admins are only involved once the order has been sent to them.
+async function sendOrderStatusEmail(order: IOrder, action: OrderAction, actor: OrderActor, note?: string): Promise<void> {
+  const transition = ORDER_TRANSITIONS[action];
+  const parties = (transition.notify || []).filter(
+    (party) => party !== actor.role && (party !== "admin" || order.sentToAdmin)
+  );
+  if (parties.length === 0) {
+    return;
+  }
+
+  try {
+    const partyIds: Record<OrderParty, mongoose.Types.ObjectId | undefined> = {
+      customer: order.customerId,
+      distributor: order.distributorId,
+      admin: order.adminId,
+    };
+    const recipientIds = parties.map((party) => partyIds[party]).filter(Boolean);
+    const recipients = await User.find({ _id: { $in: recipientIds } }).select("name email").lean().exec();
+
+    for (const recipient of recipients) {
+      const emailHtml = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Order Status Update</h2>
+          <p>Dear ${recipient.name},</p>
+          <p>Order #${order.orderNumber} is now <strong>${order.status}</strong>: ${transition.label}.</p>
+          ${actor.name ? `<p><strong>Updated by:</strong> ${escapeHtml(actor.name)} (${actor.role})</p>` : ""}
+          ${note ? `<p><strong>${action === "cancel" ? "Reason" : "Note"}:</strong> ${escapeHtml(note)}</p>` : ""}
+          <p>Please check your dashboard for more details.</p>
+        </div>
+      `;
+
+      try {
+        await mailTransporter.sendMail({
+          from: MAIL_FROM,
+          to: recipient.email,
+          subject: `Order #${order.orderNumber} - ${transition.label}`,
+          html: emailHtml,
+        });
+      } catch (emailError) {
+        console.error("Failed to send order status email:", emailError);
+        // Don't fail the request if email fails
+      }
+    }
+  } catch (error) {
+    console.error("Order status notification error:", error);
+  }
+}
+
+// ==================== GST ====================
+// Line tax is worked out by computeLineTax (lib/gst). When either party has no state on file we
+// treat the supply as intra-state, which is the common case for local distribution.
+
+const normaliseState = (state?: string) => (state || "").trim().toLowerCase();
+
+function isInterStateSupply(seller: IUser, buyer: IUser): boolean {
+  const from = normaliseState(seller.address?.state);
+  const to = normaliseState(buyer.address?.state);
+  return !!from && !!to && from !== to;
+}
+
+// ==================== INVENTORY ====================
+interface StockMovementInput {
+  type: StockMovementType;
+  stockChange?: number;
+  reservedChange?: number;
+  orderId?: mongoose.Types.ObjectId;
+  orderNumber?: string;
+  note?: string;
+}
+
+const getAvailableStock = (product: { trackInventory?: boolean; stock?: number; reservedStock?: number }) =>
+  product.trackInventory ? Math.max((product.stock || 0) - (product.reservedStock || 0), 0) : null;
+
+// Atomically apply a change to a tracked product's inventory and record it in the ledger.
+// `condition` is added to the update filter; returns null if the product is not tracked or the
+// condition did not hold, in which case nothing was changed.
+async function moveStock(
+  productId: mongoose.Types.ObjectId | string,
+  input: StockMovementInput,
+  actor: OrderActor,
+  condition: Record<string, unknown> = {}
+): Promise<IStockMovement | null> {
+  const stockChange = input.stockChange || 0;
+  const reservedChange = input.reservedChange || 0;
+  const product = await Product.findOneAndUpdate(
+    { _id: productId, trackInventory: true, ...condition },
+    { $inc: { stock: stockChange, reservedStock: reservedChange } },
+    { new: true }
+  ).exec();
+  if (!product) {
+    return null;
+  }
+
+  return StockMovement.create({
+    productId: product._id,
+    type: input.type,
+    stockChange,
+    reservedChange,
+    stockAfter: product.stock || 0,
+    reservedAfter: product.reservedStock || 0,
+    orderId: input.orderId,
+    orderNumber: input.orderNumber,
+    note: input.note?.trim() || undefined,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+  });
+}
+
+// Products from before the inventory ledger tracked stock whenever they had a stock count. Turn
+// tracking on for those holding stock and record the count as their opening receipt; products at
+// 0 can't be told apart from ones that never tracked stock, so they stay untracked.
+async function migrateInventoryTracking(): Promise<void> {
+  const products = await Product.find({ trackInventory: { $exists: false }, stock: { $gt: 0 } })
+    .select("stock")
+    .lean()
+    .exec();
+  for (const product of products) {
+    const updated = await Product.findOneAndUpdate(
+      { _id: product._id, trackInventory: { $exists: false } },
+      { $set: { trackInventory: true, reservedStock: 0 } },
+      { new: true }
+    ).exec();
+    if (!updated) {
+      continue;
+    }
+    await StockMovement.create({
+      productId: updated._id,
+      type: "receipt",
+      stockChange: updated.stock || 0,
+      reservedChange: 0,
+      stockAfter: updated.stock || 0,
+      reservedAfter: 0,
+      note: "Opening stock",
+      actorRole: "system",
+    });
+  }
+}
+
+// Reserve stock for every tracked line of a new order. Lines of untracked products are left
+// unreserved. If any line can't be covered, reservations already made are released and an
+// error message is returned.
+async function reserveOrderStock(
+  order: { _id: mongoose.Types.ObjectId; orderNumber: string; items: IOrder["items"] },
+  actor: OrderActor
+): Promise<string | null> {
+  const reserved: IOrder["items"] = [];
+  for (const item of order.items) {
+    const product = await Product.findById(item.productId).select("name trackInventory stock reservedStock").lean().exec();
+    if (!product?.trackInventory) {
+      continue;
+    }
+
+    const movement = await moveStock(
+      item.productId,
+      { type: "reservation", reservedChange: item.quantity, orderId: order._id, orderNumber: order.orderNumber },
+      actor,
+      { $expr: { $gte: [{ $subtract: ["$stock", { $ifNull: ["$reservedStock", 0] }] }, item.quantity] } }
+    );
+    if (!movement) {
+      await releaseOrderStock(order, reserved, actor, "Order could not be placed");
+      const available = getAvailableStock(product) ?? 0;
+      return `Only ${available} of ${product.name} available.`;
+    }
+    item.reservedQuantity = item.quantity;
+    reserved.push(item);
+  }
+  return null;
+}
+
+// Give back whatever is still reserved on the given order lines
+async function releaseOrderStock(
+  order: { _id: mongoose.Types.ObjectId; orderNumber: string },
+  items: IOrder["items"],
+  actor: OrderActor,
+  note?: string
+): Promise<void> {
+  for (const item of items) {
+    const quantity = item.reservedQuantity || 0;
+    if (quantity > 0) {
+      await moveStock(
+        item.productId,
+        { type: "release", reservedChange: -quantity, orderId: order._id, orderNumber: order.orderNumber, note },
+        actor
+      );
+    }
+    item.reservedQuantity = 0;
+  }
+}
+
+// Move an order's reservations onto its edited lines, reserving or releasing only the difference
+// per product. If extra units can't be covered, changes already made are undone and an error
+// message is returned.
+async function rebalanceOrderStock(order: IOrder, items: IOrder["items"], actor: OrderActor): Promise<string | null> {
+  const orderId = order._id as mongoose.Types.ObjectId;
+  const held = new Map(order.items.map((item) => [item.productId.toString(), item.reservedQuantity || 0]));
+  const applied: Array<{ productId: mongoose.Types.ObjectId; change: number }> = [];
+
+  const undo = async () => {
+    for (const { productId, change } of applied) {
+      await moveStock(
+        productId,
+        { type: change > 0 ? "release" : "reservation", reservedChange: -change, orderId, orderNumber: order.orderNumber },
+        actor
+      );
+    }
+  };
+
+  for (const item of items) {
+    const current = held.get(item.productId.toString()) || 0;
+    held.delete(item.productId.toString());
+    const product = await Product.findById(item.productId).select("name trackInventory stock reservedStock").lean().exec();
+    if (!product?.trackInventory) {
+      item.reservedQuantity = 0;
+      continue;
+    }
+
+    const change = item.quantity - current;
+    if (change !== 0) {
+      const movement = await moveStock(
+        item.productId,
+        {
+          type: change > 0 ? "reservation" : "release",
+          reservedChange: change,
+          orderId,
+          orderNumber: order.orderNumber,
+          note: "Order edited",
+        },
+        actor,
+        change > 0 ? { $expr: { $gte: [{ $subtract: ["$stock", { $ifNull: ["$reservedStock", 0] }] }, change] } } : {}
+      );
+      if (!movement) {
+        await undo();
+        const available = (getAvailableStock(product) ?? 0) + current;
+        return `Only ${available} of ${product.name} available.`;
+      }
+      applied.push({ productId: item.productId, change });
+    }
+    item.reservedQuantity = item.quantity;
+  }
+
+  // Lines dropped from the order
+  for (const [productId, quantity] of held) {
+    if (quantity > 0) {
+      await moveStock(
+        productId,
+        { type: "release", reservedChange: -quantity, orderId, orderNumber: order.orderNumber, note: "Order edited" },
+        actor
+      );
+    }
+  }
+  return null;
+}
+
+// Change a distributor's own stock of a product and record it in the ledger. Unlike the admin-side
+// stock this is never refused: a distributor's balance is created on first use.
+async function moveDistributorStock(
+  distributorId: mongoose.Types.ObjectId,
+  productId: mongoose.Types.ObjectId,
+  input: StockMovementInput,
+  actor: OrderActor
+): Promise<IStockMovement> {
+  const stockChange = input.stockChange || 0;
+  const balance = await DistributorStock.findOneAndUpdate(
+    { distributorId, productId },
+    { $inc: { quantity: stockChange } },
+    { new: true, upsert: true }
+  ).exec();
+
+  const movement = await StockMovement.create({
+    productId,
+    distributorId,
+    type: input.type,
+    stockChange,
+    reservedChange: 0,
+    stockAfter: balance.quantity,
+    reservedAfter: 0,
+    orderId: input.orderId,
+    orderNumber: input.orderNumber,
+    note: input.note?.trim() || undefined,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+  });
+
+  // Alert as soon as stock drops below the reorder point rather than waiting for the next job run
+  const reorderPoint = balance.reorderPoint;
+  if (reorderPoint !== undefined && reorderPoint !== null && balance.quantity < reorderPoint && !balance.lowStockAlertedAt) {
+    try {
+      await computeReorderSuggestions(distributorId);
+    } catch (error) {
+      console.error("Reorder suggestions error:", error);
+    }
+  }
+
+  return movement;
+}
+
+// Take whatever is still reserved for the order out of the admin-side stock (the goods were shipped)
+// or hand it back (the distributor supplied the order from their own stock)
+async function settleOrderReservations(order: IOrder, actor: OrderActor, shipped: boolean): Promise<void> {
+  if (!shipped) {
+    await releaseOrderStock(order, order.items, actor, "Supplied from distributor stock");
+    return;
+  }
+
+  for (const item of order.items) {
+    const quantity = item.reservedQuantity || 0;
+    if (quantity > 0) {
+      await moveStock(
+        item.productId,
+        {
+          type: "delivery",
+          stockChange: -quantity,
+          reservedChange: -quantity,
+          orderId: order._id as mongoose.Types.ObjectId,
+          orderNumber: order.orderNumber,
+        },
+        actor
+      );
+    }
+    item.reservedQuantity = 0;
+  }
+}
+
+// Keep inventory in step with an order's status. Call after applyOrderTransition and before saving.
+// - cancel: admin-side reservations are released.
+// - mark-stocked: for orders requested from the admin, reserved goods leave the admin-side stock and
+//   the batch is added to the distributor's stock, less units already shipped through the purchase
+//   order (which count towards it). Other orders are supplied from the distributor's stock, so their
+//   reservations are released.
+// - receive: the goods leave the distributor's stock, unless an admin batch was never counted in
+//   (orders received before they were marked stocked, or stocked before stock was tracked).
+async function syncOrderStock(order: IOrder, action: OrderAction, actor: OrderActor): Promise<void> {
+  const orderId = order._id as mongoose.Types.ObjectId;
+
+  if (action === "cancel") {
+    await releaseOrderStock(order, order.items, actor, order.cancelReason);
+    return;
+  }
+
+  if (action === "mark-stocked") {
+    await settleOrderReservations(order, actor, !!order.sentToAdmin);
+    if (order.sentToAdmin && order.distributorId && !order.receivedIntoStockAt) {
+      for (const item of order.items) {
+        const quantity = item.quantity - (item.suppliedQuantity || 0);
+        if (quantity <= 0) {
+          continue;
+        }
+        await moveDistributorStock(
+          order.distributorId,
+          item.productId,
+          { type: "receipt", stockChange: quantity, orderId, orderNumber: order.orderNumber },
+          actor
+        );
+        item.suppliedQuantity = item.quantity;
+      }
+      order.receivedIntoStockAt = new Date();
+    }
+    return;
+  }
+
+  if (action === "receive") {
+    await settleOrderReservations(order, actor, !!order.sentToAdmin);
+    if (order.distributorId && (!order.sentToAdmin || order.receivedIntoStockAt)) {
+      for (const item of order.items) {
+        await moveDistributorStock(
+          order.distributorId,
+          item.productId,
+          { type: "delivery", stockChange: -item.quantity, orderId, orderNumber: order.orderNumber },
+          actor
+        );
+      }
+    }
+  }
+}
+
+// ==================== PROMOTION APIs ====================
+// Promotions are evaluated whenever an order is priced: automatic ones on every order they match
+// and coupons when the customer enters the code. Buy-x-get-y offers go first, then percentage and
+// then flat discounts, each on what is left of a line after the earlier ones, so no line is ever
+// discounted below zero.
+
+const PROMOTION_ORDER: Record<PromotionType, number> = { "buy-x-get-y": 0, percentage: 1, flat: 2 };
+
+interface PromotedOrder extends PricedOrder {
+  discounts: IOrderDiscount[];
+  discountTotal: number;
+}
+
+// Promotions reach a customer from their distributor and from that distributor's admin
+const promotionOwnersFilter = (distributor: IUser, adminId: mongoose.Types.ObjectId) => ({
+  $or: [
+    { ownerRole: "distributor", ownerId: distributor._id },
+    { ownerRole: "admin", ownerId: adminId },
+  ],
+});
+
+function promotionCovers(promotion: IPromotion, productId: string, category?: string): boolean {
+  if (promotion.productIds.length === 0 && promotion.categories.length === 0) {
+    return true;
+  }
+  return (
+    promotion.productIds.some((id) => id.toString() === productId) ||
+    (!!category && promotion.categories.includes(category))
+  );
+}
+
+// Why a customer can't use a promotion on another order, or null if they can
+async function checkPromotionUsage(promotion: IPromotion, customer: IUser): Promise<string | null> {
+  if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
+    return `${promotion.name} has been fully redeemed.`;
+  }
+  if (promotion.perCustomerLimit) {
+    const used = await Order.countDocuments({
+      customerId: customer._id,
+      "discounts.promotionId": promotion._id,
+      status: { $ne: "cancelled" },
+    });
+    if (used >= promotion.perCustomerLimit) {
+      return `You have already used ${promotion.name} on ${used} order${used === 1 ? "" : "s"}, the most allowed.`;
+    }
+  }
+  return null;
+}
+
+// Apply the promotions an order qualifies for to its priced lines and work out GST again on what
+// is left. `couponCode` adds a coupon; one that can't be used is an error. `keep` holds the discounts
+// of an order being edited: their promotions stay on it, whatever their dates and limits now, for
+// as long as they discount a line. Returns the discounted order or an error message.
+async function applyPromotions(
+  customer: IUser,
+  distributor: IUser,
+  adminId: mongoose.Types.ObjectId,
+  priced: PricedOrder,
+  options: { couponCode?: string; keep?: IOrderDiscount[] } = {}
+): Promise<PromotedOrder | string> {
+  const now = new Date();
+  const keptIds = new Set((options.keep || []).map((discount) => discount.promotionId.toString()));
+  const candidates = await Promotion.find({
+    $and: [
+      promotionOwnersFilter(distributor, adminId),
+      {
+        $or: [
+          { _id: { $in: [...keptIds] } },
+          {
+            code: null,
+            isActive: true,
+            startsAt: { $lte: now },
+            endsAt: { $gt: now },
+            $or: [{ customerIds: { $size: 0 } }, { customerIds: customer._id }],
+          },
+        ],
+      },
+    ],
+  }).exec();
+
+  const promotions: IPromotion[] = [];
+  for (const promotion of candidates) {
+    if (keptIds.has(promotion._id.toString()) || !(await checkPromotionUsage(promotion, customer))) {
+      promotions.push(promotion);
+    }
+  }
+
+  let coupon: IPromotion | null = null;
+  if (options.couponCode?.trim()) {
+    const code = options.couponCode.trim().toUpperCase();
+    // Codes are unique per owner, so a distributor and their admin can both use one; the distributor's wins
+    const matches = await Promotion.find({ code, ...promotionOwnersFilter(distributor, adminId) }).exec();
+    coupon = matches.find((match) => match.ownerRole === "distributor") || matches[0] || null;
+    if (!coupon || !coupon.isActive) {
+      return `Coupon ${code} is not valid.`;
+    }
+    if (coupon.startsAt > now) {
+      return `Coupon ${code} can be used from ${coupon.startsAt.toLocaleDateString("en-IN")}.`;
+    }
+    if (coupon.endsAt <= now) {
+      return `Coupon ${code} has expired.`;
+    }
+    if (coupon.customerIds.length > 0 && !coupon.customerIds.some((id) => id.toString() === customer._id.toString())) {
+      return `Coupon ${code} is not valid for your account.`;
+    }
+    if (!keptIds.has(coupon._id.toString())) {
+      const usageError = await checkPromotionUsage(coupon, customer);
+      if (usageError) {
+        return usageError;
+      }
+      promotions.push(coupon);
+    }
+  }
+
+  const products = await Product.find({ _id: { $in: priced.items.map((item) => item.productId) } })
+    .select("category")
+    .lean()
+    .exec();
+  const categories = new Map(products.map((p) => [p._id.toString(), p.category?.trim()]));
+
+  const remaining = priced.items.map((item) => roundMoney(item.price * item.quantity));
+  const discounts: IOrderDiscount[] = [];
+  for (const promotion of [...promotions].sort((a, b) => PROMOTION_ORDER[a.type] - PROMOTION_ORDER[b.type])) {
+    const lines = priced.items
+      .map((item, i) => i)
+      .filter((i) => {
+        const productId = priced.items[i].productId.toString();
+        return remaining[i] > 0 && promotionCovers(promotion, productId, categories.get(productId));
+      });
+    const off = computePromotionDiscounts(promotion, priced.items, lines, remaining);
+    const amount = roundMoney([...off.values()].reduce((sum, value) => sum + value, 0));
+    if (amount <= 0) {
+      if (promotion === coupon) {
+        return `Coupon ${coupon.code} doesn't apply to anything in this order.`;
+      }
+      continue;
+    }
+    for (const [i, value] of off) {
+      remaining[i] = roundMoney(remaining[i] - value);
+    }
+    discounts.push({
+      promotionId: promotion._id as mongoose.Types.ObjectId,
+      name: promotion.name,
+      code: promotion.code,
+      type: promotion.type,
+      amount,
+    });
+  }
+
+  let subtotal = 0;
+  let taxTotal = 0;
+  const items: PricedOrder["items"] = priced.items.map((item, i) => {
+    const discount = roundMoney(item.price * item.quantity - remaining[i]);
+    const line = discount > 0
+      ? { ...item, discount, taxableValue: remaining[i], ...computeLineTax(remaining[i], item.gstRate || 0, priced.interState) }
+      : item;
+    subtotal += line.taxableValue || 0;
+    taxTotal += (line.cgst || 0) + (line.sgst || 0) + (line.igst || 0);
+    return line;
+  });
+
+  subtotal = roundMoney(subtotal);
+  taxTotal = roundMoney(taxTotal);
+  return {
+    ...priced,
+    items,
+    subtotal,
+    taxTotal,
+    totalAmount: roundMoney(subtotal + taxTotal),
+    discounts,
+    discountTotal: roundMoney(discounts.reduce((sum, discount) => sum + discount.amount, 0)),
+  };
+}
+
+// Count an order's use of its promotions. Returns an error message, having given back the uses it
+// claimed, if one was fully redeemed in the meantime.
+async function claimPromotionUses(discounts: IOrderDiscount[]): Promise<string | null> {
+  const claimed: IOrderDiscount[] = [];
+  for (const discount of discounts) {
+    const updated = await Promotion.findOneAndUpdate(
+      { _id: discount.promotionId, $or: [{ usageLimit: null }, { $expr: { $lt: ["$usedCount", "$usageLimit"] } }] },
+      { $inc: { usedCount: 1 } }
+    ).exec();
+    if (!updated) {
+      await releasePromotionUses(claimed);
+      return `${discount.name} has been fully redeemed.`;
+    }
+    claimed.push(discount);
+  }
+  return null;
+}
+
+// Give back the uses of promotions an order no longer has, e.g. when it is cancelled
+async function releasePromotionUses(discounts: IOrderDiscount[]): Promise<void> {
+  if (discounts.length === 0) return;
+  await Promotion.updateMany(
+    { _id: { $in: discounts.map((discount) => discount.promotionId) }, usedCount: { $gt: 0 } },
+    { $inc: { usedCount: -1 } }
+  ).exec();
+}
+
+// The customers a promotion owner can target: a distributor's own, or those of an admin's distributors
+async function getPromotionCustomerFilter(owner: IUser): Promise<mongoose.FilterQuery<IUser>> {
+  if (owner.role === "distributor") {
+    return { role: "customer", parentId: owner._id };
+  }
+  const distributors = await User.find({ role: "distributor", parentId: owner._id }).select("_id").lean().exec();
+  return { role: "customer", parentId: { $in: distributors.map((d) => d._id) } };
+}
+
+const parseOptionalCount = (value: unknown) =>
+  value === undefined || value === null || value === "" ? undefined : Number(value);
+
+// Read a promotion from a request. Returns the fields to save or an error message.
+async function parsePromotion(body: Record<string, unknown>, owner: IUser): Promise<Partial<IPromotion> | string> {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return "A name is required.";
+  }
+  if (!PROMOTION_TYPES.includes(body.type as PromotionType)) {
+    return `type must be one of: ${PROMOTION_TYPES.join(", ")}.`;
+  }
+  const type = body.type as PromotionType;
+
+  const value = Number(body.value);
+  if (type === "percentage" && !(value > 0 && value <= 100)) {
+    return "A percentage discount must be more than 0 and at most 100.";
+  }
+  if (type === "flat" && !(value > 0)) {
+    return "A flat discount must be more than 0.";
+  }
+  const buyQuantity = Number(body.buyQuantity);
+  const getQuantity = Number(body.getQuantity);
+  if (type === "buy-x-get-y" && !(Number.isInteger(buyQuantity) && buyQuantity >= 1 && Number.isInteger(getQuantity) && getQuantity >= 1)) {
+    return "Buy and get quantities must be whole numbers of at least 1.";
+  }
+
+  const code = typeof body.code === "string" && body.code.trim() ? body.code.trim().toUpperCase() : undefined;
+  if (code && !/^[A-Z0-9-]{3,20}$/.test(code)) {
+    return "Coupon codes are 3 to 20 letters, digits or dashes.";
+  }
+
+  const usageLimit = parseOptionalCount(body.usageLimit);
+  const perCustomerLimit = parseOptionalCount(body.perCustomerLimit);
+  for (const limit of [usageLimit, perCustomerLimit]) {
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1)) {
+      return "Usage limits must be whole numbers of at least 1.";
+    }
+  }
+
+  const startsAt = new Date(String(body.startsAt));
+  const endsAt = new Date(String(body.endsAt));
+  if (!body.startsAt || !body.endsAt || isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    return "startsAt and endsAt must be valid dates.";
+  }
+  if (endsAt <= startsAt) {
+    return "endsAt must be after startsAt.";
+  }
+
+  const productIds: string[] = Array.isArray(body.productIds) ? body.productIds.map(String) : [];
+  const customerIds: string[] = Array.isArray(body.customerIds) ? body.customerIds.map(String) : [];
+  if ([...productIds, ...customerIds].some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+    return "Invalid product or customer id.";
+  }
+  const categories: string[] = Array.isArray(body.categories)
+    ? [...new Set<string>(body.categories.map((category: unknown) => String(category).trim()).filter(Boolean))]
+    : [];
+
+  if (productIds.length > 0 && (await Product.countDocuments({ _id: { $in: productIds } })) !== new Set(productIds).size) {
+    return "Some products were not found.";
+  }
+  if (customerIds.length > 0) {
+    const filter = await getPromotionCustomerFilter(owner);
+    if ((await User.countDocuments({ ...filter, _id: { $in: customerIds } })) !== new Set(customerIds).size) {
+      return "Some customers were not found or aren't yours.";
+    }
+  }
+
+  return {
+    name,
+    description: typeof body.description === "string" ? body.description.trim() || undefined : undefined,
+    type,
+    value: type === "buy-x-get-y" ? undefined : value,
+    buyQuantity: type === "buy-x-get-y" ? buyQuantity : undefined,
+    getQuantity: type === "buy-x-get-y" ? getQuantity : undefined,
+    code,
+    usageLimit,
+    perCustomerLimit,
+    productIds: [...new Set(productIds)].map((id) => new mongoose.Types.ObjectId(id)),
+    categories,
+    customerIds: [...new Set(customerIds)].map((id) => new mongoose.Types.ObjectId(id)),
+    startsAt,
+    endsAt,
+    isActive: body.isActive !== false,
+  };
+}
+
+// Promotions belong to the admin or distributor who created them
+async function getPromotionOwner(auth: { id: string }): Promise<IUser | null> {
+  const owner = await User.findById(auth.id);
+  return owner && (owner.role === "admin" || owner.role === "distributor") ? owner : null;
+}
+
+// List own promotions (admin or distributor)
+app.get("/api/promotions", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const owner = await getPromotionOwner(getAuthUser(req));
+    if (!owner) {
+      return res.status(403).json({ message: "Access denied. Admin or distributor only." });
+    }
+
+    const promotions = await Promotion.find({ ownerId: owner._id }).sort({ createdAt: -1 }).lean().exec();
+    return res.status(200).json(promotions);
+  } catch (error) {
+    console.error("Get promotions error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Products, categories and customers a promotion can be scoped to
+app.get("/api/promotions/options", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const owner = await getPromotionOwner(getAuthUser(req));
+    if (!owner) {
+      return res.status(403).json({ message: "Access denied. Admin or distributor only." });
+    }
+
+    // A distributor's catalogue is the products their admin has priced for them
+    let productIds: mongoose.Types.ObjectId[] | undefined;
+    if (owner.role === "distributor") {
+      const pricing = await AdminProductPricing.find({ distributorId: owner._id, isActive: true })
+        .select("productId")
+        .lean()
+        .exec();
+      productIds = pricing.map((p) => p.productId);
+    }
+    const [products, customers] = await Promise.all([
+      Product.find({ status: "approved", isActive: true, ...(productIds ? { _id: { $in: productIds } } : {}) })
+        .select("name category")
+        .sort({ name: 1 })
+        .lean()
+        .exec(),
+      User.find(await getPromotionCustomerFilter(owner)).select("name email").sort({ name: 1 }).lean().exec(),
+    ]);
+    const categories = [...new Set(products.map((p) => p.category?.trim()).filter(Boolean))].sort();
+
+    return res.status(200).json({ products, categories, customers });
+  } catch (error) {
+    console.error("Get promotion options error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Create a promotion
+app.post("/api/promotions", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const owner = await getPromotionOwner(getAuthUser(req));
+    if (!owner) {
+      return res.status(403).json({ message: "Access denied. Admin or distributor only." });
+    }
+
+    const fields = await parsePromotion(req.body, owner);
+    if (typeof fields === "string") {
+      return res.status(400).json({ message: fields });
+    }
+    if (fields.code && (await Promotion.exists({ ownerId: owner._id, code: fields.code }))) {
+      return res.status(400).json({ message: `You already have a promotion with the code ${fields.code}.` });
+    }
+
+    const promotion = await Promotion.create({
+      ...fields,
+      ownerId: owner._id,
+      ownerRole: owner.role === "distributor" ? "distributor" : "admin",
+      createdBy: owner._id,
+    });
+    return res.status(201).json(promotion);
+  } catch (error) {
+    console.error("Create promotion error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Update a promotion. Orders already placed keep the discounts they were given.
+app.put("/api/promotions/:id", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const owner = await getPromotionOwner(getAuthUser(req));
+    if (!owner) {
+      return res.status(403).json({ message: "Access denied. Admin or distributor only." });
+    }
+
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion || promotion.ownerId.toString() !== owner._id.toString()) {
+      return res.status(404).json({ message: "Promotion not found." });
+    }
+
+    const fields = await parsePromotion(req.body, owner);
+    if (typeof fields === "string") {
+      return res.status(400).json({ message: fields });
+    }
+    if (fields.code && (await Promotion.exists({ ownerId: owner._id, code: fields.code, _id: { $ne: promotion._id } }))) {
+      return res.status(400).json({ message: `You already have a promotion with the code ${fields.code}.` });
+    }
+
+    promotion.set(fields);
+    await promotion.save();
+    return res.status(200).json(promotion);
+  } catch (error) {
+    console.error("Update promotion error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Delete a promotion. Orders keep their discount lines, which are snapshots.
+app.delete("/api/promotions/:id", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const owner = await getPromotionOwner(getAuthUser(req));
+    if (!owner) {
+      return res.status(403).json({ message: "Access denied. Admin or distributor only." });
+    }
+
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion || promotion.ownerId.toString() !== owner._id.toString()) {
+      return res.status(404).json({ message: "Promotion not found." });
+    }
+
+    await promotion.deleteOne();
+    return res.status(200).json({ message: "Promotion deleted successfully." });
+  } catch (error) {
+    console.error("Delete promotion error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Price a cart with the promotions it qualifies for, and a coupon if given, as the order would be
+app.post("/api/customer/promotions/preview", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const { items, couponCode } = req.body as {
+      items: Array<{ productId: string; quantity: number }>;
+      couponCode?: string;
+    };
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: "items are required." });
+    }
+
+    const distributor = customer.parentId ? await User.findById(customer.parentId) : null;
+    const adminId = distributor?.parentId || distributor?.createdBy;
+    if (!distributor || !adminId) {
+      return res.status(400).json({ message: "Customer has no associated distributor and admin." });
+    }
+
+    const priced = await priceOrderItems(customer, distributor, adminId, items);
+    if (typeof priced === "string") {
+      return res.status(400).json({ message: priced });
+    }
+    const promoted = await applyPromotions(customer, distributor, adminId, priced, { couponCode });
+    if (typeof promoted === "string") {
+      return res.status(400).json({ message: promoted });
+    }
+
+    return res.status(200).json({
+      discounts: promoted.discounts,
+      discountTotal: promoted.discountTotal,
+      subtotal: promoted.subtotal,
+      taxTotal: promoted.taxTotal,
+      totalAmount: promoted.totalAmount,
+    });
+  } catch (error) {
+    console.error("Preview promotions error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== ORDER APIs ====================
+interface PricedOrder {
+  items: IOrder["items"];
+  subtotal: number;
+  taxTotal: number;
+  totalAmount: number;
+  interState: boolean;
+}
+
+// e.g. "in multiples of 12 pcs, at least 24 pcs"
+function describeQuantityRules(product: Pick<IProduct, "unit" | "packSize" | "minOrderQuantity" | "quantityStep">): string {
+  const { step, min } = getQuantityRules(product);
+  const unit = product.unit ? ` ${product.unit}` : "";
+  return step > 1 ? `in multiples of ${step}${unit}, at least ${min}${unit}` : `at least ${min}${unit}`;
+}
+
+// Price order lines for a customer and work out their GST. Shared by order creation and editing
+// so an edited order is priced exactly as a new one would be. Returns an error message if a
+// line can't be ordered.
+async function priceOrderItems(
+  customer: IUser,
+  distributor: IUser,
+  adminId: mongoose.Types.ObjectId,
+  items: Array<{ productId: string; quantity: number }>
+): Promise<PricedOrder | string> {
+  // Get admin pricing for this distributor (products admin has used)
+  const adminPricing = await AdminProductPricing.find({
+    adminId,
+    distributorId: distributor._id,
+    isActive: true,
+  }).lean().exec();
+
+  // Every price and volume tier is the one that applies at order time
+  const now = new Date();
+  const adminPricingMap = new Map(
+    adminPricing.map((p) => [p.productId.toString(), getPricingAt(p.priceVersions, p.customPrice, p.priceTiers, now)])
+  );
+
+  // The customer's own prices and their group's price list
+  const levels = await getCustomerPriceLevels(customer, distributor._id, now);
+
+  // Calculate totals and build order items with their GST breakdown
+  const interState = isInterStateSupply(distributor, customer);
+  let subtotal = 0;
+  let taxTotal = 0;
+  const orderItems: IOrder["items"] = [];
+
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return "Each quantity must be a whole number of at least 1.";
+    }
+    const product = await Product.findById(item.productId);
+    if (!product || product.status !== "approved" || !product.isActive) {
+      return `Product ${item.productId} not found or not available.`;
+    }
+    const rules = getQuantityRules(product);
+    if (item.quantity < rules.min || item.quantity % rules.step !== 0) {
+      return `${product.name} must be ordered ${describeQuantityRules(product)}.`;
+    }
+
+    // The unit price comes from the priced level's volume tiers for the line quantity
+    const price = getUnitPrice(
+      pickPricing(
+        levels.customer.get(item.productId),
+        levels.group.get(item.productId),
+        adminPricingMap.get(item.productId),
+        getPricingAt(product.priceVersions, product.price, product.priceTiers, now)
+      ),
+      item.quantity
+    );
+    const taxableValue = roundMoney(price * item.quantity);
+    const gstRate = product.gstRate || 0;
+    const tax = computeLineTax(taxableValue, gstRate, interState);
+    subtotal += taxableValue;
+    taxTotal += tax.cgst + tax.sgst + tax.igst;
+
+    orderItems.push({
+      productId: product._id,
+      quantity: item.quantity,
+      price,
+      hsnCode: product.hsnCode,
+      gstRate,
+      taxableValue,
+      ...tax,
+    });
+  }
+
+  subtotal = roundMoney(subtotal);
+  taxTotal = roundMoney(taxTotal);
+  return { items: orderItems, subtotal, taxTotal, totalAmount: roundMoney(subtotal + taxTotal), interState };
+}
+
+// Place an order for a customer: price it, apply promotions and the credit check, reserve stock and
+// create it. Shared by the order endpoint and the standing order job so both follow the same rules.
+// Returns an error message if the order can't be placed.
+async function placeCustomerOrder(
+  customer: IUser,
+  items: Array<{ productId: string; quantity: number }>,
+  desiredDeliveryDate: Date,
+  actor: OrderActor,
+  standingOrder?: { _id: mongoose.Types.ObjectId; name: string },
+  couponCode?: string
+): Promise<IOrder | string> {
+  // Get customer's distributor and admin
+  if (!customer.parentId) {
+    return "Customer has no associated distributor.";
+  }
+
+  const distributor = await User.findById(customer.parentId);
+  if (!distributor) {
+    return "Distributor not found.";
+  }
+
+  const adminId = distributor.parentId || distributor.createdBy;
+  if (!adminId) {
+    return "No admin associated with distributor.";
+  }
+
+  // The date must be one of the distributor's delivery slots with room left
+  const slotError = await checkDeliverySlot(distributor._id, desiredDeliveryDate);
+  if (slotError) {
+    return slotError;
+  }
+
+  const priced = await priceOrderItems(customer, distributor, adminId, items);
+  if (typeof priced === "string") {
+    return priced;
+  }
+  const promoted = await applyPromotions(customer, distributor, adminId, priced, { couponCode });
+  if (typeof promoted === "string") {
+    return promoted;
+  }
+  const { items: orderItems, subtotal, discounts, discountTotal, taxTotal, totalAmount, interState } = promoted;
+
+  // Distributors can set a smallest order they'll accept, measured before GST and discounts
+  if (distributor.minimumOrderValue && priced.subtotal < distributor.minimumOrderValue) {
+    return `The minimum order value is ₹${distributor.minimumOrderValue.toFixed(2)} before GST; this order comes to ₹${priced.subtotal.toFixed(2)}.`;
+  }
+
+  // Orders that would take the customer over their credit limit are accepted but held
+  // until the distributor approves them
+  const credit = await getCustomerCredit(customer);
+  const creditHold = credit.creditLimit !== null && credit.outstanding + totalAmount > credit.creditLimit;
+
+  // Generate order number
+  const orderId = new mongoose.Types.ObjectId();
+  const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+
+  // Hold the stock before creating the order so two customers can't both get the last units
+  const stockError = await reserveOrderStock({ _id: orderId, orderNumber, items: orderItems }, actor);
+  if (stockError) {
+    return stockError;
+  }
+
+  // Likewise the promotion uses, so a coupon's last use can't go to two orders
+  const promotionError = await claimPromotionUses(discounts);
+  if (promotionError) {
+    await releaseOrderStock({ _id: orderId, orderNumber }, orderItems, actor, "Order could not be placed");
+    return promotionError;
+  }
+
+  // Create order
+  const notes = [
+    standingOrder ? `Standing order "${standingOrder.name}"` : "",
+    creditHold ? "Over credit limit - awaiting distributor approval" : "",
+  ].filter(Boolean);
+  const order = await Order.create({
+    _id: orderId,
+    orderNumber,
+    customerId: customer._id,
+    distributorId: distributor._id,
+    adminId,
+    items: orderItems,
+    subtotal,
+    discounts,
+    discountTotal,
+    couponCode: couponCode?.trim() ? couponCode.trim().toUpperCase() : undefined,
+    taxTotal,
+    taxType: interState ? "inter-state" : "intra-state",
+    totalAmount,
+    status: "pending",
+    statusHistory: [
+      {
+        action: "place",
+        from: "pending",
+        to: "pending",
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        note: notes.length > 0 ? notes.join(" - ") : undefined,
+        at: new Date(),
+      },
+    ],
+    desiredDeliveryDate,
+    currentDeliveryDate: desiredDeliveryDate,
+    creditHold,
+    standingOrderId: standingOrder?._id,
+  }).catch(async (createError) => {
+    await releaseOrderStock({ _id: orderId, orderNumber }, orderItems, actor, "Order could not be placed");
+    await releasePromotionUses(discounts);
+    throw createError;
+  });
+
+  if (creditHold) {
+    try {
+      await mailTransporter.sendMail({
+        from: MAIL_FROM,
+        to: distributor.email,
+        subject: `Order #${orderNumber} needs credit approval`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2>Credit Approval Required</h2>
+            <p>Dear ${distributor.name},</p>
+            <p>${customer.name} placed order #${orderNumber} for ₹${totalAmount.toFixed(2)}, which takes them over their credit limit of ₹${(credit.creditLimit ?? 0).toFixed(2)} (outstanding: ₹${credit.outstanding.toFixed(2)}).</p>
+            <p>The order is on hold until you approve it from your Order Management page.</p>
+          </div>
+        `,
+      });
+    } catch (emailError) {
+      console.error("Failed to send credit hold email:", emailError);
+      // Don't fail the request if email fails
+    }
+  }
+
+  return order;
+}
+
+// Create order (customer only)
+app.post("/api/customer/orders", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const { items, desiredDeliveryDate, couponCode } = req.body as {
+      items: Array<{ productId: string; quantity: number }>;
+      desiredDeliveryDate: string;
+      couponCode?: string;
+    };
+
+    if (!items || items.length === 0 || !desiredDeliveryDate) {
+      return res.status(400).json({ message: "items and desiredDeliveryDate are required." });
+    }
+
+    const customerActor: OrderActor = { id: customer._id, name: customer.name, role: "customer" };
+    const order = await placeCustomerOrder(
+      customer,
+      items,
+      new Date(desiredDeliveryDate),
+      customerActor,
+      undefined,
+      couponCode
+    );
+    if (typeof order === "string") {
+      return res.status(400).json({ message: order });
+    }
+
+    // The ordered products leave the customer's cart
+    await Cart.updateOne(
+      { customerId: customer._id },
+      { $pull: { items: { productId: { $in: order.items.map((item) => item.productId) } } } }
+    ).exec();
+
+    const populatedOrder = await Order.findById(order._id)
+      .populate("customerId", "name email")
+      .populate("distributorId", "name email")
+      .populate("items.productId", "name imageUrl")
+      .lean()
+      .exec();
+
+    return res.status(201).json(populatedOrder);
+  } catch (error) {
+    console.error("Create order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get customer orders
+app.get("/api/customer/orders", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+
+    // Check cache first
+    const cacheKey = `customer-orders-${auth.id}`;
+    if (addCaching(req, res, cacheKey)) return;
+
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const orders = await Order.find({ customerId: customer._id })
+      .populate("items.productId", "name imageUrl")
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    setCacheHeaders(res, cacheKey, orders);
+    return res.status(200).json(orders);
+  } catch (error) {
+    console.error("Get customer orders error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Mark order as received (customer)
+app.post("/api/customer/orders/:id/receive", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order || order.customerId.toString() !== customer._id.toString()) {
+      return res.status(404).json({ message: "Order not found or doesn't belong to you." });
+    }
+
+    if (order.receivedAt) {
+      return res.status(400).json({ message: "Order already marked as received." });
+    }
+
+    const transitionError = checkOrderTransition(order, "receive", "customer");
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+
+    const actor: OrderActor = { id: customer._id, name: customer.name, role: "customer" };
+    applyOrderTransition(order, "receive", actor);
+    await syncOrderStock(order, "receive", actor);
+    await order.save();
+
+    // Number the invoice at delivery so invoice order follows delivery order
+    try {
+      await issueInvoice(order);
+    } catch (invoiceError) {
+      console.error("Failed to issue invoice:", invoiceError);
+      // The invoice is issued on first download instead
+    }
+
+    const populatedOrder = await Order.findById(order._id)
+      .populate("items.productId", "name imageUrl")
+      .lean()
+      .exec();
+
+    return res.status(200).json(populatedOrder);
+  } catch (error) {
+    console.error("Mark order as received error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Cancel order. Orders are never deleted so that revenue history stays intact:
+// customers may cancel until the order is sent to admin, distributors must give a reason,
+// and admins/super admins may cancel any order.
+app.post("/api/orders/:id/cancel", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
+    const { reason } = req.body as { reason?: string };
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied. You cannot cancel this order." });
+    }
+
+    if (order.status === "cancelled") {
+      return res.status(400).json({ message: "Order is already cancelled." });
+    }
+
+    const transitionError = checkOrderTransition(order, "cancel", actor.role, reason);
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+
+    applyOrderTransition(order, "cancel", actor, reason);
+    await syncOrderStock(order, "cancel", actor);
+    await releasePromotionUses(order.discounts || []);
+    await order.save();
+    await sendOrderStatusEmail(order, "cancel", actor, reason);
+
+    const populatedOrder = await Order.findById(order._id)
+      .populate("items.productId", "name imageUrl")
+      .lean()
+      .exec();
+
+    return res.status(200).json(populatedOrder);
+  } catch (error) {
+    console.error("Cancel order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Edit the lines of an order before it is requested from admin (customer, distributor or admin).
+// The new lines replace the old ones and are re-priced as a new order would be; the change is
+// kept in the order's edit history and on its timeline.
+app.put("/api/orders/:id/items", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { items } = req.body as { items: Array<{ productId: string; quantity: number }> };
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: "An order needs at least one item. Cancel it instead." });
+    }
+    if (new Set(items.map((item) => String(item.productId))).size !== items.length) {
+      return res.status(400).json({ message: "Each product can only appear once." });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const transitionError = checkOrderTransition(order, "edit", actor.role);
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+
+    const [customer, distributor] = await Promise.all([
+      User.findById(order.customerId).exec(),
+      order.distributorId ? User.findById(order.distributorId).exec() : null,
+    ]);
+    if (!customer || !distributor || !order.adminId) {
+      return res.status(400).json({ message: "Order has no associated distributor and admin." });
+    }
+
+    const linePrices = await priceOrderItems(customer, distributor, order.adminId, items);
+    if (typeof linePrices === "string") {
+      return res.status(400).json({ message: linePrices });
+    }
+    // The order keeps the promotions it was placed with and picks up automatic ones that now apply
+    const keptDiscounts = order.discounts || [];
+    const priced = await applyPromotions(customer, distributor, order.adminId, linePrices, { keep: keptDiscounts });
+    if (typeof priced === "string") {
+      return res.status(400).json({ message: priced });
+    }
+    const isKept = (discount: IOrderDiscount, from: IOrderDiscount[]) =>
+      from.some((other) => other.promotionId.toString() === discount.promotionId.toString());
+    const addedDiscounts = priced.discounts.filter((discount) => !isKept(discount, keptDiscounts));
+    const droppedDiscounts = keptDiscounts.filter((discount) => !isKept(discount, priced.discounts));
+
+    // Diff the lines by product: quantities of 0 stand for added and removed lines
+    const before = new Map(order.items.map((item) => [item.productId.toString(), item]));
+    const changes: IOrderLineChange[] = [];
+    for (const item of priced.items) {
+      const previous = before.get(item.productId.toString());
+      before.delete(item.productId.toString());
+      // Units the admin already shipped for a line stay counted against it
+      item.suppliedQuantity = previous?.suppliedQuantity;
+      if (!previous || previous.quantity !== item.quantity || previous.price !== item.price) {
+        changes.push({
+          productId: item.productId,
+          productName: "",
+          fromQuantity: previous?.quantity || 0,
+          toQuantity: item.quantity,
+          fromPrice: previous?.price,
+          toPrice: item.price,
+        });
+      }
+    }
+    for (const previous of before.values()) {
+      changes.push({
+        productId: previous.productId,
+        productName: "",
+        fromQuantity: previous.quantity,
+        toQuantity: 0,
+        fromPrice: previous.price,
+      });
+    }
+    if (changes.length === 0) {
+      return res.status(400).json({ message: "Nothing has changed." });
+    }
+
+    const products = await Product.find({ _id: { $in: changes.map((change) => change.productId) } })
+      .select("name")
+      .lean()
+      .exec();
+    const productNames = new Map(products.map((p) => [p._id.toString(), p.name]));
+    for (const change of changes) {
+      change.productName = productNames.get(change.productId.toString()) || "Unknown product";
+    }
+
+    const promotionError = await claimPromotionUses(addedDiscounts);
+    if (promotionError) {
+      return res.status(400).json({ message: promotionError });
+    }
+    const stockError = await rebalanceOrderStock(order, priced.items, actor);
+    if (stockError) {
+      await releasePromotionUses(addedDiscounts);
+      return res.status(400).json({ message: stockError });
+    }
+
+    // A bigger order can take the customer over their credit limit again
+    const fromTotal = order.totalAmount;
+    let creditHold = false;
+    if (!order.creditHold && priced.totalAmount > fromTotal) {
+      const credit = await getCustomerCredit(customer);
+      creditHold =
+        credit.creditLimit !== null && credit.outstanding + priced.totalAmount - fromTotal > credit.creditLimit;
+    }
+
+    const summary = changes
+      .map((change) => {
+        if (change.fromQuantity === 0) return `${change.productName} added (${change.toQuantity})`;
+        if (change.toQuantity === 0) return `${change.productName} removed`;
+        if (change.fromQuantity !== change.toQuantity) {
+          return `${change.productName} ${change.fromQuantity} → ${change.toQuantity}`;
+        }
+        return `${change.productName} re-priced ₹${change.fromPrice?.toFixed(2)} → ₹${change.toPrice?.toFixed(2)}`;
+      })
+      .concat(`total ₹${fromTotal.toFixed(2)} → ₹${priced.totalAmount.toFixed(2)}`)
+      .concat(creditHold ? ["over credit limit - awaiting distributor approval"] : [])
+      .join("; ");
+
+    order.items = priced.items;
+    order.subtotal = priced.subtotal;
+    order.discounts = priced.discounts;
+    order.discountTotal = priced.discountTotal;
+    order.taxTotal = priced.taxTotal;
+    order.taxType = priced.interState ? "inter-state" : "intra-state";
+    order.totalAmount = priced.totalAmount;
+    if (creditHold) {
+      order.creditHold = true;
+    }
+    order.editHistory = [
+      ...(order.editHistory || []),
+      {
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        changes,
+        fromTotal,
+        toTotal: priced.totalAmount,
+        at: new Date(),
+      },
+    ];
+    applyOrderTransition(order, "edit", actor, summary);
+    // Saves the order; the payment status follows the new total
+    await syncOrderPayments(order);
+    await releasePromotionUses(droppedDiscounts);
+    await sendOrderStatusEmail(order, "edit", actor, summary);
+
+    const populatedOrder = await Order.findById(order._id)
+      .populate("items.productId", "name imageUrl")
+      .lean()
+      .exec();
+
+    return res.status(200).json(populatedOrder);
+  } catch (error) {
+    console.error("Edit order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get the status timeline of an order (any party to the order)
+app.get("/api/orders/:id/history", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    // Actions the current user may perform next, so the UI can offer only legal moves
+    const availableActions = (Object.keys(ORDER_TRANSITIONS) as OrderAction[]).filter(
+      (action) =>
+        action !== "reschedule" &&
+        action !== "edit" &&
+        !PURCHASE_ORDER_ACTIONS.includes(action) &&
+        !getOrderTransitionBlocker(order, action, actor.role)
+    );
+    const noteRequired = availableActions.filter((action) =>
+      ORDER_TRANSITIONS[action].noteRequiredFor?.includes(actor.role)
+    );
+
+    return res.status(200).json({
+      status: order.status,
+      statusHistory: order.statusHistory,
+      availableActions,
+      noteRequired,
+    });
+  } catch (error) {
+    console.error("Get order history error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Move an order through the status machine (role and current status are validated)
+app.post("/api/orders/:id/status", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { action, note } = req.body as { action: string; note?: string };
+
+    if (!action || !isOrderAction(action)) {
+      return res.status(400).json({ message: "A valid action is required." });
+    }
+    if (action === "reschedule") {
+      return res.status(400).json({ message: "Use the update-delivery-date endpoint to reschedule an order." });
+    }
+    if (action === "edit") {
+      return res.status(400).json({ message: "Use the order items endpoint to edit an order." });
+    }
+    if (PURCHASE_ORDER_ACTIONS.includes(action)) {
+      return res.status(400).json({ message: "This change is made through the order's purchase order." });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const transitionError = checkOrderTransition(order, action, actor.role, note);
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+
+    applyOrderTransition(order, action, actor, note);
+    await syncOrderStock(order, action, actor);
+    if (action === "cancel") {
+      await releasePromotionUses(order.discounts || []);
+    }
+    await order.save();
+    await sendOrderStatusEmail(order, action, actor, note);
+
+    const populatedOrder = await Order.findById(order._id)
+      .populate("items.productId", "name imageUrl")
+      .lean()
+      .exec();
+
+    return res.status(200).json(populatedOrder);
+  } catch (error) {
+    console.error("Update order status error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== CART APIs ====================
+interface PricedCartItem {
+  productId: mongoose.Types.ObjectId;
+  productName: string;
+  imageUrl?: string;
+  quantity: number;
+  price: number; // Unit price before volume tiers
+  priceTiers: IPriceTier[];
+  gstRate?: number;
+  available: number | null; // null when the product's stock isn't tracked
+  unit?: string;
+  packSize?: number;
+  minOrderQuantity?: number;
+  quantityStep?: number;
+}
+
+// Price cart lines at the customer's effective prices, the same way the products list does.
+// Lines for products that can no longer be ordered are dropped and quantities are capped at the
+// stock available. Returns the priced lines and the names of dropped products, or an error message.
+async function priceCartLines(
+  customer: IUser,
+  lines: Array<{ productId: mongoose.Types.ObjectId | string; quantity: number }>
+): Promise<{ items: PricedCartItem[]; removed: string[] } | string> {
+  if (!customer.parentId) {
+    return "Customer has no associated distributor.";
+  }
+  const distributor = await User.findById(customer.parentId);
+  if (!distributor || distributor.role !== "distributor") {
+    return "Distributor not found.";
+  }
+  const adminId = distributor.parentId || distributor.createdBy;
+  if (!adminId) {
+    return "No admin associated with distributor.";
+  }
+
+  const productIds = lines.map((line) => line.productId);
+  const [products, adminPricing, levels] = await Promise.all([
+    Product.find({ _id: { $in: productIds } }).lean().exec(),
+    AdminProductPricing.find({ adminId, distributorId: distributor._id, productId: { $in: productIds }, isActive: true })
+      .lean()
+      .exec(),
+    getCustomerPriceLevels(customer, distributor._id, new Date(), productIds),
+  ]);
+
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+  const adminPricingMap = new Map(
+    adminPricing.map((p) => [p.productId.toString(), getPricingAt(p.priceVersions, p.customPrice, p.priceTiers)])
+  );
+
+  const items: PricedCartItem[] = [];
+  const removed: string[] = [];
+  for (const line of lines) {
+    const productId = line.productId.toString();
+    const product = productMap.get(productId);
+    // Only products the admin has priced for this distributor are orderable, as in the products list
+    const adminLevel = adminPricingMap.get(productId);
+    const available = product ? getAvailableStock(product) : null;
+    if (!product || product.status !== "approved" || !product.isActive || adminLevel === undefined || available === 0) {
+      removed.push(product?.name || productId);
+      continue;
+    }
+
+    const { price, tiers } = pickPricing(
+      levels.customer.get(productId),
+      levels.group.get(productId),
+      adminLevel,
+      getPricingAt(product.priceVersions, product.price, product.priceTiers)
+    );
+    items.push({
+      productId: product._id,
+      productName: product.name,
+      imageUrl: product.imageUrl,
+      quantity: available === null ? line.quantity : Math.min(line.quantity, available),
+      price,
+      priceTiers: tiers,
+      gstRate: product.gstRate,
+      available,
+      unit: product.unit,
+      packSize: product.packSize,
+      minOrderQuantity: product.minOrderQuantity,
+      quantityStep: product.quantityStep,
+    });
+  }
+
+  return { items, removed };
+}
+
+// Price a customer's saved cart and write back any lines that had to be dropped or capped,
+// so every device sees the same cart. Also returns the distributor's minimum order value.
+async function readCustomerCart(customer: IUser) {
+  const distributor = customer.parentId
+    ? await User.findById(customer.parentId).select("minimumOrderValue").lean().exec()
+    : null;
+  const minimumOrderValue = distributor?.minimumOrderValue ?? null;
+
+  const cart = await Cart.findOne({ customerId: customer._id });
+  if (!cart || cart.items.length === 0) {
+    return { items: [], removed: [], minimumOrderValue, updatedAt: cart?.updatedAt ?? null };
+  }
+
+  const priced = await priceCartLines(customer, cart.items);
+  if (typeof priced === "string") {
+    return priced;
+  }
+
+  const changed =
+    priced.items.length !== cart.items.length ||
+    priced.items.some((item, i) => item.quantity !== cart.items[i].quantity);
+  if (changed) {
+    cart.set(
+      "items",
+      priced.items.map((item) => ({ productId: item.productId, quantity: item.quantity }))
+    );
+    await cart.save();
+  }
+
+  return { ...priced, minimumOrderValue, updatedAt: cart.updatedAt };
+}
+
+// Get the logged-in customer's cart, re-priced at their current prices
+app.get("/api/customer/cart", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const cart = await readCustomerCart(customer);
+    if (typeof cart === "string") {
+      return res.status(400).json({ message: cart });
+    }
+
+    return res.status(200).json(cart);
+  } catch (error) {
+    console.error("Get cart error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Replace the cart's lines (customer only). An empty list empties the cart.
+app.put("/api/customer/cart", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const { items } = req.body as { items?: Array<{ productId: string; quantity: number }> };
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ message: "items is required." });
+    }
+    const itemsError = items.length > 0 ? validateOrderLines(items) : null;
+    if (itemsError) {
+      return res.status(400).json({ message: itemsError });
+    }
+
+    await Cart.findOneAndUpdate(
+      { customerId: customer._id },
+      { $set: { items } },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    const cart = await readCustomerCart(customer);
+    if (typeof cart === "string") {
+      return res.status(400).json({ message: cart });
+    }
+
+    return res.status(200).json(cart);
+  } catch (error) {
+    console.error("Update cart error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Empty the cart (customer only)
+app.delete("/api/customer/cart", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    await Cart.updateOne({ customerId: auth.id }, { $set: { items: [] } }).exec();
+    return res.status(200).json({ message: "Cart emptied." });
+  } catch (error) {
+    console.error("Empty cart error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== ORDER TEMPLATE APIs ====================
+// Returns an error message if saved order lines (templates, standing orders) are not usable, otherwise null
+function validateOrderLines(items: Array<{ productId: string; quantity: number }> | undefined): string | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return "At least one item is required.";
+  }
+  if (items.some((item) => !mongoose.Types.ObjectId.isValid(item.productId))) {
+    return "Each item needs a valid productId.";
+  }
+  if (items.some((item) => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+    return "Each quantity must be a whole number of at least 1.";
+  }
+  if (new Set(items.map((item) => String(item.productId))).size !== items.length) {
+    return "Each product can only appear once.";
+  }
+  return null;
+}
+
+// List the logged-in customer's order templates
+app.get("/api/customer/order-templates", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const templates = await OrderTemplate.find({ customerId: customer._id })
+      .populate("items.productId", "name imageUrl")
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+
+    return res.status(200).json(templates);
+  } catch (error) {
+    console.error("Get order templates error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Save a named order template (customer only)
+app.post("/api/customer/order-templates", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const { name, items } = req.body as { name?: string; items?: Array<{ productId: string; quantity: number }> };
+    if (!name?.trim()) {
+      return res.status(400).json({ message: "A template name is required." });
+    }
+    const itemsError = validateOrderLines(items);
+    if (itemsError) {
+      return res.status(400).json({ message: itemsError });
+    }
+
+    if (await OrderTemplate.exists({ customerId: customer._id, name: name.trim() })) {
+      return res.status(409).json({ message: "You already have a template with this name." });
+    }
+
+    const template = await OrderTemplate.create({ customerId: customer._id, name: name.trim(), items });
+    return res.status(201).json(template);
+  } catch (error) {
+    console.error("Create order template error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Rename a template or replace its lines (customer only)
+app.put("/api/customer/order-templates/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const template = await OrderTemplate.findOne({ _id: req.params.id, customerId: auth.id });
+    if (!template) {
+      return res.status(404).json({ message: "Template not found." });
+    }
+
+    const { name, items } = req.body as { name?: string; items?: Array<{ productId: string; quantity: number }> };
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return res.status(400).json({ message: "A template name is required." });
+      }
+      const clash = await OrderTemplate.exists({ customerId: template.customerId, name: name.trim(), _id: { $ne: template._id } });
+      if (clash) {
+        return res.status(409).json({ message: "You already have a template with this name." });
+      }
+      template.name = name.trim();
+    }
+    if (items !== undefined) {
+      const itemsError = validateOrderLines(items);
+      if (itemsError) {
+        return res.status(400).json({ message: itemsError });
+      }
+      template.set("items", items);
+    }
+
+    await template.save();
+    return res.status(200).json(template);
+  } catch (error) {
+    console.error("Update order template error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Delete a template (customer only)
+app.delete("/api/customer/order-templates/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const result = await OrderTemplate.deleteOne({ _id: req.params.id, customerId: auth.id }).exec();
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ message: "Template not found." });
+    }
+
+    return res.status(200).json({ message: "Template deleted." });
+  } catch (error) {
+    console.error("Delete order template error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== DELIVERY CALENDAR APIs ====================
+// Delivery dates are whole UTC days. Cutoff times are India time, which the app works in.
+const DELIVERY_TIMEZONE_OFFSET_MS = 330 * 60 * 1000; // IST, UTC+5:30
+const DELIVERY_SLOT_DAYS = 30; // How far ahead customers can pick a delivery date
+const DELIVERY_CALENDAR_VIEW_DAYS = 28; // Days of order load shown to the distributor
+const OPEN_ORDER_STATUSES: OrderStatus[] = ["pending", "processing", "shipped"];
+
+type DeliveryRules = Pick<IDeliveryCalendar, "deliveryDays" | "cutoffTime" | "dailyCapacity" | "holidays">;
+
+// Used for distributors who haven't set up a calendar: every day, no cutoff, no limit
+const OPEN_DELIVERY_RULES: DeliveryRules = { deliveryDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] };
+
+async function getDeliveryRules(distributorId: mongoose.Types.ObjectId): Promise<DeliveryRules> {
+  const calendar = await DeliveryCalendar.findOne({ distributorId }).lean().exec();
+  return calendar || OPEN_DELIVERY_RULES;
+}
+
+// Why there are no deliveries on a day, or null if the distributor delivers that day
+function getClosedReason(rules: DeliveryRules, day: Date): string | null {
+  const holiday = rules.holidays.find((h) => startOfUtcDay(h.date).getTime() === day.getTime());
+  if (holiday) {
+    return holiday.note ? `Holiday: ${holiday.note}` : "Holiday";
+  }
+  if (!rules.deliveryDays.includes(day.getUTCDay())) {
+    return "Not a delivery day";
+  }
+  return null;
+}
+
+// Earliest day an order placed now can be delivered: tomorrow (India time), or the day after
+// once today's cutoff has passed
+function getEarliestDeliveryDate(rules: DeliveryRules, now = new Date()): Date {
+  const local = new Date(now.getTime() + DELIVERY_TIMEZONE_OFFSET_MS);
+  const tomorrow = addDays(startOfUtcDay(local), 1);
+  const time = local.toISOString().substring(11, 16); // "HH:mm"
+  return rules.cutoffTime && time >= rules.cutoffTime ? addDays(tomorrow, 1) : tomorrow;
+}
+
+// Open orders per delivery day (keyed "YYYY-MM-DD") for a distributor between two UTC days (inclusive)
+async function countOrdersByDay(distributorId: mongoose.Types.ObjectId, from: Date, until: Date): Promise<Map<string, number>> {
+  const counts = await Order.aggregate<{ _id: string; count: number }>([
+    {
+      $match: {
+        distributorId: new mongoose.Types.ObjectId(distributorId),
+        status: { $in: OPEN_ORDER_STATUSES },
+        currentDeliveryDate: { $gte: from, $lt: addDays(until, 1) },
+      },
+    },
+    { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$currentDeliveryDate" } }, count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map((c) => [c._id, c.count]));
+}
+
+// Returns an error message if an order can't be delivered on this date, otherwise null. New orders
+// must also fall on or after the calendar's earliest date; a rescheduled order is moved by the
+// distributor, so only closed days and capacity apply, and it doesn't count against its own day.
+async function checkDeliverySlot(
+  distributorId: mongoose.Types.ObjectId,
+  deliveryDate: Date,
+  rescheduledOrder?: IOrder
+): Promise<string | null> {
+  if (isNaN(deliveryDate.getTime())) {
+    return "A valid delivery date is required.";
+  }
+  const day = startOfUtcDay(deliveryDate);
+  const rules = await getDeliveryRules(distributorId);
+
+  // Without a calendar of their own, a distributor takes orders for any date
+  if (!rescheduledOrder && rules !== OPEN_DELIVERY_RULES) {
+    const earliest = getEarliestDeliveryDate(rules);
+    if (day < earliest) {
+      return rules.cutoffTime
+        ? `The earliest delivery date is ${toDayKey(earliest)}; orders for next-day delivery close at ${rules.cutoffTime}.`
+        : `The earliest delivery date is ${toDayKey(earliest)}.`;
+    }
+  }
+  const closed = getClosedReason(rules, day);
+  if (closed) {
+    return `There are no deliveries on ${toDayKey(day)} (${closed}).`;
+  }
+  if (rules.dailyCapacity) {
+    const counts = await countOrdersByDay(distributorId, day, day);
+    const alreadyBooked =
+      !!rescheduledOrder &&
+      OPEN_ORDER_STATUSES.includes(rescheduledOrder.status) &&
+      startOfUtcDay(rescheduledOrder.currentDeliveryDate).getTime() === day.getTime();
+    if ((counts.get(toDayKey(day)) || 0) - (alreadyBooked ? 1 : 0) >= rules.dailyCapacity) {
+      return `${toDayKey(day)} is fully booked. Please pick another delivery date.`;
+    }
+  }
+  return null;
+}
+
+// Returns an error message if a calendar is not usable, otherwise null
+function validateDeliveryRules(rules: DeliveryRules): string | null {
+  const { deliveryDays, cutoffTime, dailyCapacity, holidays } = rules;
+  if (!Array.isArray(deliveryDays) || deliveryDays.length === 0 || deliveryDays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return "Pick at least one delivery day (0 = Sunday to 6 = Saturday).";
+  }
+  if (cutoffTime !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(cutoffTime)) {
+    return "cutoffTime must be a time like 17:30.";
+  }
+  if (dailyCapacity !== undefined && (!Number.isInteger(dailyCapacity) || dailyCapacity < 1)) {
+    return "dailyCapacity must be a whole number of at least 1.";
+  }
+  if (!Array.isArray(holidays) || holidays.some((h) => !h || isNaN(new Date(h.date).getTime()))) {
+    return "Each holiday needs a valid date.";
+  }
+  return null;
+}
+
+// Move open orders off days the distributor doesn't deliver on, or that are over capacity, onto the
+// next day with room. Within a day the orders placed first keep their slot. Each customer gets the
+// same email as for a single date change. Returns the orders that were moved.
+async function rescheduleForCalendar(
+  distributor: IUser,
+  rules: DeliveryRules
+): Promise<Array<{ orderId: mongoose.Types.ObjectId; orderNumber: string; from: Date; to: Date }>> {
+  const orders = await Order.find({
+    distributorId: distributor._id,
+    status: { $in: OPEN_ORDER_STATUSES },
+    currentDeliveryDate: { $gte: startOfUtcDay(new Date()) },
+  })
+    .populate("customerId", "name email")
+    .sort({ currentDeliveryDate: 1, createdAt: 1 })
+    .exec();
+
+  const counts = new Map<string, number>();
+  const hasRoom = (day: Date) => !rules.dailyCapacity || (counts.get(toDayKey(day)) || 0) < rules.dailyCapacity;
+  const toMove: Array<{ order: IOrder; reason: string }> = [];
+  for (const order of orders) {
+    const day = startOfUtcDay(order.currentDeliveryDate);
+    const closed = getClosedReason(rules, day);
+    if (closed || !hasRoom(day)) {
+      toMove.push({ order, reason: closed || "Day fully booked" });
+      continue;
+    }
+    counts.set(toDayKey(day), (counts.get(toDayKey(day)) || 0) + 1);
+  }
+
+  const actor: OrderActor = { id: distributor._id, name: distributor.name, role: "distributor" };
+  const moved: Array<{ orderId: mongoose.Types.ObjectId; orderNumber: string; from: Date; to: Date }> = [];
+  for (const { order, reason } of toMove) {
+    if (checkOrderTransition(order, "reschedule", "distributor")) {
+      continue;
+    }
+    const from = startOfUtcDay(order.currentDeliveryDate);
+    let to: Date | null = null;
+    for (let day = addDays(from, 1), i = 0; i < 366; day = addDays(day, 1), i++) {
+      if (!getClosedReason(rules, day) && hasRoom(day)) {
+        to = day;
+        break;
+      }
+    }
+    if (!to) {
+      continue;
+    }
+    counts.set(toDayKey(to), (counts.get(toDayKey(to)) || 0) + 1);
+
+    order.currentDeliveryDate = to;
+    applyOrderTransition(order, "reschedule", actor, `Moved to ${toDayKey(to)} - ${reason}`);
+    await order.save();
+    await sendDeliveryDateEmail(order, order.customerId as unknown as IUser, to);
+    moved.push({ orderId: order._id as mongoose.Types.ObjectId, orderNumber: order.orderNumber, from, to });
+  }
+
+  return moved;
+}
+
+// Delivery days a customer can pick for a new order
+app.get("/api/customer/delivery-slots", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+    if (!customer.parentId) {
+      return res.status(400).json({ message: "Customer has no associated distributor." });
+    }
+
+    const rules = await getDeliveryRules(customer.parentId);
+    const from = getEarliestDeliveryDate(rules);
+    const until = addDays(from, DELIVERY_SLOT_DAYS - 1);
+    const counts = await countOrdersByDay(customer.parentId, from, until);
+
+    const slots: Array<{ date: Date; remaining: number | null }> = [];
+    for (let day = from; day <= until; day = addDays(day, 1)) {
+      if (getClosedReason(rules, day)) continue;
+      // remaining is null when the distributor has no daily limit
+      const remaining = rules.dailyCapacity ? rules.dailyCapacity - (counts.get(toDayKey(day)) || 0) : null;
+      if (remaining === null || remaining > 0) {
+        slots.push({ date: day, remaining });
+      }
+    }
+
+    return res.status(200).json({ cutoffTime: rules.cutoffTime ?? null, slots });
+  } catch (error) {
+    console.error("Get delivery slots error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// The distributor's delivery calendar and their order load for the coming weeks
+app.get("/api/distributor/delivery-calendar", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const rules = await getDeliveryRules(distributor._id);
+    const from = startOfUtcDay(new Date());
+    const until = addDays(from, DELIVERY_CALENDAR_VIEW_DAYS - 1);
+    const counts = await countOrdersByDay(distributor._id, from, until);
+
+    const days: Array<{ date: Date; orders: number; closed: string | null }> = [];
+    for (let day = from; day <= until; day = addDays(day, 1)) {
+      days.push({ date: day, orders: counts.get(toDayKey(day)) || 0, closed: getClosedReason(rules, day) });
+    }
+
+    return res.status(200).json({
+      calendar: {
+        deliveryDays: rules.deliveryDays,
+        cutoffTime: rules.cutoffTime ?? null,
+        dailyCapacity: rules.dailyCapacity ?? null,
+        holidays: rules.holidays,
+      },
+      days,
+    });
+  } catch (error) {
+    console.error("Get delivery calendar error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Save the delivery calendar (distributor only). Open orders on days that are no longer delivered
+// on, or that are now over capacity, are moved to the next day with room.
+app.put("/api/distributor/delivery-calendar", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const { deliveryDays, cutoffTime, dailyCapacity, holidays } = req.body as {
+      deliveryDays?: number[];
+      cutoffTime?: string | null; // null removes the cutoff
+      dailyCapacity?: number | null; // null removes the limit
+      holidays?: Array<{ date: string; note?: string }>;
+    };
+
+    const rules: DeliveryRules = {
+      deliveryDays: [...new Set(deliveryDays || [])].sort(),
+      cutoffTime: cutoffTime || undefined,
+      dailyCapacity: dailyCapacity ?? undefined,
+      holidays: (holidays || []).map((h) => ({ date: startOfUtcDay(new Date(h?.date)), note: h?.note?.trim() || undefined })),
+    };
+    const rulesError = validateDeliveryRules(rules);
+    if (rulesError) {
+      return res.status(400).json({ message: rulesError });
+    }
+
+    const calendar =
+      (await DeliveryCalendar.findOne({ distributorId: distributor._id })) ||
+      new DeliveryCalendar({ distributorId: distributor._id });
+    calendar.set(rules); // Unset cutoffTime and dailyCapacity are removed
+    await calendar.save();
+
+    const rescheduled = await rescheduleForCalendar(distributor, rules);
+    return res.status(200).json({ calendar, rescheduled });
+  } catch (error) {
+    console.error("Update delivery calendar error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== STANDING ORDER APIs ====================
+// Orders for a standing order are placed STANDING_ORDER_LEAD_DAYS ahead of their delivery date by
+// the standing order job, so distributors see them alongside their other upcoming orders
+const STANDING_ORDER_LEAD_DAYS = 2;
+const STANDING_ORDER_JOB_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Returns an error message if the schedule is not usable, otherwise null
+function validateStandingOrderSchedule(schedule: StandingOrderSchedule): string | null {
+  if (!["weekly", "interval"].includes(schedule.frequency)) {
+    return "frequency must be weekly or interval.";
+  }
+  if (schedule.frequency === "weekly") {
+    const weekdays = schedule.weekdays;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return "Pick at least one delivery weekday (0 = Sunday to 6 = Saturday).";
+    }
+  } else if (!Number.isInteger(schedule.intervalDays) || schedule.intervalDays! < 1 || schedule.intervalDays! > 365) {
+    return "intervalDays must be a whole number between 1 and 365.";
+  }
+  if (isNaN(schedule.startDate.getTime())) {
+    return "A valid startDate is required.";
+  }
+  if (schedule.endDate && (isNaN(schedule.endDate.getTime()) || schedule.endDate < schedule.startDate)) {
+    return "endDate must be a valid date on or after startDate.";
+  }
+  return null;
+}
+
+// Let the customer know a delivery from their standing order could not be ordered
+async function sendStandingOrderFailureEmail(
+  customer: IUser,
+  standing: IStandingOrder,
+  deliveryDate: Date,
+  reason: string
+): Promise<void> {
+  try {
+    await mailTransporter.sendMail({
+      from: MAIL_FROM,
+      to: customer.email,
+      subject: `Standing order "${standing.name}" could not be placed`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Standing Order Not Placed</h2>
+          <p>Dear ${customer.name},</p>
+          <p>We could not place the order from your standing order "${standing.name}" for delivery on ${deliveryDate.toLocaleDateString("en-IN")}.</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+          <p>Your next deliveries are not affected. You can place this one by hand from your dashboard.</p>
+        </div>
+      `,
+    });
+  } catch (emailError) {
+    console.error("Failed to send standing order email:", emailError);
+  }
+}
+
+// Place the orders of a standing order that fall due within the lead time. Each delivery date is
+// claimed before its order is placed so overlapping job runs can't place it twice. A date whose
+// order can't be placed (e.g. out of stock) is not retried; the customer is emailed instead.
+async function materialiseStandingOrder(standing: IStandingOrder): Promise<void> {
+  if (standing.status !== "active") {
+    return;
+  }
+
+  const tomorrow = addDays(startOfUtcDay(new Date()), 1);
+  const until = addDays(startOfUtcDay(new Date()), STANDING_ORDER_LEAD_DAYS);
+  const next = standing.lastGeneratedDate ? addDays(startOfUtcDay(standing.lastGeneratedDate), 1) : tomorrow;
+  const dates = getStandingOrderDates(standing, next > tomorrow ? next : tomorrow, until);
+  if (dates.length === 0) {
+    return;
+  }
+
+  const customer = await User.findById(standing.customerId);
+  if (!customer || customer.role !== "customer" || !customer.isActive) {
+    return;
+  }
+  const actor: OrderActor = { role: "system", name: "Standing order" };
+
+  for (const date of dates) {
+    const claimed = await StandingOrder.findOneAndUpdate(
+      { _id: standing._id, status: "active", $or: [{ lastGeneratedDate: null }, { lastGeneratedDate: { $lt: date } }] },
+      { lastGeneratedDate: date },
+      { new: true }
+    ).exec();
+    if (!claimed) {
+      return;
+    }
+
+    const items = claimed.items.map((item) => ({ productId: item.productId.toString(), quantity: item.quantity }));
+    let result: IOrder | string;
+    try {
+      result = await placeCustomerOrder(customer, items, date, actor, claimed);
+    } catch (error) {
+      console.error(`Standing order ${claimed._id} could not place an order:`, error);
+      result = "The order could not be placed.";
+    }
+
+    if (typeof result === "string") {
+      await StandingOrder.updateOne(
+        { _id: claimed._id },
+        { lastError: `${date.toLocaleDateString("en-IN")}: ${result}`, lastErrorAt: new Date() }
+      ).exec();
+      await sendStandingOrderFailureEmail(customer, claimed, date, result);
+    } else if (claimed.lastError) {
+      await StandingOrder.updateOne({ _id: claimed._id }, { $unset: { lastError: 1, lastErrorAt: 1 } }).exec();
+    }
+  }
+}
+
+async function runStandingOrderJob(): Promise<void> {
+  const until = addDays(startOfUtcDay(new Date()), STANDING_ORDER_LEAD_DAYS);
+  const standingOrders = await StandingOrder.find({ status: "active", startDate: { $lte: until } }).exec();
+  for (const standing of standingOrders) {
+    try {
+      await materialiseStandingOrder(standing);
+    } catch (error) {
+      console.error(`Standing order ${standing._id} failed:`, error);
+    }
+  }
+}
+
+// Trigger the standing order job from a scheduler (Vercel cron sends CRON_SECRET as a bearer token)
+app.get("/api/jobs/standing-orders", async (req, res) => {
+  try {
+    if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+      return res.status(401).json({ message: "Unauthorized." });
+    }
+    await runStandingOrderJob();
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error("Standing order job error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// List the logged-in customer's standing orders with their next few delivery dates
+app.get("/api/customer/standing-orders", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    const standingOrders = await StandingOrder.find({ customerId: customer._id })
+      .populate("items.productId", "name imageUrl")
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    const tomorrow = addDays(startOfUtcDay(new Date()), 1);
+    const result = standingOrders.map((standing) => ({
+      ...standing,
+      nextDeliveryDates:
+        standing.status === "active" ? getStandingOrderDates(standing, tomorrow, addDays(tomorrow, 60)).slice(0, 3) : [],
+    }));
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Get standing orders error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Set up a standing order (customer only). Deliveries due within the lead time are ordered right away.
+app.post("/api/customer/standing-orders", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+    if (!customer.parentId) {
+      return res.status(400).json({ message: "Customer has no associated distributor." });
+    }
+
+    const { name, items, frequency, weekdays, intervalDays, startDate, endDate } = req.body as {
+      name?: string;
+      items?: Array<{ productId: string; quantity: number }>;
+      frequency: StandingOrderFrequency;
+      weekdays?: number[];
+      intervalDays?: number;
+      startDate?: string;
+      endDate?: string | null;
+    };
+
+    if (!name?.trim()) {
+      return res.status(400).json({ message: "A name is required." });
+    }
+    const itemsError = validateOrderLines(items);
+    if (itemsError) {
+      return res.status(400).json({ message: itemsError });
+    }
+    if (!startDate) {
+      return res.status(400).json({ message: "startDate is required." });
+    }
+
+    const schedule: StandingOrderSchedule = {
+      frequency,
+      weekdays: frequency === "weekly" ? weekdays || [] : [],
+      intervalDays: frequency === "interval" ? intervalDays : undefined,
+      startDate: startOfUtcDay(new Date(startDate)),
+      endDate: endDate ? startOfUtcDay(new Date(endDate)) : undefined,
+    };
+    const scheduleError = validateStandingOrderSchedule(schedule);
+    if (scheduleError) {
+      return res.status(400).json({ message: scheduleError });
+    }
+    if (schedule.startDate < startOfUtcDay(new Date())) {
+      return res.status(400).json({ message: "startDate can't be in the past." });
+    }
+
+    const standing = await StandingOrder.create({
+      customerId: customer._id,
+      distributorId: customer.parentId,
+      name: name.trim(),
+      items,
+      ...schedule,
+    });
+
+    await materialiseStandingOrder(standing);
+
+    return res.status(201).json(await StandingOrder.findById(standing._id).lean().exec());
+  } catch (error) {
+    console.error("Create standing order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Change a standing order's name, lines or schedule (customer only). Orders already placed from it
+// are not changed; edit them like any other order.
+app.put("/api/customer/standing-orders/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const standing = await StandingOrder.findOne({ _id: req.params.id, customerId: auth.id });
+    if (!standing) {
+      return res.status(404).json({ message: "Standing order not found." });
+    }
+
+    const { name, items, frequency, weekdays, intervalDays, startDate, endDate } = req.body as {
+      name?: string;
+      items?: Array<{ productId: string; quantity: number }>;
+      frequency?: StandingOrderFrequency;
+      weekdays?: number[];
+      intervalDays?: number;
+      startDate?: string;
+      endDate?: string | null;
+    };
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return res.status(400).json({ message: "A name is required." });
+      }
+      standing.name = name.trim();
+    }
+    if (items !== undefined) {
+      const itemsError = validateOrderLines(items);
+      if (itemsError) {
+        return res.status(400).json({ message: itemsError });
+      }
+      standing.set("items", items);
+    }
+
+    const nextFrequency = frequency ?? standing.frequency;
+    const schedule: StandingOrderSchedule = {
+      frequency: nextFrequency,
+      weekdays: nextFrequency === "weekly" ? weekdays ?? standing.weekdays : [],
+      intervalDays: nextFrequency === "interval" ? intervalDays ?? standing.intervalDays : undefined,
+      startDate: startDate ? startOfUtcDay(new Date(startDate)) : standing.startDate,
+      endDate: endDate === null ? undefined : endDate ? startOfUtcDay(new Date(endDate)) : standing.endDate,
+    };
+    const scheduleError = validateStandingOrderSchedule(schedule);
+    if (scheduleError) {
+      return res.status(400).json({ message: scheduleError });
+    }
+    standing.set(schedule);
+
+    await standing.save();
+    await materialiseStandingOrder(standing);
+
+    return res.status(200).json(await StandingOrder.findById(standing._id).lean().exec());
+  } catch (error) {
+    console.error("Update standing order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Pause a standing order (customer only). Deliveries that fall while it is paused are skipped,
+// not ordered late.
+app.post("/api/customer/standing-orders/:id/pause", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const standing = await StandingOrder.findOneAndUpdate(
+      { _id: req.params.id, customerId: auth.id },
+      { status: "paused", pausedAt: new Date() },
+      { new: true }
+    )
+      .lean()
+      .exec();
+    if (!standing) {
+      return res.status(404).json({ message: "Standing order not found." });
+    }
+
+    return res.status(200).json(standing);
+  } catch (error) {
+    console.error("Pause standing order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Resume a paused standing order (customer only)
+app.post("/api/customer/standing-orders/:id/resume", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const standing = await StandingOrder.findOneAndUpdate(
+      { _id: req.params.id, customerId: auth.id },
+      { status: "active", $unset: { pausedAt: 1 } },
+      { new: true }
+    ).exec();
+    if (!standing) {
+      return res.status(404).json({ message: "Standing order not found." });
+    }
+
+    await materialiseStandingOrder(standing);
+
+    return res.status(200).json(await StandingOrder.findById(standing._id).lean().exec());
+  } catch (error) {
+    console.error("Resume standing order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Delete a standing order (customer only). Orders already placed from it are kept.
+app.delete("/api/customer/standing-orders/:id", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const result = await StandingOrder.deleteOne({ _id: req.params.id, customerId: auth.id }).exec();
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ message: "Standing order not found." });
+    }
+
+    return res.status(200).json({ message: "Standing order deleted." });
+  } catch (error) {
+    console.error("Delete standing order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Upcoming deliveries from the distributor's active standing orders, with the order already
+// placed for each one, if any (`?days=` looks ahead, default 14, at most 60)
+app.get("/api/distributor/standing-orders/upcoming", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 60);
+    const from = addDays(startOfUtcDay(new Date()), 1);
+    const until = addDays(from, days - 1);
+
+    const standingOrders = await StandingOrder.find({ distributorId: distributor._id, status: "active" })
+      .populate("customerId", "name email")
+      .populate("items.productId", "name")
+      .lean()
+      .exec();
+
+    const placedOrders = await Order.find({
+      standingOrderId: { $in: standingOrders.map((standing) => standing._id) },
+      desiredDeliveryDate: { $gte: from, $lte: until },
+    })
+      .select("orderNumber status standingOrderId desiredDeliveryDate")
+      .lean()
+      .exec();
+    const placedMap = new Map(
+      placedOrders.map((order) => [`${order.standingOrderId}-${startOfUtcDay(order.desiredDeliveryDate).getTime()}`, order])
+    );
+
+    const upcoming = standingOrders
+      .flatMap((standing) =>
+        getStandingOrderDates(standing, from, until).map((date) => {
+          const placed = placedMap.get(`${standing._id}-${date.getTime()}`);
+          return {
+            standingOrderId: standing._id,
+            name: standing.name,
+            customer: standing.customerId,
+            items: standing.items,
+            deliveryDate: date,
+            order: placed ? { _id: placed._id, orderNumber: placed.orderNumber, status: placed.status } : null,
+          };
+        })
+      )
+      .sort((a, b) => a.deliveryDate.getTime() - b.deliveryDate.getTime());
+
+    return res.status(200).json(upcoming);
+  } catch (error) {
+    console.error("Get upcoming standing orders error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== DISPATCH APIs ====================
+// The dispatch view plans a day's delivery run. Customers are grouped into routes by city,
+// district and PIN code; the distributor sets the order of the stops, which is kept in a DispatchPlan.
+const getRouteKey = (address?: IUser["address"]) =>
+  [address?.city, address?.district, address?.pin].map((part) => part?.trim().toLowerCase() || "").join("|");
+
+// A "YYYY-MM-DD" dispatch date as a whole UTC day, today if not given. null if invalid.
+function parseDispatchDate(value: unknown): Date | null {
+  const date = value ? new Date(String(value)) : new Date();
+  return isNaN(date.getTime()) ? null : startOfUtcDay(date);
+}
+
+// Dispatch manifest for a day: routes with their stops in delivery order, what to drop and collect
+// at each stop, and a pick list of total quantities per product
+app.get("/api/distributor/dispatch", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const day = parseDispatchDate(req.query.date);
+    if (!day) {
+      return res.status(400).json({ message: "date must be a valid date." });
+    }
+
+    const orders = await Order.find({
+      distributorId: distributor._id,
+      status: { $in: OPEN_ORDER_STATUSES },
+      currentDeliveryDate: { $gte: day, $lt: addDays(day, 1) },
+    })
+      .populate("customerId", "name email mobileNo businessName address")
+      .populate("items.productId", "name unit")
+      .lean()
+      .exec();
+
+    const balances = orders.length > 0 ? await getOrderBalances({ _id: { $in: orders.map((o) => o._id) } }) : [];
+    const balanceMap = new Map(balances.map((b) => [b.order._id.toString(), b.balance]));
+
+    // Stops follow the saved sequence; orders that aren't in it yet go last, by customer name
+    const plan = await DispatchPlan.findOne({ distributorId: distributor._id, date: day }).lean().exec();
+    const position = new Map((plan?.stops || []).map((id, i) => [id.toString(), i]));
+    const customerName = (order: (typeof orders)[number]) => (order.customerId as unknown as IUser | null)?.name || "";
+    const sorted = [...orders].sort(
+      (a, b) =>
+        (position.get(a._id.toString()) ?? Infinity) - (position.get(b._id.toString()) ?? Infinity) ||
+        customerName(a).localeCompare(customerName(b))
+    );
+
+    // Routes are listed in the order of their first stop
+    const routes = new Map<string, { key: string; city?: string; district?: string; pin?: string; stops: object[] }>();
+    const pickList = new Map<string, { productId?: string; name: string; unit?: string; quantity: number }>();
+    for (const order of sorted) {
+      const customer = order.customerId as unknown as IUser | null;
+      const address = customer?.address;
+      const key = getRouteKey(address);
+      if (!routes.has(key)) {
+        routes.set(key, { key, city: address?.city, district: address?.district, pin: address?.pin, stops: [] });
+      }
+
+      const items = order.items.map((item) => {
+        const product = item.productId as unknown as IProduct | null;
+        return { productId: product?._id?.toString(), name: product?.name || "Unavailable product", unit: product?.unit, quantity: item.quantity };
+      });
+      for (const item of items) {
+        const pickKey = item.productId || item.name;
+        const line = pickList.get(pickKey);
+        if (line) {
+          line.quantity += item.quantity;
+        } else {
+          pickList.set(pickKey, { ...item });
+        }
+      }
+
+      routes.get(key)!.stops.push({
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        customer: {
+          name: customer?.name,
+          businessName: customer?.businessName,
+          mobileNo: customer?.mobileNo,
+          address,
+        },
+        items,
+        totalAmount: order.totalAmount,
+        amountToCollect: balanceMap.get(order._id.toString()) ?? order.totalAmount,
+      });
+    }
+
+    return res.status(200).json({
+      date: day,
+      routes: [...routes.values()],
+      pickList: [...pickList.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      totals: {
+        stops: orders.length,
+        amountToCollect: roundMoney(balances.reduce((sum, b) => sum + b.balance, 0)),
+      },
+    });
+  } catch (error) {
+    console.error("Get dispatch manifest error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Save the order of the stops for a day (distributor only)
+app.put("/api/distributor/dispatch", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const { date, stops } = req.body as { date?: string; stops?: string[] };
+    const day = date ? parseDispatchDate(date) : null;
+    if (!day) {
+      return res.status(400).json({ message: "A valid date is required." });
+    }
+    if (!Array.isArray(stops) || stops.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ message: "stops must be a list of order ids." });
+    }
+
+    // Only the distributor's own orders for that day are kept
+    const orderIds = new Set(
+      (
+        await Order.find({
+          _id: { $in: stops },
+          distributorId: distributor._id,
+          currentDeliveryDate: { $gte: day, $lt: addDays(day, 1) },
+        })
+          .select("_id")
+          .lean()
+          .exec()
+      ).map((o) => o._id.toString())
+    );
+
+    const plan = await DispatchPlan.findOneAndUpdate(
+      { distributorId: distributor._id, date: day },
+      { $set: { stops: stops.filter((id) => orderIds.has(id)) } },
+      { upsert: true, new: true }
+    );
+
+    return res.status(200).json(plan);
+  } catch (error) {
+    console.error("Update dispatch plan error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== PAYMENT APIs ====================
+const PAYMENT_METHODS: PaymentMethod[] = ["cash", "upi", "cheque", "bank-transfer"];
+
+// Recompute the derived amountPaid/paymentStatus on an order from its confirmed payments.
+// Credit notes for returns count towards settling the order.
+async function syncOrderPayments(order: IOrder): Promise<void> {
+  const [result] = await Payment.aggregate([
+    { $match: { orderId: order._id, status: "confirmed" } },
+    { $group: { _id: null, total: { $sum: "$amount" } } },
+  ]);
+  const amountPaid = Math.round((result?.total || 0) * 100) / 100;
+
+  order.amountPaid = amountPaid;
+  if (amountPaid + (order.creditedAmount || 0) >= order.totalAmount) {
+    order.paymentStatus = "paid";
+  } else if (amountPaid === 0) {
+    order.paymentStatus = "pending";
+  } else {
+    order.paymentStatus = "partial";
+  }
+  await order.save();
+}
+
+// Orders paid before the payment ledger only carry a stored amountPaid. Record it as one confirmed
+// opening payment, so recomputing the order from its ledger keeps it.
+async function migrateOpeningPayments(): Promise<void> {
+  const ledgerOrderIds = await Payment.distinct("orderId", { status: "confirmed" });
+  const orders = await Order.find({ amountPaid: { $gt: 0 }, _id: { $nin: ledgerOrderIds } })
+    .select("customerId distributorId amountPaid updatedAt")
+    .lean()
+    .exec();
+  if (orders.length === 0) {
+    return;
+  }
+
+  await Payment.insertMany(
+    orders.map((order) => ({
+      orderId: order._id,
+      customerId: order.customerId,
+      distributorId: order.distributorId,
+      amount: order.amountPaid,
+      method: "cash",
+      reference: "Opening balance",
+      paidAt: order.updatedAt,
+      note: "Paid before payments were recorded individually",
+      recordedBy: order.distributorId || order.customerId,
+      recordedByRole: order.distributorId ? "distributor" : "customer",
+      status: "confirmed",
+      confirmedBy: order.distributorId || order.customerId,
+      confirmedAt: order.updatedAt,
+    }))
+  );
+}
+
+// List payments recorded against an order (any party to the order)
+app.get("/api/orders/:id/payments", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const payments = await Payment.find({ orderId: order._id })
+      .populate("recordedBy", "name")
+      .populate("confirmedBy", "name")
+      .sort({ paidAt: -1, createdAt: -1 })
+      .lean()
+      .exec();
+
+    return res.status(200).json(payments);
+  } catch (error) {
+    console.error("Get order payments error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Record a payment against an order. Payments recorded by customers wait for distributor
+// confirmation; payments recorded by the distributor or an admin are confirmed immediately.
+app.post("/api/orders/:id/payments", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { amount, method, reference, paidAt, note } = req.body as {
+      amount: number;
+      method: PaymentMethod;
+      reference?: string;
+      paidAt?: string;
+      note?: string;
+    };
+
+    const numericAmount = Number(amount);
+    if (!Number.isFinite(numericAmount) || numericAmount <= 0) {
+      return res.status(400).json({ message: "A positive amount is required." });
+    }
+    if (!PAYMENT_METHODS.includes(method)) {
+      return res.status(400).json({ message: `method must be one of: ${PAYMENT_METHODS.join(", ")}.` });
+    }
+    if (method !== "cash" && !reference?.trim()) {
+      return res.status(400).json({ message: "A reference number is required for non-cash payments." });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || actor.role === "system") {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    if (order.status === "cancelled") {
+      return res.status(400).json({ message: "Cannot record a payment against a cancelled order." });
+    }
+    if (actor.role === "customer" && !order.receivedAt) {
+      return res.status(400).json({ message: "Order must be marked as received first." });
+    }
+
+    // Pending payments count towards the outstanding amount so the order cannot be overpaid
+    const [recorded] = await Payment.aggregate([
+      { $match: { orderId: order._id, status: { $in: ["pending", "confirmed"] } } },
+      { $group: { _id: null, total: { $sum: "$amount" } } },
+    ]);
+    const outstanding =
+      Math.round((order.totalAmount - (order.creditedAmount || 0) - (recorded?.total || 0)) * 100) / 100;
+    if (numericAmount > outstanding) {
+      return res.status(400).json({
+        message: `Amount exceeds the outstanding balance of ₹${Math.max(outstanding, 0).toFixed(2)}.`,
+      });
+    }
+
+    const paymentDate = paidAt ? new Date(paidAt) : new Date();
+    if (isNaN(paymentDate.getTime())) {
+      return res.status(400).json({ message: "paidAt must be a valid date." });
+    }
+
+    const autoConfirm = actor.role !== "customer";
+    const payment = await Payment.create({
+      orderId: order._id,
+      customerId: order.customerId,
+      distributorId: order.distributorId,
+      amount: Math.round(numericAmount * 100) / 100,
+      method,
+      reference: reference?.trim() || undefined,
+      paidAt: paymentDate,
+      note: note?.trim() || undefined,
+      recordedBy: actor.id,
+      recordedByRole: actor.role,
+      status: autoConfirm ? "confirmed" : "pending",
+      confirmedBy: autoConfirm ? actor.id : undefined,
+      confirmedAt: autoConfirm ? new Date() : undefined,
+    });
+
+    if (autoConfirm) {
+      await syncOrderPayments(order);
+    }
+
+    return res.status(201).json(payment);
+  } catch (error) {
+    console.error("Record payment error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get payments awaiting confirmation (distributor)
+app.get("/api/distributor/payments/pending", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const payments = await Payment.find({ distributorId: distributor._id, status: "pending" })
+      .populate("orderId", "orderNumber totalAmount amountPaid")
+      .populate("customerId", "name email")
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+
+    return res.status(200).json(payments);
+  } catch (error) {
+    console.error("Get pending payments error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Confirm a customer-recorded payment (distributor of the order, or admin)
+app.post("/api/payments/:id/confirm", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found." });
+    }
+
+    const order = await Order.findById(payment.orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || (actor.role !== "distributor" && actor.role !== "admin")) {
+      return res.status(403).json({ message: "Access denied. Only the distributor can confirm payments." });
+    }
+
+    if (payment.status !== "pending") {
+      return res.status(400).json({ message: `Payment is already ${payment.status}.` });
+    }
+
+    payment.status = "confirmed";
+    payment.confirmedBy = actor.id;
+    payment.confirmedAt = new Date();
+    await payment.save();
+    await syncOrderPayments(order);
+
+    return res.status(200).json(payment);
+  } catch (error) {
+    console.error("Confirm payment error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Reject a customer-recorded payment (distributor of the order, or admin)
+app.post("/api/payments/:id/reject", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { reason } = req.body as { reason?: string };
+
+    if (!reason?.trim()) {
+      return res.status(400).json({ message: "A reason is required to reject a payment." });
+    }
+
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found." });
+    }
+
+    const order = await Order.findById(payment.orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || (actor.role !== "distributor" && actor.role !== "admin")) {
+      return res.status(403).json({ message: "Access denied. Only the distributor can reject payments." });
+    }
+
+    if (payment.status !== "pending") {
+      return res.status(400).json({ message: `Payment is already ${payment.status}.` });
+    }
+
+    payment.status = "rejected";
+    payment.confirmedBy = actor.id;
+    payment.confirmedAt = new Date();
+    payment.rejectionReason = reason.trim();
+    await payment.save();
+
+    return res.status(200).json(payment);
+  } catch (error) {
+    console.error("Reject payment error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== RETURN APIs ====================
+const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: "Damaged",
+  expired: "Expired",
+  "wrong-item": "Wrong item",
+  other: "Other",
+};
+
+// Units of each product on the order already covered by pending or approved return requests
+async function getReturnedQuantities(orderId: mongoose.Types.ObjectId): Promise<Map<string, number>> {
+  const requests = await ReturnRequest.find({ orderId, status: { $in: ["pending", "approved"] } })
+    .select("items")
+    .lean()
+    .exec();
+  const returned = new Map<string, number>();
+  for (const request of requests) {
+    for (const item of request.items) {
+      const productId = item.productId.toString();
+      returned.set(productId, (returned.get(productId) || 0) + item.quantity);
+    }
+  }
+  return returned;
+}
+
+// Issue the credit note for an approved return, or return the one already issued. Lines are
+// priced and taxed pro rata from the order line. Numbering works like issueInvoice.
+async function issueCreditNote(returnRequest: IReturnRequest, order: IOrder): Promise<ICreditNote> {
+  const existing = await CreditNote.findOne({ returnRequestId: returnRequest._id });
+  if (existing) {
+    return existing;
+  }
+
+  if (!order.distributorId) {
+    throw new Error("Order has no distributor to issue a credit note from.");
+  }
+
+  const products = await Product.find({ _id: { $in: returnRequest.items.map((item) => item.productId) } })
+    .select("name")
+    .lean()
+    .exec();
+  const productNames = new Map(products.map((p) => [p._id.toString(), p.name]));
+  const items = returnRequest.items.map((returned) => {
+    const line = order.items.find((item) => item.productId.toString() === returned.productId.toString());
+    if (!line) {
+      throw new Error("Returned product is not on the order.");
+    }
+    const share = returned.quantity / line.quantity;
+    return {
+      productId: returned.productId,
+      name: productNames.get(returned.productId.toString()) || "Product",
+      quantity: returned.quantity,
+      price: line.price,
+      hsnCode: line.hsnCode,
+      gstRate: line.gstRate || 0,
+      amount: roundMoney((line.taxableValue ?? line.price * line.quantity) * share),
+      cgst: roundMoney((line.cgst || 0) * share),
+      sgst: roundMoney((line.sgst || 0) * share),
+      igst: roundMoney((line.igst || 0) * share),
+    };
+  });
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const taxTotal = roundMoney(items.reduce((sum, item) => sum + item.cgst + item.sgst + item.igst, 0));
+
+  const creditNote = await createInSequence(
+    async () =>
+      (await CreditNote.findOne({ distributorId: order.distributorId }).sort({ sequence: -1 }).select("sequence").lean())
+        ?.sequence || 0,
+    (sequence) =>
+      CreditNote.create({
+        returnRequestId: returnRequest._id,
+        orderId: order._id,
+        customerId: order.customerId,
+        distributorId: order.distributorId,
+        adminId: order.adminId,
+        sequence,
+        creditNoteNumber: `CN-${String(sequence).padStart(5, "0")}`,
+        issuedAt: new Date(),
+        items,
+        subtotal,
+        taxTotal,
+        taxType: order.taxType || "intra-state",
+        totalAmount: roundMoney(subtotal + taxTotal),
+      }),
+    // Another request may have issued this credit note first
+    async (error) => (error.keyPattern?.returnRequestId ? CreditNote.findOne({ returnRequestId: returnRequest._id }) : null)
+  );
+  if (!creditNote) {
+    throw new Error("Could not allocate a credit note number.");
+  }
+  return creditNote;
+}
+
+// List return requests for an order (any party to the order)
+app.get("/api/orders/:id/returns", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const returns = await ReturnRequest.find({ orderId: order._id })
+      .populate("items.productId", "name")
+      .populate("creditNoteId", "creditNoteNumber totalAmount issuedAt")
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return res.status(200).json(returns);
+  } catch (error) {
+    console.error("Get order returns error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Request a return of delivered goods (customer)
+app.post("/api/orders/:id/returns", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { items, reason, note } = req.body as {
+      items: Array<{ productId: string; quantity: number }>;
+      reason: ReturnReason;
+      note?: string;
+    };
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: "Select at least one item to return." });
+    }
+    if (new Set(items.map((item) => item.productId)).size !== items.length) {
+      return res.status(400).json({ message: "Each product can only be listed once." });
+    }
+    if (!RETURN_REASONS.includes(reason)) {
+      return res.status(400).json({ message: `reason must be one of: ${RETURN_REASONS.join(", ")}.` });
+    }
+    if (reason === "other" && !note?.trim()) {
+      return res.status(400).json({ message: "Please describe the reason for the return." });
+    }
+
+    const order = await Order.findById(req.params.id).populate("items.productId", "name");
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || actor.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+    if (!order.receivedAt || order.status !== "delivered") {
+      return res.status(400).json({ message: "Only delivered orders can be returned." });
+    }
+
+    const returned = await getReturnedQuantities(order._id as mongoose.Types.ObjectId);
+    for (const item of items) {
+      const line = order.items.find((orderItem) => (orderItem.productId as unknown as IProduct)._id.toString() === item.productId);
+      if (!line) {
+        return res.status(400).json({ message: `Product ${item.productId} is not on this order.` });
+      }
+      const returnable = line.quantity - (returned.get(item.productId) || 0);
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0 || item.quantity > returnable) {
+        return res.status(400).json({
+          message: `You can return up to ${returnable} of ${(line.productId as unknown as IProduct).name}.`,
+        });
+      }
+    }
+
+    const returnRequest = await ReturnRequest.create({
+      orderId: order._id,
+      customerId: order.customerId,
+      distributorId: order.distributorId,
+      items: items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      reason,
+      note: note?.trim() || undefined,
+    });
+
+    // Notify the distributor
+    try {
+      const [customer, distributor] = await Promise.all([
+        User.findById(order.customerId).select("name").lean().exec(),
+        order.distributorId ? User.findById(order.distributorId).select("name email").lean().exec() : null,
+      ]);
+      if (distributor) {
+        await mailTransporter.sendMail({
+          from: MAIL_FROM,
+          to: distributor.email,
+          subject: `Return requested for order #${order.orderNumber}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2>Return Requested</h2>
+              <p>${customer?.name || "A customer"} wants to return goods from order #${order.orderNumber}.</p>
+              <p><strong>Reason:</strong> ${RETURN_REASON_LABELS[reason]}${note?.trim() ? ` - ${escapeHtml(note.trim())}` : ""}</p>
+              <ul>
+                ${items
+                  .map((item) => {
+                    const line = order.items.find((orderItem) => (orderItem.productId as unknown as IProduct)._id.toString() === item.productId);
+                    return `<li>${(line?.productId as unknown as IProduct | undefined)?.name || "Product"}: ${item.quantity} units</li>`;
+                  })
+                  .join("")}
+              </ul>
+              <p>Please review it on your dashboard.</p>
+            </div>
+          `,
+        });
+      }
+    } catch (emailError) {
+      console.error("Failed to send return request email:", emailError);
+      // Don't fail the request if email fails
+    }
+
+    return res.status(201).json(returnRequest);
+  } catch (error) {
+    console.error("Request return error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get return requests awaiting review (distributor)
+app.get("/api/distributor/returns/pending", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const returns = await ReturnRequest.find({ distributorId: distributor._id, status: "pending" })
+      .populate("orderId", "orderNumber")
+      .populate("customerId", "name email")
+      .populate("items.productId", "name")
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+
+    return res.status(200).json(returns);
+  } catch (error) {
+    console.error("Get pending returns error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Email the customer about the outcome of their return request
+async function sendReturnDecisionEmail(
+  returnRequest: IReturnRequest,
+  order: IOrder,
+  creditNote?: ICreditNote
+): Promise<void> {
+  try {
+    const customer = await User.findById(order.customerId).select("name email").lean().exec();
+    if (!customer) {
+      return;
+    }
+
+    const approved = returnRequest.status === "approved";
+    await mailTransporter.sendMail({
+      from: MAIL_FROM,
+      to: customer.email,
+      subject: `Return ${approved ? "approved" : "rejected"} for order #${order.orderNumber}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Return ${approved ? "Approved" : "Rejected"}</h2>
+          <p>Hello ${customer.name},</p>
+          ${
+            approved && creditNote
+              ? `<p>Your return for order #${order.orderNumber} was approved. Credit note <strong>${creditNote.creditNoteNumber}</strong> for ₹${creditNote.totalAmount.toFixed(2)} has been applied to your balance.</p>`
+              : `<p>Your return for order #${order.orderNumber} was rejected.</p>`
+          }
+          ${returnRequest.rejectionReason ? `<p><strong>Reason:</strong> ${escapeHtml(returnRequest.rejectionReason)}</p>` : ""}
+        </div>
+      `,
+    });
+  } catch (emailError) {
+    console.error("Failed to send return decision email:", emailError);
+    // Don't fail the request if email fails
+  }
+}
+
+// Approve a return (distributor of the order, or admin): issue the credit note, reduce the
+// order's balance and put the goods back where the delivery took them from
+app.post("/api/returns/:id/approve", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+
+    const returnRequest = await ReturnRequest.findById(req.params.id);
+    if (!returnRequest) {
+      return res.status(404).json({ message: "Return request not found." });
+    }
+
+    const order = await Order.findById(returnRequest.orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || (actor.role !== "distributor" && actor.role !== "admin")) {
+      return res.status(403).json({ message: "Access denied. Only the distributor can approve returns." });
+    }
+
+    // Claim the request before anything moves, so a concurrent approval or rejection can't review it again
+    const claimed = await ReturnRequest.findOneAndUpdate(
+      { _id: returnRequest._id, status: "pending" },
+      { $set: { status: "approved", reviewedBy: actor.id, reviewedByRole: actor.role, reviewedAt: new Date() } },
+      { new: true }
+    ).exec();
+    if (!claimed) {
+      const current = await ReturnRequest.findById(returnRequest._id).select("status").lean().exec();
+      return res.status(400).json({ message: `Return request is already ${current?.status || returnRequest.status}.` });
+    }
+
+    let creditNote: ICreditNote;
+    try {
+      creditNote = await issueCreditNote(claimed, order);
+    } catch (error) {
+      // Nothing has moved yet, so hand the request back for review
+      await ReturnRequest.updateOne(
+        { _id: claimed._id, status: "approved" },
+        { $set: { status: "pending" }, $unset: { reviewedBy: "", reviewedByRole: "", reviewedAt: "" } }
+      );
+      throw error;
+    }
+
+    // Deliveries that went through the distributor's stock come back into it; batches that were
+    // never counted in there go back to the admin-side stock (tracked products only)
+    const orderId = order._id as mongoose.Types.ObjectId;
+    const note = `Return: ${RETURN_REASON_LABELS[claimed.reason]}`;
+    const throughDistributorStock = !!order.distributorId && (!order.sentToAdmin || !!order.receivedIntoStockAt);
+    for (const item of claimed.items) {
+      const movement = { type: "return" as const, stockChange: item.quantity, orderId, orderNumber: order.orderNumber, note };
+      if (throughDistributorStock) {
+        await moveDistributorStock(order.distributorId as mongoose.Types.ObjectId, item.productId, movement, actor);
+      } else {
+        await moveStock(item.productId, movement, actor);
+      }
+    }
+
+    claimed.creditNoteId = creditNote._id as mongoose.Types.ObjectId;
+    await claimed.save();
+
+    // Added in the update itself, so returns of the same order approved at the same time both count
+    const credited = await Order.findByIdAndUpdate(
+      orderId,
+      [{ $set: { creditedAmount: { $round: [{ $add: [{ $ifNull: ["$creditedAmount", 0] }, creditNote.totalAmount] }, 2] } } }],
+      { new: true }
+    );
+    if (credited) {
+      await syncOrderPayments(credited);
+    }
+    await sendReturnDecisionEmail(claimed, credited || order, creditNote);
+
+    return res.status(200).json({ returnRequest: claimed, creditNote });
+  } catch (error) {
+    console.error("Approve return error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Reject a return (distributor of the order, or admin)
+app.post("/api/returns/:id/reject", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { reason } = req.body as { reason?: string };
+
+    if (!reason?.trim()) {
+      return res.status(400).json({ message: "A reason is required to reject a return." });
+    }
+
+    const returnRequest = await ReturnRequest.findById(req.params.id);
+    if (!returnRequest) {
+      return res.status(404).json({ message: "Return request not found." });
+    }
+
+    const order = await Order.findById(returnRequest.orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor || (actor.role !== "distributor" && actor.role !== "admin")) {
+      return res.status(403).json({ message: "Access denied. Only the distributor can reject returns." });
+    }
+
+    const rejected = await ReturnRequest.findOneAndUpdate(
+      { _id: returnRequest._id, status: "pending" },
+      {
+        $set: {
+          status: "rejected",
+          reviewedBy: actor.id,
+          reviewedByRole: actor.role,
+          reviewedAt: new Date(),
+          rejectionReason: reason.trim(),
+        },
+      },
+      { new: true }
+    ).exec();
+    if (!rejected) {
+      const current = await ReturnRequest.findById(returnRequest._id).select("status").lean().exec();
+      return res.status(400).json({ message: `Return request is already ${current?.status || returnRequest.status}.` });
+    }
+    await sendReturnDecisionEmail(rejected, order);
+
+    return res.status(200).json(rejected);
+  } catch (error) {
+    console.error("Reject return error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== DISTRIBUTOR STOCK APIs ====================
+// Reorder suggestions look at the last REORDER_LOOKBACK_DAYS of customer orders and aim to refill
+// the distributor's stock to the reorder point plus REORDER_COVER_DAYS of demand
+const REORDER_LOOKBACK_DAYS = 28;
+const REORDER_COVER_DAYS = 14;
+const REORDER_JOB_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Recompute the reorder suggestions of one distributor and email them about products that have
+// newly dropped below their reorder point. Returns the products that need reordering.
+async function computeReorderSuggestions(distributorId: mongoose.Types.ObjectId) {
+  const balances = await DistributorStock.find({ distributorId, reorderPoint: { $ne: null } })
+    .populate<{ productId: IProduct }>("productId", "name")
+    .exec();
+  if (balances.length === 0) {
+    return [];
+  }
+
+  const since = new Date(Date.now() - REORDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const demand = await Order.aggregate<{ _id: mongoose.Types.ObjectId; quantity: number }>([
+    { $match: { distributorId, status: { $ne: "cancelled" }, createdAt: { $gte: since } } },
+    { $unwind: "$items" },
+    { $group: { _id: "$items.productId", quantity: { $sum: "$items.quantity" } } },
+  ]);
+  const demandByProduct = new Map(demand.map((d) => [d._id.toString(), d.quantity]));
+
+  const now = new Date();
+  const suggestions = [];
+  const newlyLow = [];
+  for (const balance of balances) {
+    const product = balance.productId;
+    const reorderPoint = balance.reorderPoint || 0;
+    const averageDailyDemand = (demandByProduct.get(product._id.toString()) || 0) / REORDER_LOOKBACK_DAYS;
+    const isLow = balance.quantity < reorderPoint;
+    const targetLevel = reorderPoint + Math.ceil(averageDailyDemand * REORDER_COVER_DAYS);
+
+    balance.averageDailyDemand = Math.round(averageDailyDemand * 100) / 100;
+    balance.suggestedQuantity = isLow ? Math.max(targetLevel - balance.quantity, 1) : 0;
+    balance.suggestionUpdatedAt = now;
+    if (isLow && !balance.lowStockAlertedAt) {
+      balance.lowStockAlertedAt = now;
+      newlyLow.push(balance);
+    } else if (!isLow) {
+      balance.lowStockAlertedAt = undefined;
+    }
+    await balance.save();
+
+    if (isLow) {
+      suggestions.push({
+        productId: product._id,
+        name: product.name,
+        quantity: balance.quantity,
+        reorderPoint,
+        averageDailyDemand: balance.averageDailyDemand,
+        suggestedQuantity: balance.suggestedQuantity,
+      });
+    }
+  }
+
+  if (newlyLow.length > 0) {
+    try {
+      const distributor = await User.findById(distributorId).select("name email").lean().exec();
+      if (distributor) {
+        await mailTransporter.sendMail({
+          from: MAIL_FROM,
+          to: distributor.email,
+          subject: "Low stock alert",
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2>Low Stock Alert</h2>
+              <p>Dear ${distributor.name},</p>
+              <p>The following products have dropped below their reorder point:</p>
+              <ul>
+                ${newlyLow
+                  .map((balance) => `<li>${balance.productId.name}: ${balance.quantity} left (reorder at ${balance.reorderPoint}), suggested reorder ${balance.suggestedQuantity} units</li>`)
+                  .join("")}
+              </ul>
+              <p>You can send the suggested quantities to your admin from your Order Management page.</p>
+            </div>
+          `,
+        });
+      }
+    } catch (emailError) {
+      console.error("Failed to send low stock email:", emailError);
+      // Don't fail the job if email fails
+    }
+  }
+
+  return suggestions;
+}
+
+// Scheduled job: refresh reorder suggestions for every distributor that has reorder points set
+async function runReorderSuggestionJob(): Promise<void> {
+  const distributorIds = await DistributorStock.distinct("distributorId", { reorderPoint: { $ne: null } });
+  for (const distributorId of distributorIds) {
+    try {
+      await computeReorderSuggestions(distributorId as mongoose.Types.ObjectId);
+    } catch (error) {
+      console.error(`Reorder suggestions failed for distributor ${distributorId}:`, error);
+    }
+  }
+}
+
+// Trigger the reorder job from a scheduler (Vercel cron sends CRON_SECRET as a bearer token)
+app.get("/api/jobs/reorder-suggestions", async (req, res) => {
+  try {
+    if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+      return res.status(401).json({ message: "Unauthorized." });
+    }
+    await runReorderSuggestionJob();
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error("Reorder suggestion job error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get the distributor's stock on hand for every product they can sell
+app.get("/api/distributor/stock", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const adminId = distributor.parentId || distributor.createdBy;
+    const [adminPricing, balances] = await Promise.all([
+      adminId
+        ? AdminProductPricing.find({ adminId, distributorId: distributor._id, isActive: true })
+            .populate<{ productId: IProduct | null }>("productId", "name imageUrl status isActive")
+            .lean()
+            .exec()
+        : [],
+      DistributorStock.find({ distributorId: distributor._id })
+        .populate<{ productId: IProduct | null }>("productId", "name imageUrl")
+        .lean()
+        .exec(),
+    ]);
+
+    // Products the distributor sells start at 0; products they no longer sell still show while stock is held
+    const stock = new Map<
+      string,
+      { productId: string; name: string; imageUrl?: string; quantity: number; reorderPoint?: number }
+    >();
+    for (const p of adminPricing) {
+      const product = p.productId;
+      if (product && product.status === "approved" && product.isActive) {
+        stock.set(product._id.toString(), { productId: product._id.toString(), name: product.name, imageUrl: product.imageUrl, quantity: 0 });
+      }
+    }
+    for (const balance of balances) {
+      const product = balance.productId;
+      if (!product) continue;
+      const key = product._id.toString();
+      if (stock.has(key) || balance.quantity !== 0) {
+        stock.set(key, {
+          productId: key,
+          name: product.name,
+          imageUrl: product.imageUrl,
+          quantity: balance.quantity,
+          reorderPoint: balance.reorderPoint,
+        });
+      }
+    }
+
+    const result = Array.from(stock.values()).sort((a, b) => a.name.localeCompare(b.name));
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Get distributor stock error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Correct the distributor's stock of a product after a stock count
+app.post("/api/distributor/stock/:productId/adjustments", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { quantity, note } = req.body as { quantity?: number; note?: string };
+
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity === 0) {
+      return res.status(400).json({ message: "quantity must be a non-zero whole number." });
+    }
+    if (!note?.trim()) {
+      return res.status(400).json({ message: "A note is required for stock adjustments." });
+    }
+
+    const product = await Product.findById(req.params.productId).select("_id").lean().exec();
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
+
+    const movement = await moveDistributorStock(
+      distributor._id,
+      product._id as mongoose.Types.ObjectId,
+      { type: "adjustment", stockChange: quantity, note },
+      { id: distributor._id, name: distributor.name, role: "distributor" }
+    );
+
+    return res.status(201).json(movement);
+  } catch (error) {
+    console.error("Adjust distributor stock error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Set or clear (null) the reorder point of a product in the distributor's stock
+app.put("/api/distributor/stock/:productId/reorder-point", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { reorderPoint } = req.body as { reorderPoint?: number | null };
+
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    if (reorderPoint !== null && (typeof reorderPoint !== "number" || !Number.isInteger(reorderPoint) || reorderPoint < 0)) {
+      return res.status(400).json({ message: "reorderPoint must be a whole number of 0 or more, or null." });
+    }
+
+    const product = await Product.findById(req.params.productId).select("_id").lean().exec();
+    if (!product) {
+      return res.status(404).json({ message: "Product not found." });
+    }
+
+    await DistributorStock.findOneAndUpdate(
+      { distributorId: distributor._id, productId: product._id },
+      reorderPoint === null
+        ? { $unset: { reorderPoint: 1, averageDailyDemand: 1, suggestedQuantity: 1, suggestionUpdatedAt: 1, lowStockAlertedAt: 1 } }
+        : { $set: { reorderPoint } },
+      { upsert: true }
+    ).exec();
+
+    const suggestions = await computeReorderSuggestions(distributor._id);
+    return res.status(200).json({ reorderPoint, suggestions });
+  } catch (error) {
+    console.error("Set reorder point error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Get the distributor's reorder suggestions as computed by the last job run
+app.get("/api/distributor/reorder-suggestions", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const balances = await DistributorStock.find({ distributorId: distributor._id, suggestedQuantity: { $gt: 0 } })
+      .populate<{ productId: IProduct | null }>("productId", "name")
+      .lean()
+      .exec();
+
+    const suggestions = balances
+      .filter((balance) => balance.productId)
+      .map((balance) => ({
+        productId: balance.productId!._id,
+        name: balance.productId!.name,
+        quantity: balance.quantity,
+        reorderPoint: balance.reorderPoint,
+        averageDailyDemand: balance.averageDailyDemand,
+        suggestedQuantity: balance.suggestedQuantity,
+        updatedAt: balance.suggestionUpdatedAt,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return res.status(200).json(suggestions);
+  } catch (error) {
+    console.error("Get reorder suggestions error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== RECEIVABLES APIs ====================
+
+type BalanceOrder = Pick<
+  IOrder,
+  "orderNumber" | "customerId" | "distributorId" | "adminId" | "totalAmount" | "amountPaid" | "creditedAmount" | "status" | "receivedAt" | "createdAt"
+> & { _id: mongoose.Types.ObjectId };
+
+interface OrderBalance {
+  order: BalanceOrder;
+  paid: number;
+  balance: number;
+}
+
+interface ReceivableCustomer {
+  customerId: string;
+  name: string;
+  email: string;
+  distributorName?: string;
+  outstanding: number;
+  buckets: Record<ReceivableBucket, number>;
+  orders: Array<{
+    _id: mongoose.Types.ObjectId;
+    orderNumber: string;
+    totalAmount: number;
+    paid: number;
+    balance: number;
+    receivedAt?: Date;
+    daysOutstanding: number;
+    bucket: ReceivableBucket;
+  }>;
+}
+
+function emptyBuckets(): Record<ReceivableBucket, number> {
+  return { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+}
+
+// Outstanding balance per order: total minus confirmed payments and credit notes. Orders with no
+// ledger entries (paid before the payment ledger existed) fall back to their stored amountPaid.
+async function getOrderBalances(filter: mongoose.FilterQuery<IOrder>): Promise<OrderBalance[]> {
+  const orders = await Order.find({ ...filter, status: { $ne: "cancelled" } })
+    .select("orderNumber customerId distributorId adminId totalAmount amountPaid creditedAmount status receivedAt createdAt")
+    .lean()
+    .exec();
+  if (orders.length === 0) return [];
+
+  const paidRows = await Payment.aggregate([
+    { $match: { orderId: { $in: orders.map((o) => o._id) }, status: "confirmed" } },
+    { $group: { _id: "$orderId", total: { $sum: "$amount" } } },
+  ]);
+  const paidMap = new Map<string, number>(paidRows.map((r) => [r._id.toString(), r.total]));
+
+  return orders.map((order) => {
+    const paid = paidMap.get(order._id.toString()) ?? (order.amountPaid || 0);
+    const balance = Math.max(Math.round((order.totalAmount - (order.creditedAmount || 0) - paid) * 100) / 100, 0);
+    return { order, paid, balance };
+  });
+}
+
+// Credit position of a customer: every open (non-cancelled) order counts against the limit,
+// delivered or not, so a customer cannot stack undelivered orders past it
+async function getCustomerCredit(customer: IUser): Promise<{
+  creditLimit: number | null;
+  outstanding: number;
+  available: number | null;
+}> {
+  const balances = await getOrderBalances({ customerId: customer._id });
+  const outstanding = Math.round(balances.reduce((sum, b) => sum + b.balance, 0) * 100) / 100;
+  const creditLimit = customer.creditLimit ?? null;
+  return {
+    creditLimit,
+    outstanding,
+    available: creditLimit === null ? null : Math.round((creditLimit - outstanding) * 100) / 100,
+  };
+}
+
+// Get the logged-in customer's credit limit and remaining credit
+app.get("/api/customer/credit", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const customer = await User.findById(auth.id);
+    if (!customer || customer.role !== "customer") {
+      return res.status(403).json({ message: "Access denied. Customer only." });
+    }
+
+    return res.status(200).json(await getCustomerCredit(customer));
+  } catch (error) {
+    console.error("Get customer credit error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Receivables aging per customer (distributor: own customers, admin: their distributors' customers)
+app.get("/api/receivables", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const currentUser = await User.findById(auth.id);
+    if (!currentUser) {
+      return res.status(401).json({ message: "User not found." });
+    }
+
+    const filter: mongoose.FilterQuery<IOrder> = { receivedAt: { $exists: true, $ne: null } };
+    if (currentUser.role === "distributor") {
+      filter.distributorId = currentUser._id;
+    } else if (currentUser.role === "admin" && !auth.isSuperAdmin) {
+      const distributorIds = await User.find({ parentId: currentUser._id, role: "distributor" })
+        .select("_id")
+        .lean()
+        .exec();
+      filter.$or = [
+        { adminId: currentUser._id },
+        { distributorId: { $in: distributorIds.map((d) => d._id) } },
+      ];
+    }
+    // Super admin sees every customer
+
+    const now = Date.now();
+    const balances = (await getOrderBalances(filter)).filter((b) => b.balance > 0);
+
+    const customerIds = [...new Set(balances.map((b) => b.order.customerId.toString()))];
+    const distributorIds = [...new Set(balances.map((b) => b.order.distributorId?.toString()).filter(Boolean))];
+    const users = await User.find({ _id: { $in: [...customerIds, ...distributorIds] } })
+      .select("name email")
+      .lean()
+      .exec();
+    const userMap = new Map(users.map((u) => [u._id.toString(), u]));
+
+    const totals = { outstanding: 0, buckets: emptyBuckets() };
+    const customers = new Map<string, ReceivableCustomer>();
+
+    for (const { order, paid, balance } of balances) {
+      const customerKey = order.customerId.toString();
+      const daysOutstanding = Math.max(Math.floor((now - new Date(order.receivedAt!).getTime()) / 86400000), 0);
+      const bucket = getReceivableBucket(daysOutstanding);
+
+      let entry = customers.get(customerKey);
+      if (!entry) {
+        const customer = userMap.get(customerKey);
+        const distributor = order.distributorId ? userMap.get(order.distributorId.toString()) : undefined;
+        entry = {
+          customerId: customerKey,
+          name: customer?.name || "Unknown customer",
+          email: customer?.email || "",
+          distributorName: distributor?.name,
+          outstanding: 0,
+          buckets: emptyBuckets(),
+          orders: [],
+        };
+        customers.set(customerKey, entry);
+      }
+
+      entry.outstanding += balance;
+      entry.buckets[bucket] += balance;
+      entry.orders.push({
+        _id: order._id,
+        orderNumber: order.orderNumber,
+        totalAmount: order.totalAmount,
+        paid,
+        balance,
+        receivedAt: order.receivedAt,
+        daysOutstanding,
+        bucket,
+      });
+      totals.outstanding += balance;
+      totals.buckets[bucket] += balance;
+    }
+
+    const customerList = Array.from(customers.values())
+      .map((c) => ({ ...c, orders: c.orders.sort((a, b) => b.daysOutstanding - a.daysOutstanding) }))
+      .sort((a, b) => b.outstanding - a.outstanding);
+
+    return res.status(200).json({ buckets: RECEIVABLE_BUCKETS, totals, customers: customerList });
+  } catch (error) {
+    console.error("Get receivables error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== INVOICE APIs ====================
+
+const toInvoiceParty = (user: IUser): IInvoiceParty => ({
+  name: user.name,
+  businessName: user.businessName,
+  registrationNo: user.registrationNo,
+  email: user.email,
+  mobileNo: user.mobileNo,
+  address: user.address,
+});
+
+// Issue the invoice for a delivered order, or return the one already issued. The next
+// sequence number is derived from the distributor's last invoice; the unique
+// (distributorId, sequence) index rejects a concurrent duplicate, in which case we retry.
+async function issueInvoice(order: IOrder): Promise<IInvoice> {
+  const existing = await Invoice.findOne({ orderId: order._id });
+  if (existing) {
+    return existing;
+  }
+
+  if (!order.distributorId) {
+    throw new Error("Order has no distributor to invoice from.");
+  }
+
+  const [seller, buyer] = await Promise.all([
+    User.findById(order.distributorId),
+    User.findById(order.customerId),
+  ]);
+  if (!seller || !buyer) {
+    throw new Error("Seller or buyer account not found.");
+  }
+
+  const products = await Product.find({ _id: { $in: order.items.map((item) => item.productId) } })
+    .select("name")
+    .lean()
+    .exec();
+  const productNames = new Map(products.map((p) => [p._id.toString(), p.name]));
+  // Orders placed before GST was tracked carry no tax breakdown and invoice at 0%
+  const items = order.items.map((item) => ({
+    productId: item.productId,
+    name: productNames.get(item.productId.toString()) || "Product",
+    quantity: item.quantity,
+    price: item.price,
+    hsnCode: item.hsnCode,
+    gstRate: item.gstRate || 0,
+    discount: item.discount,
+    amount: item.taxableValue ?? roundMoney(item.price * item.quantity),
+    cgst: item.cgst || 0,
+    sgst: item.sgst || 0,
+    igst: item.igst || 0,
+  }));
+
+  const invoice = await createInSequence(
+    async () =>
+      (await Invoice.findOne({ distributorId: order.distributorId }).sort({ sequence: -1 }).select("sequence").lean())
+        ?.sequence || 0,
+    (sequence) =>
+      Invoice.create({
+        orderId: order._id,
+        distributorId: order.distributorId,
+        sequence,
+        invoiceNumber: `INV-${String(sequence).padStart(5, "0")}`,
+        issuedAt: new Date(),
+        seller: toInvoiceParty(seller),
+        buyer: toInvoiceParty(buyer),
+        items,
+        discounts: (order.discounts || []).map(({ name, code, amount }) => ({ name, code, amount })),
+        subtotal: order.subtotal ?? order.totalAmount,
+        taxTotal: order.taxTotal || 0,
+        taxType: order.taxType || "intra-state",
+        totalAmount: order.totalAmount,
+      }),
+    // Another request may have invoiced this order first
+    async (error) => (error.keyPattern?.orderId ? Invoice.findOne({ orderId: order._id }) : null)
+  );
+  if (!invoice) {
+    throw new Error("Could not allocate an invoice number.");
+  }
+  return invoice;
+}
+
+const formatInvoiceAmount = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatInvoiceAddress = (party: IInvoiceParty): string[] => {
+  const a = party.address;
+  if (!a) return [];
+  return [
+    a.address1,
+    a.address2,
+    [a.city, a.district].filter(Boolean).join(", "),
+    [a.state, a.pin].filter(Boolean).join(" - "),
+    a.country,
+  ].filter((line): line is string => !!line);
+};
+
+function renderInvoicePdf(invoice: IInvoice, order: IOrder): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = 50;
+    const right = doc.page.width - 50;
+
+    doc.fontSize(20).font("Helvetica-Bold").text("TAX INVOICE", left, 50, { align: "center" });
+    doc.moveDown(1.5);
+
+    const writeParty = (title: string, party: IInvoiceParty, x: number, y: number) => {
+      doc.fontSize(10).font("Helvetica-Bold").text(title, x, y, { width: 240 });
+      doc.font("Helvetica").text(party.businessName || party.name, { width: 240 });
+      if (party.businessName) doc.text(party.name, { width: 240 });
+      for (const line of formatInvoiceAddress(party)) doc.text(line, { width: 240 });
+      if (party.registrationNo) doc.text(`Reg. No: ${party.registrationNo}`, { width: 240 });
+      if (party.mobileNo) doc.text(`Phone: ${party.mobileNo}`, { width: 240 });
+      if (party.email) doc.text(party.email, { width: 240 });
+      return doc.y;
+    };
+
+    const partiesTop = doc.y;
+    const sellerBottom = writeParty("Seller", invoice.seller, left, partiesTop);
+    const buyerBottom = writeParty("Bill To", invoice.buyer, 320, partiesTop);
+
+    let y = Math.max(sellerBottom, buyerBottom) + 20;
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, left, y);
+    doc.text(`Invoice Date: ${invoice.issuedAt.toLocaleDateString("en-IN")}`, 320, y);
+    y += 15;
+    doc.text(`Order No: ${order.orderNumber}`, left, y);
+    if (order.receivedAt) {
+      doc.text(`Delivered: ${order.receivedAt.toLocaleDateString("en-IN")}`, 320, y);
+    }
+    y += 30;
+
+    // Line items
+    const interState = invoice.taxType === "inter-state";
+    const columns = { item: left, hsn: 200, qty: 255, price: 295, amount: 365, tax: 435 };
+    doc.fontSize(9).font("Helvetica-Bold");
+    doc.text("Item", columns.item, y);
+    doc.text("HSN", columns.hsn, y, { width: 50 });
+    doc.text("Qty", columns.qty, y, { width: 35, align: "right" });
+    doc.text("Rate", columns.price, y, { width: 65, align: "right" });
+    doc.text("Taxable", columns.amount, y, { width: 65, align: "right" });
+    doc.text(interState ? "IGST" : "CGST + SGST", columns.tax, y, { width: right - columns.tax, align: "right" });
+    y += 15;
+    doc.moveTo(left, y).lineTo(right, y).stroke();
+    y += 8;
+
+    doc.font("Helvetica");
+    for (const item of invoice.items) {
+      if (y > doc.page.height - 180) {
+        doc.addPage();
+        y = 50;
+      }
+      doc.text(item.name, columns.item, y, { width: columns.hsn - columns.item - 10 });
+      const rowBottom = doc.y;
+      doc.text(item.hsnCode || "-", columns.hsn, y, { width: 50 });
+      doc.text(String(item.quantity), columns.qty, y, { width: 35, align: "right" });
+      doc.text(formatInvoiceAmount(item.price), columns.price, y, { width: 65, align: "right" });
+      doc.text(formatInvoiceAmount(item.amount), columns.amount, y, { width: 65, align: "right" });
+      const lineTax = interState
+        ? `${formatInvoiceAmount(item.igst)} @${item.gstRate}%`
+        : `${formatInvoiceAmount(item.cgst + item.sgst)} @${item.gstRate}%`;
+      doc.text(lineTax, columns.tax, y, { width: right - columns.tax, align: "right" });
+      y = Math.max(rowBottom, doc.y) + 6;
+    }
+
+    doc.moveTo(left, y).lineTo(right, y).stroke();
+    y += 10;
+
+    // Totals and payment status
+    const amountPaid = order.amountPaid || 0;
+    const creditedAmount = order.creditedAmount || 0;
+    const sumTax = (key: "cgst" | "sgst" | "igst") => roundMoney(invoice.items.reduce((sum, item) => sum + item[key], 0));
+    const taxLines: Array<[string, string]> = interState
+      ? [["IGST", formatInvoiceAmount(sumTax("igst"))]]
+      : [
+          ["CGST", formatInvoiceAmount(sumTax("cgst"))],
+          ["SGST", formatInvoiceAmount(sumTax("sgst"))],
+        ];
+    doc.fontSize(10);
+    // Promotions are listed between the value of the goods and the taxable value they leave
+    const discounts = invoice.discounts || [];
+    const discountTotal = roundMoney(discounts.reduce((sum, discount) => sum + discount.amount, 0));
+    const discountLines: Array<[string, string]> = discounts.map((discount) => [
+      `Discount: ${discount.code || discount.name}`,
+      `- ${formatInvoiceAmount(discount.amount)}`,
+    ]);
+    const summary: Array<[string, string]> = [
+      ...(discounts.length > 0
+        ? [["Gross Value", formatInvoiceAmount(roundMoney(invoice.subtotal + discountTotal))] as [string, string]]
+        : []),
+      ...discountLines,
+      ["Taxable Value", formatInvoiceAmount(invoice.subtotal ?? invoice.totalAmount)],
+      ...taxLines,
+      ["Total", formatInvoiceAmount(invoice.totalAmount)],
+      ["Amount Paid", formatInvoiceAmount(amountPaid)],
+      ...(creditedAmount > 0 ? [["Credit Notes", formatInvoiceAmount(creditedAmount)] as [string, string]] : []),
+      ["Balance Due", formatInvoiceAmount(Math.max(invoice.totalAmount - creditedAmount - amountPaid, 0))],
+      ["Payment Status", (order.paymentStatus || "pending").toUpperCase()],
+    ];
+    for (const [label, value] of summary) {
+      doc.font(label === "Total" ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, columns.price - 80, y, { width: 160, align: "right" });
+      doc.text(value, columns.amount, y, { width: right - columns.amount, align: "right" });
+      y += 15;
     }
 
-    const { amountPaid } = req.body as { amountPaid: number };
-    if (amountPaid === undefined || amountPaid < 0) {
-      return res.status(400).json({ message: "Valid amountPaid is required." });
-    }
+    doc.fontSize(8).font("Helvetica").text("This is a computer-generated invoice.", left, doc.page.height - 80, {
+      width: right - left,
+      align: "center",
+    });
+
+    doc.end();
+  });
+}
 
+// Download the PDF invoice for a delivered order (customer, distributor or admin of the order)
+app.get("/api/orders/:id/invoice", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
     const order = await Order.findById(req.params.id);
-    if (!order || order.customerId.toString() !== customer._id.toString()) {
-      return res.status(404).json({ message: "Order not found or doesn't belong to you." });
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
     }
 
-    if (!order.receivedAt) {
-      return res.status(400).json({ message: "Order must be marked as received first." });
+    const actor = await resolveOrderActor(auth, order);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied." });
     }
 
-    order.amountPaid = amountPaid;
-    if (amountPaid === 0) {
-      order.paymentStatus = "pending";
-    } else if (amountPaid < order.totalAmount) {
-      order.paymentStatus = "partial";
-    } else {
-      order.paymentStatus = "paid";
+    if (order.status !== "delivered") {
+      return res.status(400).json({ message: "Invoices are available once the order is delivered." });
     }
-    await order.save();
 
-    const populatedOrder = await Order.findById(order._id)
-      .populate("items.productId", "name imageUrl")
-      .lean()
-      .exec();
+    const invoice = await issueInvoice(order);
+    const pdf = await renderInvoicePdf(invoice, order);
 
-    return res.status(200).json(populatedOrder);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+    res.setHeader("Access-Control-Expose-Headers", "Content-Disposition");
+    res.setHeader("Content-Length", pdf.length);
+    return res.status(200).send(pdf);
   } catch (error) {
-    console.error("Update payment error:", error);
+    console.error("Get invoice error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
@@ -3013,11 +8257,12 @@ app.get("/api/distributor/orders", authenticate, async (req, res) => {
 
     const orders = await Order.find({
       distributorId: distributor._id,
-      status: { $ne: "delivered" }
+      status: { $nin: ["delivered", "cancelled"] }
     })
       .populate("customerId", "name email")
       .populate("items.productId", "name imageUrl")
-      .select("orderNumber customerId items totalAmount desiredDeliveryDate currentDeliveryDate markedForToday sentToAdmin sentToAdminAt receivedAt status createdAt")
+      .populate("purchaseOrderId", "poNumber status")
+      .select("orderNumber customerId items subtotal discounts discountTotal taxTotal taxType totalAmount desiredDeliveryDate currentDeliveryDate markedForToday sentToAdmin sentToAdminAt purchaseOrderId stockedAt receivedAt status statusHistory editHistory creditHold standingOrderId createdAt")
       .sort({ currentDeliveryDate: 1, createdAt: -1 })
       .lean()
       .exec();
@@ -3047,6 +8292,38 @@ app.get("/api/distributor/orders", authenticate, async (req, res) => {
   }
 });
 
+// Recently delivered orders with their invoice numbers (distributor)
+app.get("/api/distributor/orders/delivered", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const orders = await Order.find({ distributorId: distributor._id, status: "delivered" })
+      .populate("customerId", "name email")
+      .select("orderNumber customerId totalAmount amountPaid paymentStatus receivedAt")
+      .sort({ receivedAt: -1 })
+      .limit(50)
+      .lean()
+      .exec();
+
+    const invoices = await Invoice.find({ orderId: { $in: orders.map((o) => o._id) } })
+      .select("orderId invoiceNumber")
+      .lean()
+      .exec();
+    const invoiceNumbers = new Map(invoices.map((i) => [i.orderId.toString(), i.invoiceNumber]));
+
+    return res.status(200).json(
+      orders.map((order) => ({ ...order, invoiceNumber: invoiceNumbers.get(order._id.toString()) }))
+    );
+  } catch (error) {
+    console.error("Get delivered orders error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 // Mark orders for today (distributor)
 app.post("/api/distributor/orders/mark-for-today", authenticate, async (req, res) => {
   try {
@@ -3072,11 +8349,18 @@ app.post("/api/distributor/orders/mark-for-today", authenticate, async (req, res
       return res.status(403).json({ message: "Some orders not found or don't belong to you." });
     }
 
-    // Update orders
-    await Order.updateMany(
-      { _id: { $in: orderIds } },
-      { markedForToday: true, currentDeliveryDate: new Date() }
-    );
+    for (const order of orders) {
+      const transitionError = checkOrderTransition(order, "mark-for-today", "distributor");
+      if (transitionError) {
+        return res.status(400).json({ message: `Order #${order.orderNumber}: ${transitionError}` });
+      }
+    }
+
+    const actor: OrderActor = { id: distributor._id, name: distributor.name, role: "distributor" };
+    for (const order of orders) {
+      applyOrderTransition(order, "mark-for-today", actor);
+      await order.save();
+    }
 
     return res.status(200).json({ message: "Orders marked for today." });
   } catch (error) {
@@ -3085,102 +8369,550 @@ app.post("/api/distributor/orders/mark-for-today", authenticate, async (req, res
   }
 });
 
-// Send orders to admin (distributor)
-app.post("/api/distributor/orders/send-to-admin", authenticate, async (req, res) => {
+// Send orders to admin (distributor)
+app.post("/api/distributor/orders/send-to-admin", authenticate, async (req, res) => {
+  try {
+    const auth = (req as any).user as { id: string };
+    const distributor = await User.findById(auth.id);
+    if (!distributor || distributor.role !== "distributor") {
+      return res.status(403).json({ message: "Access denied. Distributor only." });
+    }
+
+    const { orderIds, restockItems = [] } = req.body as {
+      orderIds: string[];
+      restockItems?: Array<{ productId: string; quantity: number }>; // Extra stock, e.g. from reorder suggestions
+    };
+
+    if (!orderIds || !Array.isArray(orderIds) || !Array.isArray(restockItems)) {
+      return res.status(400).json({ message: "orderIds array is required." });
+    }
+    if (orderIds.length === 0 && restockItems.length === 0) {
+      return res.status(400).json({ message: "Select orders or add restock items to send." });
+    }
+    if (restockItems.some((item) => !Number.isInteger(item.quantity) || item.quantity <= 0)) {
+      return res.status(400).json({ message: "Restock quantities must be whole numbers greater than 0." });
+    }
+
+    // Verify all orders belong to this distributor (markedForToday check removed to allow sending any order)
+    const orders = await Order.find({
+      _id: { $in: orderIds },
+      distributorId: distributor._id,
+    }).populate("items.productId", "name").exec();
+
+    if (orders.length !== orderIds.length) {
+      return res.status(403).json({ message: "Some orders not found or don't belong to you." });
+    }
+
+    for (const order of orders) {
+      const transitionError = checkOrderTransition(order, "send-to-admin", "distributor");
+      if (transitionError) {
+        return res.status(400).json({ message: `Order #${order.orderNumber}: ${transitionError}` });
+      }
+    }
+
+    // Get admin
+    const adminId = distributor.parentId || distributor.createdBy;
+    if (!adminId) {
+      return res.status(400).json({ message: "No admin associated with this distributor." });
+    }
+
+    const admin = await User.findById(adminId);
+    if (!admin) {
+      return res.status(404).json({ message: "Admin not found." });
+    }
+
+    // Aggregate items by product
+    const itemsByProduct = new Map<string, { productId: string; productName: string; totalQuantity: number }>();
+
+    orders.forEach((order) => {
+      order.items.forEach((item: any) => {
+        const productId = item.productId._id.toString();
+        const existing = itemsByProduct.get(productId);
+        if (existing) {
+          existing.totalQuantity += item.quantity;
+        } else {
+          itemsByProduct.set(productId, {
+            productId,
+            productName: item.productId.name,
+            totalQuantity: item.quantity,
+          });
+        }
+      });
+    });
+
+    const restockProducts = await Product.find({ _id: { $in: restockItems.map((item) => item.productId) } })
+      .select("name")
+      .lean()
+      .exec();
+    const restockNames = new Map(restockProducts.map((product) => [product._id.toString(), product.name]));
+    for (const item of restockItems) {
+      const productName = restockNames.get(item.productId);
+      if (!productName) {
+        return res.status(400).json({ message: `Product ${item.productId} not found.` });
+      }
+      const existing = itemsByProduct.get(item.productId);
+      if (existing) {
+        existing.totalQuantity += item.quantity;
+      } else {
+        itemsByProduct.set(item.productId, { productId: item.productId, productName, totalQuantity: item.quantity });
+      }
+    }
+
+    const itemsSummary = Array.from(itemsByProduct.values());
+
+    const restockByProduct = new Map<string, number>();
+    for (const item of restockItems) {
+      restockByProduct.set(item.productId, (restockByProduct.get(item.productId) || 0) + item.quantity);
+    }
+
+    const actor: OrderActor = { id: distributor._id, name: distributor.name, role: "distributor" };
+    const purchaseOrder = await PurchaseOrder.create({
+      poNumber: `PO-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+      distributorId: distributor._id,
+      adminId: admin._id,
+      lines: itemsSummary.map((item) => ({
+        productId: item.productId,
+        productName: item.productName,
+        quantity: item.totalQuantity,
+        restockQuantity: restockByProduct.get(item.productId) || 0,
+      })),
+      orderIds: orders.map((order) => order._id),
+      statusHistory: [
+        { status: "submitted", actorId: actor.id, actorName: actor.name, actorRole: actor.role, at: new Date() },
+      ],
+    });
+
+    // Update orders
+    for (const order of orders) {
+      order.purchaseOrderId = purchaseOrder._id as mongoose.Types.ObjectId;
+      applyOrderTransition(order, "send-to-admin", actor);
+      await order.save();
+    }
+
+    // Send email to admin
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>New Purchase Order from Distributor</h2>
+        <p>Purchase order: ${purchaseOrder.poNumber}</p>
+        <p>Distributor: ${distributor.name} (${distributor.email})</p>
+        <p>Orders: ${orders.length}</p>
+        ${restockItems.length > 0 ? `<p>Includes ${restockItems.length} product(s) to restock the distributor's warehouse.</p>` : ""}
+        <h3>Items Required:</h3>
+        <ul>
+          ${itemsSummary.map((item) => `<li>${item.productName}: ${item.totalQuantity} units</li>`).join("")}
+        </ul>
+        <p>Please check your dashboard for more details.</p>
+      </div>
+    `;
+
+    try {
+      await mailTransporter.sendMail({
+        from: MAIL_FROM,
+        to: admin.email,
+        subject: `Purchase Order ${purchaseOrder.poNumber} from ${distributor.name}`,
+        html: emailHtml,
+      });
+    } catch (emailError) {
+      console.error("Failed to send email:", emailError);
+      // Don't fail the request if email fails
+    }
+
+    return res.status(200).json({
+      message: "Orders sent to admin successfully.",
+      purchaseOrder: { _id: purchaseOrder._id, poNumber: purchaseOrder.poNumber },
+      itemsSummary,
+      ordersCount: orders.length,
+    });
+  } catch (error) {
+    console.error("Send orders to admin error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// ==================== PURCHASE ORDER APIs ====================
+// Purchase orders are raised by send-to-admin and move submitted → acknowledged → fulfilled, or
+// to rejected. Customer orders linked to a purchase order follow it through ORDER_TRANSITIONS.
+const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ["submitted", "acknowledged", "partially-fulfilled"];
+
+// Resolve the admin acting on a purchase order, or null if the user may not manage it
+async function resolvePurchaseOrderAdmin(
+  auth: { id: string; isSuperAdmin?: boolean },
+  purchaseOrder: IPurchaseOrder
+): Promise<OrderActor | null> {
+  const user = await User.findById(auth.id).select("name role").lean().exec();
+  if (!user || (user.role !== "admin" && !auth.isSuperAdmin)) {
+    return null;
+  }
+
+  const actor: OrderActor = { id: user._id as mongoose.Types.ObjectId, name: user.name, role: "admin" };
+  if (auth.isSuperAdmin || purchaseOrder.adminId.toString() === user._id.toString()) {
+    return actor;
+  }
+  const ownsDistributor = await User.exists({ _id: purchaseOrder.distributorId, parentId: user._id, role: "distributor" });
+  return ownsDistributor ? actor : null;
+}
+
+// Set the purchase order status in memory and append it to the history. The caller saves.
+function recordPurchaseOrderStatus(
+  purchaseOrder: IPurchaseOrder,
+  status: PurchaseOrderStatus,
+  actor: OrderActor,
+  note?: string
+): void {
+  purchaseOrder.status = status;
+  purchaseOrder.statusHistory.push({
+    status,
+    actorId: actor.id,
+    actorName: actor.name,
+    actorRole: actor.role,
+    note: note?.trim() || undefined,
+    at: new Date(),
+  });
+}
+
+// Email the distributor about a change to their purchase order
+async function sendPurchaseOrderEmail(purchaseOrder: IPurchaseOrder, heading: string, note?: string): Promise<void> {
+  try {
+    const distributor = await User.findById(purchaseOrder.distributorId).select("name email").lean().exec();
+    if (!distributor) {
+      return;
+    }
+
+    await mailTransporter.sendMail({
+      from: MAIL_FROM,
+      to: distributor.email,
+      subject: `Purchase Order ${purchaseOrder.poNumber}: ${heading}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${heading}</h2>
+          <p>Hello ${distributor.name},</p>
+          <p>Your purchase order <strong>${purchaseOrder.poNumber}</strong> is now <strong>${purchaseOrder.status}</strong>.</p>
+          ${note ? `<p><strong>Note:</strong> ${note}</p>` : ""}
+          <ul>
+            ${purchaseOrder.lines
+              .map((line) =>
+                line.fulfilledQuantity > 0 && line.fulfilledQuantity < line.quantity
+                  ? `<li>${line.productName}: ${line.fulfilledQuantity} of ${line.quantity} units supplied</li>`
+                  : `<li>${line.productName}: ${line.quantity} units</li>`
+              )
+              .join("")}
+          </ul>
+          <p>Please check your dashboard for more details.</p>
+        </div>
+      `,
+    });
+  } catch (emailError) {
+    console.error("Failed to send purchase order email:", emailError);
+    // Don't fail the request if email fails
+  }
+}
+
+// List purchase orders: distributors see their own, admins those of their distributors.
+// ?open=true limits the list to purchase orders still waiting on the admin.
+app.get("/api/purchase-orders", authenticate, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const user = await User.findById(auth.id);
+    if (!user) {
+      return res.status(401).json({ message: "User not found." });
+    }
+
+    const filter: any = {};
+    if (user.role === "distributor") {
+      filter.distributorId = user._id;
+    } else if (user.role === "admin" && !auth.isSuperAdmin) {
+      const distributorIds = await User.find({ parentId: user._id, role: "distributor" })
+        .select("_id")
+        .lean()
+        .exec();
+      filter.$or = [{ adminId: user._id }, { distributorId: { $in: distributorIds.map((d) => d._id) } }];
+    } else if (!auth.isSuperAdmin) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+    // Super admin sees all
+
+    if (req.query.open === "true") {
+      filter.status = { $in: OPEN_PURCHASE_ORDER_STATUSES };
+    }
+
+    const purchaseOrders = await PurchaseOrder.find(filter)
+      .populate("distributorId", "name email")
+      .populate({
+        path: "orderIds",
+        select: "orderNumber customerId items status totalAmount currentDeliveryDate stockedAt",
+        populate: { path: "customerId", select: "name email" },
+      })
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .lean()
+      .exec();
+
+    return res.status(200).json(purchaseOrders);
+  } catch (error) {
+    console.error("Get purchase orders error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Acknowledge a purchase order (admin): the admin has seen it and is preparing the goods
+app.post("/api/purchase-orders/:id/acknowledge", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found." });
+    }
+
+    const actor = await resolvePurchaseOrderAdmin(auth, purchaseOrder);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
+    }
+    if (purchaseOrder.status !== "submitted") {
+      return res.status(400).json({ message: `Purchase order is already ${purchaseOrder.status}.` });
+    }
+
+    const orders = await Order.find({ _id: { $in: purchaseOrder.orderIds } });
+    for (const order of orders) {
+      // Orders cancelled or already stocked in the meantime are left as they are
+      if (checkOrderTransition(order, "admin-acknowledge", "admin")) {
+        continue;
+      }
+      applyOrderTransition(order, "admin-acknowledge", actor);
+      await order.save();
+    }
+
+    recordPurchaseOrderStatus(purchaseOrder, "acknowledged", actor);
+    purchaseOrder.acknowledgedAt = new Date();
+    await purchaseOrder.save();
+    await sendPurchaseOrderEmail(purchaseOrder, "Purchase Order Acknowledged");
+
+    return res.status(200).json({ message: "Purchase order acknowledged.", purchaseOrder });
+  } catch (error) {
+    console.error("Acknowledge purchase order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Fulfil a purchase order (admin), in full or in part. Shipped units go into the distributor's
+// stock and are allocated to the linked customer orders oldest first; orders covered in full go
+// out for delivery. Whatever is not shipped stays on the purchase order as a back-order until a
+// later fulfilment ships it or the admin closes it.
+app.post("/api/purchase-orders/:id/fulfil", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const { lines: requestedLines, note } = req.body as {
+      lines?: Array<{ productId: string; quantity: number }>; // Units to ship now; defaults to everything outstanding
+      note?: string;
+    };
+    if (requestedLines !== undefined && !Array.isArray(requestedLines)) {
+      return res.status(400).json({ message: "lines must be an array." });
+    }
+
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found." });
+    }
+
+    const actor = await resolvePurchaseOrderAdmin(auth, purchaseOrder);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
+    }
+    if (!OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status)) {
+      return res.status(400).json({ message: `Purchase order is already ${purchaseOrder.status}.` });
+    }
+
+    const shipments: Array<{ line: IPurchaseOrderLine; quantity: number }> = [];
+    for (const line of purchaseOrder.lines) {
+      const outstanding = Math.max(line.quantity - line.fulfilledQuantity, 0);
+      const quantity = requestedLines
+        ? requestedLines.find((entry) => entry.productId === line.productId.toString())?.quantity ?? 0
+        : outstanding;
+      if (!Number.isInteger(quantity) || quantity < 0 || quantity > outstanding) {
+        return res.status(400).json({
+          message: `Quantity for ${line.productName} must be a whole number from 0 to ${outstanding}.`,
+        });
+      }
+      if (quantity > 0) {
+        shipments.push({ line, quantity });
+      }
+    }
+    if (requestedLines && shipments.length === 0) {
+      return res.status(400).json({ message: "Enter a quantity to ship for at least one product." });
+    }
+
+    // Customer orders still waiting on the admin's goods, oldest first
+    const orders = await Order.find({
+      purchaseOrderId: purchaseOrder._id,
+      status: "processing",
+      receivedIntoStockAt: null,
+    }).sort({ createdAt: 1 });
+
+    const allocations: Array<{ order: IOrder; item: IOrder["items"][number]; quantity: number }> = [];
+    for (const { line, quantity } of shipments) {
+      let remaining = quantity;
+      let reservedForOrders = 0;
+      for (const order of orders) {
+        for (const item of order.items) {
+          if (remaining === 0 || item.productId.toString() !== line.productId.toString()) {
+            continue;
+          }
+          const allocated = Math.min(item.quantity - (item.suppliedQuantity || 0), remaining);
+          if (allocated > 0) {
+            allocations.push({ order, item, quantity: allocated });
+            reservedForOrders += Math.min(allocated, item.reservedQuantity || 0);
+            remaining -= allocated;
+          }
+        }
+      }
+
+      // Units not already reserved for these orders (restock, cancelled orders) need free stock
+      const product = await Product.findById(line.productId).select("trackInventory stock reservedStock").lean().exec();
+      const available = product ? getAvailableStock(product) : null;
+      if (available !== null && available < quantity - reservedForOrders) {
+        return res.status(400).json({ message: `Only ${available} of ${line.productName} available.` });
+      }
+    }
+
+    const movementNote = `Purchase order ${purchaseOrder.poNumber}`;
+    for (const { order, item, quantity } of allocations) {
+      const reserved = Math.min(quantity, item.reservedQuantity || 0);
+      await moveStock(
+        item.productId,
+        {
+          type: "delivery",
+          stockChange: -quantity,
+          reservedChange: -reserved,
+          orderId: order._id as mongoose.Types.ObjectId,
+          orderNumber: order.orderNumber,
+          note: movementNote,
+        },
+        actor
+      );
+      item.reservedQuantity = (item.reservedQuantity || 0) - reserved;
+      item.suppliedQuantity = (item.suppliedQuantity || 0) + quantity;
+    }
+
+    for (const { line, quantity } of shipments) {
+      const allocated = allocations
+        .filter((allocation) => allocation.item.productId.toString() === line.productId.toString())
+        .reduce((sum, allocation) => sum + allocation.quantity, 0);
+      if (quantity > allocated) {
+        await moveStock(line.productId, { type: "delivery", stockChange: -(quantity - allocated), note: movementNote }, actor);
+      }
+      await moveDistributorStock(
+        purchaseOrder.distributorId,
+        line.productId,
+        { type: "receipt", stockChange: quantity, note: movementNote },
+        actor
+      );
+      line.fulfilledQuantity += quantity;
+    }
+
+    // Orders now supplied in full go out for delivery. Their goods are already in the distributor's
+    // stock, so mark-stocked must not add them again.
+    const now = new Date();
+    const stockedOrders: IOrder[] = [];
+    for (const order of orders) {
+      if (!allocations.some((allocation) => allocation.order === order)) {
+        continue;
+      }
+      if (order.items.every((item) => (item.suppliedQuantity || 0) >= item.quantity)) {
+        order.receivedIntoStockAt = now;
+        if (!checkOrderTransition(order, "mark-stocked", "admin")) {
+          applyOrderTransition(order, "mark-stocked", actor);
+          await syncOrderStock(order, "mark-stocked", actor);
+          stockedOrders.push(order);
+        }
+      }
+      await order.save();
+    }
+    for (const order of stockedOrders) {
+      await sendOrderStatusEmail(order, "mark-stocked", actor);
+    }
+
+    const backOrdered = purchaseOrder.lines.filter((line) => line.fulfilledQuantity < line.quantity);
+    const backOrderNote = backOrdered
+      .map((line) => `${line.productName} × ${line.quantity - line.fulfilledQuantity}`)
+      .join(", ");
+    recordPurchaseOrderStatus(
+      purchaseOrder,
+      backOrdered.length > 0 ? "partially-fulfilled" : "fulfilled",
+      actor,
+      note?.trim() || (backOrdered.length > 0 ? `Back-ordered: ${backOrderNote}` : undefined)
+    );
+    if (!purchaseOrder.acknowledgedAt) {
+      purchaseOrder.acknowledgedAt = now;
+    }
+    if (backOrdered.length === 0) {
+      purchaseOrder.fulfilledAt = now;
+    }
+    await purchaseOrder.save();
+    await sendPurchaseOrderEmail(
+      purchaseOrder,
+      backOrdered.length > 0 ? "Purchase Order Partially Fulfilled" : "Purchase Order Fulfilled",
+      [note?.trim(), backOrdered.length > 0 ? `Back-ordered: ${backOrderNote}` : ""].filter(Boolean).join(". ")
+    );
+
+    return res.status(200).json({
+      message: backOrdered.length > 0 ? "Purchase order partially fulfilled." : "Purchase order fulfilled.",
+      purchaseOrder,
+      ordersStocked: stockedOrders.length,
+    });
+  } catch (error) {
+    console.error("Fulfil purchase order error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
+// Reject a purchase order (admin), or close the back-order of a partially fulfilled one. Linked
+// customer orders that were not supplied in full go back to the distributor.
+app.post("/api/purchase-orders/:id/reject", authenticate, requireAdminOrSuper, async (req, res) => {
   try {
-    const auth = (req as any).user as { id: string };
-    const distributor = await User.findById(auth.id);
-    if (!distributor || distributor.role !== "distributor") {
-      return res.status(403).json({ message: "Access denied. Distributor only." });
-    }
-
-    const { orderIds } = req.body as { orderIds: string[] };
-
-    if (!orderIds || !Array.isArray(orderIds)) {
-      return res.status(400).json({ message: "orderIds array is required." });
+    const auth = getAuthUser(req);
+    const { reason } = req.body as { reason?: string };
+    if (!reason?.trim()) {
+      return res.status(400).json({ message: "A reason is required to reject a purchase order." });
     }
 
-    // Verify all orders belong to this distributor (markedForToday check removed to allow sending any order)
-    const orders = await Order.find({
-      _id: { $in: orderIds },
-      distributorId: distributor._id,
-    }).populate("items.productId", "name").lean().exec();
-
-    if (orders.length !== orderIds.length) {
-      return res.status(403).json({ message: "Some orders not found or don't belong to you." });
+    const purchaseOrder = await PurchaseOrder.findById(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found." });
     }
 
-    // Get admin
-    const adminId = distributor.parentId || distributor.createdBy;
-    if (!adminId) {
-      return res.status(400).json({ message: "No admin associated with this distributor." });
+    const actor = await resolvePurchaseOrderAdmin(auth, purchaseOrder);
+    if (!actor) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
     }
-
-    const admin = await User.findById(adminId);
-    if (!admin) {
-      return res.status(404).json({ message: "Admin not found." });
+    if (!OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status)) {
+      return res.status(400).json({ message: `Cannot reject a purchase order that is ${purchaseOrder.status}.` });
     }
+    const closingBackOrder = purchaseOrder.status === "partially-fulfilled";
 
-    // Aggregate items by product
-    const itemsByProduct = new Map<string, { productId: string; productName: string; totalQuantity: number }>();
-
-    orders.forEach((order) => {
-      order.items.forEach((item: any) => {
-        const productId = item.productId._id.toString();
-        const existing = itemsByProduct.get(productId);
-        if (existing) {
-          existing.totalQuantity += item.quantity;
-        } else {
-          itemsByProduct.set(productId, {
-            productId,
-            productName: item.productId.name,
-            totalQuantity: item.quantity,
-          });
-        }
-      });
-    });
-
-    const itemsSummary = Array.from(itemsByProduct.values());
-
-    // Update orders
-    await Order.updateMany(
-      { _id: { $in: orderIds } },
-      { sentToAdmin: true, sentToAdminAt: new Date() }
+    const orders = await Order.find({ _id: { $in: purchaseOrder.orderIds }, purchaseOrderId: purchaseOrder._id });
+    for (const order of orders) {
+      if (checkOrderTransition(order, "admin-decline", "admin")) {
+        continue;
+      }
+      applyOrderTransition(order, "admin-decline", actor, reason);
+      await order.save();
+    }
+
+    recordPurchaseOrderStatus(purchaseOrder, "rejected", actor, reason);
+    purchaseOrder.rejectedAt = new Date();
+    purchaseOrder.rejectionReason = reason.trim();
+    await purchaseOrder.save();
+    await sendPurchaseOrderEmail(
+      purchaseOrder,
+      closingBackOrder ? "Purchase Order Back-order Closed" : "Purchase Order Rejected",
+      reason.trim()
     );
 
-    // Send email to admin
-    const emailHtml = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2>New Order Request from Distributor</h2>
-        <p>Distributor: ${distributor.name} (${distributor.email})</p>
-        <p>Orders: ${orders.length}</p>
-        <h3>Items Required:</h3>
-        <ul>
-          ${itemsSummary.map((item) => `<li>${item.productName}: ${item.totalQuantity} units</li>`).join("")}
-        </ul>
-        <p>Please check your dashboard for more details.</p>
-      </div>
-    `;
-
-    try {
-      await mailTransporter.sendMail({
-        from: MAIL_FROM,
-        to: admin.email,
-        subject: `New Order Request from ${distributor.name}`,
-        html: emailHtml,
-      });
-    } catch (emailError) {
-      console.error("Failed to send email:", emailError);
-      // Don't fail the request if email fails
-    }
-
     return res.status(200).json({
-      message: "Orders sent to admin successfully.",
-      itemsSummary,
-      ordersCount: orders.length,
+      message: closingBackOrder ? "Back-order closed." : "Purchase order rejected.",
+      purchaseOrder,
     });
   } catch (error) {
-    console.error("Send orders to admin error:", error);
+    console.error("Reject purchase order error:", error);
     return res.status(500).json({ message: "Internal server error." });
   }
 });
@@ -3201,10 +8933,12 @@ app.get("/api/admin/products/available", authenticate, requireAdminOrSuper, asyn
     }
 
     // Get all approved products
-    const products = await Product.find({ status: "approved", isActive: true })
-      .select("name description price imageUrl category")
-      .lean()
-      .exec();
+    const products = (
+      await Product.find({ status: "approved", isActive: true })
+        .select("name description price priceTiers priceVersions imageUrl category")
+        .lean()
+        .exec()
+    ).map(withCurrentBasePrice);
 
     setCacheHeaders(res, cacheKey, products);
     return res.status(200).json(products);
@@ -3230,27 +8964,32 @@ app.get("/api/admin/products/used", authenticate, requireAdminOrSuper, async (re
 
     // Get all pricing entries for this admin
     const pricing = await AdminProductPricing.find({ adminId: admin._id, isActive: true })
-      .populate("distributorId", "name email")
-      .populate("productId", "name price imageUrl description")
+      .populate<{ distributorId: IUser }>("distributorId", "name email")
+      .populate<{ productId: IProduct }>("productId", "name price priceTiers priceVersions imageUrl description createdBy")
       .lean()
       .exec();
 
-    // Group by product
+    // Group by product. Prices and tiers are the ones that apply now, with their versions as history.
     const productsMap = new Map();
-    pricing.forEach((p: any) => {
-      const productId = (p.productId as any)._id.toString();
+    pricing.forEach((p) => {
+      const product = p.productId;
+      const productId = product._id.toString();
       if (!productsMap.has(productId)) {
+        const base = getPricingAt(product.priceVersions, product.price, product.priceTiers);
         productsMap.set(productId, {
-          product: p.productId,
+          product: { ...product, price: base.price, priceTiers: base.tiers },
           distributors: [],
         });
       }
-      const distributor = p.distributorId as any;
+      const distributor = p.distributorId;
+      const current = getPricingAt(p.priceVersions, p.customPrice, p.priceTiers);
       productsMap.get(productId).distributors.push({
         distributorId: distributor._id,
         distributorName: distributor.name,
         distributorEmail: distributor.email,
-        customPrice: p.customPrice,
+        customPrice: current.price,
+        priceTiers: current.tiers,
+        priceVersions: p.priceVersions || [],
         pricingId: p._id,
       });
     });
@@ -3275,7 +9014,7 @@ app.post("/api/admin/products/use", authenticate, requireAdminOrSuper, async (re
 
     const { productId, distributorPricing } = req.body as {
       productId: string;
-      distributorPricing: Array<{ distributorId: string; customPrice: number }>;
+      distributorPricing: Array<{ distributorId: string; customPrice: number; priceTiers?: IPriceTier[] }>;
     };
 
     if (!productId || !distributorPricing || !Array.isArray(distributorPricing)) {
@@ -3300,12 +9039,24 @@ app.post("/api/admin/products/use", authenticate, requireAdminOrSuper, async (re
       return res.status(403).json({ message: "Some distributors not found or don't belong to you." });
     }
 
-    // Create or update pricing entries
+    const changes = distributorPricing.map((pricing) =>
+      parsePriceChange(pricing.customPrice, pricing.priceTiers, undefined, undefined)
+    );
+    const invalid = changes.find((change): change is string => typeof change === "string");
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    // Create or update pricing entries; using a product prices it from now on
     const pricingEntries = [];
-    for (const pricing of distributorPricing) {
+    for (const [i, pricing] of distributorPricing.entries()) {
+      const change = changes[i] as PriceChange;
       const entry = await AdminProductPricing.findOneAndUpdate(
         { adminId: admin._id, distributorId: pricing.distributorId, productId },
-        { customPrice: pricing.customPrice, isActive: true },
+        {
+          $set: { customPrice: change.price, priceTiers: change.tiers, isActive: true },
+          $push: { priceVersions: toPriceVersion(change, admin) },
+        },
         { upsert: true, new: true }
       )
         .populate("distributorId", "name email")
@@ -3331,18 +9082,32 @@ app.put("/api/admin/products/pricing/:id", authenticate, requireAdminOrSuper, as
       return res.status(403).json({ message: "Access denied. Admin only." });
     }
 
-    const { customPrice } = req.body as { customPrice: number };
+    const { customPrice, priceTiers, validFrom, validTo } = req.body as {
+      customPrice: number;
+      priceTiers?: IPriceTier[];
+      validFrom?: string; // Schedule the price instead of applying it now
+      validTo?: string;
+    };
 
     if (customPrice === undefined) {
       return res.status(400).json({ message: "customPrice is required." });
     }
 
+    const change = parsePriceChange(customPrice, priceTiers, validFrom, validTo);
+    if (typeof change === "string") {
+      return res.status(400).json({ message: change });
+    }
+
     const pricing = await AdminProductPricing.findById(req.params.id);
     if (!pricing || pricing.adminId.toString() !== admin._id.toString()) {
       return res.status(404).json({ message: "Pricing not found or doesn't belong to you." });
     }
 
-    pricing.customPrice = customPrice;
+    pricing.priceVersions.push(toPriceVersion(change, admin));
+    if (change.standing) {
+      pricing.customPrice = change.price;
+      pricing.priceTiers = change.tiers;
+    }
     await pricing.save();
 
     const populated = await AdminProductPricing.findById(pricing._id)
@@ -3382,6 +9147,33 @@ app.delete("/api/admin/products/pricing/:id", authenticate, requireAdminOrSuper,
   }
 });
 
+// Cancel a scheduled distributor price change
+app.delete("/api/admin/products/pricing/:id/versions/:versionId", authenticate, requireAdminOrSuper, async (req, res) => {
+  try {
+    const auth = getAuthUser(req);
+    const admin = await User.findById(auth.id);
+    if (!admin || (admin.role !== "admin" && !auth.isSuperAdmin)) {
+      return res.status(403).json({ message: "Access denied. Admin only." });
+    }
+
+    const pricing = await AdminProductPricing.findById(req.params.id);
+    if (!pricing || pricing.adminId.toString() !== admin._id.toString()) {
+      return res.status(404).json({ message: "Pricing not found or doesn't belong to you." });
+    }
+
+    const cancelError = cancelScheduledPrice(pricing.priceVersions, req.params.versionId);
+    if (cancelError) {
+      return res.status(400).json({ message: cancelError });
+    }
+    await pricing.save();
+
+    return res.status(200).json(pricing);
+  } catch (error) {
+    console.error("Cancel distributor price change error:", error);
+    return res.status(500).json({ message: "Internal server error." });
+  }
+});
+
 // Get distributors for admin
 app.get("/api/admin/distributors", authenticate, requireAdminOrSuper, async (req, res) => {
   try {
@@ -3409,63 +9201,32 @@ app.get("/api/admin/distributors", authenticate, requireAdminOrSuper, async (req
   }
 });
 
-// Get admin order notifications
-app.get("/api/admin/order-notifications", authenticate, requireAdminOrSuper, async (req, res) => {
-  try {
-    const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
-
-    // Check cache first (short cache for polling)
-    const cacheKey = `admin-order-notifications-${auth.id}-${auth.isSuperAdmin ? 'super' : 'admin'}`;
-    const clientEtag = req.headers['if-none-match'] as string | undefined;
-    const cachedEtag = etagCache.get(cacheKey);
-    if (cachedEtag && clientEtag && clientEtag === cachedEtag) {
-      const cacheTime = cacheTimestamps.get(cacheKey);
-      if (cacheTime && Date.now() - cacheTime < 3000) { // 3 second cache for polling
-        res.setHeader('ETag', cachedEtag);
-        res.setHeader('Cache-Control', 'private, max-age=3');
-        return res.status(304).end();
-      }
-    }
-
-    const admin = await User.findById(auth.id);
-    if (!admin) {
-      return res.status(401).json({ message: "User not found." });
-    }
-
-    let filter: any = { sentToAdmin: true };
-
-    if (!auth.isSuperAdmin && admin.role === "admin") {
-      // Regular admin sees only their distributors' orders
-      const distributorIds = await User.find({ parentId: admin._id, role: "distributor" })
-        .select("_id")
-        .lean()
-        .exec();
-      const distributorObjectIds = distributorIds.map((d) => d._id);
-      filter.distributorId = { $in: distributorObjectIds };
-    }
-    // Super admin sees all
-
-    const notifications = await Order.find(filter)
-      .populate("customerId", "name email")
-      .populate("distributorId", "name email")
-      .populate("items.productId", "name imageUrl")
-      .sort({ sentToAdminAt: -1 })
-      .lean()
-      .exec();
-
-    // Filter out orders that have been received by admin OR received by distributor
-    // (if distributor received it, admin notification should be cleared)
-    const unreadNotifications = notifications.filter((n: any) =>
-      !n.adminReceivedAt && !n.receivedAt
-    );
+// Let the customer know their order's delivery date has changed. Used for single date changes
+// and for orders moved by delivery calendar changes.
+async function sendDeliveryDateEmail(order: IOrder, customer: { name: string; email: string }, deliveryDate: Date): Promise<void> {
+  const emailHtml = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>Order Delivery Date Update</h2>
+      <p>Dear ${customer.name},</p>
+      <p>Your order #${order.orderNumber} delivery date has been updated.</p>
+      <p><strong>Possible Transit Date:</strong> ${deliveryDate.toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
+      <p>Please note that this is a possible transit date and may be subject to change.</p>
+      <p>Thank you for your patience.</p>
+    </div>
+  `;
 
-    setCacheHeaders(res, cacheKey, unreadNotifications);
-    return res.status(200).json(unreadNotifications);
-  } catch (error) {
-    console.error("Get admin order notifications error:", error);
-    return res.status(500).json({ message: "Internal server error." });
+  try {
+    await mailTransporter.sendMail({
+      from: MAIL_FROM,
+      to: customer.email,
+      subject: `Order #${order.orderNumber} - Delivery Date Update`,
+      html: emailHtml,
+    });
+  } catch (emailError) {
+    console.error("Failed to send email:", emailError);
+    // Don't fail the request if email fails
   }
-});
+}
 
 // Shift order to next day (distributor)
 // Update delivery date (distributor) - with customer notification
@@ -3481,46 +9242,40 @@ app.put("/api/distributor/orders/:id/update-delivery-date", authenticate, async
     if (!deliveryDate) {
       return res.status(400).json({ message: "deliveryDate is required." });
     }
+    const newDeliveryDate = new Date(deliveryDate);
+    if (isNaN(newDeliveryDate.getTime())) {
+      return res.status(400).json({ message: "deliveryDate must be a valid date." });
+    }
 
     const order = await Order.findById(req.params.id)
       .populate("customerId", "name email")
-      .lean()
       .exec();
 
     if (!order || order.distributorId?.toString() !== distributor._id.toString()) {
       return res.status(404).json({ message: "Order not found or doesn't belong to you." });
     }
 
+    const transitionError = checkOrderTransition(order, "reschedule", "distributor");
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+    const slotError = await checkDeliverySlot(distributor._id, newDeliveryDate, order);
+    if (slotError) {
+      return res.status(400).json({ message: slotError });
+    }
+
     // Update delivery date (only currentDeliveryDate, preserve original desiredDeliveryDate)
-    const newDeliveryDate = new Date(deliveryDate);
-    await Order.findByIdAndUpdate(req.params.id, {
-      currentDeliveryDate: newDeliveryDate,
-    });
+    order.currentDeliveryDate = newDeliveryDate;
+    applyOrderTransition(
+      order,
+      "reschedule",
+      { id: distributor._id, name: distributor.name, role: "distributor" },
+      `Moved to ${newDeliveryDate.toISOString().split("T")[0]}`
+    );
+    await order.save();
 
     // Send email notification to customer
-    const customer = order.customerId as any;
-    const emailHtml = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2>Order Delivery Date Update</h2>
-        <p>Dear ${customer.name},</p>
-        <p>Your order #${order.orderNumber} delivery date has been updated.</p>
-        <p><strong>Possible Transit Date:</strong> ${newDeliveryDate.toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
-        <p>Please note that this is a possible transit date and may be subject to change.</p>
-        <p>Thank you for your patience.</p>
-      </div>
-    `;
-
-    try {
-      await mailTransporter.sendMail({
-        from: MAIL_FROM,
-        to: customer.email,
-        subject: `Order #${order.orderNumber} - Delivery Date Update`,
-        html: emailHtml,
-      });
-    } catch (emailError) {
-      console.error("Failed to send email:", emailError);
-      // Don't fail the request if email fails
-    }
+    await sendDeliveryDateEmail(order, order.customerId as unknown as IUser, newDeliveryDate);
 
     const updatedOrder = await Order.findById(req.params.id).lean().exec();
     return res.status(200).json(updatedOrder);
@@ -3530,83 +9285,6 @@ app.put("/api/distributor/orders/:id/update-delivery-date", authenticate, async
   }
 });
 
-// Mark order notification as received by admin
-app.post("/api/admin/order-notifications/:id/mark-received", authenticate, requireAdminOrSuper, async (req, res) => {
-  try {
-    const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
-    const admin = await User.findById(auth.id);
-    if (!admin) {
-      return res.status(401).json({ message: "User not found." });
-    }
-
-    const order = await Order.findById(req.params.id);
-    if (!order) {
-      return res.status(404).json({ message: "Order not found." });
-    }
-
-    // Check if admin has access to this order
-    if (!auth.isSuperAdmin && admin.role === "admin") {
-      const distributorIds = await User.find({ parentId: admin._id, role: "distributor" })
-        .select("_id")
-        .lean()
-        .exec();
-      const distributorObjectIds = distributorIds.map((d) => d._id);
-      if (!distributorObjectIds.some(id => id.toString() === order.distributorId?.toString())) {
-        return res.status(403).json({ message: "Access denied." });
-      }
-    }
-
-    // Mark as received
-    order.adminReceivedAt = new Date();
-    await order.save();
-
-    return res.status(200).json({ message: "Order marked as received." });
-  } catch (error) {
-    console.error("Mark order notification as received error:", error);
-    return res.status(500).json({ message: "Internal server error." });
-  }
-});
-
-// Mark multiple order notifications as received by admin
-app.post("/api/admin/order-notifications/mark-received-bulk", authenticate, requireAdminOrSuper, async (req, res) => {
-  try {
-    const auth = (req as any).user as { id: string; isSuperAdmin?: boolean };
-    const { orderIds } = req.body as { orderIds: string[] };
-
-    if (!Array.isArray(orderIds) || orderIds.length === 0) {
-      return res.status(400).json({ message: "orderIds array is required." });
-    }
-
-    const admin = await User.findById(auth.id);
-    if (!admin) {
-      return res.status(401).json({ message: "User not found." });
-    }
-
-    let filter: any = { _id: { $in: orderIds } };
-
-    // Check if admin has access to these orders
-    if (!auth.isSuperAdmin && admin.role === "admin") {
-      const distributorIds = await User.find({ parentId: admin._id, role: "distributor" })
-        .select("_id")
-        .lean()
-        .exec();
-      const distributorObjectIds = distributorIds.map((d) => d._id);
-      filter.distributorId = { $in: distributorObjectIds };
-    }
-
-    // Mark all as received by distributor - this also clears admin notifications
-    await Order.updateMany(filter, {
-      receivedAt: new Date(),
-      adminReceivedAt: new Date()
-    });
-
-    return res.status(200).json({ message: "Orders marked as received." });
-  } catch (error) {
-    console.error("Mark order notifications as received bulk error:", error);
-    return res.status(500).json({ message: "Internal server error." });
-  }
-});
-
 // Get distributor in-transit orders count
 app.get("/api/distributor/orders/in-transit-count", authenticate, async (req, res) => {
   try {
@@ -3619,7 +9297,7 @@ app.get("/api/distributor/orders/in-transit-count", authenticate, async (req, re
     const count = await Order.countDocuments({
       distributorId: distributor._id,
       markedForToday: true,
-      receivedAt: { $exists: false },
+      status: "processing",
     });
 
     return res.status(200).json({ count });
@@ -3651,15 +9329,21 @@ app.post("/api/distributor/orders/:id/mark-received", authenticate, async (req,
       return res.status(400).json({ message: "Order must be in transit to mark as received." });
     }
 
-    if (order.receivedAt) {
+    if (order.stockedAt) {
       return res.status(400).json({ message: "Order already marked as received." });
     }
 
-    // Mark as received by distributor - this also clears admin notification
-    order.receivedAt = new Date();
-    // Also mark as received by admin to clear notification
-    order.adminReceivedAt = new Date();
+    const transitionError = checkOrderTransition(order, "mark-stocked", "distributor");
+    if (transitionError) {
+      return res.status(400).json({ message: transitionError });
+    }
+
+    // Mark as stocked by distributor - this also clears admin notification
+    const actor: OrderActor = { id: distributor._id, name: distributor.name, role: "distributor" };
+    applyOrderTransition(order, "mark-stocked", actor);
+    await syncOrderStock(order, "mark-stocked", actor);
     await order.save();
+    await sendOrderStatusEmail(order, "mark-stocked", actor);
 
     return res.status(200).json({ message: "Order marked as received." });
   } catch (error) {
@@ -3688,21 +9372,28 @@ app.post("/api/distributor/orders/mark-received-bulk", authenticate, async (req,
       _id: { $in: orderIds },
       distributorId: distributor._id,
       markedForToday: true,
-      receivedAt: { $exists: false },
+      status: "processing",
     });
 
     if (orders.length !== orderIds.length) {
       return res.status(403).json({ message: "Some orders not found, don't belong to you, or are not in transit." });
     }
 
-    // Mark all as received by distributor - this also clears admin notifications
-    await Order.updateMany(
-      { _id: { $in: orderIds } },
-      {
-        receivedAt: new Date(),
-        adminReceivedAt: new Date()
+    for (const order of orders) {
+      const transitionError = checkOrderTransition(order, "mark-stocked", "distributor");
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
       }
-    );
+    }
+
+    // Mark all as stocked by distributor - this also clears admin notifications
+    const actor: OrderActor = { id: distributor._id, name: distributor.name, role: "distributor" };
+    for (const order of orders) {
+      applyOrderTransition(order, "mark-stocked", actor);
+      await syncOrderStock(order, "mark-stocked", actor);
+      await order.save();
+      await sendOrderStatusEmail(order, "mark-stocked", actor);
+    }
 
     return res.status(200).json({ message: "Orders marked as received." });
   } catch (error) {
@@ -3711,6 +9402,38 @@ app.post("/api/distributor/orders/mark-received-bulk", authenticate, async (req,
   }
 });
 
+// ==================== DATA MIGRATIONS ====================
+
+// Backfills for data written before a feature existed, applied in order once per database. A
+// migration is claimed before it runs so concurrent instances don't both run it, and released
+// again if it fails so the next start retries it.
+const DATA_MIGRATIONS: Array<{ name: string; run: () => Promise<void> }> = [
+  { name: "distributor-received-at", run: migrateDistributorReceivedAt },
+  { name: "opening-payments", run: migrateOpeningPayments },
+  { name: "inventory-tracking", run: migrateInventoryTracking },
+];
+
+async function runDataMigrations(): Promise<void> {
+  for (const migration of DATA_MIGRATIONS) {
+    try {
+      await Migration.create({ name: migration.name });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        continue; // Already applied, or being applied by another instance
+      }
+      throw error;
+    }
+
+    try {
+      await migration.run();
+      console.log(`Applied data migration ${migration.name}`);
+    } catch (error) {
+      await Migration.deleteOne({ name: migration.name });
+      throw error;
+    }
+  }
+}
+
 // MongoDB connection handler for serverless environments
 let isConnected = false;
 
@@ -3724,6 +9447,8 @@ async function connectToMongoDB() {
     isConnected = true;
     console.log("Connected to MongoDB");
 
+    await runDataMigrations().catch((error) => console.error("Data migration error:", error));
+
     // Handle connection events
     mongoose.connection.on('error', (err) => {
       console.error('MongoDB connection error:', err);
@@ -3751,6 +9476,13 @@ if (!process.env.VERCEL) {
       app.listen(PORT, () => {
         console.log(`Server is running on http://localhost:${PORT}`);
       });
+      // On Vercel the jobs are triggered by cron instead (see vercel.json)
+      setInterval(() => {
+        runReorderSuggestionJob().catch((error) => console.error("Reorder suggestion job error:", error));
+      }, REORDER_JOB_INTERVAL);
+      setInterval(() => {
+        runStandingOrderJob().catch((error) => console.error("Standing order job error:", error));
+      }, STANDING_ORDER_JOB_INTERVAL);
     } catch (error) {
       console.error("Failed to start server", error);
       process.exit(1);
@@ -0,0 +1,8 @@
+// Day arithmetic on whole UTC days, the unit delivery dates are kept in
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+export const toDayKey = (date: Date) => date.toISOString().split("T")[0];
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { computeLineTax, roundMoney } from "./gst";
+
+describe("roundMoney", () => {
+  it("rounds to paise", () => {
+    expect(roundMoney(10.005)).toBe(10.01);
+    expect(roundMoney(10.004)).toBe(10);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe("computeLineTax", () => {
+  it("splits an intra-state supply evenly into CGST and SGST", () => {
+    expect(computeLineTax(1000, 18, false)).toEqual({ cgst: 90, sgst: 90, igst: 0 });
+  });
+
+  it("charges an inter-state supply as IGST only", () => {
+    expect(computeLineTax(1000, 18, true)).toEqual({ cgst: 0, sgst: 0, igst: 180 });
+  });
+
+  it("rounds each half, so CGST + SGST can differ from IGST by a paisa", () => {
+    const intra = computeLineTax(333.33, 5, false);
+    expect(intra).toEqual({ cgst: 8.33, sgst: 8.33, igst: 0 });
+    expect(computeLineTax(333.33, 5, true).igst).toBe(16.67);
+  });
+
+  it("charges nothing on exempt goods", () => {
+    expect(computeLineTax(500, 0, false)).toEqual({ cgst: 0, sgst: 0, igst: 0 });
+    expect(computeLineTax(500, 0, true)).toEqual({ cgst: 0, sgst: 0, igst: 0 });
+  });
+});
@@ -0,0 +1,12 @@
+// Prices are exclusive of GST. Supplies within one state are taxed as CGST + SGST (half the
+// rate each); supplies across states as IGST.
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function computeLineTax(taxableValue: number, gstRate: number, interState: boolean) {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: roundMoney((taxableValue * gstRate) / 100) };
+  }
+  const half = roundMoney((taxableValue * gstRate) / 200);
+  return { cgst: half, sgst: half, igst: 0 };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { PriceImportResult, PriceMatrix, diffPriceImport, parseSheetPrice, productColumn } from "./priceImport";
+
+const RICE = { id: "64b000000000000000000001", name: "Rice" };
+const DAL = { id: "64b000000000000000000002", name: "Dal" };
+const tiers = [{ minQuantity: 10, price: 45 }];
+
+// Asha has a customer price for rice (with a volume tier) and pays a lower level's tiered price for dal;
+// Ravi has no price for rice at any level
+const matrix: PriceMatrix = {
+  rowLabel: "Customer",
+  labelColumns: ["Name", "Email", "Group"],
+  products: [RICE, DAL],
+  rows: [
+    {
+      id: "64c000000000000000000001",
+      email: "asha@example.com",
+      labels: ["Asha", "asha@example.com", ""],
+      prices: new Map([
+        [RICE.id, { price: 50, tiers, hasEntry: true }],
+        [DAL.id, { price: 90, tiers: [{ minQuantity: 10, price: 85 }], hasEntry: false }],
+      ]),
+    },
+    {
+      id: "64c000000000000000000002",
+      email: "ravi@example.com",
+      labels: ["Ravi", "ravi@example.com", "Wholesale"],
+      prices: new Map([[DAL.id, { price: 85, tiers: [], hasEntry: false }]]),
+    },
+  ],
+};
+const header = ["ID", "Name", "Email", "Group", productColumn(RICE), productColumn(DAL)];
+
+const diff = (rows: unknown[][], sheetHeader: unknown[] = header) =>
+  diffPriceImport(matrix, [sheetHeader, ...rows]) as PriceImportResult;
+
+describe("parseSheetPrice", () => {
+  it("reads prices as typed into a spreadsheet", () => {
+    expect(parseSheetPrice(52.5)).toBe(52.5);
+    expect(parseSheetPrice("1,250.50")).toBe(1250.5);
+    expect(parseSheetPrice("₹ 99.999")).toBe(100);
+    expect(parseSheetPrice("0")).toBe(0);
+  });
+
+  it("rejects anything that isn't a price", () => {
+    expect(parseSheetPrice("abc")).toBeNull();
+    expect(parseSheetPrice("-5")).toBeNull();
+    expect(parseSheetPrice("12..5")).toBeNull();
+  });
+});
+
+describe("diffPriceImport", () => {
+  it("requires an ID or Email column and at least one product column", () => {
+    expect(diffPriceImport(matrix, [["Name", productColumn(RICE)]])).toMatch(/ID or Email column/);
+    expect(diffPriceImport(matrix, [["ID", "Name", "Rice"]])).toMatch(/No product columns/);
+  });
+
+  it("counts cells that match the current price as unchanged and skips blank ones", () => {
+    const result = diff([["64c000000000000000000001", "Asha", "asha@example.com", "", "50.00", ""]]);
+    expect(result).toEqual({ creates: [], updates: [], invalid: [], unchanged: 1 });
+  });
+
+  it("updates an existing entry, keeping its volume tiers", () => {
+    const result = diff([["64c000000000000000000001", "Asha", "asha@example.com", "", 55, ""]]);
+    expect(result.updates).toEqual([
+      {
+        row: 2,
+        targetId: "64c000000000000000000001",
+        targetName: "Asha",
+        productId: RICE.id,
+        productName: "Rice",
+        oldPrice: 50,
+        newPrice: 55,
+        tiers,
+        droppedTiers: [],
+      },
+    ]);
+    expect(result.creates).toEqual([]);
+  });
+
+  it("drops the tiers a lower price would make no cheaper and lists them", () => {
+    const result = diff([["64c000000000000000000001", "", "", "", "45", ""]]);
+    expect(result.updates).toMatchObject([{ newPrice: 45, tiers: [], droppedTiers: tiers }]);
+  });
+
+  it("creates an entry where the price came from another level or there was none", () => {
+    const result = diff([
+      ["64c000000000000000000001", "", "", "", "", "95"],
+      ["64c000000000000000000002", "", "", "", "60", ""],
+    ]);
+    expect(result.creates).toMatchObject([
+      // The new entry doesn't take on the tiers of the level it overrides
+      { targetName: "Asha", productName: "Dal", oldPrice: 90, newPrice: 95, tiers: [], droppedTiers: [] },
+      { targetName: "Ravi", productName: "Rice", oldPrice: null, newPrice: 60, tiers: [], droppedTiers: [] },
+    ]);
+  });
+
+  it("matches rows by email when the id is missing", () => {
+    const result = diff([["", "", "RAVI@example.com", "", "60", ""]]);
+    expect(result.creates[0].targetId).toBe("64c000000000000000000002");
+  });
+
+  it("reports rows for unknown ids and skips them", () => {
+    const result = diff([
+      ["64c0000000000000000000ff", "Someone", "someone@example.com", "", "60", ""],
+      ["", "", "", "", "60", ""],
+    ]);
+    expect(result.invalid).toEqual([
+      { row: 2, message: "Customer 64c0000000000000000000ff not found or not yours." },
+      { row: 3, message: "Customer (blank) not found or not yours." },
+    ]);
+    expect(result.creates).toEqual([]);
+  });
+
+  it("reports bad prices by cell and still applies the row's good ones", () => {
+    const result = diff([["64c000000000000000000001", "", "", "", "fifty", "-1"]]);
+    expect(result.invalid).toEqual([
+      { row: 2, column: "Rice", message: '"fifty" is not a valid price.' },
+      { row: 2, column: "Dal", message: '"-1" is not a valid price.' },
+    ]);
+
+    const mixed = diff([["64c000000000000000000001", "", "", "", "fifty", "95"]]);
+    expect(mixed.invalid).toHaveLength(1);
+    expect(mixed.creates.map((change) => change.newPrice)).toEqual([95]);
+  });
+
+  it("uses only the first row for a customer listed twice", () => {
+    const result = diff([
+      ["64c000000000000000000002", "", "", "", "60", ""],
+      ["64c000000000000000000002", "", "", "", "70", ""],
+    ]);
+    expect(result.creates.map((change) => change.newPrice)).toEqual([60]);
+    expect(result.invalid).toEqual([{ row: 3, message: "Ravi appears more than once; only the first row was used." }]);
+  });
+
+  it("skips columns for products that aren't in the matrix", () => {
+    const stale = productColumn({ id: "64b0000000000000000000ff", name: "Sugar" });
+    const result = diff([["64c000000000000000000002", "", "", "", "60", "", "40"]], [...header, stale]);
+    expect(result.invalid).toEqual([
+      { row: 1, column: stale, message: "Product not found or not available; the column was skipped." },
+    ]);
+    expect(result.creates).toHaveLength(1);
+  });
+
+  it("ignores empty rows", () => {
+    expect(diff([["", "", "", "", "", ""], []])).toEqual({ creates: [], updates: [], invalid: [], unchanged: 0 });
+  });
+});
@@ -0,0 +1,128 @@
+// Reading an imported price matrix: the sheet is compared with the prices as they are now, and only
+// the cells that differ become changes. Building the matrix and applying changes are in index.ts.
+
+import { IPriceTier } from "../models/PriceVersion";
+import { roundMoney } from "./gst";
+
+// A row of the matrix: a customer or distributor and their current price for each product
+export interface PriceMatrixRow {
+  id: string;
+  email: string;
+  labels: string[]; // Shown next to the id for the reader; ignored on import
+  prices: Map<string, { price?: number; tiers: IPriceTier[]; hasEntry: boolean }>; // hasEntry: priced at this owner's level
+}
+
+export interface PriceMatrix {
+  rowLabel: "Customer" | "Distributor";
+  labelColumns: string[];
+  products: Array<{ id: string; name: string }>;
+  rows: PriceMatrixRow[];
+}
+
+export interface PriceImportChange {
+  row: number; // Sheet row, counting the header as row 1
+  targetId: string;
+  targetName: string;
+  productId: string;
+  productName: string;
+  oldPrice: number | null;
+  newPrice: number;
+  tiers: IPriceTier[]; // Volume tiers of the entry being updated that go on with the imported price
+  droppedTiers: IPriceTier[]; // Its tiers that cost at least the imported price, which would make buying more dearer
+}
+
+export interface PriceImportResult {
+  creates: PriceImportChange[];
+  updates: PriceImportChange[];
+  invalid: Array<{ row: number; column?: string; message: string }>;
+  unchanged: number;
+}
+
+// Product columns carry the product id so renamed or same-named products still match
+export const productColumn = (product: { id: string; name: string }) => `${product.name} [${product.id}]`;
+
+// "1,250.50" or "₹1250.5" as typed into a spreadsheet; null for anything that isn't a price
+export function parseSheetPrice(value: unknown): number | null {
+  const price = typeof value === "number" ? value : Number(String(value).replace(/[₹,\s]/g, ""));
+  return Number.isFinite(price) && price >= 0 ? roundMoney(price) : null;
+}
+
+// Compare a sheet's rows (the header first) with the current matrix
+export function diffPriceImport(matrix: PriceMatrix, sheet: unknown[][]): PriceImportResult | string {
+  const header = (sheet[0] || []).map((cell) => String(cell).trim());
+  const idColumn = header.findIndex((cell) => cell.toLowerCase() === "id");
+  const emailColumn = header.findIndex((cell) => cell.toLowerCase() === "email");
+  if (idColumn === -1 && emailColumn === -1) {
+    return "The first row must name an ID or Email column. Export the current prices to get a sheet in the right layout.";
+  }
+
+  const result: PriceImportResult = { creates: [], updates: [], invalid: [], unchanged: 0 };
+  const productNames = new Map(matrix.products.map((product) => [product.id, product.name]));
+  const productColumns: Array<{ index: number; productId: string }> = [];
+  header.forEach((cell, index) => {
+    const productId = cell.match(/\[([0-9a-fA-F]{24})\]$/)?.[1];
+    if (!productId) return;
+    if (productNames.has(productId)) {
+      productColumns.push({ index, productId });
+    } else {
+      result.invalid.push({ row: 1, column: cell, message: "Product not found or not available; the column was skipped." });
+    }
+  });
+  if (productColumns.length === 0) {
+    return "No product columns found. Product columns are headed with the product name and its id in brackets.";
+  }
+
+  const rowsById = new Map(matrix.rows.map((row) => [row.id, row]));
+  const rowsByEmail = new Map(matrix.rows.map((row) => [row.email.toLowerCase(), row]));
+  const seen = new Set<string>();
+  sheet.slice(1).forEach((cells, i) => {
+    const rowNumber = i + 2;
+    if (cells.every((cell) => String(cell).trim() === "")) return;
+
+    const id = idColumn === -1 ? "" : String(cells[idColumn] ?? "").trim();
+    const email = emailColumn === -1 ? "" : String(cells[emailColumn] ?? "").trim().toLowerCase();
+    const target = rowsById.get(id) || rowsByEmail.get(email);
+    if (!target) {
+      result.invalid.push({ row: rowNumber, message: `${matrix.rowLabel} ${id || email || "(blank)"} not found or not yours.` });
+      return;
+    }
+    if (seen.has(target.id)) {
+      result.invalid.push({ row: rowNumber, message: `${target.labels[0]} appears more than once; only the first row was used.` });
+      return;
+    }
+    seen.add(target.id);
+
+    for (const { index, productId } of productColumns) {
+      const cell = cells[index];
+      if (cell === undefined || String(cell).trim() === "") continue; // Blank cells leave the price as it is
+      const productName = productNames.get(productId) as string;
+      const newPrice = parseSheetPrice(cell);
+      if (newPrice === null) {
+        result.invalid.push({ row: rowNumber, column: productName, message: `"${cell}" is not a valid price.` });
+        continue;
+      }
+      const current = target.prices.get(productId);
+      if (current?.price !== undefined && Math.abs(current.price - newPrice) < 0.005) {
+        result.unchanged++;
+        continue;
+      }
+      // Tiers only carry over within the entry being updated; a new entry starts without the tiers of
+      // the level it overrides. A tier is kept only while it is still cheaper than the new price.
+      const entryTiers = current?.hasEntry ? current.tiers : [];
+      const change: PriceImportChange = {
+        row: rowNumber,
+        targetId: target.id,
+        targetName: target.labels[0],
+        productId,
+        productName,
+        oldPrice: current?.price ?? null,
+        newPrice,
+        tiers: entryTiers.filter((tier) => tier.price < newPrice),
+        droppedTiers: entryTiers.filter((tier) => tier.price >= newPrice),
+      };
+      (current?.hasEntry ? result.updates : result.creates).push(change);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { computePromotionDiscounts } from "./promotions";
+
+const items = [
+  { quantity: 3, price: 100 },
+  { quantity: 10, price: 10 },
+  { quantity: 4, price: 50 },
+];
+const full = items.map((item) => item.quantity * item.price); // [300, 100, 200]
+
+describe("computePromotionDiscounts", () => {
+  it("takes a percentage off what is left of each covered line", () => {
+    const off = computePromotionDiscounts({ type: "percentage", value: 10 }, items, [0, 2], [300, 55.5, 150]);
+    expect([...off]).toEqual([
+      [0, 30],
+      [2, 15],
+    ]);
+  });
+
+  it("gives getQuantity free units of every full bundle", () => {
+    // Buy 2 get 1: 10 units hold 3 bundles, so 3 units are free; 4 units hold 1
+    const off = computePromotionDiscounts({ type: "buy-x-get-y", buyQuantity: 2, getQuantity: 1 }, items, [1, 2], full);
+    expect(off.get(1)).toBe(30);
+    expect(off.get(2)).toBe(50);
+  });
+
+  it("never takes more off a line than is left of it", () => {
+    const off = computePromotionDiscounts({ type: "buy-x-get-y", buyQuantity: 2, getQuantity: 1 }, items, [1], [0, 20, 0]);
+    expect(off.get(1)).toBe(20);
+  });
+
+  it("spreads a flat amount over the lines by value, the last line taking the rounding", () => {
+    const off = computePromotionDiscounts({ type: "flat", value: 100 }, items, [0, 1, 2], full);
+    expect([...off]).toEqual([
+      [0, 50],
+      [1, 16.67],
+      [2, 33.33],
+    ]);
+  });
+
+  it("caps a flat amount at the value of the covered lines", () => {
+    const off = computePromotionDiscounts({ type: "flat", value: 1000 }, items, [1, 2], full);
+    expect(off.get(1)).toBe(100);
+    expect(off.get(2)).toBe(200);
+  });
+
+  it("leaves lines it doesn't cover alone", () => {
+    const off = computePromotionDiscounts({ type: "percentage", value: 50 }, items, [1], full);
+    expect([...off.keys()]).toEqual([1]);
+  });
+});
@@ -0,0 +1,37 @@
+import { IPromotion } from "../models/Promotion";
+import { roundMoney } from "./gst";
+
+export type DiscountRule = Pick<IPromotion, "type" | "value" | "buyQuantity" | "getQuantity">;
+
+// Discount each line a promotion covers; returns the amount off per line index. `lines` are the
+// indexes of the covered lines and `remaining` what is left of each line after earlier promotions.
+export function computePromotionDiscounts(
+  promotion: DiscountRule,
+  items: Array<{ quantity: number; price: number }>,
+  lines: number[],
+  remaining: number[]
+): Map<number, number> {
+  const off = new Map<number, number>();
+  if (promotion.type === "buy-x-get-y") {
+    const bundle = (promotion.buyQuantity || 0) + (promotion.getQuantity || 0);
+    for (const i of lines) {
+      const free = bundle > 0 ? Math.floor(items[i].quantity / bundle) * (promotion.getQuantity || 0) : 0;
+      off.set(i, Math.min(remaining[i], roundMoney(free * items[i].price)));
+    }
+  } else if (promotion.type === "percentage") {
+    for (const i of lines) {
+      off.set(i, Math.min(remaining[i], roundMoney((remaining[i] * (promotion.value || 0)) / 100)));
+    }
+  } else {
+    // A flat amount is spread over the lines in proportion to their value; the last line takes the rounding
+    const base = lines.reduce((sum, i) => sum + remaining[i], 0);
+    const total = Math.min(promotion.value || 0, base);
+    let left = total;
+    lines.forEach((i, n) => {
+      const share = n === lines.length - 1 ? left : Math.min(left, roundMoney((total * remaining[i]) / base));
+      off.set(i, share);
+      left = roundMoney(left - share);
+    });
+  }
+  return off;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { getReceivableBucket } from "./receivables";
+
+describe("getReceivableBucket", () => {
+  it("puts each bucket's last day in that bucket", () => {
+    expect(getReceivableBucket(0)).toBe("0-30");
+    expect(getReceivableBucket(30)).toBe("0-30");
+    expect(getReceivableBucket(60)).toBe("31-60");
+    expect(getReceivableBucket(90)).toBe("61-90");
+  });
+
+  it("starts the next bucket the day after", () => {
+    expect(getReceivableBucket(31)).toBe("31-60");
+    expect(getReceivableBucket(61)).toBe("61-90");
+    expect(getReceivableBucket(91)).toBe("90+");
+    expect(getReceivableBucket(400)).toBe("90+");
+  });
+});
@@ -0,0 +1,10 @@
+// Aging buckets for receivables, by days since the order was delivered
+export const RECEIVABLE_BUCKETS = ["0-30", "31-60", "61-90", "90+"] as const;
+export type ReceivableBucket = (typeof RECEIVABLE_BUCKETS)[number];
+
+export function getReceivableBucket(daysOutstanding: number): ReceivableBucket {
+  if (daysOutstanding <= 30) return "0-30";
+  if (daysOutstanding <= 60) return "31-60";
+  if (daysOutstanding <= 90) return "61-90";
+  return "90+";
+}
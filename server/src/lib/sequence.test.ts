@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { createInSequence, isDuplicateKeyError } from "./sequence";
+
+const duplicate = (keyPattern: Record<string, number>) => Object.assign(new Error("E11000"), { code: 11000, keyPattern });
+
+// A numbered series backed by a set of taken numbers, as a unique index would enforce
+function series(taken: number[]) {
+  const numbers = new Set(taken);
+  return {
+    last: async () => Math.max(0, ...numbers),
+    create: async (sequence: number) => {
+      if (numbers.has(sequence)) throw duplicate({ distributorId: 1, sequence: 1 });
+      numbers.add(sequence);
+      return { sequence };
+    },
+    numbers,
+  };
+}
+
+describe("isDuplicateKeyError", () => {
+  it("recognises MongoDB's duplicate key code only", () => {
+    expect(isDuplicateKeyError(duplicate({ sequence: 1 }))).toBe(true);
+    expect(isDuplicateKeyError(new Error("timeout"))).toBe(false);
+    expect(isDuplicateKeyError(null)).toBe(false);
+    expect(isDuplicateKeyError("E11000")).toBe(false);
+  });
+});
+
+describe("createInSequence", () => {
+  it("takes the number after the last one", async () => {
+    const { last, create } = series([1, 2, 3]);
+    await expect(createInSequence(last, create, async () => null)).resolves.toEqual({ sequence: 4 });
+  });
+
+  it("starts an empty series at 1", async () => {
+    const { last, create } = series([]);
+    await expect(createInSequence(last, create, async () => null)).resolves.toEqual({ sequence: 1 });
+  });
+
+  it("retries with the next number when a concurrent create took it", async () => {
+    const { last, create, numbers } = series([1]);
+    let raced = false;
+    // A concurrent request takes 2 between our read of the last number and our create
+    const racingLast = async () => {
+      const sequence = await last();
+      if (!raced) {
+        raced = true;
+        numbers.add(2);
+      }
+      return sequence;
+    };
+    await expect(createInSequence(racingLast, create, async () => null)).resolves.toEqual({ sequence: 3 });
+  });
+
+  it("returns what onDuplicate settles on instead of retrying", async () => {
+    let creates = 0;
+    const result = await createInSequence(
+      async () => 0,
+      async () => {
+        creates++;
+        throw duplicate({ orderId: 1 });
+      },
+      async (error) => (error.keyPattern?.orderId ? { sequence: 7 } : null)
+    );
+    expect(result).toEqual({ sequence: 7 });
+    expect(creates).toBe(1);
+  });
+
+  it("gives up after the allowed attempts", async () => {
+    let creates = 0;
+    const result = await createInSequence(
+      async () => 0,
+      async () => {
+        creates++;
+        throw duplicate({ sequence: 1 });
+      },
+      async () => null,
+      3
+    );
+    expect(result).toBeNull();
+    expect(creates).toBe(3);
+  });
+
+  it("rethrows errors other than duplicates", async () => {
+    const failure = new Error("connection lost");
+    await expect(
+      createInSequence(
+        async () => 0,
+        async () => {
+          throw failure;
+        },
+        async () => null
+      )
+    ).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,33 @@
+export type DuplicateKeyError = { code: 11000; keyPattern?: Record<string, number> };
+
+// MongoDB rejects a write that breaks a unique index with code 11000, naming the index fields in keyPattern
+export function isDuplicateKeyError(error: unknown): error is DuplicateKeyError {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+// Create the next document of a gap-free numbered series. Its number is one past the last one
+// taken; when a concurrent create takes that number first, the series' unique index rejects ours
+// and the next number is tried. `onDuplicate` can settle a duplicate another way (e.g. the same
+// document was created concurrently) by returning a document. Returns null if no number was free.
+export async function createInSequence<T>(
+  lastSequence: () => Promise<number>,
+  create: (sequence: number) => Promise<T>,
+  onDuplicate: (error: DuplicateKeyError) => Promise<T | null>,
+  attempts = 5
+): Promise<T | null> {
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const sequence = (await lastSequence()) + 1;
+    try {
+      return await create(sequence);
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+      const settled = await onDuplicate(error);
+      if (settled) {
+        return settled;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getStandingOrderDates, StandingOrderSchedule } from "./standingOrders";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const keys = (dates: Date[]) => dates.map((date) => date.toISOString().slice(0, 10));
+
+describe("getStandingOrderDates", () => {
+  it("lists the chosen weekdays of a weekly schedule", () => {
+    // 2026-10-05 is a Monday
+    const schedule: StandingOrderSchedule = { frequency: "weekly", weekdays: [1, 4], startDate: day("2026-10-01") };
+    expect(keys(getStandingOrderDates(schedule, day("2026-10-05"), day("2026-10-15")))).toEqual([
+      "2026-10-05",
+      "2026-10-08",
+      "2026-10-12",
+      "2026-10-15",
+    ]);
+  });
+
+  it("counts an interval schedule from its start date, not from the range", () => {
+    const schedule: StandingOrderSchedule = { frequency: "interval", weekdays: [], intervalDays: 3, startDate: day("2026-10-01") };
+    expect(keys(getStandingOrderDates(schedule, day("2026-10-05"), day("2026-10-12")))).toEqual([
+      "2026-10-07",
+      "2026-10-10",
+    ]);
+  });
+
+  it("starts no earlier than the start date", () => {
+    const schedule: StandingOrderSchedule = { frequency: "interval", weekdays: [], intervalDays: 2, startDate: day("2026-10-10") };
+    expect(keys(getStandingOrderDates(schedule, day("2026-10-01"), day("2026-10-14")))).toEqual([
+      "2026-10-10",
+      "2026-10-12",
+      "2026-10-14",
+    ]);
+  });
+
+  it("stops at the end date", () => {
+    const schedule: StandingOrderSchedule = {
+      frequency: "interval",
+      weekdays: [],
+      intervalDays: 1,
+      startDate: day("2026-10-01"),
+      endDate: day("2026-10-03"),
+    };
+    expect(keys(getStandingOrderDates(schedule, day("2026-10-01"), day("2026-10-10")))).toEqual([
+      "2026-10-01",
+      "2026-10-02",
+      "2026-10-03",
+    ]);
+  });
+
+  it("treats a time of day on the dates as that whole day", () => {
+    const schedule: StandingOrderSchedule = {
+      frequency: "weekly",
+      weekdays: [1],
+      startDate: new Date("2026-10-05T18:30:00.000Z"),
+      endDate: new Date("2026-10-12T09:00:00.000Z"),
+    };
+    expect(keys(getStandingOrderDates(schedule, new Date("2026-10-05T12:00:00.000Z"), day("2026-10-20")))).toEqual([
+      "2026-10-05",
+      "2026-10-12",
+    ]);
+  });
+});
@@ -0,0 +1,21 @@
+import { IStandingOrder } from "../models/StandingOrder";
+import { DAY_MS, addDays, startOfUtcDay } from "./dates";
+
+export type StandingOrderSchedule = Pick<IStandingOrder, "frequency" | "weekdays" | "intervalDays" | "startDate" | "endDate">;
+
+// Delivery dates of a standing order between two UTC days (inclusive)
+export function getStandingOrderDates(schedule: StandingOrderSchedule, from: Date, until: Date): Date[] {
+  const start = startOfUtcDay(schedule.startDate);
+  const last = schedule.endDate && schedule.endDate < until ? startOfUtcDay(schedule.endDate) : until;
+  const dates: Date[] = [];
+  for (let day = from < start ? start : startOfUtcDay(from); day <= last; day = addDays(day, 1)) {
+    const due =
+      schedule.frequency === "weekly"
+        ? schedule.weekdays.includes(day.getUTCDay())
+        : Math.round((day.getTime() - start.getTime()) / DAY_MS) % (schedule.intervalDays || 1) === 0;
+    if (due) {
+      dates.push(day);
+    }
+  }
+  return dates;
+}
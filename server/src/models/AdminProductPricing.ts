@@ -1,10 +1,13 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { IPriceTier, IPriceVersion, PriceTierSchema, PriceVersionSchema } from "./PriceVersion";
 
 export interface IAdminProductPricing extends Document {
   adminId: mongoose.Types.ObjectId;
   distributorId: mongoose.Types.ObjectId;
   productId: mongoose.Types.ObjectId;
-  customPrice: number;
+  customPrice: number; // Standing price
+  priceTiers: IPriceTier[]; // Volume prices that go with the standing price
+  priceVersions: IPriceVersion[];
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -16,6 +19,8 @@ const AdminProductPricingSchema = new Schema<IAdminProductPricing>(
     distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
     customPrice: { type: Number, required: true },
+    priceTiers: [PriceTierSchema],
+    priceVersions: [PriceVersionSchema],
     isActive: { type: Boolean, default: true },
   },
   { timestamps: true }
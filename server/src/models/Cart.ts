@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A customer's cart, kept on the server so it follows them across devices. Only lines are
+// kept; prices and availability are worked out each time the cart is read.
+export interface ICart extends Document {
+  customerId: mongoose.Types.ObjectId;
+  items: Array<{
+    productId: mongoose.Types.ObjectId;
+    quantity: number;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartSchema = new Schema<ICart>(
+  {
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+// One cart per customer
+CartSchema.index({ customerId: 1 }, { unique: true });
+
+export const Cart = mongoose.model<ICart>("Cart", CartSchema);
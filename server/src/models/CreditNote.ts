@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { IInvoiceItem } from "./Invoice";
+
+// Issued once per approved return and never deleted, numbered per distributor like invoices.
+// Lines carry the returned quantity at the price and tax of the original order line.
+export interface ICreditNote extends Document {
+  returnRequestId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+  customerId: mongoose.Types.ObjectId;
+  distributorId: mongoose.Types.ObjectId;
+  adminId?: mongoose.Types.ObjectId;
+  sequence: number; // 1, 2, 3... per distributor
+  creditNoteNumber: string;
+  issuedAt: Date;
+  items: IInvoiceItem[];
+  subtotal: number;
+  taxTotal: number;
+  taxType: "intra-state" | "inter-state";
+  totalAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CreditNoteSchema = new Schema<ICreditNote>(
+  {
+    returnRequestId: { type: Schema.Types.ObjectId, ref: "ReturnRequest", required: true, unique: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    adminId: { type: Schema.Types.ObjectId, ref: "User" },
+    sequence: { type: Number, required: true },
+    creditNoteNumber: { type: String, required: true },
+    issuedAt: { type: Date, required: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        name: { type: String, required: true },
+        quantity: { type: Number, required: true },
+        price: { type: Number, required: true },
+        hsnCode: { type: String },
+        gstRate: { type: Number, default: 0 },
+        amount: { type: Number, required: true },
+        cgst: { type: Number, default: 0 },
+        sgst: { type: Number, default: 0 },
+        igst: { type: Number, default: 0 },
+      },
+    ],
+    subtotal: { type: Number, required: true },
+    taxTotal: { type: Number, default: 0 },
+    taxType: { type: String, enum: ["intra-state", "inter-state"], default: "intra-state" },
+    totalAmount: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+CreditNoteSchema.index({ distributorId: 1, sequence: 1 }, { unique: true });
+CreditNoteSchema.index({ orderId: 1 });
+
+export const CreditNote = mongoose.model<ICreditNote>("CreditNote", CreditNoteSchema);
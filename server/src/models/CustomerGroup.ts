@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A distributor's group of customers (e.g. "Wholesale", "Retail", "Hotel") that share a price list.
+// Customers join a group through their customerGroupId.
+export interface ICustomerGroup extends Document {
+  distributorId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerGroupSchema = new Schema<ICustomerGroup>(
+  {
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+  },
+  { timestamps: true }
+);
+
+// Group names are unique per distributor
+CustomerGroupSchema.index({ distributorId: 1, name: 1 }, { unique: true });
+
+export const CustomerGroup = mongoose.model<ICustomerGroup>("CustomerGroup", CustomerGroupSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { IPriceTier, IPriceVersion, PriceTierSchema, PriceVersionSchema } from "./PriceVersion";
+
+// A product's price on a customer group's price list. Applies to every customer in the group
+// that has no price of their own for the product.
+export interface ICustomerGroupPricing extends Document {
+  distributorId: mongoose.Types.ObjectId;
+  groupId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  customPrice?: number; // Standing price; unset while the entry only has scheduled prices
+  priceTiers: IPriceTier[]; // Volume prices that go with the standing price
+  priceVersions: IPriceVersion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerGroupPricingSchema = new Schema<ICustomerGroupPricing>(
+  {
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    groupId: { type: Schema.Types.ObjectId, ref: "CustomerGroup", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    customPrice: { type: Number },
+    priceTiers: [PriceTierSchema],
+    priceVersions: [PriceVersionSchema],
+  },
+  { timestamps: true }
+);
+
+// One price list entry per group and product
+CustomerGroupPricingSchema.index({ groupId: 1, productId: 1 }, { unique: true });
+
+export const CustomerGroupPricing = mongoose.model<ICustomerGroupPricing>("CustomerGroupPricing", CustomerGroupPricingSchema);
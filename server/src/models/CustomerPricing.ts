@@ -1,10 +1,13 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { IPriceTier, IPriceVersion, PriceTierSchema, PriceVersionSchema } from "./PriceVersion";
 
 export interface ICustomerPricing extends Document {
   distributorId: mongoose.Types.ObjectId;
   customerId: mongoose.Types.ObjectId;
   productId: mongoose.Types.ObjectId;
-  customPrice: number;
+  customPrice?: number; // Standing price; unset while the entry only has scheduled prices
+  priceTiers: IPriceTier[]; // Volume prices that go with the standing price
+  priceVersions: IPriceVersion[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -14,7 +17,9 @@ const CustomerPricingSchema = new Schema<ICustomerPricing>(
     distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
-    customPrice: { type: Number, required: true },
+    customPrice: { type: Number },
+    priceTiers: [PriceTierSchema],
+    priceVersions: [PriceVersionSchema],
   },
   { timestamps: true }
 );
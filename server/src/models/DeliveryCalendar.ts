@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IDeliveryHoliday {
+  date: Date; // Whole UTC day, like order delivery dates
+  note?: string;
+}
+
+// A distributor's delivery calendar: the weekdays they deliver on, the cutoff for next-day
+// delivery, how many orders they can deliver in a day and days off. Distributors without one
+// deliver any day from tomorrow with no limit.
+export interface IDeliveryCalendar extends Document {
+  distributorId: mongoose.Types.ObjectId;
+  deliveryDays: number[]; // 0 (Sunday) to 6 (Saturday)
+  cutoffTime?: string; // "HH:mm" India time; orders placed after it can't be delivered the next day
+  dailyCapacity?: number; // Most open orders per delivery day (unset = no limit)
+  holidays: IDeliveryHoliday[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliveryCalendarSchema = new Schema<IDeliveryCalendar>(
+  {
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    deliveryDays: [{ type: Number, min: 0, max: 6 }],
+    cutoffTime: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+    dailyCapacity: { type: Number, min: 1 },
+    holidays: [
+      {
+        _id: false,
+        date: { type: Date, required: true },
+        note: { type: String, trim: true },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+// One calendar per distributor
+DeliveryCalendarSchema.index({ distributorId: 1 }, { unique: true });
+
+export const DeliveryCalendar = mongoose.model<IDeliveryCalendar>("DeliveryCalendar", DeliveryCalendarSchema);
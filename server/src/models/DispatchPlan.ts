@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// The order in which a distributor will make their deliveries on a day. Routes are worked out
+// from customer addresses when the dispatch view is loaded; only the stop sequence is kept.
+export interface IDispatchPlan extends Document {
+  distributorId: mongoose.Types.ObjectId;
+  date: Date; // Whole UTC day, like order delivery dates
+  stops: mongoose.Types.ObjectId[]; // Orders in delivery order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DispatchPlanSchema = new Schema<IDispatchPlan>(
+  {
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    date: { type: Date, required: true },
+    stops: [{ type: Schema.Types.ObjectId, ref: "Order" }],
+  },
+  { timestamps: true }
+);
+
+// One plan per distributor per day
+DispatchPlanSchema.index({ distributorId: 1, date: 1 }, { unique: true });
+
+export const DispatchPlan = mongoose.model<IDispatchPlan>("DispatchPlan", DispatchPlanSchema);
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Goods physically held by a distributor, separate from the admin-side Product.stock.
+// Changes are recorded as StockMovements carrying the distributorId.
+export interface IDistributorStock extends Document {
+  distributorId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  quantity: number; // Can go negative if deliveries are recorded before the goods were counted in
+  reorderPoint?: number; // Alert and suggest a reorder once quantity drops below this
+  averageDailyDemand?: number; // Set by the reorder job from recent customer orders
+  suggestedQuantity?: number; // Set by the reorder job; 0 when no reorder is needed
+  suggestionUpdatedAt?: Date;
+  lowStockAlertedAt?: Date; // Cleared once stock is back above the reorder point, so each drop alerts once
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DistributorStockSchema = new Schema<IDistributorStock>(
+  {
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    quantity: { type: Number, default: 0 },
+    reorderPoint: { type: Number, min: 0 },
+    averageDailyDemand: { type: Number },
+    suggestedQuantity: { type: Number },
+    suggestionUpdatedAt: { type: Date },
+    lowStockAlertedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+DistributorStockSchema.index({ distributorId: 1, productId: 1 }, { unique: true });
+
+export const DistributorStock = mongoose.model<IDistributorStock>("DistributorStock", DistributorStockSchema);
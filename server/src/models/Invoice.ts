@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IInvoiceParty {
+  name: string;
+  businessName?: string;
+  registrationNo?: string;
+  email?: string;
+  mobileNo?: string;
+  address?: {
+    address1?: string;
+    address2?: string;
+    city?: string;
+    district?: string;
+    pin?: string;
+    state?: string;
+    country?: string;
+  };
+}
+
+export interface IInvoiceItem {
+  productId: mongoose.Types.ObjectId;
+  name: string;
+  quantity: number;
+  price: number; // Price locked on the order line, exclusive of GST
+  hsnCode?: string;
+  gstRate: number;
+  discount?: number; // Promotion discounts on the line
+  amount: number; // Taxable value, after discounts
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Invoices are issued once per order and never deleted, so the per-distributor
+// sequence stays gap-free. Seller/buyer details are snapshotted at issue time.
+export interface IInvoice extends Document {
+  orderId: mongoose.Types.ObjectId;
+  distributorId: mongoose.Types.ObjectId;
+  sequence: number; // 1, 2, 3... per distributor
+  invoiceNumber: string;
+  issuedAt: Date;
+  seller: IInvoiceParty;
+  buyer: IInvoiceParty;
+  items: IInvoiceItem[];
+  discounts?: Array<{ name: string; code?: string; amount: number }>; // The order's promotions
+  subtotal: number;
+  taxTotal: number;
+  taxType: "intra-state" | "inter-state";
+  totalAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvoicePartySchema = new Schema<IInvoiceParty>(
+  {
+    name: { type: String, required: true },
+    businessName: { type: String },
+    registrationNo: { type: String },
+    email: { type: String },
+    mobileNo: { type: String },
+    address: {
+      address1: { type: String },
+      address2: { type: String },
+      city: { type: String },
+      district: { type: String },
+      pin: { type: String },
+      state: { type: String },
+      country: { type: String },
+    },
+  },
+  { _id: false }
+);
+
+const InvoiceSchema = new Schema<IInvoice>(
+  {
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, unique: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    sequence: { type: Number, required: true },
+    invoiceNumber: { type: String, required: true },
+    issuedAt: { type: Date, required: true },
+    seller: { type: InvoicePartySchema, required: true },
+    buyer: { type: InvoicePartySchema, required: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        name: { type: String, required: true },
+        quantity: { type: Number, required: true },
+        price: { type: Number, required: true },
+        hsnCode: { type: String },
+        gstRate: { type: Number, default: 0 },
+        discount: { type: Number },
+        amount: { type: Number, required: true },
+        cgst: { type: Number, default: 0 },
+        sgst: { type: Number, default: 0 },
+        igst: { type: Number, default: 0 },
+      },
+    ],
+    discounts: [
+      {
+        _id: false,
+        name: { type: String, required: true },
+        code: { type: String },
+        amount: { type: Number, required: true },
+      },
+    ],
+    subtotal: { type: Number, required: true },
+    taxTotal: { type: Number, default: 0 },
+    taxType: { type: String, enum: ["intra-state", "inter-state"], default: "intra-state" },
+    totalAmount: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+// The unique index is what keeps numbering gap-free under concurrent issue requests
+InvoiceSchema.index({ distributorId: 1, sequence: 1 }, { unique: true });
+
+export const Invoice = mongoose.model<IInvoice>("Invoice", InvoiceSchema);
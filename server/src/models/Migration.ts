@@ -0,0 +1,14 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// One document per data migration that has been applied, so each runs once per database
+export interface IMigration extends Document {
+  name: string;
+  appliedAt: Date;
+}
+
+const MigrationSchema = new Schema<IMigration>({
+  name: { type: String, required: true, unique: true },
+  appliedAt: { type: Date, default: Date.now },
+});
+
+export const Migration = mongoose.model<IMigration>("Migration", MigrationSchema);
@@ -1,4 +1,52 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { PromotionType, PROMOTION_TYPES } from "./Promotion";
+
+export type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
+
+// Role under which a status change was performed ("system" for scheduled jobs)
+export type OrderActorRole = "customer" | "distributor" | "admin" | "system";
+
+export interface IOrderStatusEvent {
+  action: string;
+  from: OrderStatus;
+  to: OrderStatus;
+  actorId?: mongoose.Types.ObjectId;
+  actorName?: string; // Snapshot so the timeline survives user renames/deletes
+  actorRole: OrderActorRole;
+  note?: string;
+  at: Date;
+}
+
+// One line of an order edit. A quantity of 0 means the line was added (from) or removed (to).
+export interface IOrderLineChange {
+  productId: mongoose.Types.ObjectId;
+  productName: string; // Snapshot so the diff reads the same after product renames
+  fromQuantity: number;
+  toQuantity: number;
+  fromPrice?: number;
+  toPrice?: number;
+}
+
+export interface IOrderEdit {
+  actorId?: mongoose.Types.ObjectId;
+  actorName?: string;
+  actorRole: OrderActorRole;
+  changes: IOrderLineChange[];
+  fromTotal: number;
+  toTotal: number;
+  at: Date;
+}
+
+// A promotion applied to an order, kept as its own line so the order's totals can be explained.
+// The amount is also spread over the lines it discounts (items[].discount), so their taxable
+// values and GST are net of it.
+export interface IOrderDiscount {
+  promotionId: mongoose.Types.ObjectId;
+  name: string; // Snapshot so the line reads the same after the promotion changes
+  code?: string;
+  type: PromotionType;
+  amount: number;
+}
 
 export interface IOrder extends Document {
   orderNumber: string;
@@ -8,18 +56,49 @@ export interface IOrder extends Document {
   items: Array<{
     productId: mongoose.Types.ObjectId;
     quantity: number;
-    price: number;
+    price: number; // Unit price, exclusive of GST
+    hsnCode?: string;
+    gstRate?: number;
+    discount?: number; // Promotion discounts taken off this line before GST
+    taxableValue?: number; // price * quantity - discount
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
+    reservedQuantity?: number; // Still held in inventory for this line; 0 once delivered or released
+    suppliedQuantity?: number; // Units the admin has shipped for this line against its purchase order
   }>;
-  totalAmount: number;
-  status: "pending" | "processing" | "shipped" | "delivered" | "cancelled";
+  // Tax is frozen at order time so reports and invoices don't change when rates do.
+  // Orders placed before GST was tracked have no breakdown and totalAmount == subtotal.
+  subtotal?: number; // Taxable value: the lines after discounts
+  discounts?: IOrderDiscount[];
+  discountTotal?: number;
+  couponCode?: string; // Coupon the customer entered when placing the order
+  taxTotal?: number;
+  taxType?: "intra-state" | "inter-state"; // CGST+SGST vs IGST
+  totalAmount: number; // subtotal + taxTotal
+  status: OrderStatus;
+  statusHistory: IOrderStatusEvent[];
+  editHistory?: IOrderEdit[]; // Line changes made before dispatch, oldest first
   desiredDeliveryDate: Date;
   currentDeliveryDate: Date;
   markedForToday?: boolean;
   sentToAdmin?: boolean;
   sentToAdminAt?: Date;
+  purchaseOrderId?: mongoose.Types.ObjectId; // Purchase order that requested these goods from the admin
+  standingOrderId?: mongoose.Types.ObjectId; // Standing order this order was placed from
   adminReceivedAt?: Date;
-  receivedAt?: Date;
+  stockedAt?: Date; // Goods arrived at the distributor and are out for delivery
+  receivedIntoStockAt?: Date; // The admin's batch was added to the distributor's stock
+  receivedAt?: Date; // Customer confirmed delivery
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancelledByRole?: OrderActorRole;
+  cancelReason?: string;
+  creditHold?: boolean; // Placed over the customer's credit limit, waiting for distributor approval
+  creditApprovedBy?: mongoose.Types.ObjectId;
+  creditApprovedAt?: Date;
   amountPaid?: number;
+  creditedAmount?: number; // Total of credit notes issued for returns; reduces the balance due
   paymentStatus?: "pending" | "partial" | "paid";
   createdAt: Date;
   updatedAt: Date;
@@ -36,22 +115,93 @@ const OrderSchema = new Schema<IOrder>(
         productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
         quantity: { type: Number, required: true },
         price: { type: Number, required: true },
+        hsnCode: { type: String },
+        gstRate: { type: Number },
+        discount: { type: Number },
+        taxableValue: { type: Number },
+        cgst: { type: Number },
+        sgst: { type: Number },
+        igst: { type: Number },
+        reservedQuantity: { type: Number },
+        suppliedQuantity: { type: Number },
       },
     ],
+    subtotal: { type: Number },
+    discounts: [
+      {
+        _id: false,
+        promotionId: { type: Schema.Types.ObjectId, ref: "Promotion", required: true },
+        name: { type: String, required: true },
+        code: { type: String },
+        type: { type: String, enum: PROMOTION_TYPES, required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
+    discountTotal: { type: Number },
+    couponCode: { type: String },
+    taxTotal: { type: Number },
+    taxType: { type: String, enum: ["intra-state", "inter-state"] },
     totalAmount: { type: Number, required: true },
     status: {
       type: String,
       enum: ["pending", "processing", "shipped", "delivered", "cancelled"],
       default: "pending",
     },
+    statusHistory: [
+      {
+        _id: false,
+        action: { type: String, required: true },
+        from: { type: String, enum: ["pending", "processing", "shipped", "delivered", "cancelled"], required: true },
+        to: { type: String, enum: ["pending", "processing", "shipped", "delivered", "cancelled"], required: true },
+        actorId: { type: Schema.Types.ObjectId, ref: "User" },
+        actorName: { type: String },
+        actorRole: { type: String, enum: ["customer", "distributor", "admin", "system"], required: true },
+        note: { type: String },
+        at: { type: Date, required: true },
+      },
+    ],
+    editHistory: [
+      {
+        _id: false,
+        actorId: { type: Schema.Types.ObjectId, ref: "User" },
+        actorName: { type: String },
+        actorRole: { type: String, enum: ["customer", "distributor", "admin", "system"], required: true },
+        changes: [
+          {
+            _id: false,
+            productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+            productName: { type: String, required: true },
+            fromQuantity: { type: Number, required: true },
+            toQuantity: { type: Number, required: true },
+            fromPrice: { type: Number },
+            toPrice: { type: Number },
+          },
+        ],
+        fromTotal: { type: Number, required: true },
+        toTotal: { type: Number, required: true },
+        at: { type: Date, required: true },
+      },
+    ],
     desiredDeliveryDate: { type: Date, required: true },
     currentDeliveryDate: { type: Date, required: true },
     markedForToday: { type: Boolean, default: false },
     sentToAdmin: { type: Boolean, default: false },
     sentToAdminAt: { type: Date },
+    purchaseOrderId: { type: Schema.Types.ObjectId, ref: "PurchaseOrder" },
+    standingOrderId: { type: Schema.Types.ObjectId, ref: "StandingOrder" },
     adminReceivedAt: { type: Date },
+    stockedAt: { type: Date },
+    receivedIntoStockAt: { type: Date },
     receivedAt: { type: Date },
+    cancelledAt: { type: Date },
+    cancelledBy: { type: Schema.Types.ObjectId, ref: "User" },
+    cancelledByRole: { type: String, enum: ["customer", "distributor", "admin", "system"] },
+    cancelReason: { type: String },
+    creditHold: { type: Boolean, default: false },
+    creditApprovedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    creditApprovedAt: { type: Date },
     amountPaid: { type: Number },
+    creditedAmount: { type: Number },
     paymentStatus: {
       type: String,
       enum: ["pending", "partial", "paid"],
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A customer's named list of products and quantities for orders they place again and again.
+// Only lines are kept; prices are looked up when the template is loaded into the cart.
+export interface IOrderTemplate extends Document {
+  customerId: mongoose.Types.ObjectId;
+  name: string;
+  items: Array<{
+    productId: mongoose.Types.ObjectId;
+    quantity: number;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderTemplateSchema = new Schema<IOrderTemplate>(
+  {
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+// Template names are unique per customer
+OrderTemplateSchema.index({ customerId: 1, name: 1 }, { unique: true });
+
+export const OrderTemplate = mongoose.model<IOrderTemplate>("OrderTemplate", OrderTemplateSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type PaymentMethod = "cash" | "upi" | "cheque" | "bank-transfer";
+
+export interface IPayment extends Document {
+  orderId: mongoose.Types.ObjectId;
+  customerId: mongoose.Types.ObjectId;
+  distributorId?: mongoose.Types.ObjectId;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string; // UPI transaction id, cheque number, bank UTR, etc.
+  paidAt: Date;
+  note?: string;
+  recordedBy: mongoose.Types.ObjectId;
+  recordedByRole: "customer" | "distributor" | "admin";
+  status: "pending" | "confirmed" | "rejected";
+  confirmedBy?: mongoose.Types.ObjectId;
+  confirmedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentSchema = new Schema<IPayment>(
+  {
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User" },
+    amount: { type: Number, required: true, min: 0.01 },
+    method: {
+      type: String,
+      enum: ["cash", "upi", "cheque", "bank-transfer"],
+      required: true,
+    },
+    reference: { type: String },
+    paidAt: { type: Date, required: true },
+    note: { type: String },
+    recordedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    recordedByRole: {
+      type: String,
+      enum: ["customer", "distributor", "admin"],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "confirmed", "rejected"],
+      default: "pending",
+    },
+    confirmedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    confirmedAt: { type: Date },
+    rejectionReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+PaymentSchema.index({ orderId: 1, status: 1 });
+PaymentSchema.index({ distributorId: 1, status: 1 });
+
+export const Payment = mongoose.model<IPayment>("Payment", PaymentSchema);
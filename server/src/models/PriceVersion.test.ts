@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { IPriceVersion, getPricingAt, getUnitPrice } from "./PriceVersion";
+
+const at = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const version = (price: number, validFrom: string, validTo?: string): IPriceVersion => ({
+  price,
+  tiers: [],
+  validFrom: at(validFrom),
+  validTo: validTo ? at(validTo) : undefined,
+});
+
+describe("getPricingAt", () => {
+  const tiers = [{ minQuantity: 10, price: 45 }];
+
+  it("falls back to the standing price and tiers when there are no versions", () => {
+    expect(getPricingAt(undefined, 50, tiers, at("2026-10-01"))).toEqual({ price: 50, tiers });
+    expect(getPricingAt([], undefined, undefined, at("2026-10-01"))).toEqual({ price: undefined, tiers: [] });
+  });
+
+  it("uses the version covering the moment", () => {
+    const versions = [version(50, "2026-01-01", "2026-10-01"), version(55, "2026-10-01")];
+    expect(getPricingAt(versions, 0, [], at("2026-09-30")).price).toBe(50);
+    expect(getPricingAt(versions, 0, [], at("2026-10-01")).price).toBe(55);
+  });
+
+  it("lets a temporary price override the standing one and then end", () => {
+    const versions = [version(50, "2026-01-01"), version(40, "2026-10-10", "2026-10-20")];
+    expect(getPricingAt(versions, 0, [], at("2026-10-09")).price).toBe(50);
+    expect(getPricingAt(versions, 0, [], at("2026-10-15")).price).toBe(40);
+    expect(getPricingAt(versions, 0, [], at("2026-10-20")).price).toBe(50); // validTo is exclusive
+  });
+
+  it("ignores a scheduled version until it starts", () => {
+    const versions = [version(50, "2026-01-01"), version(60, "2026-11-01")];
+    expect(getPricingAt(versions, 0, [], at("2026-10-19")).price).toBe(50);
+    expect(getPricingAt(versions, 0, [], at("2026-11-01")).price).toBe(60);
+  });
+
+  it("uses the standing price when no version covers the moment", () => {
+    const versions = [version(40, "2026-10-10", "2026-10-20")];
+    expect(getPricingAt(versions, 50, tiers, at("2026-10-25"))).toEqual({ price: 50, tiers });
+  });
+
+  it("takes the tiers of the chosen version, not the standing ones", () => {
+    const versions = [{ ...version(55, "2026-10-01"), tiers: [{ minQuantity: 20, price: 50 }] }];
+    expect(getPricingAt(versions, 50, tiers, at("2026-10-19")).tiers).toEqual([{ minQuantity: 20, price: 50 }]);
+  });
+});
+
+describe("getUnitPrice", () => {
+  const pricing = {
+    price: 50,
+    tiers: [
+      { minQuantity: 10, price: 45 },
+      { minQuantity: 50, price: 40 },
+    ],
+  };
+
+  it("charges the plain price below the first tier", () => {
+    expect(getUnitPrice(pricing, 1)).toBe(50);
+    expect(getUnitPrice(pricing, 9)).toBe(50);
+  });
+
+  it("charges the highest tier the quantity reaches", () => {
+    expect(getUnitPrice(pricing, 10)).toBe(45);
+    expect(getUnitPrice(pricing, 49)).toBe(45);
+    expect(getUnitPrice(pricing, 50)).toBe(40);
+    expect(getUnitPrice(pricing, 500)).toBe(40);
+  });
+
+  it("does not depend on the order the tiers are stored in", () => {
+    expect(getUnitPrice({ price: 50, tiers: [...pricing.tiers].reverse() }, 60)).toBe(40);
+  });
+
+  it("charges the plain price when there are no tiers", () => {
+    expect(getUnitPrice({ price: 50, tiers: [] }, 1000)).toBe(50);
+  });
+});
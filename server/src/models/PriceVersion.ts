@@ -0,0 +1,78 @@
+import mongoose, { Schema } from "mongoose";
+
+// A volume price: from minQuantity units up, every unit of the line costs this price instead
+export interface IPriceTier {
+  minQuantity: number;
+  price: number;
+}
+
+export const PriceTierSchema = new Schema<IPriceTier>(
+  {
+    minQuantity: { type: Number, required: true, min: 2 },
+    price: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+// One dated price of a price entry: a product's base price, an admin's price for a distributor or
+// a distributor's price for a customer. Entries keep every version they have had or are scheduled
+// to have, so the versions double as the entry's price history.
+export interface IPriceVersion {
+  _id?: mongoose.Types.ObjectId;
+  price: number;
+  tiers: IPriceTier[]; // Volume prices that go with this price
+  validFrom: Date;
+  validTo?: Date; // Exclusive; open-ended when unset
+  setBy?: mongoose.Types.ObjectId;
+  setByName?: string; // Snapshot so the history survives user renames/deletes
+  createdAt?: Date;
+}
+
+export const PriceVersionSchema = new Schema<IPriceVersion>(
+  {
+    price: { type: Number, required: true, min: 0 },
+    tiers: [PriceTierSchema],
+    validFrom: { type: Date, required: true },
+    validTo: { type: Date },
+    setBy: { type: Schema.Types.ObjectId, ref: "User" },
+    setByName: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// The version that applies at a moment: the latest-starting one covering it
+function findVersionAt(versions: IPriceVersion[] | undefined, at: Date): IPriceVersion | undefined {
+  let current: IPriceVersion | undefined;
+  for (const version of versions || []) {
+    const covers = version.validFrom <= at && (!version.validTo || at < version.validTo);
+    if (covers && (!current || version.validFrom >= current.validFrom)) {
+      current = version;
+    }
+  }
+  return current;
+}
+
+// The price and volume tiers that apply at a moment, or the entry's standing ones when no version
+// covers it (entries priced before versioning have no versions). Tiers always go with their price.
+export function getPricingAt<T extends number | undefined>(
+  versions: IPriceVersion[] | undefined,
+  standingPrice: T,
+  standingTiers: IPriceTier[] | undefined,
+  at: Date = new Date()
+): { price: number | T; tiers: IPriceTier[] } {
+  const version = findVersionAt(versions, at);
+  return version ? { price: version.price, tiers: version.tiers || [] } : { price: standingPrice, tiers: standingTiers || [] };
+}
+
+// Unit price for a line quantity: the price of the highest tier the quantity reaches, or the plain price
+export function getUnitPrice(pricing: { price: number; tiers: IPriceTier[] }, quantity: number): number {
+  let unitPrice = pricing.price;
+  let reached = 0;
+  for (const tier of pricing.tiers) {
+    if (quantity >= tier.minQuantity && tier.minQuantity > reached) {
+      unitPrice = tier.price;
+      reached = tier.minQuantity;
+    }
+  }
+  return unitPrice;
+}
@@ -1,13 +1,27 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { IPriceTier, IPriceVersion, PriceTierSchema, PriceVersionSchema } from "./PriceVersion";
+
+// GST slabs; product prices are always stored exclusive of GST
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
 
 export interface IProduct extends Document {
   name: string;
   description?: string;
-  price: number;
+  price: number; // Standing base price
+  priceTiers: IPriceTier[]; // Volume prices that go with the standing base price
+  priceVersions: IPriceVersion[];
   imageUrl?: string;
   isActive: boolean;
-  stock?: number;
+  trackInventory: boolean; // When false the product is never out of stock
+  stock?: number; // On hand
+  reservedStock: number; // Held for open orders; available = stock - reservedStock
   category?: string;
+  hsnCode?: string; // HSN (goods) or SAC (services) code printed on invoices
+  gstRate: number; // Percent, one of GST_RATES
+  unit?: string; // Unit of measure quantities are counted in, e.g. "pcs", "kg", "box"
+  packSize?: number; // Units in one pack; orders go up a whole pack at a time unless quantityStep is set
+  minOrderQuantity?: number; // MOQ in units
+  quantityStep?: number; // Order quantities must be a multiple of this
   status: "pending" | "approved" | "rejected";
   createdBy?: mongoose.Types.ObjectId;
   reviewedBy?: mongoose.Types.ObjectId;
@@ -22,10 +36,20 @@ const ProductSchema = new Schema<IProduct>(
     name: { type: String, required: true },
     description: { type: String },
     price: { type: Number, required: true },
+    priceTiers: [PriceTierSchema],
+    priceVersions: [PriceVersionSchema],
     imageUrl: { type: String },
     isActive: { type: Boolean, default: true },
+    trackInventory: { type: Boolean, default: false },
     stock: { type: Number, default: 0 },
+    reservedStock: { type: Number, default: 0 },
     category: { type: String },
+    hsnCode: { type: String, trim: true },
+    gstRate: { type: Number, enum: GST_RATES, default: 0 },
+    unit: { type: String, trim: true },
+    packSize: { type: Number, min: 1 },
+    minOrderQuantity: { type: Number, min: 1 },
+    quantityStep: { type: Number, min: 1 },
     status: {
       type: String,
       enum: ["pending", "approved", "rejected"],
@@ -39,5 +63,13 @@ const ProductSchema = new Schema<IProduct>(
   { timestamps: true }
 );
 
+// The quantities a product can be ordered in: multiples of `step`, starting at `min` (the MOQ
+// rounded up to a whole step)
+export const getQuantityRules = (product: { packSize?: number; minOrderQuantity?: number; quantityStep?: number }) => {
+  const step = product.quantityStep || product.packSize || 1;
+  const min = Math.ceil((product.minOrderQuantity || step) / step) * step;
+  return { step, min };
+};
+
 export const Product = mongoose.model<IProduct>("Product", ProductSchema);
 
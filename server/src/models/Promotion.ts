@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type PromotionType = "percentage" | "flat" | "buy-x-get-y";
+
+export const PROMOTION_TYPES: PromotionType[] = ["percentage", "flat", "buy-x-get-y"];
+
+// An offer run by an admin (for the customers of all their distributors) or a distributor (for
+// their own customers). Promotions without a code apply to every order they match; coupon
+// promotions only when the customer enters the code. Applied promotions are kept on the order
+// as discount lines.
+export interface IPromotion extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  ownerRole: "admin" | "distributor";
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value?: number; // percentage: percent off the matching lines; flat: rupees off them per order
+  buyQuantity?: number; // buy-x-get-y: of every buyQuantity + getQuantity units on a matching line,
+  getQuantity?: number; // getQuantity are free
+  code?: string; // Coupon code, upper case; unset for automatic promotions
+  usageLimit?: number; // Orders it can be used on in total
+  perCustomerLimit?: number; // Orders each customer can use it on
+  usedCount: number; // Open orders using it; a cancelled order gives its use back
+  productIds: mongoose.Types.ObjectId[]; // With categories, the products it covers; both empty for all
+  categories: string[];
+  customerIds: mongoose.Types.ObjectId[]; // Empty for every customer
+  startsAt: Date;
+  endsAt: Date; // Exclusive
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromotionSchema = new Schema<IPromotion>(
+  {
+    ownerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    ownerRole: { type: String, enum: ["admin", "distributor"], required: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    type: { type: String, enum: PROMOTION_TYPES, required: true },
+    value: { type: Number, min: 0 },
+    buyQuantity: { type: Number, min: 1 },
+    getQuantity: { type: Number, min: 1 },
+    code: { type: String, trim: true, uppercase: true },
+    usageLimit: { type: Number, min: 1 },
+    perCustomerLimit: { type: Number, min: 1 },
+    usedCount: { type: Number, default: 0 },
+    productIds: [{ type: Schema.Types.ObjectId, ref: "Product" }],
+    categories: [{ type: String, trim: true }],
+    customerIds: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+PromotionSchema.index({ ownerId: 1, isActive: 1, endsAt: 1 });
+// A code names one promotion per owner
+PromotionSchema.index({ ownerId: 1, code: 1 }, { unique: true, partialFilterExpression: { code: { $type: "string" } } });
+
+export const Promotion = mongoose.model<IPromotion>("Promotion", PromotionSchema);
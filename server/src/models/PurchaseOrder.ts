@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { OrderActorRole } from "./Order";
+
+export type PurchaseOrderStatus = "submitted" | "acknowledged" | "partially-fulfilled" | "fulfilled" | "rejected";
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "submitted",
+  "acknowledged",
+  "partially-fulfilled",
+  "fulfilled",
+  "rejected",
+];
+
+export interface IPurchaseOrderLine {
+  productId: mongoose.Types.ObjectId;
+  productName: string; // Snapshot so the request reads the same after product renames
+  quantity: number; // Total requested: linked customer orders plus restock
+  restockQuantity: number; // Part of quantity not tied to a customer order
+  fulfilledQuantity: number;
+}
+
+export interface IPurchaseOrderEvent {
+  status: PurchaseOrderStatus;
+  actorId?: mongoose.Types.ObjectId;
+  actorName?: string;
+  actorRole: OrderActorRole;
+  note?: string;
+  at: Date;
+}
+
+// A distributor's request for goods from their admin, raised from send-to-admin. Customer orders
+// it covers point back to it through Order.purchaseOrderId.
+export interface IPurchaseOrder extends Document {
+  poNumber: string;
+  distributorId: mongoose.Types.ObjectId;
+  adminId: mongoose.Types.ObjectId;
+  lines: IPurchaseOrderLine[];
+  orderIds: mongoose.Types.ObjectId[];
+  status: PurchaseOrderStatus;
+  statusHistory: IPurchaseOrderEvent[];
+  acknowledgedAt?: Date;
+  fulfilledAt?: Date;
+  rejectedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    poNumber: { type: String, required: true, unique: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    adminId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    lines: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        productName: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 1 },
+        restockQuantity: { type: Number, default: 0 },
+        fulfilledQuantity: { type: Number, default: 0 },
+      },
+    ],
+    orderIds: [{ type: Schema.Types.ObjectId, ref: "Order" }],
+    status: { type: String, enum: PURCHASE_ORDER_STATUSES, default: "submitted" },
+    statusHistory: [
+      {
+        _id: false,
+        status: { type: String, enum: PURCHASE_ORDER_STATUSES, required: true },
+        actorId: { type: Schema.Types.ObjectId, ref: "User" },
+        actorName: { type: String },
+        actorRole: { type: String, enum: ["customer", "distributor", "admin", "system"], required: true },
+        note: { type: String },
+        at: { type: Date, required: true },
+      },
+    ],
+    acknowledgedAt: { type: Date },
+    fulfilledAt: { type: Date },
+    rejectedAt: { type: Date },
+    rejectionReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+PurchaseOrderSchema.index({ adminId: 1, status: 1 });
+PurchaseOrderSchema.index({ distributorId: 1, createdAt: -1 });
+
+export const PurchaseOrder = mongoose.model<IPurchaseOrder>("PurchaseOrder", PurchaseOrderSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { OrderActorRole } from "./Order";
+
+export type ReturnReason = "damaged" | "expired" | "wrong-item" | "other";
+
+export const RETURN_REASONS: ReturnReason[] = ["damaged", "expired", "wrong-item", "other"];
+
+// A customer's request to send back goods from a delivered order. The distributor approves or
+// rejects it; an approved return issues a CreditNote and puts the goods back into stock.
+export interface IReturnRequest extends Document {
+  orderId: mongoose.Types.ObjectId;
+  customerId: mongoose.Types.ObjectId;
+  distributorId?: mongoose.Types.ObjectId;
+  items: Array<{
+    productId: mongoose.Types.ObjectId;
+    quantity: number;
+  }>;
+  reason: ReturnReason;
+  note?: string;
+  status: "pending" | "approved" | "rejected";
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedByRole?: OrderActorRole;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  creditNoteId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReturnRequestSchema = new Schema<IReturnRequest>(
+  {
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User" },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+    reason: { type: String, enum: RETURN_REASONS, required: true },
+    note: { type: String },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    reviewedByRole: { type: String, enum: ["customer", "distributor", "admin", "system"] },
+    reviewedAt: { type: Date },
+    rejectionReason: { type: String },
+    creditNoteId: { type: Schema.Types.ObjectId, ref: "CreditNote" },
+  },
+  { timestamps: true }
+);
+
+ReturnRequestSchema.index({ orderId: 1, status: 1 });
+ReturnRequestSchema.index({ distributorId: 1, status: 1 });
+
+export const ReturnRequest = mongoose.model<IReturnRequest>("ReturnRequest", ReturnRequestSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type StandingOrderStatus = "active" | "paused";
+
+export type StandingOrderFrequency = "weekly" | "interval";
+
+// A recurring order. The standing order job places a real order for each delivery date shortly
+// before it; those orders point back here through Order.standingOrderId.
+export interface IStandingOrder extends Document {
+  customerId: mongoose.Types.ObjectId;
+  distributorId: mongoose.Types.ObjectId;
+  name: string;
+  items: Array<{
+    productId: mongoose.Types.ObjectId;
+    quantity: number;
+  }>;
+  frequency: StandingOrderFrequency;
+  weekdays: number[]; // weekly: 0 (Sunday) to 6 (Saturday)
+  intervalDays?: number; // interval: days between deliveries, counted from startDate
+  startDate: Date; // Delivery dates are whole UTC days, like order delivery dates
+  endDate?: Date;
+  status: StandingOrderStatus;
+  pausedAt?: Date;
+  lastGeneratedDate?: Date; // Latest delivery date an order has been placed (or attempted) for
+  lastError?: string; // Why the latest attempt failed, cleared by the next successful one
+  lastErrorAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StandingOrderSchema = new Schema<IStandingOrder>(
+  {
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+    frequency: { type: String, enum: ["weekly", "interval"], required: true },
+    weekdays: [{ type: Number, min: 0, max: 6 }],
+    intervalDays: { type: Number, min: 1 },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date },
+    status: { type: String, enum: ["active", "paused"], default: "active" },
+    pausedAt: { type: Date },
+    lastGeneratedDate: { type: Date },
+    lastError: { type: String },
+    lastErrorAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+StandingOrderSchema.index({ customerId: 1 });
+StandingOrderSchema.index({ distributorId: 1, status: 1 });
+StandingOrderSchema.index({ status: 1, startDate: 1 });
+
+export const StandingOrder = mongoose.model<IStandingOrder>("StandingOrder", StandingOrderSchema);
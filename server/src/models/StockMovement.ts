@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { OrderActorRole } from "./Order";
+
+// receipt/return/adjustment change stock on hand, reservation/release only change the
+// reserved quantity, and delivery takes reserved goods out of stock on hand
+export type StockMovementType = "receipt" | "reservation" | "release" | "delivery" | "adjustment" | "return";
+
+// One entry per change to a product's inventory. Product.stock and Product.reservedStock are
+// only ever changed together with a movement, so the ledger explains the current balance.
+// Movements with a distributorId belong to that distributor's DistributorStock instead.
+export interface IStockMovement extends Document {
+  productId: mongoose.Types.ObjectId;
+  distributorId?: mongoose.Types.ObjectId;
+  type: StockMovementType;
+  stockChange: number; // Signed change to stock on hand
+  reservedChange: number; // Signed change to the quantity reserved for open orders
+  stockAfter: number;
+  reservedAfter: number;
+  orderId?: mongoose.Types.ObjectId;
+  orderNumber?: string;
+  note?: string;
+  actorId?: mongoose.Types.ObjectId;
+  actorName?: string;
+  actorRole: OrderActorRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    distributorId: { type: Schema.Types.ObjectId, ref: "User" },
+    type: {
+      type: String,
+      enum: ["receipt", "reservation", "release", "delivery", "adjustment", "return"],
+      required: true,
+    },
+    stockChange: { type: Number, default: 0 },
+    reservedChange: { type: Number, default: 0 },
+    stockAfter: { type: Number, required: true },
+    reservedAfter: { type: Number, required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    orderNumber: { type: String },
+    note: { type: String },
+    actorId: { type: Schema.Types.ObjectId, ref: "User" },
+    actorName: { type: String },
+    actorRole: { type: String, enum: ["customer", "distributor", "admin", "system"], required: true },
+  },
+  { timestamps: true }
+);
+
+StockMovementSchema.index({ productId: 1, createdAt: -1 });
+StockMovementSchema.index({ distributorId: 1, createdAt: -1 });
+
+export const StockMovement = mongoose.model<IStockMovement>("StockMovement", StockMovementSchema);
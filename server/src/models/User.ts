@@ -27,6 +27,9 @@ export interface IUser extends Document {
   parentId?: mongoose.Types.ObjectId; // Immediate parent (admin for distributor, distributor for customer)
   emailVerified?: boolean; // Whether email has been verified
   temporaryPassword?: string; // Temporary password sent after verification
+  creditLimit?: number; // Customers only: max outstanding balance, set by the parent distributor (unset = no limit)
+  minimumOrderValue?: number; // Distributors only: smallest customer order (before GST) they accept, set by the parent admin
+  customerGroupId?: mongoose.Types.ObjectId; // Customers only: the parent distributor's customer group whose price list applies
 }
 
 const UserSchema = new Schema<IUser>(
@@ -61,6 +64,9 @@ const UserSchema = new Schema<IUser>(
     parentId: { type: Schema.Types.ObjectId, ref: "User" },
     emailVerified: { type: Boolean, default: false },
     temporaryPassword: { type: String },
+    creditLimit: { type: Number, min: 0 },
+    minimumOrderValue: { type: Number, min: 0 },
+    customerGroupId: { type: Schema.Types.ObjectId, ref: "CustomerGroup" },
   },
   { timestamps: true }
 );
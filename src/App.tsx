@@ -21,8 +21,11 @@ const CustomerOrders = lazy(() => import("./pages/CustomerOrders"));
 const DistributorOrders = lazy(() => import("./pages/DistributorOrders"));
 const DistributorTransit = lazy(() => import("./pages/DistributorTransit"));
 const DistributorPricing = lazy(() => import("./pages/DistributorPricing"));
+const DistributorDispatch = lazy(() => import("./pages/DistributorDispatch"));
 const AdminOrderNotifications = lazy(() => import("./pages/AdminOrderNotifications"));
 const AdminProductUsage = lazy(() => import("./pages/AdminProductUsage"));
+const Receivables = lazy(() => import("./pages/Receivables"));
+const Promotions = lazy(() => import("./pages/Promotions"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 // Create QueryClient outside component to avoid recreation on every render
@@ -71,8 +74,11 @@ const App = () => {
                 <Route path="/distributor/orders" element={<DistributorOrders />} />
                 <Route path="/distributor/transit" element={<DistributorTransit />} />
                 <Route path="/distributor/pricing" element={<DistributorPricing />} />
+                <Route path="/distributor/dispatch" element={<DistributorDispatch />} />
                 <Route path="/admin/order-notifications" element={<AdminOrderNotifications />} />
                 <Route path="/admin/product-usage" element={<AdminProductUsage />} />
+                <Route path="/receivables" element={<Receivables />} />
+                <Route path="/promotions" element={<Promotions />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </Suspense>
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface CancelOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderNumber?: string;
+  reasonRequired?: boolean;
+  cancelling?: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+const CancelOrderDialog = ({
+  open,
+  onOpenChange,
+  orderNumber,
+  reasonRequired = false,
+  cancelling = false,
+  onConfirm,
+}: CancelOrderDialogProps) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Order{orderNumber ? ` #${orderNumber}` : ''}</DialogTitle>
+          <DialogDescription>
+            The order will be kept in the history as cancelled and all parties will be notified by email.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-4">
+          <Label htmlFor="cancelReason">Reason{reasonRequired ? '' : ' (optional)'}</Label>
+          <Textarea
+            id="cancelReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this order being cancelled?"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => onConfirm(reason.trim())}
+            disabled={cancelling || (reasonRequired && !reason.trim())}
+          >
+            {cancelling ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Cancelling...
+              </>
+            ) : (
+              'Cancel Order'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Edit, Loader2, Plus, Trash2, Users } from 'lucide-react';
+
+export interface CustomerGroup {
+  _id: string;
+  name: string;
+  description?: string;
+  customerIds: string[];
+  priceCount: number;
+}
+
+export interface GroupableCustomer {
+  _id: string;
+  name: string;
+  email: string;
+  customerGroupId?: string;
+}
+
+interface CustomerGroupsCardProps {
+  groups: CustomerGroup[];
+  customers: GroupableCustomer[];
+  onChange: () => void;
+}
+
+// A distributor's customer groups: create, rename and delete them and choose their members
+const CustomerGroupsCard = ({ groups, customers, onChange }: CustomerGroupsCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editingGroup, setEditingGroup] = useState<CustomerGroup | null>(null);
+  const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false);
+  const [groupForm, setGroupForm] = useState({ name: '', description: '' });
+  const [membersGroup, setMembersGroup] = useState<CustomerGroup | null>(null);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [deletingGroup, setDeletingGroup] = useState<CustomerGroup | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const groupNames = new Map(groups.map((group) => [group._id, group.name]));
+
+  const sendRequest = async (path: string, method: string, body?: unknown) => {
+    const res = await fetch(getApiUrl(path), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${user?.token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Request failed');
+    }
+  };
+
+  const openGroupDialog = (group: CustomerGroup | null) => {
+    setEditingGroup(group);
+    setGroupForm({ name: group?.name || '', description: group?.description || '' });
+    setIsGroupDialogOpen(true);
+  };
+
+  const openMembersDialog = (group: CustomerGroup) => {
+    setMembersGroup(group);
+    setMemberIds(group.customerIds);
+    setMemberSearch('');
+  };
+
+  const handleSaveGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await sendRequest(
+        editingGroup ? `/api/distributor/customer-groups/${editingGroup._id}` : '/api/distributor/customer-groups',
+        editingGroup ? 'PUT' : 'POST',
+        groupForm
+      );
+      toast({
+        title: editingGroup ? 'Group updated' : 'Group created',
+        description: `${groupForm.name.trim()} has been saved.`,
+        variant: 'success',
+      });
+      setIsGroupDialogOpen(false);
+      onChange();
+    } catch (error) {
+      console.error('Save customer group error:', error);
+      toast({
+        title: 'Failed to save group',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveMembers = async () => {
+    if (!membersGroup) return;
+    try {
+      setSaving(true);
+      await sendRequest(`/api/distributor/customer-groups/${membersGroup._id}/members`, 'PUT', { customerIds: memberIds });
+      toast({
+        title: 'Members updated',
+        description: `${membersGroup.name} now has ${memberIds.length} customer${memberIds.length === 1 ? '' : 's'}.`,
+        variant: 'success',
+      });
+      setMembersGroup(null);
+      onChange();
+    } catch (error) {
+      console.error('Save group members error:', error);
+      toast({
+        title: 'Failed to update members',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteGroup = async () => {
+    if (!deletingGroup) return;
+    try {
+      await sendRequest(`/api/distributor/customer-groups/${deletingGroup._id}`, 'DELETE');
+      toast({
+        title: 'Group deleted',
+        description: 'Its customers are back on your standard prices.',
+        variant: 'success',
+      });
+      onChange();
+    } catch (error) {
+      console.error('Delete customer group error:', error);
+      toast({
+        title: 'Failed to delete group',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingGroup(null);
+    }
+  };
+
+  const search = memberSearch.trim().toLowerCase();
+  const visibleCustomers = search
+    ? customers.filter((customer) => `${customer.name} ${customer.email}`.toLowerCase().includes(search))
+    : customers;
+
+  return (
+    <Card className="mb-6 bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg font-bold flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Customer Groups
+          </CardTitle>
+          <CardDescription>
+            Customers in a group get the group's prices for any product they have no custom price for.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => openGroupDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Group
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No groups yet. Create groups such as Wholesale, Retail or Hotel to price many customers at once.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {groups.map((group) => (
+              <div key={group._id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{group.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {group.customerIds.length} customer{group.customerIds.length === 1 ? '' : 's'} · {group.priceCount} price
+                    {group.priceCount === 1 ? '' : 's'}
+                    {group.description && ` · ${group.description}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => openMembersDialog(group)} title="Members">
+                    <Users className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openGroupDialog(group)} title="Rename">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setDeletingGroup(group)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isGroupDialogOpen} onOpenChange={setIsGroupDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingGroup ? 'Edit' : 'New'} Customer Group</DialogTitle>
+            <DialogDescription>Give the group a name your team will recognise, e.g. Wholesale.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveGroup}>
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="groupName">Name</Label>
+                <Input
+                  id="groupName"
+                  value={groupForm.name}
+                  onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="groupDescription">Description</Label>
+                <Input
+                  id="groupDescription"
+                  value={groupForm.description}
+                  onChange={(e) => setGroupForm({ ...groupForm, description: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsGroupDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !groupForm.name.trim()}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingGroup ? 'Update' : 'Create'} Group
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!membersGroup} onOpenChange={(open) => !open && setMembersGroup(null)}>
+        <DialogContent className="max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{membersGroup?.name} Members</DialogTitle>
+            <DialogDescription>
+              A customer belongs to one group at a time; ticking a customer in another group moves them here.
+            </DialogDescription>
+          </DialogHeader>
+          <Input value={memberSearch} onChange={(e) => setMemberSearch(e.target.value)} placeholder="Search customers" />
+          <div className="flex-1 min-h-0 max-h-80 overflow-y-auto rounded-md border p-2 space-y-2">
+            {visibleCustomers.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No customers found.</p>
+            ) : (
+              visibleCustomers.map((customer) => {
+                const otherGroup =
+                  customer.customerGroupId && customer.customerGroupId !== membersGroup?._id
+                    ? groupNames.get(customer.customerGroupId)
+                    : undefined;
+                return (
+                  <label key={customer._id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={memberIds.includes(customer._id)}
+                      onCheckedChange={(checked) =>
+                        setMemberIds((prev) => (checked ? [...prev, customer._id] : prev.filter((id) => id !== customer._id)))
+                      }
+                    />
+                    <span className="truncate">
+                      {customer.name} <span className="text-muted-foreground">({customer.email})</span>
+                    </span>
+                    {otherGroup && <span className="ml-auto text-xs text-muted-foreground shrink-0">in {otherGroup}</span>}
+                  </label>
+                );
+              })
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMembersGroup(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveMembers} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Members ({memberIds.length})
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingGroup} onOpenChange={(open) => !open && setDeletingGroup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Customer Group</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {deletingGroup?.name} and its price list? Its customers keep their own custom prices and pay your
+              standard prices for everything else.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteGroup}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CustomerGroupsCard;
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { downloadFile } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, FileText, Loader2 } from 'lucide-react';
+
+interface DeliveredOrder {
+  _id: string;
+  orderNumber: string;
+  customerId: { name: string; email: string };
+  totalAmount: number;
+  amountPaid?: number;
+  paymentStatus?: string;
+  receivedAt: string;
+  invoiceNumber?: string;
+}
+
+interface DeliveredOrdersCardProps {
+  token?: string;
+}
+
+// Recently delivered orders with invoice downloads
+const DeliveredOrdersCard = ({ token }: DeliveredOrdersCardProps) => {
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<DeliveredOrder[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const loadOrders = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<DeliveredOrder[]>('/api/distributor/orders/delivered', token, { skipCache: true });
+      setOrders(data);
+    } catch (error) {
+      console.error('Load delivered orders error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadOrders();
+  }, [token]);
+
+  const handleDownloadInvoice = async (order: DeliveredOrder) => {
+    if (!token) return;
+    try {
+      setDownloadingId(order._id);
+      await downloadFile(`/api/orders/${order._id}/invoice`, token, `invoice-${order.orderNumber}.pdf`);
+      // The first download issues the invoice number
+      if (!order.invoiceNumber) {
+        await loadOrders();
+      }
+    } catch (error) {
+      console.error('Download invoice error:', error);
+      toast({
+        title: 'Failed to download invoice',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (orders.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <CheckCircle className="h-5 w-5" />
+          Delivered Orders
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Download tax invoices for your latest deliveries
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {orders.map((order) => (
+          <div
+            key={order._id}
+            className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 border border-black/10 dark:border-white/10 rounded-lg"
+          >
+            <div className="text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="font-bold break-all">Order #{order.orderNumber}</p>
+                {order.invoiceNumber && <Badge variant="outline">{order.invoiceNumber}</Badge>}
+                <Badge variant={order.paymentStatus === 'paid' ? 'default' : 'secondary'}>
+                  {order.paymentStatus || 'pending'}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {order.customerId.name} · ₹{order.totalAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })} · delivered{' '}
+                {new Date(order.receivedAt).toLocaleDateString('en-IN')}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownloadInvoice(order)}
+              disabled={downloadingId === order._id}
+            >
+              {downloadingId === order._id ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileText className="mr-2 h-4 w-4" />
+              )}
+              Download Invoice
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveredOrdersCard;
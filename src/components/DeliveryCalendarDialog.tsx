@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { WEEKDAY_LABELS } from '@/lib/standing-orders';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface DeliveryCalendar {
+  deliveryDays: number[];
+  cutoffTime: string | null;
+  dailyCapacity: number | null;
+  holidays: Array<{ date: string; note?: string }>;
+}
+
+interface CalendarDay {
+  date: string;
+  orders: number;
+  closed: string | null;
+}
+
+interface DeliveryCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  token?: string;
+  onSaved?: () => void; // Called after saving, which may have moved orders
+}
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+// The distributor's delivery days, next-day cutoff, daily capacity and holidays, with the order
+// load for the coming weeks. Saving moves orders off closed or overbooked days.
+const DeliveryCalendarDialog = ({ open, onOpenChange, token, onSaved }: DeliveryCalendarDialogProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [days, setDays] = useState<CalendarDay[]>([]);
+  const [deliveryDays, setDeliveryDays] = useState<number[]>([]);
+  const [cutoffTime, setCutoffTime] = useState('');
+  const [dailyCapacity, setDailyCapacity] = useState('');
+  const [holidays, setHolidays] = useState<Array<{ date: string; note: string }>>([]);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayNote, setHolidayNote] = useState('');
+
+  const loadCalendar = async () => {
+    if (!token) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<{ calendar: DeliveryCalendar; days: CalendarDay[] }>(
+        '/api/distributor/delivery-calendar',
+        token,
+        { skipCache: true }
+      );
+      setDays(data.days);
+      setDeliveryDays(data.calendar.deliveryDays);
+      setCutoffTime(data.calendar.cutoffTime || '');
+      setDailyCapacity(data.calendar.dailyCapacity?.toString() || '');
+      setHolidays(data.calendar.holidays.map((h) => ({ date: h.date.split('T')[0], note: h.note || '' })));
+    } catch (error) {
+      console.error('Load delivery calendar error:', error);
+      toast({
+        title: 'Failed to load delivery calendar',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setHolidayDate('');
+    setHolidayNote('');
+    loadCalendar();
+  }, [open]);
+
+  const toggleDay = (day: number) =>
+    setDeliveryDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()));
+
+  const addHoliday = () => {
+    if (!holidayDate || holidays.some((h) => h.date === holidayDate)) return;
+    setHolidays((prev) => [...prev, { date: holidayDate, note: holidayNote.trim() }].sort((a, b) => a.date.localeCompare(b.date)));
+    setHolidayDate('');
+    setHolidayNote('');
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl('/api/distributor/delivery-calendar'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          deliveryDays,
+          cutoffTime: cutoffTime || null,
+          dailyCapacity: dailyCapacity ? parseInt(dailyCapacity) : null,
+          holidays,
+        }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to save delivery calendar');
+      }
+
+      const { rescheduled } = (await res.json()) as { rescheduled: Array<{ orderNumber: string }> };
+      toast({
+        title: 'Delivery calendar saved',
+        description:
+          rescheduled.length > 0
+            ? `${rescheduled.length} order${rescheduled.length === 1 ? ' was' : 's were'} moved to the next available day and the customers notified.`
+            : undefined,
+        variant: 'success',
+      });
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Save delivery calendar error:', error);
+      toast({
+        title: 'Failed to save delivery calendar',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const capacity = parseInt(dailyCapacity) || null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Delivery Calendar</DialogTitle>
+          <DialogDescription>
+            Customers can only pick delivery dates you deliver on. When you save, open orders on days you no longer
+            deliver on or that are over capacity move to the next day with room, and their customers are emailed.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Delivery days</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm">
+                    <Checkbox checked={deliveryDays.includes(day)} onCheckedChange={() => toggleDay(day)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="cutoffTime">Next-day cutoff (IST)</Label>
+                <Input id="cutoffTime" type="time" value={cutoffTime} onChange={(e) => setCutoffTime(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="dailyCapacity">Orders per day</Label>
+                <Input
+                  id="dailyCapacity"
+                  type="number"
+                  min="1"
+                  value={dailyCapacity}
+                  onChange={(e) => setDailyCapacity(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Holidays</Label>
+              {holidays.map((holiday) => (
+                <div key={holiday.date} className="flex items-center gap-2 text-sm">
+                  <p className="flex-1">
+                    {formatDay(holiday.date)}
+                    {holiday.note && <span className="text-muted-foreground"> · {holiday.note}</span>}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setHolidays((prev) => prev.filter((h) => h.date !== holiday.date))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className="w-44" />
+                <Input value={holidayNote} onChange={(e) => setHolidayNote(e.target.value)} placeholder="Note (optional)" />
+                <Button variant="outline" onClick={addHoliday} disabled={!holidayDate}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {days.length > 0 && (
+              <div className="space-y-2">
+                <Label>Next four weeks</Label>
+                <div className="grid grid-cols-7 gap-1 text-xs">
+                  {days.map((day) => {
+                    const over = capacity !== null && day.orders > capacity;
+                    return (
+                      <div
+                        key={day.date}
+                        title={day.closed || undefined}
+                        className={cn(
+                          'rounded-md border p-1 text-center',
+                          day.closed && 'bg-muted text-muted-foreground',
+                          over && 'border-destructive text-destructive'
+                        )}
+                      >
+                        <p>{formatDay(day.date)}</p>
+                        <p className="font-medium">
+                          {day.orders}
+                          {capacity !== null && `/${capacity}`}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground">Open orders per day, as currently saved</p>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || deliveryDays.length === 0}>
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeliveryCalendarDialog;
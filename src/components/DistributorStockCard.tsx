@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Warehouse } from 'lucide-react';
+
+export interface DistributorStockLevel {
+  productId: string;
+  name: string;
+  imageUrl?: string;
+  quantity: number;
+  reorderPoint?: number;
+}
+
+interface DistributorStockCardProps {
+  token?: string;
+  stock: DistributorStockLevel[];
+  onChange?: () => void;
+}
+
+// The distributor's own stock on hand, with stock-count corrections and reorder points
+const DistributorStockCard = ({ token, stock, onChange }: DistributorStockCardProps) => {
+  const { toast } = useToast();
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleAdjust = async (productId: string) => {
+    if (!token) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/distributor/stock/${productId}/adjustments`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ quantity: parseInt(quantity), note }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to adjust stock');
+      }
+
+      toast({
+        title: 'Stock updated',
+        variant: 'success',
+      });
+
+      setAdjustingId(null);
+      setQuantity('');
+      setNote('');
+      onChange?.();
+    } catch (error) {
+      console.error('Adjust stock error:', error);
+      toast({
+        title: 'Failed to adjust stock',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveReorderPoint = async (productId: string) => {
+    if (!token) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/distributor/stock/${productId}/reorder-point`), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ reorderPoint: reorderPoint.trim() === '' ? null : parseInt(reorderPoint) }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to save reorder point');
+      }
+
+      toast({
+        title: reorderPoint.trim() === '' ? 'Reorder point removed' : 'Reorder point saved',
+        variant: 'success',
+      });
+
+      setAdjustingId(null);
+      onChange?.();
+    } catch (error) {
+      console.error('Save reorder point error:', error);
+      toast({
+        title: 'Failed to save reorder point',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (stock.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <Warehouse className="h-5 w-5" />
+          Stock on Hand
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Goods in your warehouse. Batches from admin are added when marked received and deducted when customers receive them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {stock.map((level) => (
+          <div key={level.productId} className="p-3 border border-black/10 dark:border-white/10 rounded-lg space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{level.name}</p>
+                {level.reorderPoint !== undefined && level.reorderPoint !== null && (
+                  <p className="text-xs text-muted-foreground">Reorder at {level.reorderPoint}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`text-sm font-bold ${
+                    level.quantity < 0 || (level.reorderPoint !== undefined && level.quantity < level.reorderPoint)
+                      ? 'text-destructive'
+                      : ''
+                  }`}
+                >
+                  {level.quantity}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setAdjustingId(adjustingId === level.productId ? null : level.productId);
+                    setQuantity('');
+                    setNote('');
+                    setReorderPoint(level.reorderPoint?.toString() ?? '');
+                  }}
+                >
+                  Adjust
+                </Button>
+              </div>
+            </div>
+            {adjustingId === level.productId && (
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder="Change, e.g. 10 or -2"
+                  className="md:w-44"
+                />
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Reason, e.g. stock count"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => handleAdjust(level.productId)}
+                  disabled={!parseInt(quantity) || !note.trim() || saving}
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            )}
+            {adjustingId === level.productId && (
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  value={reorderPoint}
+                  onChange={(e) => setReorderPoint(e.target.value)}
+                  placeholder="Reorder point (blank for none)"
+                  className="md:w-56"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleSaveReorderPoint(level.productId)}
+                  disabled={saving}
+                >
+                  Save Reorder Point
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DistributorStockCard;
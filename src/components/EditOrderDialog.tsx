@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { PriceTier, getTierPrice } from '@/lib/price-tiers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2 } from 'lucide-react';
+
+export interface OrderEdit {
+  actorName?: string;
+  actorRole: string;
+  changes: Array<{ productName: string; fromQuantity: number; toQuantity: number; fromPrice?: number; toPrice?: number }>;
+  fromTotal: number;
+  toTotal: number;
+  at: string;
+}
+
+interface EditableOrder {
+  _id: string;
+  orderNumber: string;
+  items: Array<{ productId: { _id: string; name: string }; quantity: number; price: number }>;
+  editHistory?: OrderEdit[];
+}
+
+interface OrderableProduct {
+  _id: string;
+  name: string;
+  price: number;
+  priceTiers?: PriceTier[];
+}
+
+interface EditLine {
+  productId: string;
+  name: string;
+  quantity: string;
+  price: number;
+  priceTiers?: PriceTier[];
+}
+
+interface EditOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: EditableOrder | null;
+  token?: string;
+  productsUrl: string; // Products the order's customer can buy, for adding lines
+  onSaved?: () => void;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const describeChange = (change: OrderEdit['changes'][number]) => {
+  if (change.fromQuantity === 0) return `${change.productName} added (${change.toQuantity})`;
+  if (change.toQuantity === 0) return `${change.productName} removed`;
+  if (change.fromQuantity !== change.toQuantity) return `${change.productName} ${change.fromQuantity} → ${change.toQuantity}`;
+  return `${change.productName} re-priced ${formatAmount(change.fromPrice || 0)} → ${formatAmount(change.toPrice || 0)}`;
+};
+
+// Change the quantities and lines of an order that hasn't been requested from admin yet.
+// The server re-prices every line when the edit is saved.
+const EditOrderDialog = ({ open, onOpenChange, order, token, productsUrl, onSaved }: EditOrderDialogProps) => {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<EditLine[]>([]);
+  const [products, setProducts] = useState<OrderableProduct[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadProducts = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      setProducts(await cachedFetch<OrderableProduct[]>(productsUrl, token));
+    } catch (error) {
+      console.error('Load products error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!open || !order) return;
+    setLines(
+      order.items.map((item) => ({
+        productId: item.productId._id,
+        name: item.productId.name,
+        quantity: item.quantity.toString(),
+        price: item.price,
+      }))
+    );
+    loadProducts();
+  }, [open, order?._id]);
+
+  const updateQuantity = (productId: string, quantity: string) =>
+    setLines((prev) => prev.map((line) => (line.productId === productId ? { ...line, quantity } : line)));
+
+  const addProduct = (productId: string) => {
+    const product = products.find((p) => p._id === productId);
+    if (!product) return;
+    setLines((prev) => [...prev, { productId: product._id, name: product.name, quantity: '1', price: product.price, priceTiers: product.priceTiers }]);
+  };
+
+  const estimatedSubtotal = lines.reduce(
+    (sum, line) => sum + getTierPrice(line, parseInt(line.quantity) || 0) * (parseInt(line.quantity) || 0),
+    0
+  );
+  const invalid = lines.length === 0 || lines.some((line) => !(parseInt(line.quantity) >= 1));
+  const addableProducts = products.filter((product) => !lines.some((line) => line.productId === product._id));
+
+  const handleSave = async () => {
+    if (!token || !order) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/orders/${order._id}/items`), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          items: lines.map((line) => ({ productId: line.productId, quantity: parseInt(line.quantity) })),
+        }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to update order');
+      }
+
+      const updated = await res.json();
+      toast({
+        title: 'Order updated',
+        description: `New total: ${formatAmount(updated.totalAmount)}`,
+        variant: 'success',
+      });
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Edit order error:', error);
+      toast({
+        title: 'Failed to update order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Order{order ? ` #${order.orderNumber}` : ''}</DialogTitle>
+          <DialogDescription>
+            Change quantities, add or remove products. Prices are re-checked when you save.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          {lines.map((line) => (
+            <div key={line.productId} className="flex items-center gap-2">
+              <div className="flex-1 text-sm">
+                <p className="font-medium">{line.name}</p>
+                <p className="text-xs text-muted-foreground">{formatAmount(line.price)} each</p>
+              </div>
+              <Input
+                type="number"
+                min="1"
+                value={line.quantity}
+                onChange={(e) => updateQuantity(line.productId, e.target.value)}
+                className="w-24"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => setLines((prev) => prev.filter((l) => l.productId !== line.productId))}
+                disabled={lines.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {addableProducts.length > 0 && (
+            <Select value="" onValueChange={addProduct}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a product" />
+              </SelectTrigger>
+              <SelectContent>
+                {addableProducts.map((product) => (
+                  <SelectItem key={product._id} value={product._id}>
+                    {product.name} · {formatAmount(product.price)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <p className="text-sm text-right">
+            Estimated subtotal: <span className="font-bold">{formatAmount(estimatedSubtotal)}</span>
+            <span className="block text-xs text-muted-foreground">Excluding GST</span>
+          </p>
+          {order?.editHistory && order.editHistory.length > 0 && (
+            <div className="pt-2 border-t space-y-2">
+              <p className="text-sm font-medium">Previous edits</p>
+              {order.editHistory.map((edit, idx) => (
+                <div key={idx} className="text-xs text-muted-foreground">
+                  <p>
+                    {new Date(edit.at).toLocaleString('en-IN')} · {edit.actorName || edit.actorRole} ({edit.actorRole})
+                  </p>
+                  <p>
+                    {edit.changes.map(describeChange).join('; ')} · {formatAmount(edit.fromTotal)} → {formatAmount(edit.toTotal)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || invalid}>
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Changes'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditOrderDialog;
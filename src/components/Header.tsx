@@ -78,10 +78,10 @@ const Header = () => {
 
           count = (pendingSettings?.length || 0) + (pendingProducts?.length || 0);
         } else {
-          // Regular admin: order notifications only
+          // Regular admin: open purchase orders only
           const { cachedFetch } = await import('@/lib/cached-fetch');
-          const notifications = await cachedFetch<any[]>('/api/admin/order-notifications', user.token, { skipCache: true });
-          count = notifications?.length || 0;
+          const purchaseOrders = await cachedFetch<unknown[]>('/api/purchase-orders?open=true', user.token, { skipCache: true });
+          count = purchaseOrders?.length || 0;
         }
 
         setNotificationCount(count);
@@ -259,9 +259,9 @@ const Header = () => {
                       >
                         <Bell className="h-4 w-4 text-muted-foreground" />
                         <div className="flex flex-col">
-                          <span className="font-medium">Order Notifications</span>
+                          <span className="font-medium">Purchase Orders</span>
                           <span className="text-xs text-muted-foreground">
-                            {notificationCount > 0 ? `${notificationCount} new order(s)` : 'No new orders'}
+                            {notificationCount > 0 ? `${notificationCount} open purchase order(s)` : 'No open purchase orders'}
                           </span>
                         </div>
                       </DropdownMenuItem>
@@ -0,0 +1,25 @@
+import { OrderDiscount } from '@/lib/promotions';
+import { Tag } from 'lucide-react';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// The promotions applied to an order, one line each
+const OrderDiscountLines = ({ discounts, className }: { discounts?: OrderDiscount[]; className?: string }) => {
+  if (!discounts || discounts.length === 0) return null;
+  return (
+    <div className={`space-y-1 ${className || ''}`}>
+      {discounts.map((discount) => (
+        <div key={discount.promotionId} className="flex items-center justify-between gap-4 text-sm text-green-600 dark:text-green-400">
+          <span className="flex items-center gap-1">
+            <Tag className="h-3 w-3" />
+            {discount.name}
+            {discount.code && <span className="font-mono text-xs">({discount.code})</span>}
+          </span>
+          <span>- {formatAmount(discount.amount)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrderDiscountLines;
@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { buildCartFromLines, CartItem } from '@/lib/customer-cart';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2 } from 'lucide-react';
+
+interface OrderTemplate {
+  _id: string;
+  name: string;
+  items: Array<{ productId: { _id: string; name: string } | null; quantity: number }>;
+  updatedAt: string;
+}
+
+interface OrderTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  token?: string;
+  cart: CartItem[];
+  onLoad: (cart: CartItem[]) => void;
+}
+
+// Saved order templates: load one into the cart, or save the current cart as a template
+const OrderTemplatesDialog = ({ open, onOpenChange, token, cart, onLoad }: OrderTemplatesDialogProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<OrderTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    if (!token) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      setTemplates(await cachedFetch<OrderTemplate[]>('/api/customer/order-templates', token, { skipCache: true }));
+    } catch (error) {
+      console.error('Load templates error:', error);
+      toast({
+        title: 'Failed to load templates',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    loadTemplates();
+  }, [open]);
+
+  const cartLines = cart.map((item) => ({ productId: item.productId, quantity: item.quantity }));
+
+  // Save the cart as a new template, or replace the lines of an existing one
+  const handleSave = async (templateId?: string) => {
+    if (!token) return;
+    try {
+      setBusyId(templateId || 'new');
+      const res = await fetch(getApiUrl(`/api/customer/order-templates${templateId ? `/${templateId}` : ''}`), {
+        method: templateId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(templateId ? { items: cartLines } : { name, items: cartLines }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to save template');
+      }
+
+      toast({
+        title: templateId ? 'Template updated' : 'Template saved',
+        variant: 'success',
+      });
+
+      setName('');
+      await loadTemplates();
+    } catch (error) {
+      console.error('Save template error:', error);
+      toast({
+        title: 'Failed to save template',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    if (!token) return;
+    try {
+      setBusyId(templateId);
+      const res = await fetch(getApiUrl(`/api/customer/order-templates/${templateId}`), {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to delete template');
+      }
+
+      setTemplates((prev) => prev.filter((template) => template._id !== templateId));
+    } catch (error) {
+      console.error('Delete template error:', error);
+      toast({
+        title: 'Failed to delete template',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLoad = async (template: OrderTemplate) => {
+    if (!token) return;
+    try {
+      setBusyId(template._id);
+      const { cart: loaded, skipped } = await buildCartFromLines(
+        template.items
+          .filter((item) => item.productId)
+          .map((item) => ({ productId: item.productId!._id, productName: item.productId!.name, quantity: item.quantity })),
+        token
+      );
+      if (loaded.length === 0) {
+        throw new Error('None of the products in this template are available right now.');
+      }
+
+      onLoad(loaded);
+      toast({
+        title: `Loaded "${template.name}"`,
+        description: skipped.length > 0 ? `Not available: ${skipped.join(', ')}` : undefined,
+        variant: 'success',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Load template error:', error);
+      toast({
+        title: 'Failed to load template',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order Templates</DialogTitle>
+          <DialogDescription>
+            Loading a template replaces your cart. Prices are always today's prices.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No templates saved yet.</p>
+          ) : (
+            templates.map((template) => (
+              <div key={template._id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {template.items
+                        .map((item) => `${item.productId?.name || 'Unavailable product'} × ${item.quantity}`)
+                        .join(', ')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => handleDelete(template._id)}
+                    disabled={busyId === template._id}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleLoad(template)} disabled={busyId === template._id}>
+                    {busyId === template._id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load into Cart
+                  </Button>
+                  {cart.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(template._id)}
+                      disabled={busyId === template._id}
+                    >
+                      Replace with Cart
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+          {cart.length > 0 && (
+            <div className="pt-3 border-t space-y-2">
+              <Label htmlFor="templateName">Save current cart as a template</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="templateName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Weekly restock"
+                />
+                <Button onClick={() => handleSave()} disabled={!name.trim() || busyId === 'new'}>
+                  {busyId === 'new' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderTemplatesDialog;
@@ -0,0 +1,65 @@
+import { CheckCircle, Circle, XCircle } from 'lucide-react';
+
+export interface OrderStatusEvent {
+  action: string;
+  from: string;
+  to: string;
+  actorName?: string;
+  actorRole: string;
+  note?: string;
+  at: string;
+}
+
+interface OrderTimelineProps {
+  history?: OrderStatusEvent[];
+}
+
+const actionLabels: Record<string, string> = {
+  place: 'Order placed',
+  'mark-for-today': "Added to today's delivery run",
+  'send-to-admin': 'Requested from admin',
+  'admin-acknowledge': 'Acknowledged by admin',
+  'admin-decline': 'Request declined by admin',
+  reschedule: 'Delivery date changed',
+  edit: 'Order edited',
+  'mark-stocked': 'Out for delivery',
+  receive: 'Delivered',
+  'approve-credit': 'Credit approved',
+  cancel: 'Cancelled',
+};
+
+const OrderTimeline = ({ history }: OrderTimelineProps) => {
+  if (!history || history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status history recorded.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {history.map((event, idx) => {
+        const isLast = idx === history.length - 1;
+        const Icon = event.to === 'cancelled' ? XCircle : isLast ? CheckCircle : Circle;
+        return (
+          <li key={`${event.action}-${event.at}-${idx}`} className="flex items-start gap-3">
+            <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${event.to === 'cancelled' ? 'text-destructive' : 'text-primary'}`} />
+            <div className="min-w-0">
+              <p className="text-sm font-medium">
+                {actionLabels[event.action] || event.action}
+                {event.from !== event.to && (
+                  <span className="text-muted-foreground font-normal"> · {event.from} → {event.to}</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(event.at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                {' · '}
+                {event.actorName ? `${event.actorName} (${event.actorRole})` : event.actorRole}
+              </p>
+              {event.note && <p className="text-xs text-muted-foreground mt-1">{event.note}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
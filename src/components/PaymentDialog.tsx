@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+export interface PaymentRecord {
+  _id: string;
+  amount: number;
+  method: 'cash' | 'upi' | 'cheque' | 'bank-transfer';
+  reference?: string;
+  paidAt: string;
+  note?: string;
+  status: 'pending' | 'confirmed' | 'rejected';
+  recordedBy?: { name: string };
+  recordedByRole: string;
+  rejectionReason?: string;
+}
+
+interface PaymentDialogOrder {
+  _id: string;
+  orderNumber: string;
+  totalAmount: number;
+  amountPaid?: number;
+  creditedAmount?: number; // Credit notes from approved returns
+}
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: PaymentDialogOrder | null;
+  token?: string;
+  // Customers record payments for confirmation; distributors' entries are confirmed immediately
+  confirmsImmediately?: boolean;
+  onRecorded?: () => void;
+}
+
+const paymentMethodLabels: Record<PaymentRecord['method'], string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  'bank-transfer': 'Bank Transfer',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const PaymentDialog = ({ open, onOpenChange, order, token, confirmsImmediately = false, onRecorded }: PaymentDialogProps) => {
+  const { toast } = useToast();
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [loadingPayments, setLoadingPayments] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentRecord['method']>('cash');
+  const [reference, setReference] = useState('');
+  const [paidAt, setPaidAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadPayments = async () => {
+    if (!token || !order) return;
+    try {
+      setLoadingPayments(true);
+      const res = await fetch(getApiUrl(`/api/orders/${order._id}/payments`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to load payments');
+      }
+      setPayments(await res.json());
+    } catch (error) {
+      console.error('Load payments error:', error);
+      toast({
+        title: 'Failed to load payments',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingPayments(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open || !order) return;
+    setAmount('');
+    setMethod('cash');
+    setReference('');
+    setPaidAt(new Date().toISOString().split('T')[0]);
+    loadPayments();
+  }, [open, order?._id]);
+
+  const recordedTotal = payments
+    .filter((p) => p.status !== 'rejected')
+    .reduce((sum, p) => sum + p.amount, 0);
+  const outstanding = order ? Math.max(order.totalAmount - (order.creditedAmount || 0) - recordedTotal, 0) : 0;
+
+  const handleRecordPayment = async () => {
+    if (!token || !order) return;
+    const numericAmount = parseFloat(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      toast({
+        title: 'Invalid amount',
+        description: 'Please enter a valid payment amount.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/orders/${order._id}/payments`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ amount: numericAmount, method, reference, paidAt }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to record payment');
+      }
+
+      toast({
+        title: 'Payment recorded',
+        description: confirmsImmediately
+          ? `${formatAmount(numericAmount)} has been recorded.`
+          : `${formatAmount(numericAmount)} has been sent to your distributor for confirmation.`,
+        variant: 'success',
+      });
+
+      setAmount('');
+      setReference('');
+      await loadPayments();
+      onRecorded?.();
+    } catch (error) {
+      console.error('Record payment error:', error);
+      toast({
+        title: 'Failed to record payment',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Payments{order ? ` for Order #${order.orderNumber}` : ''}</DialogTitle>
+          <DialogDescription>
+            {confirmsImmediately
+              ? 'Payments you record are confirmed immediately and update the revenue calculation.'
+              : 'Record each payment you make. Your distributor confirms it before it counts as paid.'}
+          </DialogDescription>
+        </DialogHeader>
+        {order && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Order Total</p>
+                <p className="font-semibold">{formatAmount(order.totalAmount)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Confirmed</p>
+                <p className="font-semibold text-primary">{formatAmount(order.amountPaid || 0)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Outstanding</p>
+                <p className="font-semibold">{formatAmount(outstanding)}</p>
+              </div>
+            </div>
+            {!!order.creditedAmount && (
+              <p className="text-xs text-muted-foreground">
+                Includes {formatAmount(order.creditedAmount)} credited for returned goods.
+              </p>
+            )}
+
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {loadingPayments ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              ) : payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+              ) : (
+                payments.map((payment) => (
+                  <div key={payment._id} className="flex items-start justify-between p-2 border rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {formatAmount(payment.amount)} · {paymentMethodLabels[payment.method]}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(payment.paidAt).toLocaleDateString('en-IN')}
+                        {payment.reference ? ` · Ref ${payment.reference}` : ''}
+                        {payment.recordedBy ? ` · by ${payment.recordedBy.name}` : ''}
+                      </p>
+                      {payment.rejectionReason && (
+                        <p className="text-xs text-destructive">Rejected: {payment.rejectionReason}</p>
+                      )}
+                    </div>
+                    <Badge
+                      variant={
+                        payment.status === 'confirmed' ? 'default' : payment.status === 'rejected' ? 'destructive' : 'secondary'
+                      }
+                    >
+                      {payment.status}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {outstanding > 0 && (
+              <div className="space-y-3 pt-2 border-t">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="paymentAmount">Amount (₹)</Label>
+                    <Input
+                      id="paymentAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={outstanding}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder={outstanding.toFixed(2)}
+                    />
+                  </div>
+                  <div>
+                    <Label>Method</Label>
+                    <Select value={method} onValueChange={(value) => setMethod(value as PaymentRecord['method'])}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="paymentReference">Reference{method === 'cash' ? ' (optional)' : ''}</Label>
+                    <Input
+                      id="paymentReference"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                      placeholder={method === 'cheque' ? 'Cheque no.' : method === 'upi' ? 'UPI txn id' : 'Reference'}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="paymentDate">Payment Date</Label>
+                    <Input
+                      id="paymentDate"
+                      type="date"
+                      value={paidAt}
+                      onChange={(e) => setPaidAt(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {outstanding > 0 && (
+            <Button onClick={handleRecordPayment} disabled={saving || !amount || (method !== 'cash' && !reference.trim())}>
+              {saving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Recording...
+                </>
+              ) : (
+                'Record Payment'
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, DollarSign, Loader2, XCircle } from 'lucide-react';
+
+interface PendingPayment {
+  _id: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  paidAt: string;
+  orderId: { _id: string; orderNumber: string; totalAmount: number; amountPaid?: number };
+  customerId: { name: string; email: string };
+}
+
+interface PendingPaymentsCardProps {
+  token?: string;
+  onChange?: () => void;
+}
+
+// Customer-recorded payments waiting for the distributor to confirm or reject them
+const PendingPaymentsCard = ({ token, onChange }: PendingPaymentsCardProps) => {
+  const { toast } = useToast();
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const loadPayments = async () => {
+    if (!token) return;
+    try {
+      const res = await fetch(getApiUrl('/api/distributor/payments/pending'), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error('Failed to load pending payments');
+      setPayments(await res.json());
+    } catch (error) {
+      console.error('Load pending payments error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPayments();
+  }, [token]);
+
+  const handleDecision = async (paymentId: string, decision: 'confirm' | 'reject') => {
+    if (!token) return;
+    try {
+      setBusyId(paymentId);
+      const res = await fetch(getApiUrl(`/api/payments/${paymentId}/${decision}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(decision === 'reject' ? { reason: rejectReason } : {}),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${decision} payment`);
+      }
+
+      toast({
+        title: decision === 'confirm' ? 'Payment confirmed' : 'Payment rejected',
+        variant: 'success',
+      });
+
+      setRejectingId(null);
+      setRejectReason('');
+      await loadPayments();
+      onChange?.();
+    } catch (error) {
+      console.error('Payment decision error:', error);
+      toast({
+        title: `Failed to ${decision} payment`,
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (payments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <DollarSign className="h-5 w-5" />
+          Payments to Confirm ({payments.length})
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Payments recorded by customers only count once you confirm them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {payments.map((payment) => (
+          <div key={payment._id} className="p-3 border border-black/10 dark:border-white/10 rounded-lg space-y-2">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+              <div className="text-sm">
+                <p className="font-bold">
+                  ₹{payment.amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })} · {payment.method}
+                  {payment.reference ? ` · Ref ${payment.reference}` : ''}
+                </p>
+                <p className="text-muted-foreground">
+                  Order #{payment.orderId.orderNumber} · {payment.customerId.name} · paid{' '}
+                  {new Date(payment.paidAt).toLocaleDateString('en-IN')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleDecision(payment._id, 'confirm')}
+                  disabled={busyId === payment._id}
+                >
+                  {busyId === payment._id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                  )}
+                  Confirm
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => {
+                    setRejectingId(rejectingId === payment._id ? null : payment._id);
+                    setRejectReason('');
+                  }}
+                  disabled={busyId === payment._id}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+            {rejectingId === payment._id && (
+              <div className="flex gap-2">
+                <Input
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Reason for rejecting this payment"
+                />
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDecision(payment._id, 'reject')}
+                  disabled={!rejectReason.trim() || busyId === payment._id}
+                >
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingPaymentsCard;
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Loader2, RotateCcw, XCircle } from 'lucide-react';
+
+interface PendingReturn {
+  _id: string;
+  items: Array<{ productId: { _id: string; name: string }; quantity: number }>;
+  reason: 'damaged' | 'expired' | 'wrong-item' | 'other';
+  note?: string;
+  createdAt: string;
+  orderId: { _id: string; orderNumber: string };
+  customerId: { name: string; email: string };
+}
+
+interface PendingReturnsCardProps {
+  token?: string;
+  onChange?: () => void;
+}
+
+const returnReasonLabels: Record<PendingReturn['reason'], string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  'wrong-item': 'Wrong item',
+  other: 'Other',
+};
+
+// Customer return requests waiting for the distributor to approve (issuing a credit note) or reject
+const PendingReturnsCard = ({ token, onChange }: PendingReturnsCardProps) => {
+  const { toast } = useToast();
+  const [returns, setReturns] = useState<PendingReturn[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const loadReturns = async () => {
+    if (!token) return;
+    try {
+      const res = await fetch(getApiUrl('/api/distributor/returns/pending'), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error('Failed to load pending returns');
+      setReturns(await res.json());
+    } catch (error) {
+      console.error('Load pending returns error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadReturns();
+  }, [token]);
+
+  const handleDecision = async (returnId: string, decision: 'approve' | 'reject') => {
+    if (!token) return;
+    try {
+      setBusyId(returnId);
+      const res = await fetch(getApiUrl(`/api/returns/${returnId}/${decision}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(decision === 'reject' ? { reason: rejectReason } : {}),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${decision} return`);
+      }
+
+      const data = await res.json();
+      toast({
+        title: decision === 'approve' ? 'Return approved' : 'Return rejected',
+        description: data.creditNote ? `Credit note ${data.creditNote.creditNoteNumber} issued.` : undefined,
+        variant: 'success',
+      });
+
+      setRejectingId(null);
+      setRejectReason('');
+      await loadReturns();
+      onChange?.();
+    } catch (error) {
+      console.error('Return decision error:', error);
+      toast({
+        title: `Failed to ${decision} return`,
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (returns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <RotateCcw className="h-5 w-5" />
+          Returns to Review ({returns.length})
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Approving a return puts the goods back in stock and credits the customer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {returns.map((request) => (
+          <div key={request._id} className="p-3 border border-black/10 dark:border-white/10 rounded-lg space-y-2">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+              <div className="text-sm">
+                <p className="font-bold">
+                  {request.items.map((item) => `${item.productId.name} × ${item.quantity}`).join(', ')}
+                </p>
+                <p className="text-muted-foreground">
+                  Order #{request.orderId.orderNumber} · {request.customerId.name} ·{' '}
+                  {returnReasonLabels[request.reason]} · requested{' '}
+                  {new Date(request.createdAt).toLocaleDateString('en-IN')}
+                </p>
+                {request.note && <p className="text-muted-foreground italic">"{request.note}"</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleDecision(request._id, 'approve')}
+                  disabled={busyId === request._id}
+                >
+                  {busyId === request._id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                  )}
+                  Approve
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => {
+                    setRejectingId(rejectingId === request._id ? null : request._id);
+                    setRejectReason('');
+                  }}
+                  disabled={busyId === request._id}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+            {rejectingId === request._id && (
+              <div className="flex gap-2">
+                <Input
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Reason for rejecting this return"
+                />
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDecision(request._id, 'reject')}
+                  disabled={!rejectReason.trim() || busyId === request._id}
+                >
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingReturnsCard;
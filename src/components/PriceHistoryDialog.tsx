@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { describePriceTiers } from '@/lib/price-tiers';
+import { PriceVersion, PriceVersionState, getNextScheduledPrice, getPriceVersionStates } from '@/lib/price-versions';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, X } from 'lucide-react';
+
+interface PriceHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  versions: PriceVersion[];
+  standingPrice?: number; // Applies when no version does, e.g. prices set before history was kept
+  onCancelVersion?: (versionId: string) => Promise<void>; // Offered for changes that haven't started
+}
+
+const stateLabels: Record<PriceVersionState, string> = {
+  current: 'Current',
+  scheduled: 'Scheduled',
+  ended: 'Ended',
+  replaced: 'Replaced',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// validTo is exclusive, so the last day a price applies is the day before it
+const formatLastDay = (validTo: string) => formatDate(new Date(new Date(validTo).getTime() - 1).toISOString());
+
+// One line about the next scheduled price change, shown under a price
+export const NextPriceNote = ({ versions }: { versions: PriceVersion[] }) => {
+  const next = getNextScheduledPrice(versions);
+  if (!next) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      {formatAmount(next.price)} from {formatDate(next.validFrom)}
+    </p>
+  );
+};
+
+// Every price an entry has had or is scheduled to have, newest first
+const PriceHistoryDialog = ({ open, onOpenChange, title, versions, standingPrice, onCancelVersion }: PriceHistoryDialogProps) => {
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const states = getPriceVersionStates(versions);
+  const sorted = [...versions].sort((a, b) => b.validFrom.localeCompare(a.validFrom));
+  const hasCurrent = [...states.values()].includes('current');
+
+  const handleCancel = async (versionId: string) => {
+    if (!onCancelVersion) return;
+    try {
+      setCancellingId(versionId);
+      await onCancelVersion(versionId);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price History - {title}</DialogTitle>
+          <DialogDescription>
+            Orders are priced at the price that applies when they are placed. Where dated prices overlap, the one that
+            started last applies.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hasCurrent && standingPrice !== undefined && (
+          <p className="text-sm">
+            Current price: <span className="font-semibold">{formatAmount(standingPrice)}</span>
+            <span className="text-muted-foreground"> (set before price history was kept)</span>
+          </p>
+        )}
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No price changes recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Volume prices</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Until</TableHead>
+                <TableHead>Set by</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((version) => {
+                const state = states.get(version._id)!;
+                return (
+                  <TableRow key={version._id} className="text-sm">
+                    <TableCell className="text-right font-medium">{formatAmount(version.price)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {describePriceTiers({ price: version.price, priceTiers: version.tiers }) || '-'}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(version.validFrom)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {version.validTo ? formatLastDay(version.validTo) : <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{version.setByName || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Badge variant={state === 'current' ? 'default' : state === 'scheduled' ? 'secondary' : 'outline'}>
+                          {stateLabels[state]}
+                        </Badge>
+                        {state === 'scheduled' && onCancelVersion && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleCancel(version._id)}
+                            disabled={cancellingId === version._id}
+                            title="Cancel this price change"
+                          >
+                            {cancellingId === version._id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <X className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceHistoryDialog;
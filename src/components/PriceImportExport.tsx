@@ -0,0 +1,290 @@
+import { useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile, getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, Upload } from 'lucide-react';
+
+interface PriceTier {
+  minQuantity: number;
+  price: number;
+}
+
+interface PriceImportChange {
+  row: number;
+  targetId: string;
+  targetName: string;
+  productId: string;
+  productName: string;
+  oldPrice: number | null;
+  newPrice: number;
+  tiers: PriceTier[];
+  droppedTiers: PriceTier[];
+}
+
+interface PriceImportResult {
+  creates: PriceImportChange[];
+  updates: PriceImportChange[];
+  invalid: Array<{ row: number; column?: string; message: string }>;
+  unchanged: number;
+  applied: boolean;
+}
+
+// Rows listed in the preview; the counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// Read a file as base64, as the import endpoint takes it
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+interface PriceImportExportProps {
+  onImported: () => void;
+}
+
+// Export the current price matrix as CSV or XLSX, and import an edited one: the file is checked
+// first and its changes shown, and only applied once confirmed
+const PriceImportExport = ({ onImported }: PriceImportExportProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [content, setContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<PriceImportResult | null>(null);
+
+  const postImport = async (fileContent: string, dryRun: boolean) => {
+    const res = await fetch(getApiUrl('/api/pricing/import'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${user?.token}`,
+      },
+      body: JSON.stringify({ content: fileContent, dryRun }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.message || 'Failed to import prices');
+    }
+    return data as PriceImportResult;
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    if (!user?.token) return;
+    try {
+      setExporting(true);
+      await downloadFile(`/api/pricing/export?format=${format}`, user.token, `prices.${format}`);
+    } catch (error) {
+      console.error('Export prices error:', error);
+      toast({
+        title: 'Failed to export prices',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again after editing it
+    if (!file) return;
+
+    try {
+      setChecking(true);
+      const fileContent = await readAsBase64(file);
+      const result = await postImport(fileContent, true);
+      setContent(fileContent);
+      setFileName(file.name);
+      setPreview(result);
+    } catch (error) {
+      console.error('Check price import error:', error);
+      toast({
+        title: 'Failed to read prices',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!content) return;
+    try {
+      setApplying(true);
+      const result = await postImport(content, false);
+      toast({
+        title: 'Prices imported',
+        description: `${result.creates.length} added and ${result.updates.length} changed.`,
+        variant: 'success',
+      });
+      setPreview(null);
+      setContent(null);
+      onImported();
+    } catch (error) {
+      console.error('Apply price import error:', error);
+      toast({
+        title: 'Failed to import prices',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const changes = preview
+    ? [
+        ...preview.creates.map((change) => ({ ...change, isNew: true })),
+        ...preview.updates.map((change) => ({ ...change, isNew: false })),
+      ].sort((a, b) => a.row - b.row)
+    : [];
+  const changeCount = changes.length;
+
+  return (
+    <div className="flex gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={exporting}>
+            {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={checking}>
+        {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && !applying && setPreview(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Import Prices</DialogTitle>
+            <DialogDescription>
+              Changes found in {fileName}. Nothing is saved until you apply them; blank cells keep their current price.
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/30">
+                {preview.creates.length} new
+              </Badge>
+              <Badge variant="outline" className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/30">
+                {preview.updates.length} changed
+              </Badge>
+              <Badge variant="outline" className={preview.invalid.length > 0 ? 'bg-destructive/10 text-destructive border-destructive/30' : ''}>
+                {preview.invalid.length} invalid
+              </Badge>
+              <Badge variant="secondary">{preview.unchanged} unchanged</Badge>
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+            {changeCount > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>For</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">New</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.slice(0, PREVIEW_LIMIT).map((change) => (
+                    <TableRow key={`${change.targetId}-${change.productId}`}>
+                      <TableCell className="text-muted-foreground">{change.row}</TableCell>
+                      <TableCell>{change.targetName}</TableCell>
+                      <TableCell>
+                        {change.productName}
+                        {change.tiers.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Keeps {change.tiers.length} volume price{change.tiers.length === 1 ? '' : 's'}
+                          </p>
+                        )}
+                        {change.droppedTiers.length > 0 && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400">
+                            Removes{' '}
+                            {change.droppedTiers
+                              .map((tier) => `${formatAmount(tier.price)} from ${tier.minQuantity} units`)
+                              .join(', ')}
+                            , no cheaper than the new price
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {change.oldPrice === null ? '—' : formatAmount(change.oldPrice)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatAmount(change.newPrice)}
+                        {change.isNew && <span className="ml-1 text-xs text-green-600 dark:text-green-400">new</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {changeCount > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">…and {changeCount - PREVIEW_LIMIT} more changes.</p>
+            )}
+            {changeCount === 0 && <p className="text-sm text-muted-foreground">No price changes found in this file.</p>}
+
+            {preview && preview.invalid.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Invalid rows (skipped)</p>
+                <ul className="space-y-1 text-sm text-destructive">
+                  {preview.invalid.slice(0, PREVIEW_LIMIT).map((problem, i) => (
+                    <li key={i}>
+                      Row {problem.row}
+                      {problem.column && `, ${problem.column}`}: {problem.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={applying}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={applying || changeCount === 0}>
+              {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply {changeCount} Change{changeCount === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PriceImportExport;
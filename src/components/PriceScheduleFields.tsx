@@ -0,0 +1,42 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface PriceScheduleFieldsProps {
+  idPrefix: string;
+  firstDay: string; // "YYYY-MM-DD", empty to apply the price now
+  lastDay: string; // "YYYY-MM-DD", empty for no end
+  onChange: (schedule: { firstDay: string; lastDay: string }) => void;
+}
+
+// Optional dates for a price change. Left empty, the new price applies from now on.
+const PriceScheduleFields = ({ idPrefix, firstDay, lastDay, onChange }: PriceScheduleFieldsProps) => (
+  <div className="space-y-1">
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}-from`}>Effective from</Label>
+        <Input
+          id={`${idPrefix}-from`}
+          type="date"
+          value={firstDay}
+          onChange={(e) => onChange({ firstDay: e.target.value, lastDay })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-to`}>Until (last day)</Label>
+        <Input
+          id={`${idPrefix}-to`}
+          type="date"
+          value={lastDay}
+          min={firstDay || undefined}
+          onChange={(e) => onChange({ firstDay, lastDay: e.target.value })}
+        />
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Leave both empty to change the price now. Dated prices apply only between their dates and are kept in the
+      price history.
+    </p>
+  </div>
+);
+
+export default PriceScheduleFields;
@@ -0,0 +1,84 @@
+import { PriceTier, PriceTierRow, describePriceTiers } from '@/lib/price-tiers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface PriceTiersFieldProps {
+  idPrefix: string;
+  rows: PriceTierRow[];
+  onChange: (rows: PriceTierRow[]) => void;
+}
+
+// One line with a price's volume tiers, shown under the price
+export const PriceTiersNote = ({ price, tiers }: { price: number; tiers?: PriceTier[] }) => {
+  const description = describePriceTiers({ price, priceTiers: tiers });
+  if (!description) return null;
+  return <p className="text-xs text-muted-foreground">{description}</p>;
+};
+
+// Volume prices that go with the price above them, e.g. ₹45 per unit from 10 units up
+const PriceTiersField = ({ idPrefix, rows, onChange }: PriceTiersFieldProps) => {
+  const updateRow = (index: number, row: Partial<PriceTierRow>) =>
+    onChange(rows.map((existing, i) => (i === index ? { ...existing, ...row } : existing)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Volume prices</Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...rows, { minQuantity: '', price: '' }])}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Tier
+        </Button>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor={`${idPrefix}-tier-${index}-qty`} className="text-xs text-muted-foreground">
+              From quantity
+            </Label>
+            <Input
+              id={`${idPrefix}-tier-${index}-qty`}
+              type="number"
+              min="2"
+              step="1"
+              value={row.minQuantity}
+              onChange={(e) => updateRow(index, { minQuantity: e.target.value })}
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor={`${idPrefix}-tier-${index}-price`} className="text-xs text-muted-foreground">
+              Unit price (₹)
+            </Label>
+            <Input
+              id={`${idPrefix}-tier-${index}-price`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={row.price}
+              onChange={(e) => updateRow(index, { price: e.target.value })}
+              required
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-destructive"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            title="Remove tier"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Every unit on an order line costs the price of the highest tier its quantity reaches. Tiers change and are
+        scheduled together with the price.
+      </p>
+    </div>
+  );
+};
+
+export default PriceTiersField;
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardList } from 'lucide-react';
+
+type PurchaseOrderStatus = 'submitted' | 'acknowledged' | 'partially-fulfilled' | 'fulfilled' | 'rejected';
+
+interface PurchaseOrderSummary {
+  _id: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  lines: Array<{ productId: string; productName: string; quantity: number; fulfilledQuantity: number }>;
+  orderIds: Array<{ _id: string }>;
+  rejectionReason?: string;
+  createdAt: string;
+}
+
+interface PurchaseOrdersCardProps {
+  token?: string;
+  refreshKey?: unknown; // Reload whenever this changes, e.g. after orders are sent
+}
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  submitted: 'Submitted',
+  acknowledged: 'Acknowledged',
+  'partially-fulfilled': 'Partially fulfilled',
+  fulfilled: 'Fulfilled',
+  rejected: 'Rejected',
+};
+
+const RECENT_LIMIT = 10;
+
+// The distributor's recent purchase orders to their admin and where each one stands
+const PurchaseOrdersCard = ({ token, refreshKey }: PurchaseOrdersCardProps) => {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderSummary[]>([]);
+
+  const loadPurchaseOrders = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<PurchaseOrderSummary[]>('/api/purchase-orders', token, { skipCache: true });
+      setPurchaseOrders(data);
+    } catch (error) {
+      console.error('Load purchase orders error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPurchaseOrders();
+  }, [token, refreshKey]);
+
+  if (purchaseOrders.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <ClipboardList className="h-5 w-5" />
+          Purchase Orders
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Your recent requests to admin
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {purchaseOrders.slice(0, RECENT_LIMIT).map((purchaseOrder) => (
+          <div
+            key={purchaseOrder._id}
+            className="p-3 border border-black/10 dark:border-white/10 rounded-lg text-sm space-y-1"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium">{purchaseOrder.poNumber}</p>
+              <Badge variant={purchaseOrder.status === 'rejected' ? 'destructive' : 'outline'}>
+                {statusLabels[purchaseOrder.status]}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              {new Date(purchaseOrder.createdAt).toLocaleDateString('en-IN', { dateStyle: 'medium' })}
+              {' · '}
+              {purchaseOrder.orderIds.length} order(s)
+              {' · '}
+              {purchaseOrder.lines
+                .map((line) =>
+                  purchaseOrder.status === 'partially-fulfilled'
+                    ? `${line.productName} × ${Math.min(line.fulfilledQuantity, line.quantity)}/${line.quantity}`
+                    : `${line.productName} × ${line.quantity}`
+                )
+                .join(', ')}
+            </p>
+            {purchaseOrder.rejectionReason && (
+              <p className="text-destructive">Reason: {purchaseOrder.rejectionReason}</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PurchaseOrdersCard;
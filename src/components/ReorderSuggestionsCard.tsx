@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Send } from 'lucide-react';
+
+export interface RestockItem {
+  productId: string;
+  name: string;
+  quantity: number;
+}
+
+interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  quantity: number;
+  reorderPoint: number;
+  averageDailyDemand?: number;
+  suggestedQuantity: number;
+}
+
+interface ReorderSuggestionsCardProps {
+  token?: string;
+  refreshKey?: unknown; // Reload whenever this changes, e.g. after stock moves
+  onRequest: (items: RestockItem[]) => void;
+}
+
+// Products below their reorder point, with the quantities suggested by the reorder job
+const ReorderSuggestionsCard = ({ token, refreshKey, onRequest }: ReorderSuggestionsCardProps) => {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+
+  const loadSuggestions = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<ReorderSuggestion[]>('/api/distributor/reorder-suggestions', token, { skipCache: true });
+      setSuggestions(data);
+    } catch (error) {
+      console.error('Load reorder suggestions error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [token, refreshKey]);
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 font-bold">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Low Stock ({suggestions.length})
+            </CardTitle>
+            <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+              Suggested quantities cover your reorder point plus two weeks of recent demand
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() =>
+              onRequest(
+                suggestions.map((suggestion) => ({
+                  productId: suggestion.productId,
+                  name: suggestion.name,
+                  quantity: suggestion.suggestedQuantity,
+                }))
+              )
+            }
+          >
+            <Send className="mr-2 h-4 w-4" />
+            Request from Admin
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suggestions.map((suggestion) => (
+          <div
+            key={suggestion.productId}
+            className="flex items-center justify-between gap-2 p-3 border border-black/10 dark:border-white/10 rounded-lg text-sm"
+          >
+            <div>
+              <p className="font-medium">{suggestion.name}</p>
+              <p className="text-muted-foreground">
+                {suggestion.quantity} on hand · reorder at {suggestion.reorderPoint}
+                {!!suggestion.averageDailyDemand && ` · ~${suggestion.averageDailyDemand}/day`}
+              </p>
+            </div>
+            <p className="font-bold whitespace-nowrap">Order {suggestion.suggestedQuantity}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReorderSuggestionsCard;
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+type ReturnReason = 'damaged' | 'expired' | 'wrong-item' | 'other';
+
+interface ReturnRecord {
+  _id: string;
+  items: Array<{ productId: { _id: string; name: string }; quantity: number }>;
+  reason: ReturnReason;
+  note?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejectionReason?: string;
+  creditNoteId?: { creditNoteNumber: string; totalAmount: number };
+  createdAt: string;
+}
+
+interface ReturnDialogOrder {
+  _id: string;
+  orderNumber: string;
+  items: Array<{ productId: { _id: string; name: string }; quantity: number }>;
+}
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: ReturnDialogOrder | null;
+  token?: string;
+  onChange?: () => void;
+}
+
+const returnReasonLabels: Record<ReturnReason, string> = {
+  damaged: 'Damaged',
+  expired: 'Expired',
+  'wrong-item': 'Wrong item',
+  other: 'Other',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// Customer return requests for a delivered order, with a form to request a new one
+const ReturnRequestDialog = ({ open, onOpenChange, order, token, onChange }: ReturnRequestDialogProps) => {
+  const { toast } = useToast();
+  const [returns, setReturns] = useState<ReturnRecord[]>([]);
+  const [loadingReturns, setLoadingReturns] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState<ReturnReason>('damaged');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadReturns = async () => {
+    if (!token || !order) return;
+    try {
+      setLoadingReturns(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<ReturnRecord[]>(`/api/orders/${order._id}/returns`, token, { skipCache: true });
+      setReturns(data);
+    } catch (error) {
+      console.error('Load returns error:', error);
+      toast({
+        title: 'Failed to load returns',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingReturns(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open || !order) return;
+    setQuantities({});
+    setReason('damaged');
+    setNote('');
+    loadReturns();
+  }, [open, order?._id]);
+
+  // Pending and approved returns use up the returnable quantity of a line
+  const getReturnable = (productId: string, quantity: number) =>
+    quantity -
+    returns
+      .filter((r) => r.status !== 'rejected')
+      .flatMap((r) => r.items)
+      .filter((item) => item.productId._id === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const selectedItems = Object.entries(quantities)
+    .map(([productId, value]) => ({ productId, quantity: parseInt(value) || 0 }))
+    .filter((item) => item.quantity > 0);
+
+  const handleRequestReturn = async () => {
+    if (!token || !order) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/orders/${order._id}/returns`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ items: selectedItems, reason, note }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to request return');
+      }
+
+      toast({
+        title: 'Return requested',
+        description: 'Your distributor will review it shortly.',
+        variant: 'success',
+      });
+
+      setQuantities({});
+      setNote('');
+      await loadReturns();
+      onChange?.();
+    } catch (error) {
+      console.error('Request return error:', error);
+      toast({
+        title: 'Failed to request return',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasReturnable = !!order?.items.some((item) => getReturnable(item.productId._id, item.quantity) > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Returns{order ? ` for Order #${order.orderNumber}` : ''}</DialogTitle>
+          <DialogDescription>
+            Send back damaged, expired or wrong goods. Approved returns are credited against your balance.
+          </DialogDescription>
+        </DialogHeader>
+        {order && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {loadingReturns ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              ) : returns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No returns requested yet.</p>
+              ) : (
+                returns.map((record) => (
+                  <div key={record._id} className="flex items-start justify-between p-2 border rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {record.items.map((item) => `${item.productId.name} × ${item.quantity}`).join(', ')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(record.createdAt).toLocaleDateString('en-IN')} · {returnReasonLabels[record.reason]}
+                        {record.note ? ` · ${record.note}` : ''}
+                      </p>
+                      {record.creditNoteId && (
+                        <p className="text-xs text-primary">
+                          Credit note {record.creditNoteId.creditNoteNumber} · {formatAmount(record.creditNoteId.totalAmount)}
+                        </p>
+                      )}
+                      {record.rejectionReason && (
+                        <p className="text-xs text-destructive">Rejected: {record.rejectionReason}</p>
+                      )}
+                    </div>
+                    <Badge
+                      variant={
+                        record.status === 'approved' ? 'default' : record.status === 'rejected' ? 'destructive' : 'secondary'
+                      }
+                    >
+                      {record.status}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {hasReturnable && (
+              <div className="space-y-3 pt-2 border-t">
+                {order.items.map((item) => {
+                  const returnable = getReturnable(item.productId._id, item.quantity);
+                  return (
+                    <div key={item.productId._id} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`return-${item.productId._id}`} className="flex-1">
+                        {item.productId.name}
+                        <span className="block text-xs text-muted-foreground font-normal">
+                          Up to {returnable} of {item.quantity}
+                        </span>
+                      </Label>
+                      <Input
+                        id={`return-${item.productId._id}`}
+                        type="number"
+                        min="0"
+                        max={returnable}
+                        value={quantities[item.productId._id] ?? ''}
+                        onChange={(e) => setQuantities((prev) => ({ ...prev, [item.productId._id]: e.target.value }))}
+                        disabled={returnable <= 0}
+                        placeholder="0"
+                        className="w-24"
+                      />
+                    </div>
+                  );
+                })}
+                <div>
+                  <Label>Reason</Label>
+                  <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(returnReasonLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="returnNote">Details{reason === 'other' ? '' : ' (optional)'}</Label>
+                  <Textarea
+                    id="returnNote"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What is wrong with the goods?"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {hasReturnable && (
+            <Button
+              onClick={handleRequestReturn}
+              disabled={saving || selectedItems.length === 0 || (reason === 'other' && !note.trim())}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Requesting...
+                </>
+              ) : (
+                'Request Return'
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
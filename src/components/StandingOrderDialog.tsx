@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { WEEKDAY_LABELS } from '@/lib/standing-orders';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2 } from 'lucide-react';
+
+export interface StandingOrder {
+  _id: string;
+  name: string;
+  items: Array<{ productId: { _id: string; name: string } | null; quantity: number }>;
+  frequency: 'weekly' | 'interval';
+  weekdays: number[];
+  intervalDays?: number;
+  startDate: string;
+  endDate?: string;
+  status: 'active' | 'paused';
+  lastError?: string;
+  nextDeliveryDates?: string[];
+}
+
+interface OrderableProduct {
+  _id: string;
+  name: string;
+  price: number;
+}
+
+interface StandingOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  standingOrder: StandingOrder | null; // null to set up a new one
+  token?: string;
+  onSaved?: () => void;
+}
+
+const toDateInput = (date?: string) => (date ? date.split('T')[0] : '');
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().split('T')[0];
+};
+
+// Set up or change a standing order: its products, delivery schedule and date range
+const StandingOrderDialog = ({ open, onOpenChange, standingOrder, token, onSaved }: StandingOrderDialogProps) => {
+  const { toast } = useToast();
+  const [products, setProducts] = useState<OrderableProduct[]>([]);
+  const [name, setName] = useState('');
+  const [lines, setLines] = useState<Array<{ productId: string; name: string; quantity: string }>>([]);
+  const [frequency, setFrequency] = useState<'weekly' | 'interval'>('weekly');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [intervalDays, setIntervalDays] = useState('7');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadProducts = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      setProducts(await cachedFetch<OrderableProduct[]>('/api/customer/products', token));
+    } catch (error) {
+      console.error('Load products error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setName(standingOrder?.name || '');
+    setLines(
+      (standingOrder?.items || [])
+        .filter((item) => item.productId)
+        .map((item) => ({ productId: item.productId!._id, name: item.productId!.name, quantity: item.quantity.toString() }))
+    );
+    setFrequency(standingOrder?.frequency || 'weekly');
+    setWeekdays(standingOrder?.weekdays || []);
+    setIntervalDays(standingOrder?.intervalDays?.toString() || '7');
+    setStartDate(toDateInput(standingOrder?.startDate) || tomorrow());
+    setEndDate(toDateInput(standingOrder?.endDate));
+    loadProducts();
+  }, [open, standingOrder?._id]);
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()));
+
+  const addProduct = (productId: string) => {
+    const product = products.find((p) => p._id === productId);
+    if (!product) return;
+    setLines((prev) => [...prev, { productId: product._id, name: product.name, quantity: '1' }]);
+  };
+
+  const addableProducts = products.filter((product) => !lines.some((line) => line.productId === product._id));
+  const invalid =
+    !name.trim() ||
+    lines.length === 0 ||
+    lines.some((line) => !(parseInt(line.quantity) >= 1)) ||
+    (frequency === 'weekly' ? weekdays.length === 0 : !(parseInt(intervalDays) >= 1)) ||
+    !startDate;
+
+  const handleSave = async () => {
+    if (!token) return;
+    try {
+      setSaving(true);
+      const res = await fetch(
+        getApiUrl(`/api/customer/standing-orders${standingOrder ? `/${standingOrder._id}` : ''}`),
+        {
+          method: standingOrder ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name,
+            items: lines.map((line) => ({ productId: line.productId, quantity: parseInt(line.quantity) })),
+            frequency,
+            weekdays,
+            intervalDays: parseInt(intervalDays),
+            startDate,
+            endDate: endDate || null,
+          }),
+        }
+      );
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to save standing order');
+      }
+
+      toast({
+        title: standingOrder ? 'Standing order updated' : 'Standing order created',
+        description: 'Orders are placed automatically shortly before each delivery.',
+        variant: 'success',
+      });
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Save standing order error:', error);
+      toast({
+        title: 'Failed to save standing order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{standingOrder ? 'Edit Standing Order' : 'New Standing Order'}</DialogTitle>
+          <DialogDescription>
+            The same order on a fixed schedule. Each delivery is ordered at your prices on the day it is placed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <Label htmlFor="standingName">Name</Label>
+            <Input
+              id="standingName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Twice-weekly dairy"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            {lines.map((line) => (
+              <div key={line.productId} className="flex items-center gap-2">
+                <p className="flex-1 text-sm font-medium">{line.name}</p>
+                <Input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) =>
+                    setLines((prev) =>
+                      prev.map((l) => (l.productId === line.productId ? { ...l, quantity: e.target.value } : l))
+                    )
+                  }
+                  className="w-24"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setLines((prev) => prev.filter((l) => l.productId !== line.productId))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {addableProducts.length > 0 && (
+              <Select value="" onValueChange={addProduct}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableProducts.map((product) => (
+                    <SelectItem key={product._id} value={product._id}>
+                      {product.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Deliver</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as 'weekly' | 'interval')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">On set weekdays</SelectItem>
+                <SelectItem value="interval">Every few days</SelectItem>
+              </SelectContent>
+            </Select>
+            {frequency === 'weekly' ? (
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm">
+                    <Checkbox checked={weekdays.includes(day)} onCheckedChange={() => toggleWeekday(day)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm">
+                Every
+                <Input
+                  type="number"
+                  min="1"
+                  value={intervalDays}
+                  onChange={(e) => setIntervalDays(e.target.value)}
+                  className="w-20"
+                />
+                days from the start date
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="standingStart">Start date</Label>
+              <Input id="standingStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="standingEnd">End date (optional)</Label>
+              <Input id="standingEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || invalid}>
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StandingOrderDialog;
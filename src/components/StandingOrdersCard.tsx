@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { WEEKDAY_LABELS } from '@/lib/standing-orders';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Pause, Pencil, Play, Plus, Repeat, Trash2 } from 'lucide-react';
+import StandingOrderDialog, { StandingOrder } from '@/components/StandingOrderDialog';
+
+interface StandingOrdersCardProps {
+  token?: string;
+  onChange?: () => void; // Called after changes that may have placed orders
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const describeSchedule = (standing: StandingOrder) =>
+  standing.frequency === 'weekly'
+    ? `Every ${standing.weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')}`
+    : `Every ${standing.intervalDays} day${standing.intervalDays === 1 ? '' : 's'}`;
+
+// The customer's standing orders, with pause/resume and a dialog to set them up or change them
+const StandingOrdersCard = ({ token, onChange }: StandingOrdersCardProps) => {
+  const { toast } = useToast();
+  const [standingOrders, setStandingOrders] = useState<StandingOrder[]>([]);
+  const [editing, setEditing] = useState<StandingOrder | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadStandingOrders = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      setStandingOrders(await cachedFetch<StandingOrder[]>('/api/customer/standing-orders', token, { skipCache: true }));
+    } catch (error) {
+      console.error('Load standing orders error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStandingOrders();
+  }, [token]);
+
+  const handleAction = async (standing: StandingOrder, action: 'pause' | 'resume' | 'delete') => {
+    if (!token) return;
+    try {
+      setBusyId(standing._id);
+      const res = await fetch(
+        getApiUrl(`/api/customer/standing-orders/${standing._id}${action === 'delete' ? '' : `/${action}`}`),
+        {
+          method: action === 'delete' ? 'DELETE' : 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${action} standing order`);
+      }
+
+      toast({
+        title: action === 'pause' ? 'Standing order paused' : action === 'resume' ? 'Standing order resumed' : 'Standing order deleted',
+        variant: 'success',
+      });
+
+      await loadStandingOrders();
+      onChange?.();
+    } catch (error) {
+      console.error('Standing order action error:', error);
+      toast({
+        title: `Failed to ${action} standing order`,
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 font-bold">
+              <Repeat className="h-5 w-5" />
+              Standing Orders
+            </CardTitle>
+            <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+              Recurring deliveries are ordered for you automatically ahead of each delivery date
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setShowDialog(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Standing Order
+          </Button>
+        </div>
+      </CardHeader>
+      {standingOrders.length > 0 && (
+        <CardContent className="space-y-3">
+          {standingOrders.map((standing) => (
+            <div key={standing._id} className="p-3 border border-black/10 dark:border-white/10 rounded-lg space-y-2">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                <div className="text-sm">
+                  <p className="font-bold flex items-center gap-2">
+                    {standing.name}
+                    <Badge variant={standing.status === 'active' ? 'default' : 'secondary'}>{standing.status}</Badge>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {standing.items
+                      .map((item) => `${item.productId?.name || 'Unavailable product'} × ${item.quantity}`)
+                      .join(', ')}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {describeSchedule(standing)} from {formatDate(standing.startDate)}
+                    {standing.endDate ? ` until ${formatDate(standing.endDate)}` : ''}
+                  </p>
+                  {standing.nextDeliveryDates && standing.nextDeliveryDates.length > 0 && (
+                    <p className="text-muted-foreground">
+                      Next: {standing.nextDeliveryDates.map(formatDate).join(' · ')}
+                    </p>
+                  )}
+                  {standing.lastError && (
+                    <p className="flex items-center gap-1 text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      Last order failed: {standing.lastError}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAction(standing, standing.status === 'active' ? 'pause' : 'resume')}
+                    disabled={busyId === standing._id}
+                  >
+                    {standing.status === 'active' ? (
+                      <>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                      </>
+                    ) : (
+                      <>
+                        <Play className="mr-2 h-4 w-4" />
+                        Resume
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditing(standing);
+                      setShowDialog(true);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => handleAction(standing, 'delete')}
+                    disabled={busyId === standing._id}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <StandingOrderDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        standingOrder={editing}
+        token={token}
+        onSaved={() => {
+          loadStandingOrders();
+          onChange?.();
+        }}
+      />
+    </Card>
+  );
+};
+
+export default StandingOrdersCard;
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+type StockMovementType = 'receipt' | 'reservation' | 'release' | 'delivery' | 'adjustment' | 'return';
+
+interface StockMovement {
+  _id: string;
+  type: StockMovementType;
+  stockChange: number;
+  reservedChange: number;
+  stockAfter: number;
+  reservedAfter: number;
+  orderNumber?: string;
+  note?: string;
+  actorName?: string;
+  actorRole: string;
+  createdAt: string;
+}
+
+interface StockHistory {
+  product: { _id: string; name: string; stock?: number; reservedStock?: number; available: number | null };
+  movements: StockMovement[];
+}
+
+interface StockHistoryDialogProps {
+  productId: string | null;
+  token?: string;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  reservation: 'Reserved',
+  release: 'Released',
+  delivery: 'Delivered',
+  adjustment: 'Adjustment',
+  return: 'Return',
+};
+
+const formatChange = (change: number) => (change > 0 ? `+${change}` : change === 0 ? '-' : `${change}`);
+
+// Stock ledger for one product, with a form to record receipts, returns and adjustments
+const StockHistoryDialog = ({ productId, token, onOpenChange, onChange }: StockHistoryDialogProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<StockHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [movementType, setMovementType] = useState<'receipt' | 'return' | 'adjustment'>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+
+  const loadHistory = async () => {
+    if (!token || !productId) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<StockHistory>(`/api/products/${productId}/stock-movements`, token, { skipCache: true });
+      setHistory(data);
+    } catch (error) {
+      console.error('Load stock history error:', error);
+      toast({
+        title: 'Failed to load stock history',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setHistory(null);
+    setMovementType('receipt');
+    setQuantity('');
+    setNote('');
+    loadHistory();
+  }, [productId, token]);
+
+  const handleRecord = async () => {
+    if (!token || !productId) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl(`/api/products/${productId}/stock-movements`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ type: movementType, quantity: parseInt(quantity), note }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to record stock movement');
+      }
+
+      toast({
+        title: 'Stock updated',
+        variant: 'success',
+      });
+
+      setQuantity('');
+      setNote('');
+      await loadHistory();
+      onChange?.();
+    } catch (error) {
+      console.error('Record stock movement error:', error);
+      toast({
+        title: 'Failed to update stock',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parsedQuantity = parseInt(quantity);
+  const canRecord =
+    !!parsedQuantity &&
+    (movementType === 'adjustment' ? !!note.trim() : parsedQuantity > 0);
+
+  return (
+    <Dialog open={!!productId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History{history ? ` - ${history.product.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Every change to stock on hand and to stock reserved for open orders
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !history ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : history && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">On hand</p>
+                <p className="text-xl font-semibold">{history.product.stock ?? 0}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Reserved</p>
+                <p className="text-xl font-semibold">{history.product.reservedStock ?? 0}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Available</p>
+                <p className="text-xl font-semibold">{history.product.available ?? '-'}</p>
+              </div>
+            </div>
+
+            {history.product.available !== null && (
+              <div className="flex flex-col md:flex-row gap-2">
+                <Select value={movementType} onValueChange={(value) => setMovementType(value as typeof movementType)}>
+                  <SelectTrigger className="md:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="receipt">Receipt</SelectItem>
+                    <SelectItem value="return">Return</SelectItem>
+                    <SelectItem value="adjustment">Adjustment</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder={movementType === 'adjustment' ? 'Change, e.g. -3' : 'Quantity'}
+                  className="md:w-36"
+                />
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={movementType === 'adjustment' ? 'Reason (required)' : 'Note (optional)'}
+                />
+                <Button onClick={handleRecord} disabled={!canRecord || saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record
+                </Button>
+              </div>
+            )}
+
+            {history.movements.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No stock movements yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead className="text-right">On hand</TableHead>
+                    <TableHead className="text-right">Reserved</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.movements.map((movement) => (
+                    <TableRow key={movement._id} className="text-sm">
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(movement.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{movementLabels[movement.type]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatChange(movement.stockChange)}
+                        <span className="text-muted-foreground"> → {movement.stockAfter}</span>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatChange(movement.reservedChange)}
+                        <span className="text-muted-foreground"> → {movement.reservedAfter}</span>
+                      </TableCell>
+                      <TableCell>
+                        {movement.orderNumber && <p>Order #{movement.orderNumber}</p>}
+                        {movement.note && <p className="text-muted-foreground">{movement.note}</p>}
+                        {movement.actorName && (
+                          <p className="text-xs text-muted-foreground">
+                            {movement.actorName} ({movement.actorRole})
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockHistoryDialog;
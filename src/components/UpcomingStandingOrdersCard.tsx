@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Repeat } from 'lucide-react';
+
+interface UpcomingDelivery {
+  standingOrderId: string;
+  name: string;
+  customer: { name: string; email: string };
+  items: Array<{ productId: { _id: string; name: string } | null; quantity: number }>;
+  deliveryDate: string;
+  order: { _id: string; orderNumber: string; status: string } | null;
+}
+
+interface UpcomingStandingOrdersCardProps {
+  token?: string;
+  refreshKey?: unknown; // Reload whenever this changes, e.g. after orders are placed
+}
+
+// Deliveries coming up from customers' standing orders over the next two weeks, and whether
+// their orders have been placed yet
+const UpcomingStandingOrdersCard = ({ token, refreshKey }: UpcomingStandingOrdersCardProps) => {
+  const [deliveries, setDeliveries] = useState<UpcomingDelivery[]>([]);
+
+  const loadDeliveries = async () => {
+    if (!token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<UpcomingDelivery[]>('/api/distributor/standing-orders/upcoming', token, {
+        skipCache: true,
+      });
+      setDeliveries(data);
+    } catch (error) {
+      console.error('Load upcoming standing orders error:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [token, refreshKey]);
+
+  if (deliveries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-bold">
+          <Repeat className="h-5 w-5" />
+          Upcoming Standing Orders
+        </CardTitle>
+        <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+          Recurring customer deliveries for the next two weeks. Orders appear in your list shortly before each date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deliveries.map((delivery) => (
+          <div
+            key={`${delivery.standingOrderId}-${delivery.deliveryDate}`}
+            className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 border border-black/10 dark:border-white/10 rounded-lg text-sm"
+          >
+            <div>
+              <p className="font-medium">
+                {new Date(delivery.deliveryDate).toLocaleDateString('en-IN', {
+                  weekday: 'short',
+                  day: 'numeric',
+                  month: 'short',
+                  timeZone: 'UTC',
+                })}{' '}
+                · {delivery.customer.name} · {delivery.name}
+              </p>
+              <p className="text-muted-foreground">
+                {delivery.items
+                  .map((item) => `${item.productId?.name || 'Unavailable product'} × ${item.quantity}`)
+                  .join(', ')}
+              </p>
+            </div>
+            {delivery.order ? (
+              <Badge variant="secondary">Order #{delivery.order.orderNumber}</Badge>
+            ) : (
+              <Badge variant="outline">Not placed yet</Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpcomingStandingOrdersCard;
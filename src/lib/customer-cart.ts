@@ -0,0 +1,126 @@
+import { getApiUrl } from './api';
+import { cachedFetch } from './cached-fetch';
+import { PriceTier } from './price-tiers';
+import { QuantityRuleFields, snapQuantity } from './quantity-rules';
+
+export interface CartItem extends QuantityRuleFields {
+  productId: string;
+  productName: string;
+  quantity: number;
+  price: number; // Unit price before volume tiers; see getTierPrice
+  priceTiers?: PriceTier[];
+  gstRate?: number;
+  available?: number | null; // null when the product's stock isn't tracked
+}
+
+interface CustomerProduct extends QuantityRuleFields {
+  _id: string;
+  name: string;
+  price: number;
+  priceTiers?: PriceTier[];
+  gstRate?: number;
+  available?: number | null;
+}
+
+export interface CartContents {
+  items: CartItem[];
+  removed: string[]; // Products dropped because they can no longer be ordered
+  minimumOrderValue?: number | null; // The distributor's smallest order, before GST
+}
+
+// Carts used to live only in the browser; any left there are moved to the server on first load
+const LEGACY_CART_STORAGE_KEY = 'customerCart';
+
+const putCart = async (lines: Array<{ productId: string; quantity: number }>, token: string): Promise<CartContents> => {
+  const res = await fetch(getApiUrl('/api/customer/cart'), {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ items: lines }),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || 'Failed to save cart');
+  }
+  return res.json();
+};
+
+/**
+ * Save the cart on the server so it follows the customer to other devices.
+ * @param cart - The full cart; it replaces whatever was saved before
+ * @param token - Auth token
+ * @returns The cart as the server re-priced it
+ */
+export const saveCart = (cart: CartItem[], token: string) =>
+  putCart(cart.map((item) => ({ productId: item.productId, quantity: item.quantity })), token);
+
+/**
+ * Load the customer's cart at their current prices. A cart left in this browser's localStorage
+ * is merged in (lines already in the server cart win) and then removed.
+ * @param token - Auth token
+ * @returns The cart items and the names of products dropped since it was saved
+ */
+export const loadCart = async (token: string): Promise<CartContents> => {
+  const cart = await cachedFetch<CartContents>('/api/customer/cart', token, { skipCache: true });
+
+  const legacy = localStorage.getItem(LEGACY_CART_STORAGE_KEY);
+  if (!legacy) {
+    return cart;
+  }
+
+  let legacyItems: CartItem[] = [];
+  try {
+    legacyItems = JSON.parse(legacy);
+  } catch {
+    // Unreadable carts are dropped
+  }
+  const newItems = legacyItems.filter(
+    (item) => item.productId && !cart.items.some((existing) => existing.productId === item.productId)
+  );
+  const merged = newItems.length > 0 ? await saveCart([...cart.items, ...newItems], token) : cart;
+  localStorage.removeItem(LEGACY_CART_STORAGE_KEY);
+  return { ...merged, removed: [...cart.removed, ...merged.removed] };
+};
+
+/**
+ * Turn order or template lines into cart items at the customer's current prices.
+ * Products that can no longer be ordered are skipped and quantities are fitted to each product's
+ * pack size and minimum, capped at the stock available.
+ * @param lines - Product ids and quantities, e.g. from a past order
+ * @param token - Auth token
+ * @returns The cart items and the names (or ids) of skipped products
+ */
+export const buildCartFromLines = async (
+  lines: Array<{ productId: string; productName?: string; quantity: number }>,
+  token: string
+): Promise<{ cart: CartItem[]; skipped: string[] }> => {
+  const products = await cachedFetch<CustomerProduct[]>('/api/customer/products', token, { skipCache: true });
+  const productMap = new Map(products.map((product) => [product._id, product]));
+
+  const cart: CartItem[] = [];
+  const skipped: string[] = [];
+  for (const line of lines) {
+    const product = productMap.get(line.productId);
+    const available = product?.available ?? Infinity;
+    if (!product || available <= 0) {
+      skipped.push(product?.name || line.productName || line.productId);
+      continue;
+    }
+    cart.push({
+      productId: product._id,
+      productName: product.name,
+      quantity: snapQuantity(line.quantity, product, available),
+      price: product.price,
+      priceTiers: product.priceTiers,
+      gstRate: product.gstRate,
+      available: product.available,
+      unit: product.unit,
+      packSize: product.packSize,
+      minOrderQuantity: product.minOrderQuantity,
+      quantityStep: product.quantityStep,
+    });
+  }
+  return { cart, skipped };
+};
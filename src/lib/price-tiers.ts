@@ -0,0 +1,60 @@
+// Mirrors getUnitPrice in the server's PriceVersion model, which prices every order line
+
+// A volume price: from minQuantity units up, every unit of the line costs this price instead
+export interface PriceTier {
+  minQuantity: number;
+  price: number;
+}
+
+export interface TieredPrice {
+  price: number;
+  priceTiers?: PriceTier[];
+}
+
+/**
+ * The unit price for a line quantity: the price of the highest tier the quantity reaches.
+ * @param item - The plain price and its volume tiers
+ * @param quantity - Units on the line
+ */
+export const getTierPrice = (item: TieredPrice, quantity: number) => {
+  let unitPrice = item.price;
+  let reached = 0;
+  for (const tier of item.priceTiers || []) {
+    if (quantity >= tier.minQuantity && tier.minQuantity > reached) {
+      unitPrice = tier.price;
+      reached = tier.minQuantity;
+    }
+  }
+  return unitPrice;
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// Price by quantity band for product cards, e.g. "₹50 for 1–9 · ₹45 for 10+"; empty without tiers
+export const describePriceTiers = (item: TieredPrice) => {
+  const tiers = [...(item.priceTiers || [])].sort((a, b) => a.minQuantity - b.minQuantity);
+  if (tiers.length === 0) return '';
+  const bands = [{ minQuantity: 1, price: item.price }, ...tiers];
+  return bands
+    .map((band, i) => {
+      const next = bands[i + 1];
+      if (!next) return `${formatAmount(band.price)} for ${band.minQuantity}+`;
+      const last = next.minQuantity - 1;
+      return `${formatAmount(band.price)} for ${band.minQuantity === last ? band.minQuantity : `${band.minQuantity}–${last}`}`;
+    })
+    .join(' · ');
+};
+
+// Tier rows as typed into a form; empty rows are ignored when saving
+export interface PriceTierRow {
+  minQuantity: string;
+  price: string;
+}
+
+export const toPriceTierRows = (tiers: PriceTier[] = []): PriceTierRow[] =>
+  tiers.map((tier) => ({ minQuantity: tier.minQuantity.toString(), price: tier.price.toString() }));
+
+export const toPriceTiers = (rows: PriceTierRow[]): PriceTier[] =>
+  rows
+    .filter((row) => row.minQuantity !== '' || row.price !== '')
+    .map((row) => ({ minQuantity: parseInt(row.minQuantity), price: parseFloat(row.price) }));
@@ -0,0 +1,68 @@
+import { PriceTier } from './price-tiers';
+
+// A dated price as kept by the server on base prices, distributor prices and customer prices
+export interface PriceVersion {
+  _id: string;
+  price: number;
+  tiers?: PriceTier[]; // Volume prices that go with this price
+  validFrom: string;
+  validTo?: string;
+  setByName?: string;
+  createdAt?: string;
+}
+
+export type PriceVersionState = 'current' | 'scheduled' | 'ended' | 'replaced';
+
+// Where each version stands now. As on the server, the latest-starting version covering a
+// moment is the one that applies.
+export function getPriceVersionStates(versions: PriceVersion[], now = new Date()): Map<string, PriceVersionState> {
+  const covering = versions.filter(
+    (v) => new Date(v.validFrom) <= now && (!v.validTo || now < new Date(v.validTo))
+  );
+  const current = covering.reduce<PriceVersion | undefined>(
+    (latest, v) => (!latest || new Date(v.validFrom) >= new Date(latest.validFrom) ? v : latest),
+    undefined
+  );
+
+  return new Map(
+    versions.map((v) => {
+      if (v === current) return [v._id, 'current'];
+      if (new Date(v.validFrom) > now) return [v._id, 'scheduled'];
+      if (v.validTo && new Date(v.validTo) <= now) return [v._id, 'ended'];
+      return [v._id, 'replaced'];
+    })
+  );
+}
+
+const getCurrentVersion = (versions: PriceVersion[]) => {
+  const states = getPriceVersionStates(versions);
+  return versions.find((v) => states.get(v._id) === 'current');
+};
+
+// The price that applies now, falling back to the entry's standing price
+export function getCurrentPrice(versions: PriceVersion[] = [], standingPrice: number): number {
+  return getCurrentVersion(versions)?.price ?? standingPrice;
+}
+
+// The volume tiers that apply now; they always go with the current price
+export function getCurrentTiers(versions: PriceVersion[] = [], standingTiers: PriceTier[] = []): PriceTier[] {
+  const current = getCurrentVersion(versions);
+  return current ? current.tiers || [] : standingTiers;
+}
+
+// The next price change that hasn't started yet, if any
+export const getNextScheduledPrice = (versions: PriceVersion[], now = new Date()) =>
+  versions
+    .filter((v) => new Date(v.validFrom) > now)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom))[0];
+
+// Date inputs hold "YYYY-MM-DD" days in the user's time zone. A price starts at the beginning of its
+// first day and, since validTo is exclusive, ends at the beginning of the day after its last day.
+export const toValidFrom = (day: string) => (day ? new Date(`${day}T00:00`).toISOString() : undefined);
+
+export const toValidTo = (lastDay: string) => {
+  if (!lastDay) return undefined;
+  const date = new Date(`${lastDay}T00:00`);
+  date.setDate(date.getDate() + 1);
+  return date.toISOString();
+};
@@ -0,0 +1,54 @@
+export type PromotionType = 'percentage' | 'flat' | 'buy-x-get-y';
+
+// An offer as kept by the server; see the Promotion model
+export interface Promotion {
+  _id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  code?: string;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  usedCount: number;
+  productIds: string[];
+  categories: string[];
+  customerIds: string[];
+  startsAt: string;
+  endsAt: string; // Exclusive
+  isActive: boolean;
+}
+
+// A promotion applied to an order, kept on the order as its own line
+export interface OrderDiscount {
+  promotionId: string;
+  name: string;
+  code?: string;
+  type: PromotionType;
+  amount: number;
+}
+
+export const promotionTypeLabels: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  flat: 'Flat amount off',
+  'buy-x-get-y': 'Buy X get Y free',
+};
+
+// e.g. "10% off", "₹50 off", "Buy 10 get 1 free"
+export const describeOffer = (promotion: Pick<Promotion, 'type' | 'value' | 'buyQuantity' | 'getQuantity'>) => {
+  if (promotion.type === 'percentage') return `${promotion.value}% off`;
+  if (promotion.type === 'flat') return `₹${(promotion.value || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })} off`;
+  return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+};
+
+export type PromotionState = 'active' | 'scheduled' | 'ended' | 'paused' | 'used-up';
+
+export const getPromotionState = (promotion: Promotion, now = new Date()): PromotionState => {
+  if (!promotion.isActive) return 'paused';
+  if (new Date(promotion.endsAt) <= now) return 'ended';
+  if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) return 'used-up';
+  if (new Date(promotion.startsAt) > now) return 'scheduled';
+  return 'active';
+};
@@ -0,0 +1,44 @@
+// Mirrors getQuantityRules in the server's Product model, which validates every order line
+
+export interface QuantityRuleFields {
+  unit?: string; // Unit of measure, e.g. "pcs", "kg", "box"
+  packSize?: number;
+  minOrderQuantity?: number;
+  quantityStep?: number;
+}
+
+/**
+ * The quantities a product can be ordered in: multiples of `step` (a whole pack unless a step is
+ * set), starting at `min` (the MOQ rounded up to a whole step).
+ */
+export const getQuantityRules = (product: QuantityRuleFields) => {
+  const step = product.quantityStep || product.packSize || 1;
+  const min = Math.ceil((product.minOrderQuantity || step) / step) * step;
+  return { step, min };
+};
+
+/**
+ * Move a quantity onto the nearest allowed one at or above it, without going over `max`.
+ * @param quantity - The quantity asked for
+ * @param product - The product's quantity rules
+ * @param max - Most that can be ordered, e.g. the stock available
+ * @returns The allowed quantity; `min` if even that is more than `max`
+ */
+export const snapQuantity = (quantity: number, product: QuantityRuleFields, max = Infinity) => {
+  const { step, min } = getQuantityRules(product);
+  const largest = Math.max(Math.floor(max / step) * step, min);
+  return Math.min(Math.max(Math.ceil(quantity / step) * step, min), largest);
+};
+
+// Short description of a product's pack and minimum for product cards, e.g. "Pack of 12 pcs · Min 24"
+export const describeQuantityRules = (product: QuantityRuleFields) => {
+  const { step, min } = getQuantityRules(product);
+  const unit = product.unit ? ` ${product.unit}` : '';
+  return [
+    product.packSize && product.packSize > 1 ? `Pack of ${product.packSize}${unit}` : '',
+    step > 1 && step !== product.packSize ? `In steps of ${step}` : '',
+    min > step ? `Min ${min}${unit}` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
@@ -0,0 +1,2 @@
+// Weekday labels indexed like Date.getUTCDay(), StandingOrder.weekdays and delivery calendar days (0 is Sunday)
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -2,74 +2,98 @@ import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
 import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Loader2, Bell, Package } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Loader2, Bell, Package, XCircle, CheckCircle, Truck, Ban } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import CancelOrderDialog from '@/components/CancelOrderDialog';
 
-interface OrderNotification {
+interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  restockQuantity: number;
+  fulfilledQuantity: number;
+}
+
+interface LinkedOrder {
   _id: string;
   orderNumber: string;
   customerId: { name: string; email: string };
-  distributorId: { name: string; email: string };
-  items: Array<{
-    productId: { name: string; imageUrl?: string };
-    quantity: number;
-    price: number;
-  }>;
-  totalAmount: number;
-  desiredDeliveryDate: string;
-  currentDeliveryDate: string;
-  sentToAdminAt: string;
+  items: Array<{ quantity: number; suppliedQuantity?: number }>;
   status: string;
 }
 
+interface PurchaseOrder {
+  _id: string;
+  poNumber: string;
+  distributorId: { name: string; email: string };
+  lines: PurchaseOrderLine[];
+  orderIds: LinkedOrder[];
+  status: 'submitted' | 'acknowledged' | 'partially-fulfilled' | 'fulfilled' | 'rejected';
+  createdAt: string;
+}
+
+type PurchaseOrderAction = 'acknowledge' | 'fulfil' | 'reject';
+
 const AdminOrderNotifications = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [notifications, setNotifications] = useState<OrderNotification[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
   const [loading, setLoading] = useState(true);
-  const prevNotificationsRef = useRef<OrderNotification[]>([]);
+  const [orderToCancel, setOrderToCancel] = useState<LinkedOrder | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [purchaseOrderToReject, setPurchaseOrderToReject] = useState<PurchaseOrder | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [purchaseOrderToFulfil, setPurchaseOrderToFulfil] = useState<PurchaseOrder | null>(null);
+  const [shipQuantities, setShipQuantities] = useState<Record<string, string>>({});
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const prevPurchaseOrdersRef = useRef<PurchaseOrder[]>([]);
 
   useEffect(() => {
     if (!user?.token) return;
-    loadNotifications();
+    loadPurchaseOrders();
     // Poll for updates every 3 seconds
-    const interval = setInterval(loadNotifications, 3000);
+    const interval = setInterval(loadPurchaseOrders, 3000);
     return () => clearInterval(interval);
   }, [user?.token]);
 
-  const loadNotifications = async () => {
+  const loadPurchaseOrders = async () => {
     if (!user?.token) return;
     try {
       const { cachedFetch } = await import('@/lib/cached-fetch');
       // Skip cache for polling requests to get fresh data
-      const data = await cachedFetch<OrderNotification[]>('/api/admin/order-notifications', user.token, { skipCache: true });
-
-      // Only update if notifications actually changed
-      const notificationsChanged = JSON.stringify(prevNotificationsRef.current) !== JSON.stringify(data);
-      if (notificationsChanged) {
-        setNotifications(data);
-        prevNotificationsRef.current = data;
+      const data = await cachedFetch<PurchaseOrder[]>('/api/purchase-orders?open=true', user.token, { skipCache: true });
 
-        // Show toast for new notifications
-        if (data.length > prevNotificationsRef.current.length && prevNotificationsRef.current.length > 0) {
-          const newCount = data.length - prevNotificationsRef.current.length;
+      // Only update if purchase orders actually changed
+      const previous = prevPurchaseOrdersRef.current;
+      if (JSON.stringify(previous) !== JSON.stringify(data)) {
+        // Show toast for new purchase orders
+        const newCount = data.filter((po) => !previous.some((prev) => prev._id === po._id)).length;
+        if (newCount > 0 && previous.length > 0) {
           toast({
-            title: 'New Order Notifications',
-            description: `${newCount} new order(s) received from distributors.`,
+            title: 'New Purchase Orders',
+            description: `${newCount} new purchase order(s) received from distributors.`,
             variant: 'success',
           });
         }
+
+        setPurchaseOrders(data);
+        prevPurchaseOrdersRef.current = data;
       }
     } catch (error: any) {
-      console.error('Load notifications error:', error);
+      console.error('Load purchase orders error:', error);
       if (loading) {
         toast({
-          title: 'Failed to load notifications',
+          title: 'Failed to load purchase orders',
           description: error.message || 'Please try again.',
           variant: 'destructive',
         });
@@ -79,30 +103,107 @@ const AdminOrderNotifications = () => {
     }
   };
 
-  // Aggregate items by product across all notifications
-  const getItemsSummary = () => {
-    const itemsByProduct = new Map<string, { productName: string; totalQuantity: number; distributors: Set<string> }>();
-
-    notifications.forEach((notification) => {
-      notification.items.forEach((item) => {
-        const productId = item.productId.name;
-        const existing = itemsByProduct.get(productId);
-        if (existing) {
-          existing.totalQuantity += item.quantity;
-          existing.distributors.add(notification.distributorId.name);
-        } else {
-          itemsByProduct.set(productId, {
-            productName: item.productId.name,
-            totalQuantity: item.quantity,
-            distributors: new Set([notification.distributorId.name]),
-          });
-        }
+  const handlePurchaseOrderAction = async (
+    purchaseOrder: PurchaseOrder,
+    action: PurchaseOrderAction,
+    body: { reason?: string; lines?: Array<{ productId: string; quantity: number }> } = {}
+  ) => {
+    if (!user?.token) return;
+    try {
+      setUpdatingId(purchaseOrder._id);
+      const res = await fetch(getApiUrl(`/api/purchase-orders/${purchaseOrder._id}/${action}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify(body),
       });
-    });
 
-    return Array.from(itemsByProduct.values());
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to update purchase order');
+      }
+
+      const data = await res.json();
+      toast({
+        title: data.message,
+        description: 'The distributor has been notified.',
+        variant: 'success',
+      });
+
+      setPurchaseOrderToReject(null);
+      setPurchaseOrderToFulfil(null);
+      await loadPurchaseOrders();
+    } catch (error) {
+      console.error('Update purchase order error:', error);
+      toast({
+        title: 'Failed to update purchase order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const openFulfilDialog = (purchaseOrder: PurchaseOrder) => {
+    // Default to shipping everything still outstanding
+    setShipQuantities(
+      Object.fromEntries(
+        purchaseOrder.lines.map((line) => [line.productId, String(Math.max(line.quantity - line.fulfilledQuantity, 0))])
+      )
+    );
+    setPurchaseOrderToFulfil(purchaseOrder);
+  };
+
+  const handleFulfil = () => {
+    if (!purchaseOrderToFulfil) return;
+    handlePurchaseOrderAction(purchaseOrderToFulfil, 'fulfil', {
+      lines: purchaseOrderToFulfil.lines.map((line) => ({
+        productId: line.productId,
+        quantity: parseInt(shipQuantities[line.productId]) || 0,
+      })),
+    });
   };
 
+  const handleCancelOrder = async (reason: string) => {
+    if (!user?.token || !orderToCancel) return;
+    try {
+      setCancelling(true);
+      const res = await fetch(getApiUrl(`/api/orders/${orderToCancel._id}/cancel`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to cancel order');
+      }
+
+      toast({
+        title: 'Order cancelled',
+        description: 'The distributor and customer have been notified.',
+        variant: 'success',
+      });
+
+      setOrderToCancel(null);
+      await loadPurchaseOrders();
+    } catch (error) {
+      console.error('Cancel order error:', error);
+      toast({
+        title: 'Failed to cancel order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -112,7 +213,7 @@ const AdminOrderNotifications = () => {
           <div className="flex items-center justify-center min-h-[60vh]">
             <div className="flex flex-col items-center gap-4">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              <p className="text-sm text-muted-foreground">Loading notifications...</p>
+              <p className="text-sm text-muted-foreground">Loading purchase orders...</p>
             </div>
           </div>
         </main>
@@ -120,7 +221,10 @@ const AdminOrderNotifications = () => {
     );
   }
 
-  const itemsSummary = getItemsSummary();
+  const totalUnits = purchaseOrders.reduce(
+    (sum, po) => sum + po.lines.reduce((lineSum, line) => lineSum + line.quantity, 0),
+    0
+  );
 
   return (
     <div className="min-h-screen bg-transparent relative">
@@ -138,15 +242,15 @@ const AdminOrderNotifications = () => {
         <div className="mb-6 md:mb-8">
           <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight flex items-center gap-2">
             <Bell className="h-6 w-6 md:h-8 md:w-8 text-primary shrink-0" />
-            Order Notifications
+            Purchase Orders
           </h1>
           <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">
-            {notifications.length} notification(s) from distributors
+            {purchaseOrders.length} open purchase order(s) from distributors
           </p>
         </div>
 
         {/* Items Summary */}
-        {itemsSummary.length > 0 && (
+        {totalUnits > 0 && (
           <Card className="mb-4 hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
@@ -155,41 +259,235 @@ const AdminOrderNotifications = () => {
                   <span className="text-sm font-medium">Items Summary</span>
                 </div>
                 <Badge variant="default" className="text-base px-3 py-1.5">
-                  {itemsSummary.reduce((sum, item) => sum + item.totalQuantity, 0)} units
+                  {totalUnits} units
                 </Badge>
               </div>
             </CardContent>
           </Card>
         )}
 
-        {/* Order Notifications */}
+        {/* Purchase Orders */}
         <div className="space-y-4">
-          {notifications.length === 0 ? (
+          {purchaseOrders.length === 0 ? (
             <div className="text-center py-12">
-              <p className="text-muted-foreground">No order notifications yet.</p>
+              <p className="text-muted-foreground">No open purchase orders.</p>
             </div>
           ) : (
-            notifications.map((notification) => {
-              const totalUnits = notification.items.reduce((sum, item) => sum + item.quantity, 0);
+            purchaseOrders.map((purchaseOrder) => {
+              const updating = updatingId === purchaseOrder._id;
               return (
-                <Card key={notification._id} className="hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
-                  <CardContent className="pt-6">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-base font-semibold text-foreground">Order #{notification.orderNumber}</CardTitle>
-                      <Badge variant="default" className="text-lg px-4 py-2">
-                        {totalUnits} units
-                      </Badge>
+                <Card key={purchaseOrder._id} className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+                  <CardHeader>
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+                          {purchaseOrder.poNumber}
+                          <Badge variant="outline" className="capitalize">{purchaseOrder.status}</Badge>
+                        </CardTitle>
+                        <CardDescription>
+                          {purchaseOrder.distributorId?.name} ·{' '}
+                          {new Date(purchaseOrder.createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </CardDescription>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {purchaseOrder.status === 'submitted' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={updating}
+                            onClick={() => handlePurchaseOrderAction(purchaseOrder, 'acknowledge')}
+                          >
+                            <CheckCircle className="mr-2 h-4 w-4" />
+                            Acknowledge
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          disabled={updating}
+                          onClick={() => openFulfilDialog(purchaseOrder)}
+                        >
+                          {updating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+                          {purchaseOrder.status === 'partially-fulfilled' ? 'Ship Back-order' : 'Fulfil'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          disabled={updating}
+                          onClick={() => {
+                            setRejectReason('');
+                            setPurchaseOrderToReject(purchaseOrder);
+                          }}
+                        >
+                          <Ban className="mr-2 h-4 w-4" />
+                          {purchaseOrder.status === 'partially-fulfilled' ? 'Close Back-order' : 'Reject'}
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-1">
+                      {purchaseOrder.lines.map((line) => (
+                        <div key={line.productId} className="flex items-center justify-between text-sm">
+                          <span>{line.productName}</span>
+                          <span className="font-medium">
+                            {line.fulfilledQuantity > 0 && `${Math.min(line.fulfilledQuantity, line.quantity)} of `}
+                            {line.quantity} units
+                            {line.restockQuantity > 0 && (
+                              <span className="text-muted-foreground font-normal"> (incl. {line.restockQuantity} restock)</span>
+                            )}
+                            {line.fulfilledQuantity > 0 && line.fulfilledQuantity < line.quantity && (
+                              <Badge variant="secondary" className="ml-2">
+                                Back-order {line.quantity - line.fulfilledQuantity}
+                              </Badge>
+                            )}
+                          </span>
+                        </div>
+                      ))}
                     </div>
+
+                    {purchaseOrder.orderIds.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-muted-foreground uppercase">Customer orders</p>
+                        {purchaseOrder.orderIds.map((order) => (
+                          <div
+                            key={order._id}
+                            className="flex items-center justify-between gap-2 p-2 border border-black/10 dark:border-white/10 rounded-lg text-sm"
+                          >
+                            <div>
+                              <p className="font-medium">Order #{order.orderNumber}</p>
+                              <p className="text-muted-foreground">
+                                {order.customerId?.name} · {order.items.reduce((sum, item) => sum + item.quantity, 0)} units
+                                {order.status === 'processing' &&
+                                  order.items.some((item) => item.suppliedQuantity) &&
+                                  ` · ${order.items.reduce((sum, item) => sum + (item.suppliedQuantity || 0), 0)} supplied`}
+                              </p>
+                            </div>
+                            {order.status === 'cancelled' ? (
+                              <Badge variant="destructive">Cancelled</Badge>
+                            ) : order.status === 'processing' ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => setOrderToCancel(order)}
+                              >
+                                <XCircle className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            ) : (
+                              <Badge variant="outline" className="capitalize">{order.status}</Badge>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
             })
           )}
         </div>
+
+        <CancelOrderDialog
+          open={!!orderToCancel}
+          onOpenChange={(open) => !open && setOrderToCancel(null)}
+          orderNumber={orderToCancel?.orderNumber}
+          cancelling={cancelling}
+          onConfirm={handleCancelOrder}
+        />
+
+        <Dialog open={!!purchaseOrderToFulfil} onOpenChange={(open) => !open && setPurchaseOrderToFulfil(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Fulfil {purchaseOrderToFulfil?.poNumber}</DialogTitle>
+              <DialogDescription>
+                Enter what you are shipping now. Customer orders covered in full go out for delivery; anything
+                not shipped stays on back-order.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3 py-4">
+              {purchaseOrderToFulfil?.lines.map((line) => {
+                const outstanding = Math.max(line.quantity - line.fulfilledQuantity, 0);
+                return (
+                  <div key={line.productId} className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`ship-${line.productId}`} className="flex-1">
+                      {line.productName}
+                      <span className="block text-xs text-muted-foreground font-normal">{outstanding} outstanding</span>
+                    </Label>
+                    <Input
+                      id={`ship-${line.productId}`}
+                      type="number"
+                      min="0"
+                      max={outstanding}
+                      value={shipQuantities[line.productId] ?? ''}
+                      onChange={(e) => setShipQuantities((prev) => ({ ...prev, [line.productId]: e.target.value }))}
+                      disabled={outstanding === 0}
+                      className="w-28"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPurchaseOrderToFulfil(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleFulfil}
+                disabled={
+                  updatingId === purchaseOrderToFulfil?._id ||
+                  !purchaseOrderToFulfil?.lines.some((line) => (parseInt(shipQuantities[line.productId]) || 0) > 0)
+                }
+              >
+                {updatingId === purchaseOrderToFulfil?._id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ship
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!purchaseOrderToReject} onOpenChange={(open) => !open && setPurchaseOrderToReject(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {purchaseOrderToReject?.status === 'partially-fulfilled' ? 'Close Back-order of' : 'Reject'}{' '}
+                {purchaseOrderToReject?.poNumber}
+              </DialogTitle>
+              <DialogDescription>
+                The distributor will be notified and customer orders not supplied in full go back to them to supply.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="rejectReason">Reason</Label>
+              <Textarea
+                id="rejectReason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Why is this purchase order being rejected?"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPurchaseOrderToReject(null)}>
+                Keep Purchase Order
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() =>
+                  purchaseOrderToReject &&
+                  handlePurchaseOrderAction(purchaseOrderToReject, 'reject', { reason: rejectReason.trim() })
+                }
+                disabled={!rejectReason.trim() || updatingId === purchaseOrderToReject?._id}
+              >
+                {updatingId === purchaseOrderToReject?._id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
 };
 
 export default AdminOrderNotifications;
-
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { getApiUrl } from "../lib/api";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Package, Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { ArrowLeft, Package, Plus, Edit, Trash2, Loader2, History } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "../components/ui/dialog";
@@ -10,14 +10,23 @@ import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { useToast } from "../hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "../components/ui/alert-dialog";
+import PriceHistoryDialog, { NextPriceNote } from "../components/PriceHistoryDialog";
+import PriceScheduleFields from "../components/PriceScheduleFields";
+import PriceTiersField, { PriceTiersNote } from "../components/PriceTiersField";
+import PriceImportExport from "../components/PriceImportExport";
+import { PriceTier, PriceTierRow, toPriceTierRows, toPriceTiers } from "../lib/price-tiers";
+import { PriceVersion, toValidFrom, toValidTo } from "../lib/price-versions";
 
 interface Product {
   _id: string;
   name: string;
   description?: string;
   price: number;
+  priceTiers?: PriceTier[];
   imageUrl?: string;
   category?: string;
+  priceVersions?: PriceVersion[]; // Only on used products
+  createdBy?: string; // Only on used products
 }
 
 interface Distributor {
@@ -32,11 +41,21 @@ interface UsedProduct {
     distributorId: string;
     distributorName: string;
     distributorEmail: string;
-    customPrice: number;
+    customPrice: number; // The price that applies now
+    priceTiers: PriceTier[];
+    priceVersions: PriceVersion[];
     pricingId: string;
   }>;
 }
 
+// The price whose history is open, and where to cancel its scheduled changes (if the user may)
+interface PriceHistoryTarget {
+  title: string;
+  versions: PriceVersion[];
+  standingPrice?: number;
+  cancelUrl?: (versionId: string) => string;
+}
+
 export default function AdminProductUsage() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -53,6 +72,9 @@ export default function AdminProductUsage() {
   const [selectedPricingId, setSelectedPricingId] = useState<string | null>(null);
   const [pricingData, setPricingData] = useState<Record<string, number>>({});
   const [editPrice, setEditPrice] = useState<number>(0);
+  const [editTiers, setEditTiers] = useState<PriceTierRow[]>([]);
+  const [editSchedule, setEditSchedule] = useState({ firstDay: "", lastDay: "" });
+  const [historyTarget, setHistoryTarget] = useState<PriceHistoryTarget | null>(null);
 
   useEffect(() => {
     if (!user?.token) return;
@@ -149,9 +171,11 @@ export default function AdminProductUsage() {
     }
   };
 
-  const handleEditPricing = (pricingId: string, currentPrice: number) => {
+  const handleEditPricing = (pricingId: string, currentPrice: number, currentTiers: PriceTier[]) => {
     setSelectedPricingId(pricingId);
     setEditPrice(currentPrice);
+    setEditTiers(toPriceTierRows(currentTiers));
+    setEditSchedule({ firstDay: "", lastDay: "" });
     setIsEditDialogOpen(true);
   };
 
@@ -165,11 +189,21 @@ export default function AdminProductUsage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${user.token}`,
         },
-        body: JSON.stringify({ customPrice: editPrice }),
+        body: JSON.stringify({
+          customPrice: editPrice,
+          priceTiers: toPriceTiers(editTiers),
+          validFrom: toValidFrom(editSchedule.firstDay),
+          validTo: toValidTo(editSchedule.lastDay),
+        }),
       });
 
       if (res.ok) {
-        toast({ title: "Success", description: "Pricing updated successfully.", variant: "success" });
+        const scheduled = !!(editSchedule.firstDay || editSchedule.lastDay);
+        toast({
+          title: "Success",
+          description: scheduled ? "Price change scheduled successfully." : "Pricing updated successfully.",
+          variant: "success",
+        });
         setIsEditDialogOpen(false);
         setSelectedPricingId(null);
         setEditPrice(0);
@@ -208,10 +242,33 @@ export default function AdminProductUsage() {
     }
   };
 
+  const handleCancelPriceChange = async (versionId: string) => {
+    if (!user?.token || !historyTarget?.cancelUrl) return;
+
+    try {
+      const res = await fetch(getApiUrl(historyTarget.cancelUrl(versionId)), {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${user.token}` },
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        toast({ title: "Success", description: "Price change cancelled.", variant: "success" });
+        setHistoryTarget({ ...historyTarget, versions: data.priceVersions || [] });
+        loadUsedProducts();
+      } else {
+        toast({ title: "Error", description: data.message || "Failed to cancel price change.", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Cancel price change error:", error);
+      toast({ title: "Error", description: "Failed to cancel price change.", variant: "destructive" });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-transparent relative">
       <div className="container mx-auto px-6 pt-28 pb-12 relative z-10">
-        <div className="flex items-center gap-4 mb-4 md:mb-8">
+        <div className="flex flex-wrap items-center gap-4 mb-4 md:mb-8">
           <Button
             variant="ghost"
             size="icon"
@@ -220,10 +277,16 @@ export default function AdminProductUsage() {
           >
             <ArrowLeft className="h-4 w-4" />
           </Button>
-          <div>
+          <div className="flex-1">
             <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight">Product Usage & Pricing</h1>
             <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">Use products and set custom pricing for your distributors</p>
           </div>
+          <PriceImportExport
+            onImported={() => {
+              loadAvailableProducts();
+              loadUsedProducts();
+            }}
+          />
         </div>
 
         {/* Available Products */}
@@ -275,8 +338,33 @@ export default function AdminProductUsage() {
               {usedProducts.map((item) => (
                 <Card key={item.product._id} className="hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
                   <CardHeader>
-                    <CardTitle className="text-lg">{item.product.name}</CardTitle>
-                    <CardDescription>Base Price: ₹{item.product.price.toFixed(2)}</CardDescription>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-lg">{item.product.name}</CardTitle>
+                        <CardDescription>Base Price: ₹{item.product.price.toFixed(2)}</CardDescription>
+                        <PriceTiersNote price={item.product.price} tiers={item.product.priceTiers} />
+                        <NextPriceNote versions={item.product.priceVersions || []} />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setHistoryTarget({
+                            title: `${item.product.name} base price`,
+                            versions: item.product.priceVersions || [],
+                            standingPrice: item.product.price,
+                            // Only the product's owner can cancel its base price changes
+                            cancelUrl:
+                              user?.isSuperAdmin || item.product.createdBy === user?.id
+                                ? (versionId) => `/api/products/${item.product._id}/price-versions/${versionId}`
+                                : undefined,
+                          })
+                        }
+                      >
+                        <History className="h-4 w-4 mr-2" />
+                        Base Price History
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
@@ -290,11 +378,28 @@ export default function AdminProductUsage() {
                             <div className="text-right">
                               <p className="font-semibold">₹{dist.customPrice.toFixed(2)}</p>
                               <p className="text-xs text-muted-foreground">Custom Price</p>
+                              <PriceTiersNote price={dist.customPrice} tiers={dist.priceTiers} />
+                              <NextPriceNote versions={dist.priceVersions} />
                             </div>
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => handleEditPricing(dist.pricingId, dist.customPrice)}
+                              title="Price history"
+                              onClick={() =>
+                                setHistoryTarget({
+                                  title: `${item.product.name} for ${dist.distributorName}`,
+                                  versions: dist.priceVersions,
+                                  standingPrice: dist.customPrice,
+                                  cancelUrl: (versionId) => `/api/admin/products/pricing/${dist.pricingId}/versions/${versionId}`,
+                                })
+                              }
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEditPricing(dist.pricingId, dist.customPrice, dist.priceTiers)}
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
@@ -358,10 +463,10 @@ export default function AdminProductUsage() {
 
         {/* Edit Pricing Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Pricing</DialogTitle>
-              <DialogDescription>Update the custom price for this distributor</DialogDescription>
+              <DialogDescription>Update the custom price for this distributor, now or from a later date</DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
               <div className="space-y-2">
@@ -375,6 +480,13 @@ export default function AdminProductUsage() {
                   onChange={(e) => setEditPrice(parseFloat(e.target.value) || 0)}
                 />
               </div>
+              <PriceTiersField idPrefix="edit-price" rows={editTiers} onChange={setEditTiers} />
+              <PriceScheduleFields
+                idPrefix="edit-price"
+                firstDay={editSchedule.firstDay}
+                lastDay={editSchedule.lastDay}
+                onChange={setEditSchedule}
+              />
             </div>
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -385,6 +497,15 @@ export default function AdminProductUsage() {
           </DialogContent>
         </Dialog>
 
+        <PriceHistoryDialog
+          open={!!historyTarget}
+          onOpenChange={(open) => !open && setHistoryTarget(null)}
+          title={historyTarget?.title || ""}
+          versions={historyTarget?.versions || []}
+          standingPrice={historyTarget?.standingPrice}
+          onCancelVersion={historyTarget?.cancelUrl ? handleCancelPriceChange : undefined}
+        />
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <AlertDialogContent>
@@ -2,19 +2,39 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
 import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { CartItem, loadCart, saveCart } from '@/lib/customer-cart';
+import { describePriceTiers, getTierPrice } from '@/lib/price-tiers';
+import { OrderDiscount } from '@/lib/promotions';
+import OrderDiscountLines from '@/components/OrderDiscountLines';
+import { describeQuantityRules, getQuantityRules, snapQuantity } from '@/lib/quantity-rules';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Loader2, Calendar } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Loader2, Calendar, Tag, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 
-interface CartItem {
-  productId: string;
-  productName: string;
-  quantity: number;
-  price: number;
+interface DeliverySlots {
+  cutoffTime: string | null;
+  slots: Array<{ date: string; remaining: number | null }>;
+}
+
+// The cart priced by the server with the promotions it qualifies for
+interface PromotionPreview {
+  discounts: OrderDiscount[];
+  discountTotal: number;
+  subtotal: number; // After discounts
+  taxTotal: number;
+  totalAmount: number;
+}
+
+interface CustomerCredit {
+  creditLimit: number | null;
+  outstanding: number;
+  available: number | null;
 }
 
 const CustomerCheckout = () => {
@@ -24,39 +44,151 @@ const CustomerCheckout = () => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [desiredDeliveryDate, setDesiredDeliveryDate] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [credit, setCredit] = useState<CustomerCredit | null>(null);
+  const [minimumOrderValue, setMinimumOrderValue] = useState<number | null>(null);
+  const [deliverySlots, setDeliverySlots] = useState<DeliverySlots | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PromotionPreview | null>(null);
 
   useEffect(() => {
-    // Get cart from localStorage or navigate back if empty
-    const savedCart = localStorage.getItem('customerCart');
-    if (savedCart) {
-      setCart(JSON.parse(savedCart));
-    } else {
-      navigate('/customer/products');
-    }
+    if (!user?.token) return;
+    // Only the distributor's delivery days with room left can be picked; the earliest is the default
+    const loadDeliverySlots = async () => {
+      try {
+        const { cachedFetch } = await import('@/lib/cached-fetch');
+        const data = await cachedFetch<DeliverySlots>('/api/customer/delivery-slots', user.token, { skipCache: true });
+        setDeliverySlots(data);
+        setDesiredDeliveryDate(data.slots[0]?.date.split('T')[0] || '');
+      } catch (error) {
+        console.error('Load delivery slots error:', error);
+      }
+    };
+    loadDeliverySlots();
+  }, [user?.token]);
+
+  useEffect(() => {
+    if (!user?.token) return;
+    // Get the cart at today's prices, or navigate back if it's empty
+    const loadCustomerCart = async () => {
+      try {
+        const { items, removed, minimumOrderValue } = await loadCart(user.token);
+        if (items.length === 0) {
+          navigate('/customer/products');
+          return;
+        }
+        setCart(items);
+        setMinimumOrderValue(minimumOrderValue ?? null);
+        if (removed.length > 0) {
+          toast({
+            title: 'Some products were removed from your cart',
+            description: `Not available: ${removed.join(', ')}`,
+          });
+        }
+      } catch (error) {
+        console.error('Load cart error:', error);
+        navigate('/customer/products');
+      }
+    };
+    loadCustomerCart();
+  }, [user?.token]);
+
+  useEffect(() => {
+    if (!user?.token) return;
+    const loadCredit = async () => {
+      try {
+        const res = await fetch(getApiUrl('/api/customer/credit'), {
+          headers: { Authorization: `Bearer ${user.token}` },
+        });
+        if (!res.ok) throw new Error('Failed to load credit');
+        setCredit(await res.json());
+      } catch (error) {
+        console.error('Load credit error:', error);
+      }
+    };
+    loadCredit();
+  }, [user?.token]);
+
+  // Discounts are worked out by the server, the same way the order will be priced
+  useEffect(() => {
+    if (!user?.token || cart.length === 0) return;
+    let cancelled = false;
+    const loadPreview = async () => {
+      try {
+        const res = await fetch(getApiUrl('/api/customer/promotions/preview'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${user.token}`,
+          },
+          body: JSON.stringify({
+            items: cart.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+            couponCode: couponCode || undefined,
+          }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) {
+          setPreview(data);
+        } else if (couponCode) {
+          // The coupon can't be used on this cart; price it without
+          setCouponError(data.message || 'This coupon cannot be used.');
+          setCouponCode('');
+        } else {
+          setPreview(null);
+        }
+      } catch (error) {
+        console.error('Load promotions error:', error);
+      }
+    };
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.token, cart, couponCode]);
 
-    // Set minimum date to today
-    const today = new Date();
-    today.setDate(today.getDate() + 1); // Minimum tomorrow
-    const minDate = today.toISOString().split('T')[0];
-    setDesiredDeliveryDate(minDate);
-  }, [navigate]);
+  const applyCoupon = () => {
+    setCouponError(null);
+    setCouponCode(couponInput.trim().toUpperCase());
+  };
+
+  const removeCoupon = () => {
+    setCouponInput('');
+    setCouponCode('');
+    setCouponError(null);
+  };
+
+  const updateCart = async (updatedCart: CartItem[]) => {
+    setCart(updatedCart);
+    if (!user?.token) return;
+    try {
+      await saveCart(updatedCart, user.token);
+    } catch (error) {
+      console.error('Save cart error:', error);
+      toast({
+        title: 'Failed to save cart',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    }
+  };
 
+  // delta is in steps: +1 adds a pack (or the product's quantity step)
   const updateQuantity = (productId: string, delta: number) => {
     const updatedCart = cart.map((item) => {
       if (item.productId === productId) {
-        const newQuantity = item.quantity + delta;
-        return { ...item, quantity: Math.max(1, newQuantity) };
+        const newQuantity = item.quantity + delta * getQuantityRules(item).step;
+        const max = item.available === undefined || item.available === null ? Infinity : item.available;
+        return { ...item, quantity: snapQuantity(newQuantity, item, max) };
       }
       return item;
     });
-    setCart(updatedCart);
-    localStorage.setItem('customerCart', JSON.stringify(updatedCart));
+    updateCart(updatedCart);
   };
 
   const removeFromCart = (productId: string) => {
-    const updatedCart = cart.filter((item) => item.productId !== productId);
-    setCart(updatedCart);
-    localStorage.setItem('customerCart', JSON.stringify(updatedCart));
+    updateCart(cart.filter((item) => item.productId !== productId));
   };
 
   const handlePlaceOrder = async () => {
@@ -92,6 +224,7 @@ const CustomerCheckout = () => {
             quantity: item.quantity,
           })),
           desiredDeliveryDate,
+          couponCode: couponCode || undefined,
         }),
       });
 
@@ -102,13 +235,14 @@ const CustomerCheckout = () => {
 
       const order = await res.json();
 
-      // Clear cart
-      localStorage.removeItem('customerCart');
+      // The server takes ordered products out of the saved cart
       setCart([]);
 
       toast({
         title: 'Order placed successfully',
-        description: `Order #${order.orderNumber} has been placed.`,
+        description: order.creditHold
+          ? `Order #${order.orderNumber} is over your credit limit and is waiting for your distributor's approval.`
+          : `Order #${order.orderNumber} has been placed.`,
         variant: 'success',
       });
 
@@ -125,7 +259,14 @@ const CustomerCheckout = () => {
     }
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const lineAmount = (item: CartItem) => getTierPrice(item, item.quantity) * item.quantity;
+  const cartSubtotal = cart.reduce((sum, item) => sum + lineAmount(item), 0);
+  // Estimate only: the server applies the same rates (CGST+SGST or IGST add up to the same amount)
+  const estimatedTax = cart.reduce((sum, item) => sum + (lineAmount(item) * (item.gstRate || 0)) / 100, 0);
+  const cartTax = preview ? preview.taxTotal : estimatedTax;
+  const cartTotal = preview ? preview.totalAmount : cartSubtotal + estimatedTax;
+  const belowMinimumValue = minimumOrderValue !== null && cartSubtotal < minimumOrderValue;
+  const exceedsCredit = credit?.available !== null && credit?.available !== undefined && cartTotal > credit.available;
 
   if (cart.length === 0) {
     return (
@@ -171,8 +312,14 @@ const CustomerCheckout = () => {
                     <div className="flex-1">
                       <h3 className="font-medium">{item.productName}</h3>
                       <p className="text-sm text-muted-foreground">
-                        ₹{item.price.toLocaleString('en-IN', { maximumFractionDigits: 2 })} each
+                        ₹{getTierPrice(item, item.quantity).toLocaleString('en-IN', { maximumFractionDigits: 2 })} {item.unit ? `per ${item.unit}` : 'each'}
                       </p>
+                      {describeQuantityRules(item) && (
+                        <p className="text-xs text-muted-foreground">{describeQuantityRules(item)}</p>
+                      )}
+                      {describePriceTiers(item) && (
+                        <p className="text-xs text-muted-foreground">{describePriceTiers(item)}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-4">
                       <div className="flex items-center gap-2 border rounded-md">
@@ -184,7 +331,7 @@ const CustomerCheckout = () => {
                         >
                           -
                         </Button>
-                        <span className="w-8 text-center font-medium">{item.quantity}</span>
+                        <span className="w-10 text-center font-medium">{item.quantity}</span>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -195,7 +342,7 @@ const CustomerCheckout = () => {
                         </Button>
                       </div>
                       <p className="font-medium w-24 text-right">
-                        ₹{(item.price * item.quantity).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                        ₹{lineAmount(item).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
                       </p>
                       <Button
                         variant="ghost"
@@ -222,20 +369,73 @@ const CustomerCheckout = () => {
                     <Calendar className="h-4 w-4" />
                     Desired Delivery Date
                   </Label>
-                  <Input
-                    id="deliveryDate"
-                    type="date"
-                    value={desiredDeliveryDate}
-                    onChange={(e) => setDesiredDeliveryDate(e.target.value)}
-                    min={new Date(Date.now() + 86400000).toISOString().split('T')[0]}
-                  />
+                  <Select value={desiredDeliveryDate} onValueChange={setDesiredDeliveryDate}>
+                    <SelectTrigger id="deliveryDate">
+                      <SelectValue placeholder={deliverySlots ? 'No delivery dates available' : 'Loading delivery dates...'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {deliverySlots?.slots.map((slot) => (
+                        <SelectItem key={slot.date} value={slot.date.split('T')[0]}>
+                          {new Date(slot.date).toLocaleDateString('en-IN', {
+                            weekday: 'short',
+                            day: 'numeric',
+                            month: 'short',
+                            timeZone: 'UTC',
+                          })}
+                          {slot.remaining !== null && slot.remaining <= 3 ? ` · ${slot.remaining} left` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {deliverySlots?.cutoffTime && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Order by {deliverySlots.cutoffTime} for next-day delivery
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="couponCode" className="flex items-center gap-2 mb-2">
+                    <Tag className="h-4 w-4" />
+                    Coupon Code
+                  </Label>
+                  {couponCode ? (
+                    <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                      <span className="font-mono">{couponCode}</span>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={removeCoupon} title="Remove coupon">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        id="couponCode"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && couponInput.trim() && applyCoupon()}
+                        placeholder="Enter code"
+                        className="uppercase"
+                      />
+                      <Button variant="outline" onClick={applyCoupon} disabled={!couponInput.trim()}>
+                        Apply
+                      </Button>
+                    </div>
+                  )}
+                  {couponError && <p className="text-xs text-destructive mt-1">{couponError}</p>}
                 </div>
 
                 <div className="pt-4 border-t">
                   <div className="flex justify-between mb-2">
                     <span className="text-muted-foreground">Subtotal</span>
                     <span className="font-medium">
-                      ₹{cartTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                      ₹{cartSubtotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                  <OrderDiscountLines discounts={preview?.discounts} className="mb-2" />
+                  <div className="flex justify-between mb-2">
+                    <span className="text-muted-foreground">GST</span>
+                    <span className="font-medium">
+                      ₹{cartTax.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
                     </span>
                   </div>
                   <div className="flex justify-between text-lg font-semibold pt-2 border-t">
@@ -244,10 +444,41 @@ const CustomerCheckout = () => {
                   </div>
                 </div>
 
+                {belowMinimumValue && (
+                  <p className="pt-4 border-t text-sm text-destructive">
+                    Your distributor's minimum order is ₹{minimumOrderValue.toLocaleString('en-IN', { maximumFractionDigits: 2 })} before GST.
+                    Add ₹{(minimumOrderValue - cartSubtotal).toLocaleString('en-IN', { maximumFractionDigits: 2 })} more to place this order.
+                  </p>
+                )}
+
+                {credit && credit.creditLimit !== null && credit.available !== null && (
+                  <div className="pt-4 border-t space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Credit limit</span>
+                      <span>₹{credit.creditLimit.toLocaleString('en-IN', { maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Outstanding</span>
+                      <span>₹{credit.outstanding.toLocaleString('en-IN', { maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span>Remaining credit</span>
+                      <span className={exceedsCredit ? 'text-destructive' : ''}>
+                        ₹{Math.max(credit.available, 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                      </span>
+                    </div>
+                    {exceedsCredit && (
+                      <p className="text-destructive pt-1">
+                        This order exceeds your remaining credit. It will be placed on hold until your distributor approves it.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <Button
                   className="w-full"
                   onClick={handlePlaceOrder}
-                  disabled={loading || !desiredDeliveryDate}
+                  disabled={loading || !desiredDeliveryDate || belowMinimumValue}
                 >
                   {loading ? (
                     <>
@@ -1,16 +1,23 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
-import { getApiUrl } from '@/lib/api';
+import { getApiUrl, downloadFile } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { buildCartFromLines, saveCart } from '@/lib/customer-cart';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Loader2, Package, Calendar, CheckCircle, Truck, DollarSign } from 'lucide-react';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, Loader2, Package, Calendar, CheckCircle, Truck, DollarSign, History, XCircle, FileText, RotateCcw, Pencil, Repeat } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import OrderTimeline, { OrderStatusEvent } from '@/components/OrderTimeline';
+import CancelOrderDialog from '@/components/CancelOrderDialog';
+import EditOrderDialog, { OrderEdit } from '@/components/EditOrderDialog';
+import OrderDiscountLines from '@/components/OrderDiscountLines';
+import { OrderDiscount } from '@/lib/promotions';
+import PaymentDialog from '@/components/PaymentDialog';
+import ReturnRequestDialog from '@/components/ReturnRequestDialog';
+import StandingOrdersCard from '@/components/StandingOrdersCard';
 
 interface OrderItem {
   productId: {
@@ -26,14 +33,25 @@ interface Order {
   _id: string;
   orderNumber: string;
   items: OrderItem[];
+  subtotal?: number;
+  discounts?: OrderDiscount[];
+  taxTotal?: number;
+  taxType?: 'intra-state' | 'inter-state';
   totalAmount: number;
   status: string;
+  statusHistory?: OrderStatusEvent[];
+  editHistory?: OrderEdit[];
   desiredDeliveryDate: string;
   currentDeliveryDate: string;
   createdAt: string;
   markedForToday?: boolean;
+  sentToAdmin?: boolean;
   receivedAt?: string;
+  cancelledAt?: string;
+  cancelReason?: string;
+  creditHold?: boolean;
   amountPaid?: number;
+  creditedAmount?: number;
   paymentStatus?: string;
 }
 
@@ -45,8 +63,13 @@ const CustomerOrders = () => {
   const [loading, setLoading] = useState(true);
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const [paymentAmount, setPaymentAmount] = useState<string>('');
-  const [updatingPayment, setUpdatingPayment] = useState(false);
+  const [expandedTimelines, setExpandedTimelines] = useState<Set<string>>(new Set());
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [orderToEdit, setOrderToEdit] = useState<Order | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [reordering, setReordering] = useState<string | null>(null);
 
   useEffect(() => {
     if (!user?.token) return;
@@ -84,6 +107,18 @@ const CustomerOrders = () => {
     return <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>;
   };
 
+  const toggleTimeline = (orderId: string) => {
+    setExpandedTimelines((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' });
@@ -106,7 +141,7 @@ const CustomerOrders = () => {
 
       toast({
         title: 'Order marked as received',
-        description: 'Please update the payment amount.',
+        description: 'You can now record your payment.',
         variant: 'success',
       });
 
@@ -115,7 +150,6 @@ const CustomerOrders = () => {
       // Open payment dialog
       const updatedOrder = await res.json();
       setSelectedOrder(updatedOrder);
-      setPaymentAmount(updatedOrder.amountPaid?.toString() || '');
       setShowPaymentDialog(true);
     } catch (error: any) {
       console.error('Mark received error:', error);
@@ -127,53 +161,98 @@ const CustomerOrders = () => {
     }
   };
 
-  const handleUpdatePayment = async () => {
-    if (!user?.token || !selectedOrder) return;
-    const amount = parseFloat(paymentAmount);
-    if (isNaN(amount) || amount < 0) {
+  const canCancel = (order: Order) =>
+    (order.status === 'pending' || order.status === 'processing') && !order.sentToAdmin;
+
+  const handleDownloadInvoice = async (order: Order) => {
+    if (!user?.token) return;
+    try {
+      setDownloadingInvoice(order._id);
+      await downloadFile(`/api/orders/${order._id}/invoice`, user.token, `invoice-${order.orderNumber}.pdf`);
+    } catch (error) {
+      console.error('Download invoice error:', error);
       toast({
-        title: 'Invalid amount',
-        description: 'Please enter a valid payment amount.',
+        title: 'Failed to download invoice',
+        description: getErrorMessage(error, 'Please try again.'),
         variant: 'destructive',
       });
-      return;
+    } finally {
+      setDownloadingInvoice(null);
     }
+  };
 
+  // Put the lines of a past order in the cart at today's prices and go to checkout
+  const handleReorder = async (order: Order) => {
+    if (!user?.token) return;
     try {
-      setUpdatingPayment(true);
-      const res = await fetch(getApiUrl(`/api/customer/orders/${selectedOrder._id}/payment`), {
-        method: 'PUT',
+      setReordering(order._id);
+      const { cart, skipped } = await buildCartFromLines(
+        order.items.map((item) => ({
+          productId: item.productId._id,
+          productName: item.productId.name,
+          quantity: item.quantity,
+        })),
+        user.token
+      );
+      if (cart.length === 0) {
+        throw new Error('None of the products in this order are available right now.');
+      }
+
+      await saveCart(cart, user.token);
+      if (skipped.length > 0) {
+        toast({
+          title: 'Some products were left out',
+          description: `Not available: ${skipped.join(', ')}`,
+        });
+      }
+      navigate('/customer/checkout');
+    } catch (error) {
+      console.error('Reorder error:', error);
+      toast({
+        title: 'Failed to reorder',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setReordering(null);
+    }
+  };
+
+  const handleCancelOrder = async (reason: string) => {
+    if (!user?.token || !orderToCancel) return;
+    try {
+      setCancelling(true);
+      const res = await fetch(getApiUrl(`/api/orders/${orderToCancel._id}/cancel`), {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${user.token}`,
         },
-        body: JSON.stringify({ amountPaid: amount }),
+        body: JSON.stringify({ reason }),
       });
 
       if (!res.ok) {
         const error = await res.json();
-        throw new Error(error.message || 'Failed to update payment');
+        throw new Error(error.message || 'Failed to cancel order');
       }
 
       toast({
-        title: 'Payment updated',
-        description: `Payment amount of ₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })} has been recorded.`,
+        title: 'Order cancelled',
+        description: `Order #${orderToCancel.orderNumber} has been cancelled.`,
         variant: 'success',
       });
 
-      setShowPaymentDialog(false);
-      setSelectedOrder(null);
-      setPaymentAmount('');
+      setOrderToCancel(null);
       await loadOrders();
     } catch (error: any) {
-      console.error('Update payment error:', error);
+      console.error('Cancel order error:', error);
       toast({
-        title: 'Failed to update payment',
+        title: 'Failed to cancel order',
         description: error.message || 'Please try again.',
         variant: 'destructive',
       });
     } finally {
-      setUpdatingPayment(false);
+      setCancelling(false);
     }
   };
 
@@ -196,6 +275,8 @@ const CustomerOrders = () => {
           </div>
         </div>
 
+        <StandingOrdersCard token={user?.token} onChange={loadOrders} />
+
         {loading ? (
           <div className="flex items-center justify-center min-h-[60vh]">
             <div className="flex flex-col items-center gap-4">
@@ -225,7 +306,12 @@ const CustomerOrders = () => {
                         Placed on {formatDate(order.createdAt)}
                       </CardDescription>
                     </div>
-                    {getStatusBadge(order.status)}
+                    <div className="flex flex-col items-end gap-1">
+                      {getStatusBadge(order.status)}
+                      {order.creditHold && (
+                        <Badge variant="outline">Awaiting credit approval</Badge>
+                      )}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -273,7 +359,7 @@ const CustomerOrders = () => {
                           </div>
                         )}
                       </div>
-                      {order.markedForToday && !order.receivedAt && (
+                      {order.markedForToday && !order.receivedAt && order.status !== 'cancelled' && (
                         <div className="flex items-center gap-2 text-sm">
                           <Truck className="h-4 w-4 text-primary" />
                           <Badge variant="default">In Transit</Badge>
@@ -282,26 +368,66 @@ const CustomerOrders = () => {
                     </div>
                     <div className="flex items-center justify-between">
                       <div className="text-right flex-1">
+                        <OrderDiscountLines discounts={order.discounts} className="mb-2 ml-auto w-fit" />
                         <p className="text-sm text-muted-foreground">Total Amount</p>
                         <p className="text-2xl font-serif font-semibold">
                           ₹{order.totalAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
                         </p>
+                        {!!order.taxTotal && (
+                          <p className="text-xs text-muted-foreground">
+                            incl. ₹{order.taxTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })}{' '}
+                            {order.taxType === 'inter-state' ? 'IGST' : 'CGST + SGST'}
+                          </p>
+                        )}
                         {order.amountPaid !== undefined && order.amountPaid !== null && (
                           <div className="mt-2">
                             <p className="text-sm text-muted-foreground">Amount Paid</p>
                             <p className="text-lg font-semibold text-primary">
                               ₹{order.amountPaid.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
                             </p>
-                            {order.amountPaid < order.totalAmount && (
+                            {order.amountPaid < order.totalAmount - (order.creditedAmount || 0) && (
                               <p className="text-xs text-muted-foreground">
-                                Remaining: ₹{(order.totalAmount - order.amountPaid).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                                Remaining: ₹{(order.totalAmount - (order.creditedAmount || 0) - order.amountPaid).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
                               </p>
                             )}
                           </div>
                         )}
                       </div>
                     </div>
-                    {!order.receivedAt && order.markedForToday && (
+                    {order.status === 'cancelled' && (
+                      <div className="flex items-start gap-2 p-3 border border-destructive/30 rounded-lg text-sm">
+                        <XCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                        <div>
+                          <p className="font-medium">
+                            Cancelled{order.cancelledAt ? ` on ${formatDate(order.cancelledAt)}` : ''}
+                          </p>
+                          {order.cancelReason && (
+                            <p className="text-muted-foreground">Reason: {order.cancelReason}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {canCancel(order) && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setOrderToEdit(order)}
+                        className="w-full"
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit Order
+                      </Button>
+                    )}
+                    {canCancel(order) && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setOrderToCancel(order)}
+                        className="w-full text-destructive"
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel Order
+                      </Button>
+                    )}
+                    {!order.receivedAt && (order.status === 'shipped' || (order.status === 'processing' && order.markedForToday)) && (
                       <Button
                         onClick={() => handleMarkReceived(order._id)}
                         className="w-full"
@@ -320,13 +446,70 @@ const CustomerOrders = () => {
                           variant="outline"
                           onClick={() => {
                             setSelectedOrder(order);
-                            setPaymentAmount(order.amountPaid?.toString() || '');
                             setShowPaymentDialog(true);
                           }}
                           className="w-full"
                         >
-                          {order.amountPaid ? 'Update Payment' : 'Enter Payment Amount'}
+                          <DollarSign className="mr-2 h-4 w-4" />
+                          {order.paymentStatus === 'paid' ? 'View Payments' : 'Record Payment'}
                         </Button>
+                        {order.status === 'delivered' && (
+                          <Button
+                            variant="outline"
+                            onClick={() => handleDownloadInvoice(order)}
+                            disabled={downloadingInvoice === order._id}
+                            className="w-full"
+                          >
+                            {downloadingInvoice === order._id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <FileText className="mr-2 h-4 w-4" />
+                            )}
+                            Download Invoice
+                          </Button>
+                        )}
+                        {order.status === 'delivered' && (
+                          <Button
+                            variant="outline"
+                            onClick={() => setReturnOrder(order)}
+                            className="w-full"
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Return Items
+                          </Button>
+                        )}
+                        {!!order.creditedAmount && (
+                          <p className="text-xs text-center text-muted-foreground">
+                            ₹{order.creditedAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })} credited for returned goods
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => handleReorder(order)}
+                      disabled={reordering === order._id}
+                      className="w-full"
+                    >
+                      {reordering === order._id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Repeat className="mr-2 h-4 w-4" />
+                      )}
+                      Reorder
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleTimeline(order._id)}
+                      className="w-full"
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      {expandedTimelines.has(order._id) ? 'Hide Timeline' : 'Show Timeline'}
+                    </Button>
+                    {expandedTimelines.has(order._id) && (
+                      <div className="p-3 border rounded-lg">
+                        <OrderTimeline history={order.statusHistory} />
                       </div>
                     )}
                   </div>
@@ -336,59 +519,41 @@ const CustomerOrders = () => {
           </div>
         )}
 
-        <Dialog open={showPaymentDialog} onOpenChange={setShowPaymentDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Update Payment Amount</DialogTitle>
-              <DialogDescription>
-                Enter the amount you paid for this order. This will update the revenue calculation.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              {selectedOrder && (
-                <div className="space-y-2">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Order Total:</p>
-                    <p className="text-lg font-semibold">
-                      ₹{selectedOrder.totalAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
-                    </p>
-                  </div>
-                  <div>
-                    <Label htmlFor="paymentAmount">Amount Paid (₹)</Label>
-                    <Input
-                      id="paymentAmount"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      max={selectedOrder.totalAmount}
-                      value={paymentAmount}
-                      onChange={(e) => setPaymentAmount(e.target.value)}
-                      placeholder="Enter payment amount"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Enter 0 if not paid yet, or partial amount if partially paid.
-                    </p>
-                  </div>
-                </div>
-              )}
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setShowPaymentDialog(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleUpdatePayment} disabled={updatingPayment || !paymentAmount}>
-                {updatingPayment ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Updating...
-                  </>
-                ) : (
-                  'Update Payment'
-                )}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        <CancelOrderDialog
+          open={!!orderToCancel}
+          onOpenChange={(open) => !open && setOrderToCancel(null)}
+          orderNumber={orderToCancel?.orderNumber}
+          cancelling={cancelling}
+          onConfirm={handleCancelOrder}
+        />
+
+        <EditOrderDialog
+          open={!!orderToEdit}
+          onOpenChange={(open) => !open && setOrderToEdit(null)}
+          order={orderToEdit}
+          token={user?.token}
+          productsUrl="/api/customer/products"
+          onSaved={loadOrders}
+        />
+
+        <PaymentDialog
+          open={showPaymentDialog}
+          onOpenChange={(open) => {
+            setShowPaymentDialog(open);
+            if (!open) setSelectedOrder(null);
+          }}
+          order={selectedOrder}
+          token={user?.token}
+          onRecorded={loadOrders}
+        />
+
+        <ReturnRequestDialog
+          open={!!returnOrder}
+          onOpenChange={(open) => !open && setReturnOrder(null)}
+          order={returnOrder}
+          token={user?.token}
+          onChange={loadOrders}
+        />
       </main>
     </div>
   );
@@ -1,28 +1,29 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
-import { getApiUrl } from '@/lib/api';
+import { CartItem, loadCart, saveCart } from '@/lib/customer-cart';
+import { PriceTier, describePriceTiers, getTierPrice } from '@/lib/price-tiers';
+import { QuantityRuleFields, describeQuantityRules, getQuantityRules, snapQuantity } from '@/lib/quantity-rules';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ShoppingCart, Plus, Minus, Loader2, ArrowLeft } from 'lucide-react';
+import { ShoppingCart, Plus, Minus, Loader2, ArrowLeft, BookmarkPlus } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import OrderTemplatesDialog from '@/components/OrderTemplatesDialog';
+import { getErrorMessage } from '@/lib/utils';
 
-interface Product {
+interface Product extends QuantityRuleFields {
   _id: string;
   name: string;
   description?: string;
   price: number;
+  priceTiers?: PriceTier[]; // Volume prices, e.g. less per unit from 10 units up
   imageUrl?: string;
+  gstRate?: number;
   hasCustomPrice: boolean;
-}
-
-interface CartItem {
-  productId: string;
-  productName: string;
-  quantity: number;
-  price: number;
+  available?: number | null; // null when the product's stock isn't tracked
 }
 
 const CustomerProducts = () => {
@@ -32,12 +33,68 @@ const CustomerProducts = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const unsavedCart = useRef<{ cart: CartItem[]; token: string } | null>(null);
 
   useEffect(() => {
     if (!user?.token) return;
     loadProducts();
+    loadCustomerCart();
   }, [user?.token]);
 
+  const loadCustomerCart = async () => {
+    if (!user?.token) return;
+    try {
+      const { items, removed } = await loadCart(user.token);
+      setCart(items);
+      if (removed.length > 0) {
+        toast({
+          title: 'Some products were removed from your cart',
+          description: `Not available: ${removed.join(', ')}`,
+        });
+      }
+    } catch (error) {
+      console.error('Load cart error:', error);
+    }
+  };
+
+  const flushCart = async () => {
+    clearTimeout(saveTimer.current);
+    const pending = unsavedCart.current;
+    if (!pending) return;
+    unsavedCart.current = null;
+    try {
+      await saveCart(pending.cart, pending.token);
+    } catch (error) {
+      console.error('Save cart error:', error);
+      toast({
+        title: 'Failed to save cart',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Update the cart straight away and save it to the server once the customer stops changing it
+  const updateCart = (updatedCart: CartItem[]) => {
+    setCart(updatedCart);
+    if (!user?.token) return;
+    unsavedCart.current = { cart: updatedCart, token: user.token };
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(flushCart, 500);
+  };
+
+  // Don't lose changes made just before leaving the page
+  useEffect(() => () => {
+    flushCart();
+  }, []);
+
+  const goToCheckout = async () => {
+    await flushCart();
+    navigate('/customer/checkout');
+  };
+
   const loadProducts = async () => {
     if (!user?.token) return;
     try {
@@ -57,25 +114,38 @@ const CustomerProducts = () => {
     }
   };
 
+  // Cart quantities follow each product's pack size and minimum, capped at the stock available
+  // when the products were loaded; the server re-checks both when the order is placed
+  const getMaxQuantity = (productId: string) => {
+    const available = products.find((product) => product._id === productId)?.available;
+    return available === undefined || available === null ? Infinity : available;
+  };
+
   const addToCart = (product: Product) => {
     const existingItem = cart.find((item) => item.productId === product._id);
     let updatedCart: CartItem[];
     if (existingItem) {
       updatedCart = cart.map((item) =>
         item.productId === product._id
-          ? { ...item, quantity: item.quantity + 1 }
+          ? { ...item, quantity: snapQuantity(item.quantity + getQuantityRules(product).step, product, getMaxQuantity(product._id)) }
           : item
       );
     } else {
       updatedCart = [...cart, {
         productId: product._id,
         productName: product.name,
-        quantity: 1,
+        quantity: snapQuantity(1, product, getMaxQuantity(product._id)),
         price: product.price,
+        priceTiers: product.priceTiers,
+        gstRate: product.gstRate,
+        available: product.available,
+        unit: product.unit,
+        packSize: product.packSize,
+        minOrderQuantity: product.minOrderQuantity,
+        quantityStep: product.quantityStep,
       }];
     }
-    setCart(updatedCart);
-    localStorage.setItem('customerCart', JSON.stringify(updatedCart));
+    updateCart(updatedCart);
     toast({
       title: 'Added to cart',
       description: `${product.name} added to cart`,
@@ -83,36 +153,39 @@ const CustomerProducts = () => {
     });
   };
 
+  // delta is in steps: +1 adds a pack (or the product's quantity step)
   const updateQuantity = (productId: string, delta: number) => {
     const updatedCart = cart.map((item) => {
       if (item.productId === productId) {
-        const newQuantity = item.quantity + delta;
-        return { ...item, quantity: Math.max(1, newQuantity) };
+        const newQuantity = item.quantity + delta * getQuantityRules(item).step;
+        return { ...item, quantity: snapQuantity(newQuantity, item, getMaxQuantity(productId)) };
       }
       return item;
     });
-    setCart(updatedCart);
-    localStorage.setItem('customerCart', JSON.stringify(updatedCart));
+    updateCart(updatedCart);
   };
 
-  const setQuantity = (productId: string, quantity: number) => {
+  // While typing the quantity is only kept in range; it is fitted to the pack size once the field loses focus
+  const setQuantity = (productId: string, quantity: number, snap = true) => {
     const numQuantity = parseInt(quantity.toString()) || 1;
-    const finalQuantity = Math.max(1, numQuantity);
     const updatedCart = cart.map((item) => {
       if (item.productId === productId) {
-        return { ...item, quantity: finalQuantity };
+        const max = getMaxQuantity(productId);
+        return {
+          ...item,
+          quantity: snap ? snapQuantity(numQuantity, item, max) : Math.max(1, Math.min(numQuantity, max)),
+        };
       }
       return item;
     });
-    setCart(updatedCart);
-    localStorage.setItem('customerCart', JSON.stringify(updatedCart));
+    updateCart(updatedCart);
   };
 
   const removeFromCart = (productId: string) => {
-    setCart(cart.filter((item) => item.productId !== productId));
+    updateCart(cart.filter((item) => item.productId !== productId));
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const cartTotal = cart.reduce((sum, item) => sum + getTierPrice(item, item.quantity) * item.quantity, 0);
   const cartItemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
 
   return (
@@ -131,19 +204,25 @@ const CustomerProducts = () => {
             </Button>
             <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight">Browse Products</h1>
           </div>
-          <Button
-            onClick={() => navigate('/customer/checkout')}
-            disabled={cart.length === 0}
-            className="relative"
-          >
-            <ShoppingCart className="mr-2 h-4 w-4" />
-            Cart ({cartItemCount})
-            {cart.length > 0 && (
-              <span className="ml-2 px-2 py-0.5 bg-primary-foreground text-primary text-xs rounded-full">
-                ₹{cartTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
-              </span>
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowTemplates(true)}>
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              Templates
+            </Button>
+            <Button
+              onClick={goToCheckout}
+              disabled={cart.length === 0}
+              className="relative"
+            >
+              <ShoppingCart className="mr-2 h-4 w-4" />
+              Cart ({cartItemCount})
+              {cart.length > 0 && (
+                <span className="ml-2 px-2 py-0.5 bg-primary-foreground text-primary text-xs rounded-full">
+                  ₹{cartTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                </span>
+              )}
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -161,6 +240,8 @@ const CustomerProducts = () => {
           <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {products.map((product) => {
               const cartItem = cart.find((item) => item.productId === product._id);
+              const outOfStock = product.available === 0;
+              const belowMinimum = getMaxQuantity(product._id) < getQuantityRules(product).min;
               return (
                 <Card key={product._id} className="hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl overflow-hidden">
                   {product.imageUrl && (
@@ -185,11 +266,26 @@ const CustomerProducts = () => {
                       <div>
                         <p className="text-2xl font-serif font-medium">
                           ₹{product.price.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                          {product.unit && <span className="text-sm text-muted-foreground"> / {product.unit}</span>}
                         </p>
+                        {!!product.gstRate && (
+                          <p className="text-xs text-muted-foreground">+ {product.gstRate}% GST</p>
+                        )}
+                        {describeQuantityRules(product) && (
+                          <p className="text-xs text-muted-foreground">{describeQuantityRules(product)}</p>
+                        )}
+                        {describePriceTiers(product) && (
+                          <p className="text-xs font-medium text-primary">{describePriceTiers(product)}</p>
+                        )}
                         {product.hasCustomPrice && (
                           <p className="text-xs text-muted-foreground">Custom price</p>
                         )}
                       </div>
+                      {product.available !== undefined && product.available !== null && (
+                        <Badge variant={outOfStock ? 'destructive' : 'secondary'}>
+                          {outOfStock ? 'Out of stock' : `${product.available} in stock`}
+                        </Badge>
+                      )}
                     </div>
                     {cartItem ? (
                       <div className="flex items-center justify-between gap-2">
@@ -204,9 +300,10 @@ const CustomerProducts = () => {
                           </Button>
                           <Input
                             type="number"
-                            min="1"
+                            min={getQuantityRules(product).min}
+                            step={getQuantityRules(product).step}
                             value={cartItem.quantity}
-                            onChange={(e) => setQuantity(product._id, parseInt(e.target.value) || 1)}
+                            onChange={(e) => setQuantity(product._id, parseInt(e.target.value) || 1, false)}
                             className="w-16 h-8 text-center border-0 focus-visible:ring-0 focus-visible:ring-offset-0 px-2"
                             onBlur={(e) => {
                               const value = parseInt(e.target.value) || 1;
@@ -218,6 +315,7 @@ const CustomerProducts = () => {
                             size="icon"
                             className="h-8 w-8"
                             onClick={() => updateQuantity(product._id, 1)}
+                            disabled={cartItem.quantity + getQuantityRules(product).step > getMaxQuantity(product._id)}
                           >
                             <Plus className="h-4 w-4" />
                           </Button>
@@ -234,9 +332,10 @@ const CustomerProducts = () => {
                       <Button
                         className="w-full"
                         onClick={() => addToCart(product)}
+                        disabled={belowMinimum}
                       >
                         <ShoppingCart className="mr-2 h-4 w-4" />
-                        Add to Cart
+                        {outOfStock ? 'Out of Stock' : belowMinimum ? 'Below Minimum Order' : 'Add to Cart'}
                       </Button>
                     )}
                   </CardContent>
@@ -245,6 +344,14 @@ const CustomerProducts = () => {
             })}
           </div>
         )}
+
+        <OrderTemplatesDialog
+          open={showTemplates}
+          onOpenChange={setShowTemplates}
+          token={user?.token}
+          cart={cart}
+          onLoad={updateCart}
+        />
       </main>
     </div>
   );
@@ -21,7 +21,10 @@ import {
   ChevronRight,
   Loader2,
   Filter,
-  Info
+  Info,
+  Wallet,
+  Route,
+  Tag
 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
@@ -408,6 +411,13 @@ const AdminDashboard = () => {
             onClick={() => navigate('/product-management')}
             infoText="Review and approve products submitted by distributors"
           />
+          <DashboardCard
+            title="Receivables"
+            description="Outstanding customer balances"
+            icon={<Wallet size={20} className="text-primary" />}
+            onClick={() => navigate('/receivables')}
+            infoText="See how much each customer owes, aged by days since delivery"
+          />
           {/* Revenue - Fourth for Super Admin */}
           <Card className="h-full flex flex-col min-h-[110px] md:min-h-0 hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-gradient-to-br from-white/95 to-white/50 dark:from-black/95 dark:to-black/50 backdrop-blur-xl border border-white/40 dark:border-white/20 shadow-xl group">
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -797,6 +807,22 @@ const AdminDashboard = () => {
             infoText="Manage user accounts, roles, and permissions"
           />
 
+          <DashboardCard
+            title="Receivables"
+            description="Outstanding customer balances"
+            icon={<Wallet size={20} className="text-primary" />}
+            onClick={() => navigate('/receivables')}
+            infoText="See how much each customer owes, aged by days since delivery"
+          />
+
+          <DashboardCard
+            title="Promotions"
+            description="Discounts and coupon codes"
+            icon={<Tag size={20} className="text-primary" />}
+            onClick={() => navigate('/promotions')}
+            infoText="Run percentage, flat and buy-x-get-y offers, with or without a coupon code"
+          />
+
           {/* 2. Revenue - Second for Regular Admin */}
           <Card className="h-full flex flex-col min-h-[140px] hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-gradient-to-br from-white/95 to-white/50 dark:from-black/95 dark:to-black/50 backdrop-blur-xl border border-white/40 dark:border-white/20 shadow-xl group">
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -1351,6 +1377,13 @@ const DistributorDashboard = () => {
           onClick={() => navigate('/distributor/transit')}
           infoText="View shipments currently in transit to customers"
         />
+        <DashboardCard
+          title="Dispatch"
+          description="Routes and delivery manifest"
+          icon={<Route size={20} className="text-primary" />}
+          onClick={() => navigate('/distributor/dispatch')}
+          infoText="Plan the day's delivery routes and print a pick list and manifest for the driver"
+        />
         <DashboardCard
           title="Customer Management"
           description="Add, edit, and delete customers"
@@ -1365,6 +1398,20 @@ const DistributorDashboard = () => {
           onClick={() => navigate('/distributor/pricing')}
           infoText="Set and manage custom pricing for individual customers"
         />
+        <DashboardCard
+          title="Receivables"
+          description="Outstanding customer balances"
+          icon={<Wallet size={20} className="text-primary" />}
+          onClick={() => navigate('/receivables')}
+          infoText="See how much each customer owes, aged by days since delivery"
+        />
+        <DashboardCard
+          title="Promotions"
+          description="Discounts and coupon codes"
+          icon={<Tag size={20} className="text-primary" />}
+          onClick={() => navigate('/promotions')}
+          infoText="Run percentage, flat and buy-x-get-y offers, with or without a coupon code"
+        />
       </div>
 
       <div className="grid md:grid-cols-2 gap-3 md:gap-4">
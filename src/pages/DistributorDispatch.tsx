@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowLeft, ArrowUp, ClipboardList, Loader2, MapPin, Printer, Route, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNavigate } from 'react-router-dom';
+
+interface DispatchItem {
+  productId?: string;
+  name: string;
+  unit?: string;
+  quantity: number;
+}
+
+interface DispatchAddress {
+  address1?: string;
+  address2?: string;
+  city?: string;
+  district?: string;
+  state?: string;
+  pin?: string;
+}
+
+interface DispatchStop {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  customer: { name?: string; businessName?: string; mobileNo?: string; address?: DispatchAddress };
+  items: DispatchItem[];
+  totalAmount: number;
+  amountToCollect: number;
+}
+
+interface DispatchRoute {
+  key: string;
+  city?: string;
+  district?: string;
+  pin?: string;
+  stops: DispatchStop[];
+}
+
+interface DispatchManifest {
+  date: string;
+  routes: DispatchRoute[];
+  pickList: DispatchItem[];
+  totals: { stops: number; amountToCollect: number };
+}
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (item: DispatchItem) => `${item.quantity}${item.unit ? ` ${item.unit}` : ''}`;
+
+const describeRoute = (route: DispatchRoute) =>
+  [route.city, route.district, route.pin].filter(Boolean).join(', ') || 'No address';
+
+const formatAddress = (address?: DispatchAddress) =>
+  [address?.address1, address?.address2, address?.city, address?.district, address?.state, address?.pin].filter(Boolean).join(', ');
+
+// Swap an entry with its neighbour, leaving the list unchanged at either end
+const move = <T,>(list: T[], index: number, delta: number) => {
+  const target = index + delta;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// A day's delivery run: orders grouped into routes by customer location, with the stops in the
+// order the distributor sets, a pick list for loading and a printable manifest for the driver
+const DistributorDispatch = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [manifest, setManifest] = useState<DispatchManifest | null>(null);
+  const [routes, setRoutes] = useState<DispatchRoute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!user?.token || !date) return;
+    loadManifest();
+  }, [user?.token, date]);
+
+  const loadManifest = async () => {
+    if (!user?.token) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<DispatchManifest>(`/api/distributor/dispatch?date=${date}`, user.token, {
+        skipCache: true,
+      });
+      setManifest(data);
+      setRoutes(data.routes);
+      setDirty(false);
+    } catch (error) {
+      console.error('Load dispatch manifest error:', error);
+      toast({
+        title: 'Failed to load dispatch',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveRoute = (routeIndex: number, delta: number) => {
+    setRoutes((prev) => move(prev, routeIndex, delta));
+    setDirty(true);
+  };
+
+  const moveStop = (routeIndex: number, stopIndex: number, delta: number) => {
+    setRoutes((prev) =>
+      prev.map((route, i) => (i === routeIndex ? { ...route, stops: move(route.stops, stopIndex, delta) } : route))
+    );
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!user?.token) return;
+    try {
+      setSaving(true);
+      const res = await fetch(getApiUrl('/api/distributor/dispatch'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({
+          date,
+          stops: routes.flatMap((route) => route.stops.map((stop) => stop.orderId)),
+        }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to save stop order');
+      }
+
+      toast({ title: 'Stop order saved', variant: 'success' });
+      setDirty(false);
+    } catch (error) {
+      console.error('Save dispatch plan error:', error);
+      toast({
+        title: 'Failed to save stop order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <div className="print:hidden">
+        <Header />
+      </div>
+      <main className="container mx-auto px-4 md:px-6 pt-24 md:pt-28 pb-12 relative z-10 print:pt-0">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate('/dashboard')}
+          className="mb-6 rounded-full print:hidden"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+
+        <div className="mb-4 md:mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 flex items-center gap-2 tracking-tight">
+              <Route className="h-6 w-6 md:h-8 md:w-8 text-primary shrink-0" />
+              Dispatch
+              <span className="hidden print:inline">
+                {' '}
+                ·{' '}
+                {new Date(date).toLocaleDateString('en-IN', {
+                  weekday: 'short',
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric',
+                  timeZone: 'UTC',
+                })}
+              </span>
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base print:hidden">
+              Open orders due for delivery on the day, grouped into routes by customer location
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2 print:hidden">
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-44" />
+            <Button variant="outline" onClick={handleSave} disabled={saving || !dirty}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Stop Order
+            </Button>
+            <Button onClick={() => window.print()} disabled={routes.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Manifest
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center min-h-[40vh]">
+            <div className="flex flex-col items-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-sm text-muted-foreground">Loading dispatch...</p>
+            </div>
+          </div>
+        ) : routes.length === 0 ? (
+          <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No open orders are due for delivery on this day
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 md:gap-4 mb-6">
+              <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+                <CardHeader className="pb-2">
+                  <CardDescription>Routes</CardDescription>
+                  <CardTitle className="text-xl md:text-2xl">{routes.length}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+                <CardHeader className="pb-2">
+                  <CardDescription>Stops</CardDescription>
+                  <CardTitle className="text-xl md:text-2xl">{manifest?.totals.stops || 0}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+                <CardHeader className="pb-2">
+                  <CardDescription>To Collect</CardDescription>
+                  <CardTitle className="text-xl md:text-2xl">{formatAmount(manifest?.totals.amountToCollect || 0)}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 font-bold">
+                  <ClipboardList className="h-5 w-5" />
+                  Pick List
+                </CardTitle>
+                <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+                  Everything to load for the day
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {manifest?.pickList.map((item) => (
+                      <TableRow key={item.productId || item.name}>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell className="text-right">{formatQuantity(item)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {routes.map((route, routeIndex) => (
+              <Card
+                key={route.key}
+                className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl print:break-inside-avoid"
+              >
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="flex items-center gap-2 font-bold">
+                        <MapPin className="h-5 w-5" />
+                        {describeRoute(route)}
+                      </CardTitle>
+                      <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+                        {route.stops.length} stop{route.stops.length === 1 ? '' : 's'} · collect{' '}
+                        {formatAmount(route.stops.reduce((sum, stop) => sum + stop.amountToCollect, 0))}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-1 print:hidden">
+                      <Button variant="ghost" size="sm" onClick={() => moveRoute(routeIndex, -1)} disabled={routeIndex === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveRoute(routeIndex, 1)}
+                        disabled={routeIndex === routes.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {route.stops.map((stop, stopIndex) => {
+                    // Stops are numbered through the whole run, not per route
+                    const stopNumber =
+                      routes.slice(0, routeIndex).reduce((count, r) => count + r.stops.length, 0) + stopIndex + 1;
+                    return (
+                      <div
+                        key={stop.orderId}
+                        className="p-3 border border-black/10 dark:border-white/10 rounded-lg text-sm print:break-inside-avoid"
+                      >
+                        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                          <div>
+                            <p className="font-bold flex items-center gap-2">
+                              {stopNumber}. {stop.customer.businessName || stop.customer.name || 'Unknown customer'}
+                              <Badge variant="secondary">#{stop.orderNumber}</Badge>
+                            </p>
+                            {stop.customer.businessName && stop.customer.name && (
+                              <p className="text-muted-foreground">{stop.customer.name}</p>
+                            )}
+                            <p className="text-muted-foreground">{formatAddress(stop.customer.address)}</p>
+                            {stop.customer.mobileNo && <p className="text-muted-foreground">{stop.customer.mobileNo}</p>}
+                          </div>
+                          <div className="flex items-start gap-3">
+                            <div className="md:text-right">
+                              <p className="text-muted-foreground">To collect</p>
+                              <p className="font-bold">{formatAmount(stop.amountToCollect)}</p>
+                            </div>
+                            <div className="flex gap-1 print:hidden">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveStop(routeIndex, stopIndex, -1)}
+                                disabled={stopIndex === 0}
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveStop(routeIndex, stopIndex, 1)}
+                                disabled={stopIndex === route.stops.length - 1}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                        <ul className="mt-2 space-y-0.5">
+                          {stop.items.map((item, i) => (
+                            <li key={item.productId || i} className="flex justify-between gap-2">
+                              <span>{item.name}</span>
+                              <span className="font-medium">{formatQuantity(item)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DistributorDispatch;
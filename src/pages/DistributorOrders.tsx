@@ -1,17 +1,31 @@
 import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
 import Header from '@/components/Header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { ArrowLeft, Loader2, Send, Calendar, ChevronRight, Truck } from 'lucide-react';
+import { ArrowLeft, Loader2, Send, Calendar, CalendarDays, ChevronRight, Truck, History, XCircle, ShieldCheck, Pencil } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import OrderTimeline, { OrderStatusEvent } from '@/components/OrderTimeline';
+import CancelOrderDialog from '@/components/CancelOrderDialog';
+import EditOrderDialog, { OrderEdit } from '@/components/EditOrderDialog';
+import OrderDiscountLines from '@/components/OrderDiscountLines';
+import { OrderDiscount } from '@/lib/promotions';
+import PendingPaymentsCard from '@/components/PendingPaymentsCard';
+import PendingReturnsCard from '@/components/PendingReturnsCard';
+import DeliveredOrdersCard from '@/components/DeliveredOrdersCard';
+import DistributorStockCard, { DistributorStockLevel } from '@/components/DistributorStockCard';
+import ReorderSuggestionsCard, { RestockItem } from '@/components/ReorderSuggestionsCard';
+import PurchaseOrdersCard from '@/components/PurchaseOrdersCard';
+import DeliveryCalendarDialog from '@/components/DeliveryCalendarDialog';
+import UpcomingStandingOrdersCard from '@/components/UpcomingStandingOrdersCard';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 
 interface Order {
@@ -19,19 +33,62 @@ interface Order {
   orderNumber: string;
   customerId: { name: string; email: string };
   items: Array<{
-    productId: { name: string; imageUrl?: string };
+    productId: { _id: string; name: string; imageUrl?: string };
     quantity: number;
     price: number;
   }>;
+  discounts?: OrderDiscount[];
+  taxTotal?: number;
   totalAmount: number;
   desiredDeliveryDate: string;
   currentDeliveryDate: string;
   markedForToday: boolean;
   sentToAdmin: boolean;
   status: string;
+  statusHistory?: OrderStatusEvent[];
+  editHistory?: OrderEdit[];
+  stockedAt?: string;
   receivedAt?: string;
+  creditHold?: boolean;
+  standingOrderId?: string;
 }
 
+interface StockCoverage {
+  covered: boolean;
+  short: Array<{ name: string; missing: number }>;
+}
+
+// Work out which of today's orders the distributor can supply from their own stock. Goods for
+// orders already out for delivery are still in stock until the customer receives them, so they
+// are set aside first; covered orders are then allocated stock in list order.
+const getStockCoverage = (todayOrders: Order[], allOrders: Order[], stock: DistributorStockLevel[]) => {
+  const remaining = new Map(stock.map((level) => [level.productId, level.quantity]));
+  const take = (order: Order) => {
+    order.items.forEach((item) => {
+      remaining.set(item.productId._id, (remaining.get(item.productId._id) || 0) - item.quantity);
+    });
+  };
+
+  allOrders.filter((order) => order.status === 'shipped').forEach(take);
+
+  const coverage: Record<string, StockCoverage> = {};
+  todayOrders
+    .filter((order) => !order.sentToAdmin && order.status !== 'shipped')
+    .forEach((order) => {
+      const short = order.items
+        .map((item) => ({
+          name: item.productId.name,
+          missing: item.quantity - Math.max(remaining.get(item.productId._id) || 0, 0),
+        }))
+        .filter((line) => line.missing > 0);
+      if (short.length === 0) {
+        take(order);
+      }
+      coverage[order._id] = { covered: short.length === 0, short };
+    });
+  return coverage;
+};
+
 const DistributorOrders = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -45,6 +102,14 @@ const DistributorOrders = () => {
   const [showDateDialog, setShowDateDialog] = useState(false);
   const [selectedOrderForDate, setSelectedOrderForDate] = useState<string | null>(null);
   const [customDate, setCustomDate] = useState<string>('');
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [expandedTimelines, setExpandedTimelines] = useState<Set<string>>(new Set());
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [orderToEdit, setOrderToEdit] = useState<Order | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [approvingCredit, setApprovingCredit] = useState<string | null>(null);
+  const [stock, setStock] = useState<DistributorStockLevel[]>([]);
+  const [restockItems, setRestockItems] = useState<RestockItem[]>([]);
   const prevOrdersRef = useRef<Order[]>([]);
 
   useEffect(() => {
@@ -68,6 +133,7 @@ const DistributorOrders = () => {
         setOrdersByDate(data.ordersByDate);
         setAllOrders(data.allOrders);
         prevOrdersRef.current = data.allOrders;
+        loadStock();
       }
     } catch (error: any) {
       console.error('Load orders error:', error);
@@ -83,6 +149,17 @@ const DistributorOrders = () => {
     }
   };
 
+  const loadStock = async () => {
+    if (!user?.token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<DistributorStockLevel[]>('/api/distributor/stock', user.token, { skipCache: true });
+      setStock(data);
+    } catch (error) {
+      console.error('Load stock error:', error);
+    }
+  };
+
   const handleAddToTransit = async (orderIds: string[]) => {
     if (!user?.token) return;
     try {
@@ -119,7 +196,7 @@ const DistributorOrders = () => {
   };
 
   const handleSendToAdmin = async () => {
-    if (!user?.token || selectedOrders.size === 0) return;
+    if (!user?.token || (selectedOrders.size === 0 && restockItems.length === 0)) return;
     try {
       setSendingToAdmin(true);
       const res = await fetch(getApiUrl('/api/distributor/orders/send-to-admin'), {
@@ -128,7 +205,12 @@ const DistributorOrders = () => {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${user.token}`,
         },
-        body: JSON.stringify({ orderIds: Array.from(selectedOrders) }),
+        body: JSON.stringify({
+          orderIds: Array.from(selectedOrders),
+          restockItems: restockItems
+            .filter((item) => item.quantity > 0)
+            .map((item) => ({ productId: item.productId, quantity: item.quantity })),
+        }),
       });
 
       if (!res.ok) {
@@ -138,13 +220,16 @@ const DistributorOrders = () => {
 
       const data = await res.json();
       toast({
-        title: 'Orders sent to admin',
-        description: `${data.ordersCount} order(s) sent successfully.`,
+        title: `Purchase order ${data.purchaseOrder.poNumber} sent to admin`,
+        description: restockItems.length > 0
+          ? `${data.ordersCount} order(s) and ${restockItems.length} restock item(s) sent successfully.`
+          : `${data.ordersCount} order(s) sent successfully.`,
         variant: 'success',
       });
 
       setShowSendDialog(false);
       setSelectedOrders(new Set());
+      setRestockItems([]);
       await loadOrders();
     } catch (error: any) {
       console.error('Send to admin error:', error);
@@ -158,6 +243,11 @@ const DistributorOrders = () => {
     }
   };
 
+  const handleRequestRestock = (items: RestockItem[]) => {
+    setRestockItems(items);
+    setShowSendDialog(true);
+  };
+
   const handleCustomDate = (orderId: string) => {
     setSelectedOrderForDate(orderId);
     const tomorrow = new Date();
@@ -203,6 +293,98 @@ const DistributorOrders = () => {
     }
   };
 
+  const handleCancelOrder = async (reason: string) => {
+    if (!user?.token || !orderToCancel) return;
+    try {
+      setCancelling(true);
+      const res = await fetch(getApiUrl(`/api/orders/${orderToCancel._id}/cancel`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to cancel order');
+      }
+
+      toast({
+        title: 'Order cancelled',
+        description: 'The customer has been notified.',
+        variant: 'success',
+      });
+
+      setOrderToCancel(null);
+      setSelectedOrders((prev) => {
+        const next = new Set(prev);
+        next.delete(orderToCancel._id);
+        return next;
+      });
+      await loadOrders();
+    } catch (error) {
+      console.error('Cancel order error:', error);
+      toast({
+        title: 'Failed to cancel order',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleApproveCredit = async (orderId: string) => {
+    if (!user?.token) return;
+    try {
+      setApprovingCredit(orderId);
+      const res = await fetch(getApiUrl(`/api/orders/${orderId}/status`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({ action: 'approve-credit' }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to approve credit');
+      }
+
+      toast({
+        title: 'Credit approved',
+        description: 'The order can now be fulfilled.',
+        variant: 'success',
+      });
+
+      await loadOrders();
+    } catch (error) {
+      console.error('Approve credit error:', error);
+      toast({
+        title: 'Failed to approve credit',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setApprovingCredit(null);
+    }
+  };
+
+  const toggleTimeline = (orderId: string) => {
+    setExpandedTimelines((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
   const toggleOrderSelection = (orderId: string) => {
     const newSelected = new Set(selectedOrders);
     if (newSelected.has(orderId)) {
@@ -218,6 +400,8 @@ const DistributorOrders = () => {
   const sortedDates = Object.keys(ordersByDate).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
   const today = new Date().toISOString().split('T')[0];
   const todayOrders = ordersByDate[today] || [];
+  const stockCoverage = getStockCoverage(todayOrders, allOrders, stock);
+  const coverageResults = Object.values(stockCoverage);
 
   if (loading) {
     return (
@@ -248,11 +432,20 @@ const DistributorOrders = () => {
           <ArrowLeft className="h-4 w-4" />
         </Button>
 
-        <div className="mb-4 md:mb-6">
-          <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight">Order Management</h1>
-          <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">Manage and fulfill customer orders</p>
+        <div className="mb-4 md:mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 tracking-tight">Order Management</h1>
+            <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">Manage and fulfill customer orders</p>
+          </div>
+          <Button variant="outline" onClick={() => setShowCalendar(true)}>
+            <CalendarDays className="mr-2 h-4 w-4" />
+            Delivery Calendar
+          </Button>
         </div>
 
+        <PendingPaymentsCard token={user?.token} />
+        <PendingReturnsCard token={user?.token} onChange={loadStock} />
+
         {/* Today's Orders Section */}
         {todayOrders.length > 0 && (
           <Card className="mb-6 border-white/40 dark:border-white/20 bg-white/95 dark:bg-black/95 backdrop-blur-xl shadow-xl">
@@ -263,7 +456,12 @@ const DistributorOrders = () => {
                     <Calendar className="h-5 w-5" />
                     Today's Orders ({todayOrders.length})
                   </CardTitle>
-                  <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">Orders scheduled for delivery today</CardDescription>
+                  <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+                    Orders scheduled for delivery today
+                    {coverageResults.length > 0 && (
+                      <> · {coverageResults.filter((result) => result.covered).length} of {coverageResults.length} can be supplied from stock on hand</>
+                    )}
+                  </CardDescription>
                 </div>
                 {selectedOrders.size > 0 && (
                   <div className="flex items-center gap-2">
@@ -297,7 +495,7 @@ const DistributorOrders = () => {
                         <Checkbox
                           checked={selectedOrders.has(order._id)}
                           onCheckedChange={() => toggleOrderSelection(order._id)}
-                          disabled={order.sentToAdmin}
+                          disabled={order.sentToAdmin || order.creditHold}
                           className="mt-1"
                         />
                         <div className="flex-1 min-w-0">
@@ -309,6 +507,20 @@ const DistributorOrders = () => {
                             {order.sentToAdmin && (
                               <Badge variant="secondary">Sent to Admin</Badge>
                             )}
+                            {order.creditHold && (
+                              <Badge variant="destructive">Credit Hold</Badge>
+                            )}
+                            {order.standingOrderId && (
+                              <Badge variant="outline">Standing Order</Badge>
+                            )}
+                            {stockCoverage[order._id]?.covered && (
+                              <Badge variant="secondary">In stock</Badge>
+                            )}
+                            {stockCoverage[order._id] && !stockCoverage[order._id].covered && (
+                              <Badge variant="outline" className="border-destructive text-destructive">
+                                Short: {stockCoverage[order._id].short.map((line) => `${line.name} × ${line.missing}`).join(', ')}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground mb-2">
                             Customer: {order.customerId.name} ({order.customerId.email})
@@ -320,13 +532,19 @@ const DistributorOrders = () => {
                               </div>
                             ))}
                           </div>
+                          <OrderDiscountLines discounts={order.discounts} className="mb-2 max-w-sm" />
                           <p className="font-medium">
                             Total: ₹{order.totalAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                            {!!order.taxTotal && (
+                              <span className="text-xs text-muted-foreground font-normal">
+                                {' '}(incl. ₹{order.taxTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })} GST)
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
                       <div className="flex flex-row md:flex-col gap-2 w-full md:w-auto justify-end md:justify-start flex-wrap">
-                        {!order.markedForToday && (
+                        {!order.markedForToday && !order.creditHold && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -336,6 +554,16 @@ const DistributorOrders = () => {
                             Add to Transit
                           </Button>
                         )}
+                        {order.creditHold && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleApproveCredit(order._id)}
+                            disabled={approvingCredit === order._id}
+                          >
+                            <ShieldCheck className="mr-2 h-4 w-4" />
+                            Approve Credit
+                          </Button>
+                        )}
                         {order.markedForToday && !order.sentToAdmin && (
                           <Button
                             size="sm"
@@ -348,6 +576,16 @@ const DistributorOrders = () => {
                             Send to Admin
                           </Button>
                         )}
+                        {!order.sentToAdmin && (order.status === 'pending' || order.status === 'processing') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOrderToEdit(order)}
+                          >
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -356,8 +594,32 @@ const DistributorOrders = () => {
                           <Calendar className="mr-2 h-4 w-4" />
                           Modify Date
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleTimeline(order._id)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          Timeline
+                        </Button>
+                        {(order.status === 'pending' || order.status === 'processing') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setOrderToCancel(order)}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Cancel
+                          </Button>
+                        )}
                       </div>
                     </div>
+                    {expandedTimelines.has(order._id) && (
+                      <div className="mt-4 pt-4 border-t border-black/10 dark:border-white/10">
+                        <OrderTimeline history={order.statusHistory} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -365,6 +627,13 @@ const DistributorOrders = () => {
           </Card>
         )}
 
+        <ReorderSuggestionsCard token={user?.token} refreshKey={stock} onRequest={handleRequestRestock} />
+
+        <DistributorStockCard token={user?.token} stock={stock} onChange={loadStock} />
+
+        <PurchaseOrdersCard token={user?.token} refreshKey={allOrders} />
+        <UpcomingStandingOrdersCard token={user?.token} refreshKey={allOrders} />
+
         {/* Upcoming Orders by Date */}
         <div className="space-y-6">
           {sortedDates.filter(date => date !== today).map((date) => {
@@ -394,7 +663,7 @@ const DistributorOrders = () => {
                             <Checkbox
                               checked={selectedOrders.has(order._id)}
                               onCheckedChange={() => toggleOrderSelection(order._id)}
-                              disabled={order.sentToAdmin}
+                              disabled={order.sentToAdmin || order.creditHold}
                               className="mt-1"
                             />
                             <div className="flex-1 min-w-0">
@@ -406,6 +675,12 @@ const DistributorOrders = () => {
                                 {order.sentToAdmin && (
                                   <Badge variant="secondary">Sent to Admin</Badge>
                                 )}
+                                {order.creditHold && (
+                                  <Badge variant="destructive">Credit Hold</Badge>
+                                )}
+                                {order.standingOrderId && (
+                                  <Badge variant="outline">Standing Order</Badge>
+                                )}
                               </div>
                               <p className="text-sm text-muted-foreground mb-2">
                                 Customer: {order.customerId.name} ({order.customerId.email})
@@ -417,13 +692,19 @@ const DistributorOrders = () => {
                                   </div>
                                 ))}
                               </div>
+                              <OrderDiscountLines discounts={order.discounts} className="mb-2 max-w-sm" />
                               <p className="font-medium">
                                 Total: ₹{order.totalAmount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                                {!!order.taxTotal && (
+                                  <span className="text-xs text-muted-foreground font-normal">
+                                    {' '}(incl. ₹{order.taxTotal.toLocaleString('en-IN', { maximumFractionDigits: 2 })} GST)
+                                  </span>
+                                )}
                               </p>
                             </div>
                           </div>
                           <div className="flex flex-row md:flex-col gap-2 w-full md:w-auto justify-end md:justify-start flex-wrap">
-                            {!order.markedForToday && (
+                            {!order.markedForToday && !order.creditHold && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -433,6 +714,26 @@ const DistributorOrders = () => {
                                 Add to Transit
                               </Button>
                             )}
+                            {order.creditHold && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleApproveCredit(order._id)}
+                                disabled={approvingCredit === order._id}
+                              >
+                                <ShieldCheck className="mr-2 h-4 w-4" />
+                                Approve Credit
+                              </Button>
+                            )}
+                            {!order.sentToAdmin && (order.status === 'pending' || order.status === 'processing') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setOrderToEdit(order)}
+                              >
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Edit
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -441,8 +742,32 @@ const DistributorOrders = () => {
                               <Calendar className="mr-2 h-4 w-4" />
                               Modify Date
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleTimeline(order._id)}
+                            >
+                              <History className="mr-2 h-4 w-4" />
+                              Timeline
+                            </Button>
+                            {(order.status === 'pending' || order.status === 'processing') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => setOrderToCancel(order)}
+                              >
+                                <XCircle className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            )}
                           </div>
                         </div>
+                        {expandedTimelines.has(order._id) && (
+                          <div className="mt-4 pt-4 border-t border-black/10 dark:border-white/10">
+                            <OrderTimeline history={order.statusHistory} />
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -458,14 +783,48 @@ const DistributorOrders = () => {
           </div>
         )}
 
-        <AlertDialog open={showSendDialog} onOpenChange={setShowSendDialog}>
+        <DeliveredOrdersCard token={user?.token} />
+
+        <AlertDialog
+          open={showSendDialog}
+          onOpenChange={(open) => {
+            setShowSendDialog(open);
+            if (!open) setRestockItems([]);
+          }}
+        >
           <AlertDialogContent>
             <AlertDialogHeader>
               <AlertDialogTitle>Send Orders to Admin</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to send {selectedOrders.size} order(s) to the admin? This will notify them of the required items.
+                {restockItems.length > 0
+                  ? `Send ${selectedOrders.size > 0 ? `${selectedOrders.size} order(s) and ` : ''}the restock items below to the admin? You can change the quantities first.`
+                  : `Are you sure you want to send ${selectedOrders.size} order(s) to the admin? This will notify them of the required items.`}
               </AlertDialogDescription>
             </AlertDialogHeader>
+            {restockItems.length > 0 && (
+              <div className="space-y-2">
+                {restockItems.map((item) => (
+                  <div key={item.productId} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{item.name}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={item.quantity}
+                      onChange={(e) =>
+                        setRestockItems((prev) =>
+                          prev.map((line) =>
+                            line.productId === item.productId
+                              ? { ...line, quantity: Math.max(0, parseInt(e.target.value) || 0) }
+                              : line
+                          )
+                        )
+                      }
+                      className="w-24 h-8"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
               <AlertDialogAction onClick={handleSendToAdmin} disabled={sendingToAdmin}>
@@ -482,6 +841,31 @@ const DistributorOrders = () => {
           </AlertDialogContent>
         </AlertDialog>
 
+        <CancelOrderDialog
+          open={!!orderToCancel}
+          onOpenChange={(open) => !open && setOrderToCancel(null)}
+          orderNumber={orderToCancel?.orderNumber}
+          reasonRequired
+          cancelling={cancelling}
+          onConfirm={handleCancelOrder}
+        />
+
+        <EditOrderDialog
+          open={!!orderToEdit}
+          onOpenChange={(open) => !open && setOrderToEdit(null)}
+          order={orderToEdit}
+          token={user?.token}
+          productsUrl="/api/distributor/products"
+          onSaved={loadOrders}
+        />
+
+        <DeliveryCalendarDialog
+          open={showCalendar}
+          onOpenChange={setShowCalendar}
+          token={user?.token}
+          onSaved={loadOrders}
+        />
+
         <Dialog open={showDateDialog} onOpenChange={setShowDateDialog}>
           <DialogContent>
             <DialogHeader>
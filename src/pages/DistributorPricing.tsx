@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
 import Header from '@/components/Header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,23 +22,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ArrowLeft, Loader2, Plus, Edit, Trash2, DollarSign } from 'lucide-react';
+import { ArrowLeft, Loader2, Plus, Edit, Trash2, DollarSign, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
+import PriceHistoryDialog, { NextPriceNote } from '@/components/PriceHistoryDialog';
+import PriceScheduleFields from '@/components/PriceScheduleFields';
+import PriceTiersField, { PriceTiersNote } from '@/components/PriceTiersField';
+import CustomerGroupsCard, { CustomerGroup, GroupableCustomer } from '@/components/CustomerGroupsCard';
+import PriceImportExport from '@/components/PriceImportExport';
+import { PriceTier, PriceTierRow, toPriceTierRows, toPriceTiers } from '@/lib/price-tiers';
+import { PriceVersion, toValidFrom, toValidTo } from '@/lib/price-versions';
 
+// A customer's own price (customerId) or an entry on a customer group's price list (groupId)
 interface CustomerPricing {
   _id: string;
-  customerId: { _id: string; name: string; email: string };
+  customerId?: { _id: string; name: string; email: string };
+  groupId?: { _id: string; name: string };
   productId: { _id: string; name: string; price: number; imageUrl?: string };
-  customPrice: number;
-}
-
-interface Customer {
-  _id: string;
-  name: string;
-  email: string;
+  customPrice?: number;
+  currentPrice: number | null; // null until a scheduled first price starts
+  currentTiers: PriceTier[];
+  priceVersions: PriceVersion[];
 }
 
 interface Product {
@@ -47,23 +54,39 @@ interface Product {
   imageUrl?: string;
 }
 
+type PriceTarget = 'customer' | 'group';
+
+const emptyForm = {
+  target: 'customer' as PriceTarget,
+  customerId: '',
+  groupId: '',
+  productId: '',
+  customPrice: '',
+  tiers: [] as PriceTierRow[],
+  firstDay: '',
+  lastDay: '',
+};
+
+const pricingPath = (item: CustomerPricing) =>
+  item.groupId ? '/api/distributor/group-pricing' : '/api/distributor/customer-pricing';
+
+const pricedFor = (item: CustomerPricing | null) => item?.customerId?.name ?? item?.groupId?.name ?? '';
+
 const DistributorPricing = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [pricing, setPricing] = useState<CustomerPricing[]>([]);
-  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customers, setCustomers] = useState<GroupableCustomer[]>([]);
+  const [groups, setGroups] = useState<CustomerGroup[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedPricing, setSelectedPricing] = useState<CustomerPricing | null>(null);
-  const [formData, setFormData] = useState({
-    customerId: '',
-    productId: '',
-    customPrice: '',
-  });
+  const [historyPricing, setHistoryPricing] = useState<CustomerPricing | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
     if (!user?.token) return;
@@ -77,14 +100,18 @@ const DistributorPricing = () => {
       const { cachedFetch } = await import('@/lib/cached-fetch');
 
       // Load all data in parallel with caching
-      const [pricingData, customersData, productsData] = await Promise.all([
+      const [pricingData, groupPricingData, customersData, groupsData, productsData] = await Promise.all([
         cachedFetch('/api/distributor/customer-pricing', user.token).catch(() => []),
-        cachedFetch('/api/distributor/customers', user.token).catch(() => []),
+        cachedFetch('/api/distributor/group-pricing', user.token, { skipCache: true }).catch(() => []),
+        cachedFetch('/api/distributor/customers', user.token, { skipCache: true }).catch(() => []),
+        cachedFetch('/api/distributor/customer-groups', user.token, { skipCache: true }).catch(() => []),
         cachedFetch('/api/distributor/products', user.token).catch(() => []),
       ]);
 
-      setPricing(pricingData || []);
+      // Group price lists first, as they cover the most customers
+      setPricing([...(groupPricingData || []), ...(pricingData || [])]);
       setCustomers(customersData || []);
+      setGroups(groupsData || []);
       setProducts(productsData || []);
     } catch (error: any) {
       console.error('Load data error:', error);
@@ -99,16 +126,21 @@ const DistributorPricing = () => {
   };
 
   const handleAdd = () => {
-    setFormData({ customerId: '', productId: '', customPrice: '' });
+    setFormData(emptyForm);
     setIsAddDialogOpen(true);
   };
 
   const handleEdit = (pricingItem: CustomerPricing) => {
     setSelectedPricing(pricingItem);
     setFormData({
-      customerId: pricingItem.customerId._id,
+      target: pricingItem.groupId ? 'group' : 'customer',
+      customerId: pricingItem.customerId?._id || '',
+      groupId: pricingItem.groupId?._id || '',
       productId: pricingItem.productId._id,
-      customPrice: pricingItem.customPrice.toString(),
+      customPrice: (pricingItem.currentPrice ?? pricingItem.customPrice ?? '').toString(),
+      tiers: toPriceTierRows(pricingItem.currentTiers),
+      firstDay: '',
+      lastDay: '',
     });
     setIsEditDialogOpen(true);
   };
@@ -123,16 +155,20 @@ const DistributorPricing = () => {
     if (!user?.token) return;
 
     try {
-      const res = await fetch(getApiUrl('/api/distributor/customer-pricing'), {
+      const forGroup = formData.target === 'group';
+      const res = await fetch(getApiUrl(forGroup ? '/api/distributor/group-pricing' : '/api/distributor/customer-pricing'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${user.token}`,
         },
         body: JSON.stringify({
-          customerId: formData.customerId,
+          ...(forGroup ? { groupId: formData.groupId } : { customerId: formData.customerId }),
           productId: formData.productId,
           customPrice: parseFloat(formData.customPrice),
+          priceTiers: toPriceTiers(formData.tiers),
+          validFrom: toValidFrom(formData.firstDay),
+          validTo: toValidTo(formData.lastDay),
         }),
       });
 
@@ -143,13 +179,16 @@ const DistributorPricing = () => {
 
       toast({
         title: 'Pricing saved',
-        description: 'Custom price has been set successfully.',
+        description:
+          formData.firstDay || formData.lastDay
+            ? 'The price change has been scheduled.'
+            : 'Custom price has been set successfully.',
         variant: 'success',
       });
 
       setIsAddDialogOpen(false);
       setIsEditDialogOpen(false);
-      setFormData({ customerId: '', productId: '', customPrice: '' });
+      setFormData(emptyForm);
       await loadData();
     } catch (error: any) {
       console.error('Save pricing error:', error);
@@ -165,7 +204,7 @@ const DistributorPricing = () => {
     if (!user?.token || !selectedPricing) return;
 
     try {
-      const res = await fetch(getApiUrl(`/api/distributor/customer-pricing/${selectedPricing._id}`), {
+      const res = await fetch(getApiUrl(`${pricingPath(selectedPricing)}/${selectedPricing._id}`), {
         method: 'DELETE',
         headers: {
           Authorization: `Bearer ${user.token}`,
@@ -196,6 +235,43 @@ const DistributorPricing = () => {
     }
   };
 
+  const handleCancelVersion = async (versionId: string) => {
+    if (!user?.token || !historyPricing) return;
+
+    try {
+      const res = await fetch(
+        getApiUrl(`${pricingPath(historyPricing)}/${historyPricing._id}/versions/${versionId}`),
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${user.token}`,
+          },
+        }
+      );
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to cancel price change');
+      }
+
+      toast({
+        title: 'Price change cancelled',
+        variant: 'success',
+      });
+
+      const updated = await res.json();
+      setHistoryPricing(updated.priceVersions ? { ...historyPricing, priceVersions: updated.priceVersions } : null);
+      await loadData();
+    } catch (error) {
+      console.error('Cancel price change error:', error);
+      toast({
+        title: 'Failed to cancel price change',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-transparent relative">
@@ -231,14 +307,21 @@ const DistributorPricing = () => {
               <DollarSign className="h-6 w-6 md:h-8 md:w-8 text-primary shrink-0" />
               Customer Pricing Management
             </h1>
-            <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">Set custom prices for your customers</p>
+            <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">
+              Set custom prices for your customers, one by one or by customer group
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <PriceImportExport onImported={loadData} />
+            <Button onClick={handleAdd} className="w-full md:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Custom Price
+            </Button>
           </div>
-          <Button onClick={handleAdd} className="w-full md:w-auto">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Custom Price
-          </Button>
         </div>
 
+        <CustomerGroupsCard groups={groups} customers={customers} onChange={loadData} />
+
         {pricing.length === 0 ? (
           <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
             <CardContent className="py-12 text-center">
@@ -258,10 +341,18 @@ const DistributorPricing = () => {
                     <div className="flex-1">
                       <CardTitle className="text-lg font-bold">{item.productId.name}</CardTitle>
                       <CardDescription className="mt-1 text-gray-600 dark:text-gray-400 font-medium">
-                        {item.customerId.name}
+                        {pricedFor(item)}
                       </CardDescription>
                     </div>
                     <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setHistoryPricing(item)}
+                        title="Price history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -289,12 +380,18 @@ const DistributorPricing = () => {
                     </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-bold">Custom Price:</span>
-                      <span className="text-xl font-bold text-primary">
-                        ₹{item.customPrice.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
-                      </span>
+                      {item.currentPrice !== null ? (
+                        <span className="text-xl font-bold text-primary">
+                          ₹{item.currentPrice.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Not started</span>
+                      )}
                     </div>
-                    <Badge variant="secondary" className="w-fit">
-                      Custom
+                    {item.currentPrice !== null && <PriceTiersNote price={item.currentPrice} tiers={item.currentTiers} />}
+                    <NextPriceNote versions={item.priceVersions || []} />
+                    <Badge variant={item.groupId ? 'outline' : 'secondary'} className="w-fit">
+                      {item.groupId ? 'Group price' : 'Custom'}
                     </Badge>
                   </div>
                 </CardContent>
@@ -308,36 +405,75 @@ const DistributorPricing = () => {
           if (!open) {
             setIsAddDialogOpen(false);
             setIsEditDialogOpen(false);
-            setFormData({ customerId: '', productId: '', customPrice: '' });
+            setFormData(emptyForm);
           }
         }}>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{isEditDialogOpen ? 'Edit' : 'Add'} Custom Price</DialogTitle>
               <DialogDescription>
-                Set a custom price for a specific customer and product.
+                Set a product's price for one customer, or for every customer in a group.
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit}>
               <div className="space-y-4 py-4">
                 <div>
-                  <Label htmlFor="customer">Customer</Label>
+                  <Label htmlFor="priceTarget">Price For</Label>
                   <Select
-                    value={formData.customerId}
-                    onValueChange={(value) => setFormData({ ...formData, customerId: value })}
+                    value={formData.target}
+                    onValueChange={(value) => setFormData({ ...formData, target: value as PriceTarget })}
+                    disabled={isEditDialogOpen}
                   >
-                    <SelectTrigger id="customer">
-                      <SelectValue placeholder="Select customer" />
+                    <SelectTrigger id="priceTarget">
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {customers.map((customer) => (
-                        <SelectItem key={customer._id} value={customer._id}>
-                          {customer.name} ({customer.email})
-                        </SelectItem>
-                      ))}
+                      <SelectItem value="customer">One customer</SelectItem>
+                      <SelectItem value="group" disabled={groups.length === 0}>
+                        A customer group
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {formData.target === 'group' ? (
+                  <div>
+                    <Label htmlFor="group">Customer Group</Label>
+                    <Select
+                      value={formData.groupId}
+                      onValueChange={(value) => setFormData({ ...formData, groupId: value })}
+                    >
+                      <SelectTrigger id="group">
+                        <SelectValue placeholder="Select group" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {groups.map((group) => (
+                          <SelectItem key={group._id} value={group._id}>
+                            {group.name} ({group.customerIds.length} customers)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="customer">Customer</Label>
+                    <Select
+                      value={formData.customerId}
+                      onValueChange={(value) => setFormData({ ...formData, customerId: value })}
+                    >
+                      <SelectTrigger id="customer">
+                        <SelectValue placeholder="Select customer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer._id} value={customer._id}>
+                            {customer.name} ({customer.email})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="product">Product</Label>
                   <Select
@@ -381,6 +517,17 @@ const DistributorPricing = () => {
                     </p>
                   )}
                 </div>
+                <PriceTiersField
+                  idPrefix="customPrice"
+                  rows={formData.tiers}
+                  onChange={(tiers) => setFormData({ ...formData, tiers })}
+                />
+                <PriceScheduleFields
+                  idPrefix="customPrice"
+                  firstDay={formData.firstDay}
+                  lastDay={formData.lastDay}
+                  onChange={(schedule) => setFormData({ ...formData, ...schedule })}
+                />
               </div>
               <DialogFooter>
                 <Button
@@ -389,12 +536,19 @@ const DistributorPricing = () => {
                   onClick={() => {
                     setIsAddDialogOpen(false);
                     setIsEditDialogOpen(false);
-                    setFormData({ customerId: '', productId: '', customPrice: '' });
+                    setFormData(emptyForm);
                   }}
                 >
                   Cancel
                 </Button>
-                <Button type="submit" disabled={!formData.customerId || !formData.productId || !formData.customPrice}>
+                <Button
+                  type="submit"
+                  disabled={
+                    !(formData.target === 'group' ? formData.groupId : formData.customerId) ||
+                    !formData.productId ||
+                    !formData.customPrice
+                  }
+                >
                   {isEditDialogOpen ? 'Update' : 'Add'} Price
                 </Button>
               </DialogFooter>
@@ -402,14 +556,32 @@ const DistributorPricing = () => {
           </DialogContent>
         </Dialog>
 
+        <PriceHistoryDialog
+          open={!!historyPricing}
+          onOpenChange={(open) => !open && setHistoryPricing(null)}
+          title={historyPricing ? `${historyPricing.productId.name} for ${pricedFor(historyPricing)}` : ''}
+          versions={historyPricing?.priceVersions || []}
+          standingPrice={historyPricing?.customPrice}
+          onCancelVersion={handleCancelVersion}
+        />
+
         {/* Delete Dialog */}
         <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
               <AlertDialogTitle>Delete Custom Price</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete the custom price for {selectedPricing?.productId.name} for customer {selectedPricing?.customerId.name}?
-                The customer will see the base price instead.
+                {selectedPricing?.groupId ? (
+                  <>
+                    Are you sure you want to remove {selectedPricing.productId.name} from the {selectedPricing.groupId.name} price list?
+                    Customers in the group without a custom price will see the base price instead.
+                  </>
+                ) : (
+                  <>
+                    Are you sure you want to delete the custom price for {selectedPricing?.productId.name} for customer {pricedFor(selectedPricing)}?
+                    The customer will see their group's price, or the base price, instead.
+                  </>
+                )}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
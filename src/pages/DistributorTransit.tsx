@@ -18,16 +18,37 @@ interface Order {
     productId: { name: string; imageUrl?: string };
     quantity: number;
     price: number;
+    suppliedQuantity?: number;
   }>;
   totalAmount: number;
   desiredDeliveryDate: string;
   currentDeliveryDate: string;
   markedForToday: boolean;
   sentToAdmin: boolean;
+  purchaseOrderId?: { poNumber: string; status: string };
   status: string;
-  receivedAt?: string;
+  stockedAt?: string;
 }
 
+type SupplyCoverage = 'covered' | 'short' | 'awaiting';
+
+// How much of an order requested from admin has been supplied through its purchase order so far.
+// Orders the admin could only partly supply are short until their back-order ships.
+const getSupplyCoverage = (order: Order): SupplyCoverage | null => {
+  if (!order.sentToAdmin || !order.purchaseOrderId || order.stockedAt) return null;
+  if (order.items.every((item) => (item.suppliedQuantity || 0) >= item.quantity)) return 'covered';
+  if (order.items.some((item) => item.suppliedQuantity) || order.purchaseOrderId.status === 'partially-fulfilled') {
+    return 'short';
+  }
+  return 'awaiting';
+};
+
+// Orders still waiting on their purchase order can only be received once the admin has supplied them
+const canMarkReceived = (order: Order) => {
+  const coverage = getSupplyCoverage(order);
+  return !order.stockedAt && coverage !== 'short' && coverage !== 'awaiting';
+};
+
 const DistributorTransit = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -123,8 +144,8 @@ const DistributorTransit = () => {
   };
 
   const handleSelectAll = () => {
-    // Only select orders that haven't been received yet
-    const unreceivedOrders = transitOrders.filter(o => !o.receivedAt);
+    // Only select orders that can be received now
+    const unreceivedOrders = transitOrders.filter(canMarkReceived);
     const unreceivedOrderIds = unreceivedOrders.map(o => o._id);
 
     if (unreceivedOrderIds.every(id => selectedOrders.has(id)) && unreceivedOrderIds.length > 0) {
@@ -147,9 +168,11 @@ const DistributorTransit = () => {
   };
 
   const selectedTransitOrders = transitOrders.filter(order =>
-    selectedOrders.has(order._id) && !order.receivedAt
+    selectedOrders.has(order._id) && canMarkReceived(order)
   );
 
+  const shortCount = transitOrders.filter((order) => getSupplyCoverage(order) === 'short').length;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-transparent relative">
@@ -185,6 +208,11 @@ const DistributorTransit = () => {
             Transit Box
           </h1>
           <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">Orders in transit - mark as received when items arrive</p>
+          {shortCount > 0 && (
+            <p className="text-destructive font-medium text-sm mt-1">
+              {shortCount} order(s) short - the admin supplied part of them and the rest is on back-order
+            </p>
+          )}
         </div>
 
         {transitOrders.length === 0 ? (
@@ -199,7 +227,7 @@ const DistributorTransit = () => {
             <div className="mb-4 flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <Checkbox
-                  checked={transitOrders.length > 0 && transitOrders.every(order => selectedOrders.has(order._id))}
+                  checked={selectedTransitOrders.length > 0 && transitOrders.filter(canMarkReceived).every(order => selectedOrders.has(order._id))}
                   onCheckedChange={handleSelectAll}
                 />
                 <span className="text-sm text-gray-600 dark:text-gray-400 font-medium">
@@ -230,6 +258,7 @@ const DistributorTransit = () => {
             <div className="space-y-4">
               {transitOrders.map((order) => {
                 const isSelected = selectedOrders.has(order._id);
+                const coverage = getSupplyCoverage(order);
                 return (
                   <Card key={order._id} className={`hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-white/95 dark:bg-black/95 backdrop-blur-xl border-white/20 shadow-xl group ${isSelected ? 'border-primary' : ''}`}>
                     <CardContent className="pt-6">
@@ -238,19 +267,27 @@ const DistributorTransit = () => {
                           <Checkbox
                             checked={isSelected}
                             onCheckedChange={() => toggleOrderSelection(order._id)}
-                            disabled={!!order.receivedAt}
+                            disabled={!canMarkReceived(order)}
                             className="mt-1"
                           />
                           <div className="flex-1 min-w-0">
                             <div className="flex flex-wrap items-center gap-2 mb-2">
                               <h3 className="font-bold text-sm md:text-base break-all">Order #{order.orderNumber}</h3>
-                              {order.receivedAt ? (
+                              {order.stockedAt ? (
                                 <Badge variant="default" className="bg-green-600">Stocked</Badge>
                               ) : (
                                 <Badge variant="default">In Transit</Badge>
                               )}
                               {order.sentToAdmin && (
-                                <Badge variant="secondary">Sent to Admin</Badge>
+                                <Badge variant="secondary">
+                                  {order.purchaseOrderId ? order.purchaseOrderId.poNumber : 'Sent to Admin'}
+                                </Badge>
+                              )}
+                              {coverage === 'covered' && (
+                                <Badge variant="default" className="bg-green-600">Fully Covered</Badge>
+                              )}
+                              {coverage === 'short' && (
+                                <Badge variant="destructive">Short</Badge>
                               )}
                             </div>
                             <p className="text-sm text-gray-600 dark:text-gray-400 font-medium mb-2">
@@ -260,6 +297,11 @@ const DistributorTransit = () => {
                               {order.items.map((item, idx) => (
                                 <div key={idx} className="text-sm">
                                   {item.productId.name} × {item.quantity} = ₹{(item.price * item.quantity).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                                  {coverage === 'short' && (item.suppliedQuantity || 0) < item.quantity && (
+                                    <span className="text-destructive font-medium">
+                                      {' '}· {item.quantity - (item.suppliedQuantity || 0)} back-ordered
+                                    </span>
+                                  )}
                                 </div>
                               ))}
                             </div>
@@ -268,7 +310,7 @@ const DistributorTransit = () => {
                             </p>
                           </div>
                         </div>
-                        {!order.receivedAt && (
+                        {canMarkReceived(order) && (
                           <div className="flex flex-row md:flex-col gap-2 w-full md:w-auto justify-end md:justify-start">
                             <Button
                               variant="outline"
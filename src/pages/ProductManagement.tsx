@@ -1,6 +1,7 @@
 import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApiUrl } from '@/lib/api';
+import { describeQuantityRules } from '@/lib/quantity-rules';
 import Header from '@/components/Header';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -33,19 +34,35 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Package, Plus, Edit, Trash2, Check, X, Eye, ArrowLeft, Loader2 } from 'lucide-react';
+import { Package, Plus, Edit, Trash2, Check, X, Eye, ArrowLeft, Loader2, History } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import StockHistoryDialog from '@/components/StockHistoryDialog';
+import PriceScheduleFields from '@/components/PriceScheduleFields';
+import PriceTiersField, { PriceTiersNote } from '@/components/PriceTiersField';
+import { NextPriceNote } from '@/components/PriceHistoryDialog';
+import { PriceTier, PriceTierRow, toPriceTierRows, toPriceTiers } from '@/lib/price-tiers';
+import { PriceVersion, getCurrentPrice, getCurrentTiers, toValidFrom, toValidTo } from '@/lib/price-versions';
 
 interface Product {
   _id: string;
   name: string;
   description?: string;
-  price: number;
+  price: number; // Standing price; scheduled changes are in priceVersions
+  priceTiers?: PriceTier[];
+  priceVersions?: PriceVersion[];
   imageUrl?: string;
   isActive: boolean;
+  trackInventory?: boolean;
   stock?: number;
+  reservedStock?: number;
   category?: string;
+  hsnCode?: string;
+  gstRate?: number;
+  unit?: string;
+  packSize?: number;
+  minOrderQuantity?: number;
+  quantityStep?: number;
   status?: 'pending' | 'approved' | 'rejected';
   createdBy?: { name: string; email: string };
   reviewedBy?: { name: string; email: string };
@@ -53,6 +70,9 @@ interface Product {
   rejectionReason?: string;
 }
 
+// GST slabs accepted by the server; prices are entered exclusive of GST
+const gstRates = [0, 0.25, 3, 5, 12, 18, 28];
+
 const ProductManagement = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -65,6 +85,7 @@ const ProductManagement = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deleteProductId, setDeleteProductId] = useState<string | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [stockHistoryProductId, setStockHistoryProductId] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'approved' | 'pending' | 'rejected'>('all');
 
   // Refs to track previous state for polling
@@ -77,10 +98,19 @@ const ProductManagement = () => {
     name: '',
     description: '',
     price: '',
+    priceTiers: [] as PriceTierRow[],
     imageUrl: '',
     stock: '',
     category: '',
+    hsnCode: '',
+    gstRate: '0',
+    unit: '',
+    packSize: '',
+    minOrderQuantity: '',
+    quantityStep: '',
     enableStock: true,
+    priceFirstDay: '',
+    priceLastDay: '',
   });
   const [imageInputType, setImageInputType] = useState<'url' | 'upload'>('url');
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
@@ -264,10 +294,19 @@ const ProductManagement = () => {
       name: '',
       description: '',
       price: '',
+      priceTiers: [],
       imageUrl: '',
       stock: '',
       category: '',
+      hsnCode: '',
+      gstRate: '0',
+      unit: '',
+      packSize: '',
+      minOrderQuantity: '',
+      quantityStep: '',
       enableStock: true,
+      priceFirstDay: '',
+      priceLastDay: '',
     });
     setImageInputType('url');
     setUploadedImage(null);
@@ -280,11 +319,20 @@ const ProductManagement = () => {
     setFormData({
       name: product.name,
       description: product.description || '',
-      price: product.price.toString(),
+      price: getCurrentPrice(product.priceVersions, product.price).toString(),
+      priceTiers: toPriceTierRows(getCurrentTiers(product.priceVersions, product.priceTiers)),
       imageUrl: product.imageUrl || '',
-      stock: product.stock?.toString() || '',
+      stock: product.trackInventory ? (product.stock ?? 0).toString() : '',
       category: product.category || '',
-      enableStock: product.stock !== undefined && product.stock !== null,
+      hsnCode: product.hsnCode || '',
+      gstRate: (product.gstRate ?? 0).toString(),
+      unit: product.unit || '',
+      packSize: product.packSize?.toString() || '',
+      minOrderQuantity: product.minOrderQuantity?.toString() || '',
+      quantityStep: product.quantityStep?.toString() || '',
+      enableStock: !!product.trackInventory,
+      priceFirstDay: '',
+      priceLastDay: '',
     });
     setImageInputType(product.imageUrl ? 'url' : 'upload');
     setUploadedImage(null);
@@ -351,9 +399,20 @@ const ProductManagement = () => {
           name: formData.name,
           description: formData.description,
           price: parseFloat(formData.price),
+          priceTiers: toPriceTiers(formData.priceTiers),
+          // Dates schedule the new price instead of changing it now
+          priceValidFrom: isEdit ? toValidFrom(formData.priceFirstDay) : undefined,
+          priceValidTo: isEdit ? toValidTo(formData.priceLastDay) : undefined,
           imageUrl: imageInputType === 'url' ? (formData.imageUrl || undefined) : (uploadedImage || undefined),
           stock: formData.enableStock ? (parseInt(formData.stock) || 0) : null,
           category: formData.category,
+          hsnCode: formData.hsnCode,
+          gstRate: parseFloat(formData.gstRate),
+          unit: formData.unit,
+          // Blank quantity rules are sent as null so an edit can clear them
+          packSize: formData.packSize ? parseInt(formData.packSize) : null,
+          minOrderQuantity: formData.minOrderQuantity ? parseInt(formData.minOrderQuantity) : null,
+          quantityStep: formData.quantityStep ? parseInt(formData.quantityStep) : null,
         }),
       });
 
@@ -536,7 +595,9 @@ const ProductManagement = () => {
                         <p className="text-sm text-muted-foreground mb-2">
                           {product.description}
                         </p>
-                        <p className="text-lg font-semibold mb-4">₹{product.price.toFixed(2)}</p>
+                        <p className="text-lg font-semibold mb-4">
+                          ₹{getCurrentPrice(product.priceVersions, product.price).toFixed(2)}
+                        </p>
                         <div className="flex gap-2">
                           <Button
                             size="sm"
@@ -610,10 +671,22 @@ const ProductManagement = () => {
                   <CardContent>
                     <div className="flex items-center justify-between mb-4">
                       <div>
-                        <p className="text-lg font-semibold">₹{product.price.toFixed(2)}</p>
-                        {product.stock !== undefined && product.stock !== null && product.stock >= 0 && (
+                        <p className="text-lg font-semibold">₹{getCurrentPrice(product.priceVersions, product.price).toFixed(2)}</p>
+                        <PriceTiersNote
+                          price={getCurrentPrice(product.priceVersions, product.price)}
+                          tiers={getCurrentTiers(product.priceVersions, product.priceTiers)}
+                        />
+                        <NextPriceNote versions={product.priceVersions || []} />
+                        <p className="text-xs text-muted-foreground">
+                          + {product.gstRate ?? 0}% GST{product.hsnCode ? ` · HSN ${product.hsnCode}` : ''}
+                        </p>
+                        {describeQuantityRules(product) && (
+                          <p className="text-xs text-muted-foreground">{describeQuantityRules(product)}</p>
+                        )}
+                        {product.trackInventory && (
                           <p className="text-xs text-muted-foreground mt-1">
-                            Stock: {product.stock}
+                            Stock: {product.stock ?? 0}
+                            {!!product.reservedStock && ` · ${product.reservedStock} reserved`}
                           </p>
                         )}
                       </div>
@@ -636,6 +709,16 @@ const ProductManagement = () => {
                         <Edit className="mr-1 h-3 w-3" />
                         Edit
                       </Button>
+                      {product.trackInventory && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setStockHistoryProductId(product._id)}
+                          title="Stock history"
+                        >
+                          <History className="h-3 w-3" />
+                        </Button>
+                      )}
                       {isSuperAdmin && (
                         <Button
                           size="sm"
@@ -696,7 +779,7 @@ const ProductManagement = () => {
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="price">Price *</Label>
+                <Label htmlFor="price">Price * (excl. GST)</Label>
                 <Input
                   id="price"
                   type="number"
@@ -726,6 +809,11 @@ const ProductManagement = () => {
                 )}
               </div>
             </div>
+            <PriceTiersField
+              idPrefix="price"
+              rows={formData.priceTiers}
+              onChange={(priceTiers) => setFormData({ ...formData, priceTiers })}
+            />
             <div>
               <Label htmlFor="category">Category</Label>
               <Input
@@ -735,6 +823,76 @@ const ProductManagement = () => {
                 placeholder="Product category"
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="hsnCode">HSN/SAC Code</Label>
+                <Input
+                  id="hsnCode"
+                  value={formData.hsnCode}
+                  onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                  placeholder="e.g. 8471"
+                />
+              </div>
+              <div>
+                <Label>GST Rate</Label>
+                <Select value={formData.gstRate} onValueChange={(value) => setFormData({ ...formData, gstRate: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gstRates.map((rate) => (
+                      <SelectItem key={rate} value={rate.toString()}>
+                        {rate}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="unit">Unit of Measure</Label>
+                <Input
+                  id="unit"
+                  value={formData.unit}
+                  onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                  placeholder="e.g. pcs, kg, box"
+                />
+              </div>
+              <div>
+                <Label htmlFor="packSize">Pack Size</Label>
+                <Input
+                  id="packSize"
+                  type="number"
+                  min="1"
+                  value={formData.packSize}
+                  onChange={(e) => setFormData({ ...formData, packSize: e.target.value })}
+                  placeholder="Units per pack"
+                />
+              </div>
+              <div>
+                <Label htmlFor="minOrderQuantity">Minimum Order Quantity</Label>
+                <Input
+                  id="minOrderQuantity"
+                  type="number"
+                  min="1"
+                  value={formData.minOrderQuantity}
+                  onChange={(e) => setFormData({ ...formData, minOrderQuantity: e.target.value })}
+                  placeholder="1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="quantityStep">Quantity Step</Label>
+                <Input
+                  id="quantityStep"
+                  type="number"
+                  min="1"
+                  value={formData.quantityStep}
+                  onChange={(e) => setFormData({ ...formData, quantityStep: e.target.value })}
+                  placeholder="Pack size"
+                />
+              </div>
+            </div>
             <div>
               <Label>Product Image</Label>
               <div className="flex items-center gap-4 mb-2">
@@ -859,7 +1017,7 @@ const ProductManagement = () => {
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="edit-price">Price *</Label>
+                <Label htmlFor="edit-price">Price * (excl. GST)</Label>
                 <Input
                   id="edit-price"
                   type="number"
@@ -868,6 +1026,7 @@ const ProductManagement = () => {
                   onChange={(e) => setFormData({ ...formData, price: e.target.value })}
                   placeholder="0.00"
                 />
+                <NextPriceNote versions={selectedProduct?.priceVersions || []} />
               </div>
               <div>
                 <div className="flex items-center space-x-2 mb-2">
@@ -889,6 +1048,19 @@ const ProductManagement = () => {
                 )}
               </div>
             </div>
+            <PriceTiersField
+              idPrefix="edit-price"
+              rows={formData.priceTiers}
+              onChange={(priceTiers) => setFormData({ ...formData, priceTiers })}
+            />
+            <PriceScheduleFields
+              idPrefix="edit-price"
+              firstDay={formData.priceFirstDay}
+              lastDay={formData.priceLastDay}
+              onChange={(schedule) =>
+                setFormData({ ...formData, priceFirstDay: schedule.firstDay, priceLastDay: schedule.lastDay })
+              }
+            />
             <div>
               <Label htmlFor="edit-category">Category</Label>
               <Input
@@ -898,6 +1070,76 @@ const ProductManagement = () => {
                 placeholder="Product category"
               />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="edit-hsnCode">HSN/SAC Code</Label>
+                <Input
+                  id="edit-hsnCode"
+                  value={formData.hsnCode}
+                  onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                  placeholder="e.g. 8471"
+                />
+              </div>
+              <div>
+                <Label>GST Rate</Label>
+                <Select value={formData.gstRate} onValueChange={(value) => setFormData({ ...formData, gstRate: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gstRates.map((rate) => (
+                      <SelectItem key={rate} value={rate.toString()}>
+                        {rate}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="edit-unit">Unit of Measure</Label>
+                <Input
+                  id="edit-unit"
+                  value={formData.unit}
+                  onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                  placeholder="e.g. pcs, kg, box"
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-packSize">Pack Size</Label>
+                <Input
+                  id="edit-packSize"
+                  type="number"
+                  min="1"
+                  value={formData.packSize}
+                  onChange={(e) => setFormData({ ...formData, packSize: e.target.value })}
+                  placeholder="Units per pack"
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-minOrderQuantity">Minimum Order Quantity</Label>
+                <Input
+                  id="edit-minOrderQuantity"
+                  type="number"
+                  min="1"
+                  value={formData.minOrderQuantity}
+                  onChange={(e) => setFormData({ ...formData, minOrderQuantity: e.target.value })}
+                  placeholder="1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-quantityStep">Quantity Step</Label>
+                <Input
+                  id="edit-quantityStep"
+                  type="number"
+                  min="1"
+                  value={formData.quantityStep}
+                  onChange={(e) => setFormData({ ...formData, quantityStep: e.target.value })}
+                  placeholder="Pack size"
+                />
+              </div>
+            </div>
             <div>
               <Label>Product Image</Label>
               <div className="flex items-center gap-4 mb-2">
@@ -1024,11 +1266,23 @@ const ProductManagement = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label>Price</Label>
-                  <p className="text-sm font-medium">₹{selectedProduct.price.toFixed(2)}</p>
+                  <p className="text-sm font-medium">₹{getCurrentPrice(selectedProduct.priceVersions, selectedProduct.price).toFixed(2)}</p>
                 </div>
                 <div>
                   <Label>Stock</Label>
-                  <p className="text-sm font-medium">{selectedProduct.stock || 0}</p>
+                  <p className="text-sm font-medium">
+                    {selectedProduct.trackInventory ? selectedProduct.stock ?? 0 : 'Not tracked'}
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>HSN/SAC Code</Label>
+                  <p className="text-sm font-medium">{selectedProduct.hsnCode || '-'}</p>
+                </div>
+                <div>
+                  <Label>GST Rate</Label>
+                  <p className="text-sm font-medium">{selectedProduct.gstRate ?? 0}%</p>
                 </div>
               </div>
               {selectedProduct.category && (
@@ -1079,6 +1333,13 @@ const ProductManagement = () => {
         </DialogContent>
       </Dialog>
 
+      <StockHistoryDialog
+        productId={stockHistoryProductId}
+        token={user?.token}
+        onOpenChange={(open) => !open && setStockHistoryProductId(null)}
+        onChange={loadProducts}
+      />
+
       {/* Delete Product Alert Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
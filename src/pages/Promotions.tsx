@@ -0,0 +1,625 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getApiUrl } from '@/lib/api';
+import { getErrorMessage } from '@/lib/utils';
+import { toValidFrom, toValidTo } from '@/lib/price-versions';
+import {
+  Promotion,
+  PromotionState,
+  PromotionType,
+  describeOffer,
+  getPromotionState,
+  promotionTypeLabels,
+} from '@/lib/promotions';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Loader2, Pencil, Plus, Tag, Trash2 } from 'lucide-react';
+
+interface PromotionOptions {
+  products: { _id: string; name: string; category?: string }[];
+  categories: string[];
+  customers: { _id: string; name: string; email: string }[];
+}
+
+interface PromotionForm {
+  name: string;
+  description: string;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  code: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  startDay: string;
+  lastDay: string; // Inclusive; saved as the exclusive endsAt
+  productIds: string[];
+  categories: string[];
+  customerIds: string[];
+  isActive: boolean;
+}
+
+const stateBadges: Record<PromotionState, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/30' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/30' },
+  paused: { label: 'Paused', className: 'bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/30' },
+  'used-up': { label: 'Used up', className: 'bg-muted text-muted-foreground' },
+  ended: { label: 'Ended', className: 'bg-muted text-muted-foreground' },
+};
+
+// "YYYY-MM-DD" in the user's time zone, as date inputs hold it
+const toDay = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const emptyForm = (): PromotionForm => ({
+  name: '',
+  description: '',
+  type: 'percentage',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  code: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+  startDay: toDay(new Date()),
+  lastDay: '',
+  productIds: [],
+  categories: [],
+  customerIds: [],
+  isActive: true,
+});
+
+const toForm = (promotion: Promotion): PromotionForm => {
+  const lastDay = new Date(promotion.endsAt);
+  lastDay.setDate(lastDay.getDate() - 1);
+  return {
+    name: promotion.name,
+    description: promotion.description || '',
+    type: promotion.type,
+    value: promotion.value?.toString() || '',
+    buyQuantity: promotion.buyQuantity?.toString() || '',
+    getQuantity: promotion.getQuantity?.toString() || '',
+    code: promotion.code || '',
+    usageLimit: promotion.usageLimit?.toString() || '',
+    perCustomerLimit: promotion.perCustomerLimit?.toString() || '',
+    startDay: toDay(new Date(promotion.startsAt)),
+    lastDay: toDay(lastDay),
+    productIds: promotion.productIds,
+    categories: promotion.categories,
+    customerIds: promotion.customerIds,
+    isActive: promotion.isActive,
+  };
+};
+
+// What the API expects for a promotion, from a form or an existing promotion
+const toPayload = (form: PromotionForm) => ({
+  name: form.name,
+  description: form.description,
+  type: form.type,
+  value: form.value,
+  buyQuantity: form.buyQuantity,
+  getQuantity: form.getQuantity,
+  code: form.code,
+  usageLimit: form.usageLimit,
+  perCustomerLimit: form.perCustomerLimit,
+  startsAt: toValidFrom(form.startDay),
+  endsAt: toValidTo(form.lastDay),
+  productIds: form.productIds,
+  categories: form.categories,
+  customerIds: form.customerIds,
+  isActive: form.isActive,
+});
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const Promotions = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [options, setOptions] = useState<PromotionOptions>({ products: [], categories: [], customers: [] });
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<Promotion | null>(null);
+
+  useEffect(() => {
+    if (!user?.token) return;
+    loadPromotions();
+    loadOptions();
+  }, [user?.token]);
+
+  const loadPromotions = async () => {
+    if (!user?.token) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<Promotion[]>('/api/promotions', user.token, { skipCache: true });
+      setPromotions(data);
+    } catch (error) {
+      console.error('Load promotions error:', error);
+      toast({
+        title: 'Failed to load promotions',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOptions = async () => {
+    if (!user?.token) return;
+    try {
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<PromotionOptions>('/api/promotions/options', user.token);
+      setOptions(data);
+    } catch (error) {
+      console.error('Load promotion options error:', error);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEdit = (promotion: Promotion) => {
+    setEditing(promotion);
+    setForm(toForm(promotion));
+    setDialogOpen(true);
+  };
+
+  const savePromotion = async (payload: ReturnType<typeof toPayload>, promotionId?: string) => {
+    const res = await fetch(getApiUrl(promotionId ? `/api/promotions/${promotionId}` : '/api/promotions'), {
+      method: promotionId ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${user?.token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to save promotion');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.startDay || !form.lastDay) {
+      toast({
+        title: 'Missing details',
+        description: 'Enter a name and the first and last day of the promotion.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await savePromotion(toPayload(form), editing?._id);
+      toast({
+        title: editing ? 'Promotion updated' : 'Promotion created',
+        description: `${form.name.trim()} has been saved.`,
+        variant: 'success',
+      });
+      setDialogOpen(false);
+      void loadPromotions();
+    } catch (error) {
+      console.error('Save promotion error:', error);
+      toast({
+        title: 'Failed to save promotion',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, isActive: boolean) => {
+    try {
+      await savePromotion(toPayload({ ...toForm(promotion), isActive }), promotion._id);
+      setPromotions((prev) => prev.map((p) => (p._id === promotion._id ? { ...p, isActive } : p)));
+    } catch (error) {
+      console.error('Toggle promotion error:', error);
+      toast({
+        title: 'Failed to update promotion',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      const res = await fetch(getApiUrl(`/api/promotions/${deleting._id}`), {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${user?.token}`,
+        },
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to delete promotion');
+      }
+      toast({
+        title: 'Promotion deleted',
+        description: 'Orders that used it keep their discounts.',
+        variant: 'success',
+      });
+      setPromotions((prev) => prev.filter((p) => p._id !== deleting._id));
+    } catch (error) {
+      console.error('Delete promotion error:', error);
+      toast({
+        title: 'Failed to delete promotion',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  // e.g. "2 products, 1 category · 3 customers"
+  const describeScope = (promotion: Promotion) => {
+    const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+    const items = [
+      promotion.productIds.length > 0 && plural(promotion.productIds.length, 'product', 'products'),
+      promotion.categories.length > 0 && plural(promotion.categories.length, 'category', 'categories'),
+    ].filter(Boolean);
+    const customers = promotion.customerIds.length > 0 ? plural(promotion.customerIds.length, 'customer', 'customers') : 'All customers';
+    return `${items.length > 0 ? items.join(', ') : 'All products'} · ${customers}`;
+  };
+
+  const formatDay = (date: Date) => date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const setField = <K extends keyof PromotionForm>(key: K, value: PromotionForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-transparent relative">
+        <Header />
+        <main className="container mx-auto px-4 md:px-6 pt-24 md:pt-28 pb-12 relative z-10">
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="flex flex-col items-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-sm text-muted-foreground">Loading promotions...</p>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <Header />
+      <main className="container mx-auto px-4 md:px-6 pt-24 md:pt-28 pb-12 relative z-10">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate('/dashboard')}
+          className="mb-6 rounded-full"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+
+        <div className="mb-4 md:mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 flex items-center gap-2 tracking-tight">
+              <Tag className="h-6 w-6 md:h-8 md:w-8 text-primary shrink-0" />
+              Promotions
+            </h1>
+            <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">
+              {user?.role === 'distributor'
+                ? 'Discounts and coupon codes for your customers'
+                : "Discounts and coupon codes for your distributors' customers"}
+            </p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Promotion
+          </Button>
+        </div>
+
+        {promotions.length === 0 ? (
+          <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No promotions yet. Create one to offer a discount or a coupon code.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-3 md:gap-4">
+            {promotions.map((promotion) => {
+              const state = stateBadges[getPromotionState(promotion)];
+              const lastDay = new Date(promotion.endsAt);
+              lastDay.setDate(lastDay.getDate() - 1);
+              return (
+                <Card
+                  key={promotion._id}
+                  className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl flex flex-col"
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="text-base md:text-lg truncate">{promotion.name}</CardTitle>
+                        <CardDescription>{describeOffer(promotion)}</CardDescription>
+                      </div>
+                      <Badge variant="outline" className={state.className}>
+                        {state.label}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex-1 flex flex-col gap-2 text-sm">
+                    {promotion.description && <p className="text-muted-foreground">{promotion.description}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                      {promotion.code ? (
+                        <Badge variant="secondary" className="font-mono">{promotion.code}</Badge>
+                      ) : (
+                        <Badge variant="secondary">Automatic</Badge>
+                      )}
+                      <span className="text-muted-foreground">
+                        {formatDay(new Date(promotion.startsAt))} – {formatDay(lastDay)}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground">{describeScope(promotion)}</p>
+                    <p className="text-muted-foreground">
+                      Used {promotion.usedCount}
+                      {promotion.usageLimit ? ` of ${promotion.usageLimit}` : ''} times
+                      {promotion.perCustomerLimit ? ` · ${promotion.perCustomerLimit} per customer` : ''}
+                    </p>
+                    <div className="mt-auto pt-3 flex items-center justify-between border-t">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`active-${promotion._id}`}
+                          checked={promotion.isActive}
+                          onCheckedChange={(checked) => handleToggleActive(promotion, checked)}
+                        />
+                        <Label htmlFor={`active-${promotion._id}`} className="text-sm">
+                          {promotion.isActive ? 'On' : 'Off'}
+                        </Label>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(promotion)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeleting(promotion)} title="Delete">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Promotion' : 'New Promotion'}</DialogTitle>
+            <DialogDescription>
+              Promotions without a code apply to every order they match. With a code, customers enter it at checkout.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promotionName">Name</Label>
+                <Input id="promotionName" value={form.name} onChange={(e) => setField('name', e.target.value)} placeholder="Diwali sale" />
+              </div>
+              <div className="space-y-2">
+                <Label>Offer</Label>
+                <Select value={form.type} onValueChange={(value) => setField('type', value as PromotionType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(promotionTypeLabels) as PromotionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {promotionTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promotionDescription">Description</Label>
+              <Textarea
+                id="promotionDescription"
+                value={form.description}
+                onChange={(e) => setField('description', e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            {form.type === 'buy-x-get-y' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="buyQuantity">Buy</Label>
+                  <Input id="buyQuantity" type="number" min="1" value={form.buyQuantity} onChange={(e) => setField('buyQuantity', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="getQuantity">Get free</Label>
+                  <Input id="getQuantity" type="number" min="1" value={form.getQuantity} onChange={(e) => setField('getQuantity', e.target.value)} />
+                </div>
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  Counted per product line: of every {form.buyQuantity || 'X'} + {form.getQuantity || 'Y'} units, {form.getQuantity || 'Y'} are free.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="promotionValue">{form.type === 'percentage' ? 'Percent off' : 'Amount off per order (₹)'}</Label>
+                <Input
+                  id="promotionValue"
+                  type="number"
+                  min="0"
+                  max={form.type === 'percentage' ? '100' : undefined}
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => setField('value', e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promotionCode">Coupon code</Label>
+                <Input
+                  id="promotionCode"
+                  value={form.code}
+                  onChange={(e) => setField('code', e.target.value.toUpperCase())}
+                  placeholder="Optional"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="usageLimit">Total uses</Label>
+                <Input id="usageLimit" type="number" min="1" value={form.usageLimit} onChange={(e) => setField('usageLimit', e.target.value)} placeholder="Unlimited" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="perCustomerLimit">Uses per customer</Label>
+                <Input
+                  id="perCustomerLimit"
+                  type="number"
+                  min="1"
+                  value={form.perCustomerLimit}
+                  onChange={(e) => setField('perCustomerLimit', e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDay">First day</Label>
+                <Input id="startDay" type="date" value={form.startDay} onChange={(e) => setField('startDay', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lastDay">Last day</Label>
+                <Input id="lastDay" type="date" min={form.startDay} value={form.lastDay} onChange={(e) => setField('lastDay', e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Products</Label>
+                <div className="h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {options.products.map((product) => (
+                    <label key={product._id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.productIds.includes(product._id)}
+                        onCheckedChange={() => setField('productIds', toggleValue(form.productIds, product._id))}
+                      />
+                      <span className="truncate">{product.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Categories</Label>
+                <div className="h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {options.categories.map((category) => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.categories.includes(category)}
+                        onCheckedChange={() => setField('categories', toggleValue(form.categories, category))}
+                      />
+                      <span className="truncate">{category}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Customers</Label>
+                <div className="h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {options.customers.map((customer) => (
+                    <label key={customer._id} className="flex items-center gap-2 text-sm" title={customer.email}>
+                      <Checkbox
+                        checked={form.customerIds.includes(customer._id)}
+                        onCheckedChange={() => setField('customerIds', toggleValue(form.customerIds, customer._id))}
+                      />
+                      <span className="truncate">{customer.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave products and categories unticked to cover every product, and customers unticked to offer it to all your customers.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <Switch id="promotionActive" checked={form.isActive} onCheckedChange={(checked) => setField('isActive', checked)} />
+              <Label htmlFor="promotionActive">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Create Promotion'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Promotion</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {deleting?.name}? It will no longer apply to new orders. Orders that already used it keep their discounts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Promotions;
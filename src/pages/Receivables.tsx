@@ -0,0 +1,236 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, Wallet } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNavigate } from 'react-router-dom';
+import { getErrorMessage } from '@/lib/utils';
+
+type ReceivableBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+interface ReceivableOrder {
+  _id: string;
+  orderNumber: string;
+  totalAmount: number;
+  paid: number;
+  balance: number;
+  receivedAt: string;
+  daysOutstanding: number;
+  bucket: ReceivableBucket;
+}
+
+interface CustomerReceivable {
+  customerId: string;
+  name: string;
+  email: string;
+  distributorName?: string;
+  outstanding: number;
+  buckets: Record<ReceivableBucket, number>;
+  orders: ReceivableOrder[];
+}
+
+interface ReceivablesReport {
+  buckets: ReceivableBucket[];
+  totals: { outstanding: number; buckets: Record<ReceivableBucket, number> };
+  customers: CustomerReceivable[];
+}
+
+const bucketLabels: Record<ReceivableBucket, string> = {
+  '0-30': '0–30 days',
+  '31-60': '31–60 days',
+  '61-90': '61–90 days',
+  '90+': '90+ days',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const Receivables = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [report, setReport] = useState<ReceivablesReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedCustomers, setExpandedCustomers] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!user?.token) return;
+    loadReceivables();
+  }, [user?.token]);
+
+  const loadReceivables = async () => {
+    if (!user?.token) return;
+    try {
+      setLoading(true);
+      const { cachedFetch } = await import('@/lib/cached-fetch');
+      const data = await cachedFetch<ReceivablesReport>('/api/receivables', user.token, { skipCache: true });
+      setReport(data);
+    } catch (error) {
+      console.error('Load receivables error:', error);
+      toast({
+        title: 'Failed to load receivables',
+        description: getErrorMessage(error, 'Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCustomer = (customerId: string) => {
+    setExpandedCustomers(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(customerId)) {
+        newSet.delete(customerId);
+      } else {
+        newSet.add(customerId);
+      }
+      return newSet;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-transparent relative">
+        <Header />
+        <main className="container mx-auto px-4 md:px-6 pt-24 md:pt-28 pb-12 relative z-10">
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="flex flex-col items-center gap-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-sm text-muted-foreground">Loading receivables...</p>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const buckets = report?.buckets || (Object.keys(bucketLabels) as ReceivableBucket[]);
+  const showDistributor = user?.role !== 'distributor';
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <Header />
+      <main className="container mx-auto px-4 md:px-6 pt-24 md:pt-28 pb-12 relative z-10">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate('/dashboard')}
+          className="mb-6 rounded-full"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+
+        <div className="mb-4 md:mb-6">
+          <h1 className="font-sans text-2xl md:text-4xl font-bold mb-1 md:mb-2 flex items-center gap-2 tracking-tight">
+            <Wallet className="h-6 w-6 md:h-8 md:w-8 text-primary shrink-0" />
+            Receivables
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 font-medium text-sm md:text-base">
+            Outstanding balances on delivered orders, aged from the delivery date
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 md:gap-4 mb-6">
+          <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+            <CardHeader className="pb-2">
+              <CardDescription>Total Outstanding</CardDescription>
+              <CardTitle className="text-xl md:text-2xl">{formatAmount(report?.totals.outstanding || 0)}</CardTitle>
+            </CardHeader>
+          </Card>
+          {buckets.map((bucket) => (
+            <Card key={bucket} className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+              <CardHeader className="pb-2">
+                <CardDescription>{bucketLabels[bucket]}</CardDescription>
+                <CardTitle className={`text-xl md:text-2xl ${bucket === '90+' && (report?.totals.buckets[bucket] || 0) > 0 ? 'text-destructive' : ''}`}>
+                  {formatAmount(report?.totals.buckets[bucket] || 0)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        {!report || report.customers.length === 0 ? (
+          <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+            <CardContent className="py-12 text-center">
+              <Wallet className="h-12 w-12 mx-auto mb-4 text-gray-600 dark:text-gray-400" />
+              <p className="text-gray-600 dark:text-gray-400 font-medium">No outstanding balances.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="bg-white/95 dark:bg-black/95 backdrop-blur-xl border border-white/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="font-bold">By Customer ({report.customers.length})</CardTitle>
+              <CardDescription className="text-slate-600 dark:text-slate-400 font-medium">
+                Click a customer to see the orders making up their balance
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    {showDistributor && <TableHead>Distributor</TableHead>}
+                    {buckets.map((bucket) => (
+                      <TableHead key={bucket} className="text-right">{bucketLabels[bucket]}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.customers.map((customer) => {
+                    const isExpanded = expandedCustomers.has(customer.customerId);
+                    return (
+                      <Fragment key={customer.customerId}>
+                        <TableRow className="cursor-pointer" onClick={() => toggleCustomer(customer.customerId)}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              <div>
+                                <p className="font-medium">{customer.name}</p>
+                                <p className="text-xs text-muted-foreground">{customer.email}</p>
+                              </div>
+                            </div>
+                          </TableCell>
+                          {showDistributor && <TableCell>{customer.distributorName || '-'}</TableCell>}
+                          {buckets.map((bucket) => (
+                            <TableCell key={bucket} className="text-right">
+                              {customer.buckets[bucket] > 0 ? formatAmount(customer.buckets[bucket]) : '-'}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-semibold">{formatAmount(customer.outstanding)}</TableCell>
+                        </TableRow>
+                        {isExpanded && customer.orders.map((order) => (
+                          <TableRow key={order._id} className="bg-muted/30 text-sm">
+                            <TableCell colSpan={showDistributor ? 2 : 1} className="pl-10">
+                              Order #{order.orderNumber}
+                              <span className="text-muted-foreground">
+                                {' '}· delivered {new Date(order.receivedAt).toLocaleDateString('en-IN')}
+                              </span>
+                            </TableCell>
+                            <TableCell colSpan={buckets.length} className="text-right text-muted-foreground">
+                              {formatAmount(order.paid)} paid of {formatAmount(order.totalAmount)}{' '}
+                              <Badge variant={order.bucket === '90+' ? 'destructive' : 'secondary'} className="ml-2">
+                                {order.daysOutstanding} days
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{formatAmount(order.balance)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Receivables;
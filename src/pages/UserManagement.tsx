@@ -82,6 +82,8 @@ interface ManagedUser {
   };
   registrationNo?: string;
   registrationCopyUrl?: string;
+  creditLimit?: number;
+  minimumOrderValue?: number;
   createdBy?: {
     _id: string;
     name: string;
@@ -140,6 +142,8 @@ const UserManagement = () => {
     },
     registrationNo: '',
     registrationCopyUrl: '',
+    creditLimit: '',
+    minimumOrderValue: '',
   });
 
   const [suggestedUID, setSuggestedUID] = useState('');
@@ -442,6 +446,8 @@ const UserManagement = () => {
       },
       registrationNo: '',
       registrationCopyUrl: '',
+      creditLimit: '',
+      minimumOrderValue: '',
     });
     setSuggestedUID('');
     setRegistrationType('none');
@@ -467,6 +473,9 @@ const UserManagement = () => {
         body: JSON.stringify({
           ...formData,
           address: Object.values(formData.address).some((v) => v) ? formData.address : undefined,
+          creditLimit: canSetCreditLimit && formData.creditLimit !== '' ? Number(formData.creditLimit) : undefined,
+          minimumOrderValue:
+            canSetMinimumOrderValue && formData.minimumOrderValue !== '' ? Number(formData.minimumOrderValue) : undefined,
         }),
       });
 
@@ -524,6 +533,14 @@ const UserManagement = () => {
         updateData.password = formData.password;
       }
 
+      // Clearing the field removes the customer's credit limit
+      if (canSetCreditLimit) {
+        updateData.creditLimit = formData.creditLimit !== '' ? Number(formData.creditLimit) : null;
+      }
+      if (canSetMinimumOrderValue) {
+        updateData.minimumOrderValue = formData.minimumOrderValue !== '' ? Number(formData.minimumOrderValue) : null;
+      }
+
       const res = await fetch(getApiUrl(`/api/admin/users/${selectedUser._id}`), {
         method: 'PUT',
         headers: {
@@ -617,6 +634,8 @@ const UserManagement = () => {
       },
       registrationNo: userData.registrationNo || '',
       registrationCopyUrl: userData.registrationCopyUrl || '',
+      creditLimit: userData.creditLimit !== undefined ? userData.creditLimit.toString() : '',
+      minimumOrderValue: userData.minimumOrderValue !== undefined ? userData.minimumOrderValue.toString() : '',
     });
     setRegistrationType(hasRegNo ? 'number' : hasRegCopy ? 'copy' : 'none');
     setEditDialogOpen(true);
@@ -629,6 +648,14 @@ const UserManagement = () => {
 
   const filteredUsers = useMemo(() => users, [users]);
 
+  // Distributors set credit limits for their own customers
+  const canSetCreditLimit = user?.role === 'distributor' && formData.role === 'customer';
+  // Admins set the minimum order value for their own distributors
+  const canSetMinimumOrderValue =
+    user?.role === 'admin' &&
+    formData.role === 'distributor' &&
+    (!editDialogOpen || selectedUser?.parentId?._id === user.id);
+
   const renderUserForm = (isEdit = false) => (
     <div className="space-y-4 max-h-[70vh] overflow-y-auto pl-1 pr-3">
       <div className="grid grid-cols-2 gap-4">
@@ -739,6 +766,42 @@ const UserManagement = () => {
         </div>
       </div>
 
+      {canSetCreditLimit && (
+        <div className="space-y-2">
+          <Label htmlFor="creditLimit">Credit Limit (₹)</Label>
+          <Input
+            id="creditLimit"
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.creditLimit}
+            onChange={(e) => setFormData((prev) => ({ ...prev, creditLimit: e.target.value }))}
+            placeholder="Leave blank for no limit"
+          />
+          <p className="text-xs text-muted-foreground">
+            Orders that take the customer's outstanding balance over this limit need your approval
+          </p>
+        </div>
+      )}
+
+      {canSetMinimumOrderValue && (
+        <div className="space-y-2">
+          <Label htmlFor="minimumOrderValue">Minimum Order Value (₹)</Label>
+          <Input
+            id="minimumOrderValue"
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.minimumOrderValue}
+            onChange={(e) => setFormData((prev) => ({ ...prev, minimumOrderValue: e.target.value }))}
+            placeholder="Leave blank for no minimum"
+          />
+          <p className="text-xs text-muted-foreground">
+            Customers of this distributor can't place orders worth less than this before GST
+          </p>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="mobileNo">Mobile Number</Label>